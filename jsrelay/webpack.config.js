@@ -8,6 +8,10 @@ module.exports = {
     new IgnorePlugin(/^scrypt$/)
   ],
   target: 'node',
+  // native module, loaded from node_modules when the sqlite txStoreBackend is used
+  externals: {
+    'better-sqlite3': 'commonjs better-sqlite3'
+  },
   entry: '../dist/src/relayserver/runServer.js',
   mode: 'development',
   module: {
@@ -0,0 +1,64 @@
+import fs from 'fs'
+
+import { envelopingCommander } from '../utils'
+import { KEYSTORE_FILENAME } from '../../relayserver/KeyManager'
+import {
+  changeKeystorePassphrase,
+  decryptKeystore,
+  isEncryptedKeystore,
+  promptPassphrase,
+  readKeystorePassphrase
+} from '../../relayserver/Keystore'
+
+function error (s: string): never {
+  console.error(s)
+  process.exit(1)
+}
+
+const commander = envelopingCommander([])
+  .option('-w, --workdir <path>', 'working directory of the relay server')
+  .option('--old-passphrase-file <path>', 'file with the current passphrase, if ENVELOPING_KEYSTORE_PASSPHRASE is not set (default: prompt)')
+  .option('--new-passphrase-file <path>', 'file with the new passphrase (default: prompt)')
+  .parse(process.argv);
+
+(async () => {
+  const { workdir, oldPassphraseFile, newPassphraseFile } = commander
+  if (workdir == null) {
+    error('Please specify the --workdir of the relay server')
+  }
+  const keystorePaths = ['manager', 'workers']
+    .map(keyManager => `${workdir as string}/${keyManager}/${KEYSTORE_FILENAME}`)
+    .filter(keystorePath => fs.existsSync(keystorePath))
+  if (keystorePaths.length === 0) {
+    error(`No keystore found in ${workdir as string}`)
+  }
+  const keystores = keystorePaths.map(keystorePath => JSON.parse(fs.readFileSync(keystorePath).toString()))
+  const encrypted = keystores.some(isEncryptedKeystore)
+  const oldPassphrase = encrypted
+    ? await readKeystorePassphrase({ keystorePassphraseFile: oldPassphraseFile ?? '', keystorePassphrasePrompt: true })
+    : undefined
+  let newPassphrase = await readKeystorePassphrase({ keystorePassphraseFile: newPassphraseFile ?? '', keystorePassphrasePrompt: false }, {})
+  if (newPassphrase == null) {
+    newPassphrase = await promptPassphrase('New keystore passphrase: ')
+    if (newPassphrase !== await promptPassphrase('Repeat the new keystore passphrase: ')) {
+      error('The passphrases do not match')
+    }
+    if (newPassphrase === '') {
+      error('The keystore passphrase is empty')
+    }
+  }
+  // all the keystores are decrypted before any is written, so a wrong passphrase leaves them all unchanged
+  keystores.filter(isEncryptedKeystore).forEach(keystore => decryptKeystore(keystore, oldPassphrase as string))
+  keystorePaths.forEach(keystorePath => {
+    changeKeystorePassphrase(keystorePath, oldPassphrase, { passphrase: newPassphrase as string })
+    console.log(`Changed the passphrase of ${keystorePath}`)
+  })
+  console.log('Set the new passphrase in ENVELOPING_KEYSTORE_PASSPHRASE or keystorePassphraseFile before restarting the relay server')
+})()
+  .then(() => process.exit(0))
+  .catch(
+    reason => {
+      console.error(reason)
+      process.exit(1)
+    }
+  )
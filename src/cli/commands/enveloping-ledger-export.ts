@@ -0,0 +1,63 @@
+import fs from 'fs'
+import log from 'loglevel'
+
+import { envelopingCommander } from '../utils'
+import {
+  getLedgerPeriod,
+  ledgerEntriesToCsv,
+  ledgerSummaryToCsv,
+  LEDGER_FILENAME,
+  RevenueLedger,
+  summarizeLedger
+} from '../../relayserver/RevenueLedger'
+
+function error (s: string): never {
+  console.error(s)
+  process.exit(1)
+}
+
+const commander = envelopingCommander([])
+  .option('-w, --workdir <path>', 'working directory of the relay server')
+  .option('--format <csv|json>', 'output format', 'json')
+  .option('--summary', 'export the per-day and per-token aggregates instead of the transactions')
+  .option('--from <YYYY-MM-DD>', 'first UTC day exported')
+  .option('--to <YYYY-MM-DD>', 'last UTC day exported')
+  .option('-o, --output <file>', 'file to write the export to (default: stdout)')
+  .parse(process.argv);
+
+(async () => {
+  const { workdir, format, summary, from, to, output } = commander
+  if (workdir == null) {
+    error('Please specify the --workdir of the relay server')
+  }
+  if (!fs.existsSync(`${workdir as string}/${LEDGER_FILENAME}`)) {
+    error(`No ledger found in ${workdir as string}`)
+  }
+  if (format !== 'csv' && format !== 'json') {
+    error(`Invalid --format ${format as string}: must be csv or json`)
+  }
+  // the database location would be printed along with the export
+  log.setLevel('error')
+  const { fromTimestamp, toTimestamp } = getLedgerPeriod(from, to)
+  const entries = await new RevenueLedger({ workdir }).getEntries(fromTimestamp, toTimestamp)
+  let content: string
+  if (summary === true) {
+    const ledgerSummary = summarizeLedger(entries)
+    content = format === 'csv' ? ledgerSummaryToCsv(ledgerSummary) : JSON.stringify(ledgerSummary, null, 2) + '\n'
+  } else {
+    content = format === 'csv' ? ledgerEntriesToCsv(entries) : JSON.stringify(entries, null, 2) + '\n'
+  }
+  if (output != null) {
+    fs.writeFileSync(output, content)
+    console.error(`Exported ${entries.length} transactions to ${output as string}`)
+  } else {
+    process.stdout.write(content)
+  }
+})()
+  .then(() => process.exit(0))
+  .catch(
+    reason => {
+      console.error(reason)
+      process.exit(1)
+    }
+  )
@@ -0,0 +1,46 @@
+import fs from 'fs'
+import log from 'loglevel'
+
+import { envelopingCommander } from '../utils'
+import { copyTxStore } from '../../relayserver/TxStore'
+import { TxStoreManager, TXSTORE_FILENAME } from '../../relayserver/TxStoreManager'
+import { SqliteTxStore, TXSTORE_SQLITE_FILENAME } from '../../relayserver/SqliteTxStore'
+
+function error (s: string): never {
+  console.error(s)
+  process.exit(1)
+}
+
+const commander = envelopingCommander([])
+  .option('-w, --workdir <path>', 'working directory of the relay server')
+  .parse(process.argv);
+
+(async () => {
+  const { workdir } = commander
+  if (workdir == null) {
+    error('Please specify the --workdir of the relay server')
+  }
+  if (!fs.existsSync(`${workdir as string}/${TXSTORE_FILENAME}`)) {
+    error(`No ${TXSTORE_FILENAME} found in ${workdir as string}`)
+  }
+  // the database locations would be printed along with the result
+  log.setLevel('error')
+  const sqliteTxStore = new SqliteTxStore({ workdir })
+  try {
+    const existing = (await sqliteTxStore.getAll()).length
+    if (existing > 0) {
+      error(`${workdir as string}/${TXSTORE_SQLITE_FILENAME} already has ${existing} transactions, not migrating`)
+    }
+    const migrated = await copyTxStore(new TxStoreManager({ workdir }), sqliteTxStore)
+    console.error(`Migrated ${migrated} transactions from ${TXSTORE_FILENAME} to ${TXSTORE_SQLITE_FILENAME}, start the server with txStoreBackend: 'sqlite' to use them`)
+  } finally {
+    sqliteTxStore.close()
+  }
+})()
+  .then(() => process.exit(0))
+  .catch(
+    reason => {
+      console.error(reason)
+      process.exit(1)
+    }
+  )
@@ -0,0 +1,64 @@
+import axios from 'axios'
+
+import { envelopingCommander } from '../utils'
+import { createAdminNonce, signAdminRequest } from '../../relayserver/AdminApi'
+
+// environment variables the admin credentials are read from, if not given as options
+const ADMIN_TOKEN_ENV = 'ENVELOPING_ADMIN_TOKEN'
+const ADMIN_HMAC_SECRET_ENV = 'ENVELOPING_ADMIN_HMAC_SECRET'
+
+function error (s: string): never {
+  console.error(s)
+  process.exit(1)
+}
+
+const commander = envelopingCommander([])
+  .option('-u, --url <url>', 'URL of the relay server', 'http://localhost:8090')
+  .option('-i, --worker-index <number>', 'index of the worker to replace with a new one')
+  .option('-l, --list', 'list the worker rotations and their state instead')
+  .option('--admin-token <token>', `bearer token of the admin API (default: $${ADMIN_TOKEN_ENV})`)
+  .option('--admin-hmac-secret <secret>', `HMAC secret of the admin API, used if there is no token (default: $${ADMIN_HMAC_SECRET_ENV})`)
+  .parse(process.argv);
+
+(async () => {
+  const { url, workerIndex, list } = commander
+  const adminToken: string | undefined = commander.adminToken ?? process.env[ADMIN_TOKEN_ENV]
+  const adminHmacSecret: string | undefined = commander.adminHmacSecret ?? process.env[ADMIN_HMAC_SECRET_ENV]
+  if (list !== true && workerIndex == null) {
+    error('Please specify the --worker-index of the worker to rotate, or --list')
+  }
+  if (workerIndex != null && !/^\d+$/.test(workerIndex)) {
+    error(`Invalid --worker-index ${workerIndex as string}: must be a number`)
+  }
+  if (adminToken == null && adminHmacSecret == null) {
+    error(`Please specify the --admin-token or --admin-hmac-secret of the relay server, or set ${ADMIN_TOKEN_ENV}`)
+  }
+  const baseUrl = new URL(url)
+  const path = list === true ? '/admin/workers/rotations' : '/admin/workers/rotate'
+  const method = list === true ? 'GET' : 'POST'
+  const body = list === true ? '' : JSON.stringify({ workerIndex: parseInt(workerIndex) })
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (adminToken != null) {
+    headers.Authorization = `Bearer ${adminToken}`
+  } else {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const nonce = createAdminNonce()
+    headers['X-Admin-Timestamp'] = timestamp.toString()
+    headers['X-Admin-Nonce'] = nonce
+    headers['X-Admin-Signature'] = signAdminRequest(adminHmacSecret as string, timestamp, nonce, method, path, body)
+  }
+  try {
+    const { data } = await axios.request({ url: new URL(path, baseUrl).toString(), method, headers, data: body !== '' ? body : undefined })
+    console.log(JSON.stringify(list === true ? data.rotations : data.rotation, null, 2))
+  } catch (e) {
+    const reason: string = e.response?.data?.error ?? e.message
+    error(`Relay server ${url as string} failed to ${list === true ? 'list the worker rotations' : 'rotate the worker'}: ${reason}`)
+  }
+})()
+  .then(() => process.exit(0))
+  .catch(
+    reason => {
+      console.error(reason)
+      process.exit(1)
+    }
+  )
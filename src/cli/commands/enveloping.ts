@@ -11,4 +11,8 @@ commander
   .command('relayer-run', 'launch a relayer server')
   .command('status', 'status of the Enveloping network')
   .command('registry', 'VersionRegistry management')
+  .command('ledger-export', 'export the revenue ledger of a relay server as CSV or JSON')
+  .command('keystore-passphrase', 'encrypt the keystores of a relay server or change their passphrase')
+  .command('worker-rotate', 'replace a worker of a running relay server with a new one, or list the rotations')
+  .command('txstore-migrate', 'copy the transactions of the txstore.db of a stopped relay server to a SQLite txstore')
   .parse(process.argv)
@@ -1,7 +1,7 @@
 import Common from 'ethereumjs-common'
 import Web3 from 'web3'
 import log from 'loglevel'
-import { BlockTransactionString } from 'web3-eth'
+import { BlockTransactionObject, BlockTransactionString } from 'web3-eth'
 import { EventData, PastEventOptions } from 'web3-eth-contract'
 import { PrefixedHexString, TransactionOptions } from 'ethereumjs-tx'
 import {
@@ -19,6 +19,7 @@ import relayVerifierAbi from './interfaces/IRelayVerifier.json'
 import deployVerifierAbi from './interfaces/IDeployVerifier.json'
 
 import relayHubAbi from './interfaces/IRelayHub.json'
+import penalizerAbi from './interfaces/IPenalizer.json'
 import forwarderAbi from './interfaces/IForwarder.json'
 import smartWalletFactoryAbi from './interfaces/IWalletFactory.json'
 import tokenHandlerAbi from './interfaces/ITokenHandler.json'
@@ -31,6 +32,7 @@ import {
   IForwarderInstance,
   IRelayVerifierInstance,
   IRelayHubInstance,
+  IPenalizerInstance,
   IDeployVerifierInstance,
   IWalletFactoryInstance,
   ITokenHandlerInstance
@@ -39,7 +41,7 @@ import {
 import { Address, IntString } from '../relayclient/types/Aliases'
 import { EnvelopingConfig } from '../relayclient/Configurator'
 import EnvelopingTransactionDetails from '../relayclient/types/EnvelopingTransactionDetails'
-import { toBN, toHex } from 'web3-utils'
+import { AbiItem, toBN, toHex } from 'web3-utils'
 import BN from 'bn.js'
 import { DeployTransactionRequest, RelayTransactionRequest } from '../relayclient/types/RelayTransactionRequest'
 
@@ -51,6 +53,24 @@ require('source-map-support').install({ errorFormatterForce: true })
 
 type EventName = string
 
+// the functions of the ERC20 tokens the relay server collects the tokens paid to its workers with
+const erc20Abi: AbiItem[] = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ type: 'address', name: 'account' }],
+    outputs: [{ type: 'uint256', name: '' }]
+  },
+  {
+    name: 'transfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ type: 'address', name: 'recipient' }, { type: 'uint256', name: 'amount' }],
+    outputs: [{ type: 'bool', name: '' }]
+  }
+]
+
 export interface EstimateGasParams {
   from: Address
   to: Address
@@ -83,6 +103,7 @@ export default class ContractInteractor {
   private readonly ITokenHandlerContract: Contract<ITokenHandlerInstance>
 
   private readonly IRelayHubContract: Contract<IRelayHubInstance>
+  private readonly IPenalizerContract: Contract<IPenalizerInstance>
   private readonly IForwarderContract: Contract<IForwarderInstance>
   private readonly IWalletFactoryContract: Contract<IWalletFactoryInstance>
 
@@ -90,6 +111,7 @@ export default class ContractInteractor {
   private deployVerifierInstance!: IDeployVerifierInstance
 
   relayHubInstance!: IRelayHubInstance
+  private penalizerInstance?: IPenalizerInstance
 
   readonly web3: Web3
   private readonly provider: Web3Provider
@@ -123,6 +145,11 @@ export default class ContractInteractor {
       abi: relayHubAbi
     })
     // @ts-ignore
+    this.IPenalizerContract = TruffleContract({
+      contractName: 'IPenalizer',
+      abi: penalizerAbi
+    })
+    // @ts-ignore
     this.IForwarderContract = TruffleContract({
       contractName: 'IForwarder',
       abi: forwarderAbi
@@ -138,6 +165,7 @@ export default class ContractInteractor {
       abi: tokenHandlerAbi
     })
     this.IRelayHubContract.setProvider(this.provider, undefined)
+    this.IPenalizerContract.setProvider(this.provider, undefined)
     this.IRelayVerifierContract.setProvider(this.provider, undefined)
     this.IDeployVerifierContract.setProvider(this.provider, undefined)
     this.IForwarderContract.setProvider(this.provider, undefined)
@@ -147,6 +175,14 @@ export default class ContractInteractor {
 
   getProvider (): provider { return this.provider }
 
+  /**
+   * A contract interactor for another RelayHub deployment on the same node, to be initialized with {@link init}.
+   */
+  forRelayHub (addresses: Pick<EnvelopingConfig, 'relayHubAddress' | 'relayVerifierAddress' | 'deployVerifierAddress'>): ContractInteractor {
+    const { relayHubAddress, relayVerifierAddress, deployVerifierAddress } = addresses
+    return new ContractInteractor(this.provider, { ...this.config, relayHubAddress, relayVerifierAddress, deployVerifierAddress })
+  }
+
   async init (): Promise<void> {
     log.debug('Contract Interactor - Initializing')
     if (this.isInitialized()) {
@@ -154,7 +190,7 @@ export default class ContractInteractor {
     }
     await this._initializeContracts()
     log.debug('Contract Interactor - Initialized succesfully')
-    await this._validateCompatibility().catch(err => console.log('WARNING: beta ignore version compatibility', err.message))
+    await this._validateCompatibility().catch(err => log.warn('WARNING: beta ignore version compatibility', err.message))
     const chain = await this.web3.eth.net.getNetworkType()
     this.chainId = await this.getAsyncChainId()
     this.networkId = await this.web3.eth.net.getId()
@@ -202,7 +238,7 @@ export default class ContractInteractor {
       log.debug(`Contract Interactor - Deploy Verifier initialized: ${this.deployVerifierInstance.address}`)
     }
 
-    console.log('Contracts initialized correctly')
+    log.info('Contracts initialized correctly')
   }
 
   // must use these options when creating Transaction object
@@ -229,6 +265,20 @@ export default class ContractInteractor {
     return await this.IRelayHubContract.at(address)
   }
 
+  async _createPenalizer (address: Address): Promise<IPenalizerInstance> {
+    return await this.IPenalizerContract.at(address)
+  }
+
+  /**
+   * The penalizer the relay hub accepts penalizations from.
+   */
+  async _getPenalizer (): Promise<IPenalizerInstance> {
+    if (this.penalizerInstance == null) {
+      this.penalizerInstance = await this._createPenalizer(await this.relayHubInstance.penalizer())
+    }
+    return this.penalizerInstance
+  }
+
   async _createForwarder (address: Address): Promise<IForwarderInstance> {
     return await this.IForwarderContract.at(address)
   }
@@ -439,6 +489,37 @@ export default class ContractInteractor {
     return internalCallCost
   }
 
+  /**
+   * Estimate the gas the smart wallet spends paying `amount` tokens to the relay worker, as an internal call.
+   * @param tokenOrigin - the smart wallet holding the tokens
+   */
+  async estimateTokenTransferGas (tokenOrigin: Address, tokenContract: Address, relayWorker: Address, amount: IntString, gasPrice?: PrefixedHexString): Promise<number> {
+    const encodedFunction = this.web3.eth.abi.encodeFunctionCall({
+      name: 'transfer',
+      type: 'function',
+      inputs: [
+        {
+          type: 'address',
+          name: 'recipient'
+        }, {
+          type: 'uint256',
+          name: 'amount'
+        }
+      ]
+    },
+    [relayWorker, amount])
+
+    const gasCost = await this.estimateGas({
+      from: tokenOrigin, // token holder is the smart wallet
+      to: tokenContract,
+      gasPrice,
+      data: encodedFunction
+    })
+
+    const internalCallCost = gasCost > constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION ? gasCost - constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION : gasCost
+    return internalCallCost * constants.ESTIMATED_GAS_CORRECTION_FACTOR
+  }
+
   async getMaxViewableRelayGasLimit (relayRequest: RelayRequest, signature: PrefixedHexString): Promise<number> {
     const gasPrice = toBN(relayRequest.relayData.gasPrice)
     let gasLimit = 0
@@ -520,10 +601,25 @@ export default class ContractInteractor {
     return await this.web3.eth.getTransaction(transactionHash)
   }
 
+  /**
+   * Same as {@link getTransactionReceipt}, but without waiting
+   * @returns null if the transaction is not mined yet
+   */
+  async getTransactionReceiptIfMined (transactionHash: PrefixedHexString): Promise<TransactionReceipt | null> {
+    return await this.web3.eth.getTransactionReceipt(transactionHash)
+  }
+
   async getBlock (blockHashOrBlockNumber: BlockNumber): Promise<BlockTransactionString> {
     return await this.web3.eth.getBlock(blockHashOrBlockNumber)
   }
 
+  /**
+   * @param blockHashOrBlockNumber - a block, or 'pending' for the transactions waiting in the node mempool
+   */
+  async getBlockWithTransactions (blockHashOrBlockNumber: BlockNumber): Promise<BlockTransactionObject> {
+    return await this.web3.eth.getBlock(blockHashOrBlockNumber, true)
+  }
+
   validateAddress (address: string, exceptionTitle = 'invalid address:'): void {
     if (!this.web3.utils.isAddress(address)) { throw new Error(exceptionTitle + ' ' + address) }
   }
@@ -609,6 +705,45 @@ export default class ContractInteractor {
     return hub.contract.methods.addRelayWorkers(workers)
   }
 
+  async getDisableRelayWorkersMethod (workers: Address[]): Promise<any> {
+    const hub = this.relayHubInstance
+    return hub.contract.methods.disableRelayWorkers(workers)
+  }
+
+  /**
+   * @returns whether the worker is added to the hub by the manager, and not disabled
+   */
+  async isWorkerEnabled (managerAddress: Address, workerAddress: Address): Promise<boolean> {
+    const workerToManager = toBN(await this.relayHubInstance.workerToManager(workerAddress))
+    // the manager shifted by a nibble, with the right-most nibble set while enabled
+    return workerToManager.eq(toBN(managerAddress).shln(4).addn(1))
+  }
+
+  async getTokenBalance (tokenContract: Address, owner: Address): Promise<BN> {
+    const token = new this.web3.eth.Contract(erc20Abi, tokenContract)
+    return toBN(await token.methods.balanceOf(owner).call())
+  }
+
+  async getTokenTransferMethod (tokenContract: Address, recipient: Address, amount: BN): Promise<any> {
+    const token = new this.web3.eth.Contract(erc20Abi, tokenContract)
+    return token.methods.transfer(recipient, amount.toString())
+  }
+
+  async getWithdrawStakeMethod (managerAddress: Address): Promise<any> {
+    const hub = this.relayHubInstance
+    return hub.contract.methods.withdrawStake(managerAddress)
+  }
+
+  async getPenalizerAddress (): Promise<Address> {
+    return (await this._getPenalizer()).address
+  }
+
+  async getPenalizeRepeatedNonceMethod (unsignedTx1: PrefixedHexString, signature1: PrefixedHexString,
+    unsignedTx2: PrefixedHexString, signature2: PrefixedHexString): Promise<any> {
+    const penalizer = await this._getPenalizer()
+    return penalizer.contract.methods.penalizeRepeatedNonce(unsignedTx1, signature1, unsignedTx2, signature2, this.relayHubInstance.address)
+  }
+
   /**
    * Web3.js as of 1.2.6 (see web3-core-method::_confirmTransaction) does not allow
    * broadcasting of a transaction without waiting for it to be mined.
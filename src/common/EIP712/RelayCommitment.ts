@@ -0,0 +1,74 @@
+import { EIP712Domain, EIP712TypedData, EIP712TypeProperty, EIP712Types } from 'eth-sig-util'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address } from '../../relayclient/types/Aliases'
+import { EIP712DomainType } from './TypedRequestData'
+
+/**
+ * Version of the commitment format, used as the EIP-712 domain version.
+ * Bump it on any change to {@link RelayCommitmentType}.
+ */
+export const RELAY_COMMITMENT_VERSION = '1'
+
+export const RelayCommitmentDomainName = 'RSK Enveloping Relay Commitment'
+
+export const RelayCommitmentType = [
+  { name: 'relayRequestHash', type: 'bytes32' },
+  { name: 'relayHub', type: 'address' },
+  { name: 'relayManager', type: 'address' },
+  { name: 'relayWorker', type: 'address' },
+  { name: 'maxGas', type: 'uint256' },
+  { name: 'gasPrice', type: 'uint256' },
+  { name: 'relayMaxNonce', type: 'uint256' },
+  { name: 'deadline', type: 'uint256' }
+]
+
+/**
+ * What the relay manager commits to when accepting a relay request: the worker will send the request
+ * identified by `relayRequestHash` with at most `maxGas`, at `gasPrice`, with a nonce not above
+ * `relayMaxNonce`, before `deadline` (unix time in seconds).
+ */
+export interface RelayCommitment {
+  relayRequestHash: PrefixedHexString
+  relayHub: Address
+  relayManager: Address
+  relayWorker: Address
+  maxGas: string
+  gasPrice: string
+  relayMaxNonce: number
+  deadline: number
+}
+
+export interface SignedRelayCommitment {
+  version: string
+  commitment: RelayCommitment
+  // EIP-712 signature of the commitment by the relay manager
+  signature: PrefixedHexString
+}
+
+interface Types extends EIP712Types {
+  EIP712Domain: EIP712TypeProperty[]
+  RelayCommitment: EIP712TypeProperty[]
+}
+
+export default class TypedRelayCommitmentData implements EIP712TypedData {
+  readonly types: Types
+  readonly domain: EIP712Domain
+  readonly primaryType: string
+  readonly message: any
+
+  constructor (chainId: number, commitment: RelayCommitment) {
+    this.types = {
+      EIP712Domain: EIP712DomainType,
+      RelayCommitment: RelayCommitmentType
+    }
+    this.domain = {
+      name: RelayCommitmentDomainName,
+      version: RELAY_COMMITMENT_VERSION,
+      chainId,
+      verifyingContract: commitment.relayHub
+    }
+    this.primaryType = 'RelayCommitment'
+    this.message = commitment
+  }
+}
@@ -144,3 +144,14 @@ export const RequestType = {
   typeName: 'RelayRequest',
   typeSuffix: 'RelayData relayData)RelayData(uint256 gasPrice,bytes32 domainSeparator,address relayWorker,address callForwarder,address callVerifier)'
 }
+
+/**
+ * The EIP-712 digest the sender signs for the request; used to identify the request independently of the transaction relaying it.
+ */
+export function getRelayRequestHash (chainId: number, relayRequest: RelayRequest | DeployRequest): PrefixedHexString {
+  const isDeploy = (relayRequest as DeployRequest).request.recoverer !== undefined
+  const typedData = isDeploy
+    ? new TypedDeployRequestData(chainId, relayRequest.relayData.callForwarder, relayRequest as DeployRequest)
+    : new TypedRequestData(chainId, relayRequest.relayData.callForwarder, relayRequest as RelayRequest)
+  return bufferToHex(TypedDataUtils.sign(typedData))
+}
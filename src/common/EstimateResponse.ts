@@ -0,0 +1,25 @@
+import { IntString } from '../relayclient/types/Aliases'
+
+export default interface EstimateResponse {
+  // gas limit the relay worker will give the relay transaction
+  maxPossibleGas: IntString
+  // lowest gas price the server accepts, or the request's if higher
+  gasPrice: IntString
+  // gas to set in the request for the destination call, 0 for deploys
+  estimatedDestinationGas: IntString
+  // gas to set in the request for the token payment
+  estimatedTokenGas: IntString
+  // lowest tokenAmount the server accepts, 0 when it charges no fee
+  requiredTokenAmount: IntString
+  // false when the gas of an unsigned request was extrapolated with the linear fit
+  exact: boolean
+  /**
+   * - relay-call: the whole relay transaction was estimated on the node, as when it is relayed
+   * - linear-fit: a heuristic. The cost of the relay call around the estimated destination and token
+   *   transfer gas is extrapolated with the linear fit of {@link estimateMaxPossibleRelayCallWithLinearFit},
+   *   which can be off for calls unlike the ones it was measured on, and `marginPercent` is added
+   */
+  gasEstimation: 'relay-call' | 'linear-fit'
+  // percentage added to maxPossibleGas for the error of the linear fit, 0 for exact estimates
+  marginPercent: number
+}
@@ -0,0 +1,145 @@
+import log from 'loglevel'
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { randomHex } from 'web3-utils'
+
+import { Address } from '../relayclient/types/Aliases'
+
+/**
+ * - pretty: human readable messages, for development
+ * - json: one JSON object per line, for log aggregators
+ */
+export type LogFormat = 'pretty' | 'json'
+
+// HTTP header carrying the correlation ID of a relay request, echoed back by the relay server
+export const CORRELATION_ID_HEADER = 'x-correlation-id'
+
+/**
+ * Fields identifying what a message is about. In the JSON format, each one is a field of the line.
+ */
+export interface LogContext {
+  component?: string
+  // generated by the client for each relayed transaction, shared by the client and server logs about it
+  correlationId?: string
+  relayRequestHash?: PrefixedHexString
+  worker?: Address
+  nonce?: number
+  txId?: PrefixedHexString
+  // step of the relaying, e.g. 'validate', 'broadcast' or 'boost'
+  phase?: string
+}
+
+// marks the context fields among the arguments of a log call
+class LogFields {
+  constructor (readonly fields: LogContext) {}
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_COLORS = /\u001b\[[0-9;]*m/g
+
+const originalFactory = log.methodFactory
+let currentFormat: LogFormat = 'pretty'
+let defaultComponent: string | undefined
+
+export function generateCorrelationId (): string {
+  return randomHex(16).slice(2)
+}
+
+/**
+ * Correlation IDs are logged as given, so only short IDs of safe characters are taken from clients.
+ */
+export function isValidCorrelationId (correlationId: any): correlationId is string {
+  return typeof correlationId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(correlationId)
+}
+
+function formatArgument (argument: any): string {
+  if (typeof argument === 'string') {
+    return argument
+  }
+  if (argument instanceof Error) {
+    return argument.message
+  }
+  try {
+    return JSON.stringify(argument)
+  } catch (e) {
+    return String(argument)
+  }
+}
+
+/**
+ * @returns the JSON line of a log call: its time, level, component, context fields and message
+ */
+export function formatJsonLine (level: string, args: any[]): string {
+  const fields = args.filter(it => it instanceof LogFields).map(it => it.fields)
+  const message = args.filter(it => !(it instanceof LogFields)).map(formatArgument).join(' ')
+  const error = args.find(it => it instanceof Error)
+  return JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    component: defaultComponent,
+    ...Object.assign({}, ...fields),
+    message: message.replace(ANSI_COLORS, ''),
+    stack: error?.stack
+  })
+}
+
+function formatPrettyFields (fields: LogContext): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => `${key}=${value as string}`)
+    .join(' ')
+}
+
+/**
+ * Set the format of everything logged with loglevel, by this library and by the code using it.
+ * @param format - see {@link LogFormat}
+ * @param component - component of the messages logged without a {@link ContextLogger}
+ */
+export function setLogFormat (format: LogFormat, component?: string): void {
+  currentFormat = format
+  defaultComponent = component
+  log.methodFactory = originalFactory
+  if (format === 'json') {
+    log.methodFactory = (methodName, level, loggerName) => {
+      const rawMethod = originalFactory(methodName, level, loggerName)
+      return (...args: any[]) => rawMethod(formatJsonLine(methodName, args))
+    }
+  }
+  // loglevel only applies a new methodFactory when the level is set
+  log.setLevel(log.getLevel(), false)
+}
+
+export function getLogFormat (): LogFormat {
+  return currentFormat
+}
+
+/**
+ * Logs with context fields, such as the correlation ID of the relay request being handled.
+ */
+export class ContextLogger {
+  constructor (readonly context: LogContext = {}) {}
+
+  child (context: LogContext): ContextLogger {
+    return new ContextLogger({ ...this.context, ...context })
+  }
+
+  debug (message: string, fields: LogContext = {}): void {
+    log.debug(message, this._fields(fields))
+  }
+
+  info (message: string, fields: LogContext = {}): void {
+    log.info(message, this._fields(fields))
+  }
+
+  warn (message: string, fields: LogContext = {}): void {
+    log.warn(message, this._fields(fields))
+  }
+
+  error (message: string, fields: LogContext = {}): void {
+    log.error(message, this._fields(fields))
+  }
+
+  _fields (fields: LogContext): LogFields | string {
+    const allFields = { ...this.context, ...fields }
+    return currentFormat === 'json' ? new LogFields(allFields) : `[${formatPrettyFields(allFields)}]`
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * JSON-RPC error code of rate limited calls; `data.retryAfter` holds the seconds to wait.
+ */
+export const JSON_RPC_RATE_LIMITED = -32005
+
+/**
+ * Thrown by the relay server when a request exceeds one of its rate limits, and re-created by the
+ * client's HttpClient from the server response, so the RelayClient can tell it apart from a relay failure.
+ */
+export default class RateLimitedError extends Error {
+  constructor (message: string, readonly retryAfterSeconds: number) {
+    super(message)
+    this.name = 'RateLimitedError'
+  }
+}
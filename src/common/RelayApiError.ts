@@ -0,0 +1,46 @@
+/**
+ * - invalid_request: the request does not match the schema of the route
+ * - rejected: the relay server refused to relay or estimate the request, e.g. the verifier rejected it
+ * - rate_limited: too many requests, retry after `retryAfter` seconds
+ * - not_found: the transaction or relay request is not known
+ * - internal_error: the relay server failed to handle a valid request
+ */
+export type RelayApiErrorCode = 'invalid_request' | 'rejected' | 'rate_limited' | 'not_found' | 'internal_error'
+
+/**
+ * Body of the error responses of the versioned REST API.
+ */
+export interface RelayApiErrorResponse {
+  error: {
+    code: RelayApiErrorCode
+    message: string
+    // for rate_limited errors, also sent in the Retry-After header
+    retryAfter?: number
+  }
+}
+
+export const RELAY_API_ERROR_STATUS: Record<RelayApiErrorCode, number> = {
+  invalid_request: 400,
+  rejected: 400,
+  rate_limited: 429,
+  not_found: 404,
+  internal_error: 500
+}
+
+/**
+ * An error of the versioned REST API, sent to the client as a {@link RelayApiErrorResponse}.
+ */
+export default class RelayApiError extends Error {
+  constructor (readonly code: RelayApiErrorCode, message: string, readonly retryAfter?: number) {
+    super(message)
+    this.name = 'RelayApiError'
+  }
+
+  get status (): number {
+    return RELAY_API_ERROR_STATUS[this.code]
+  }
+
+  toResponse (): RelayApiErrorResponse {
+    return { error: { code: this.code, message: this.message, retryAfter: this.retryAfter } }
+  }
+}
@@ -0,0 +1,14 @@
+export interface StatusCheck {
+  name: string
+  healthy: boolean
+  // a failing critical check makes the whole server unhealthy
+  critical: boolean
+  details: string
+}
+
+export default interface StatusResponse {
+  healthy: boolean
+  // names of the critical checks that failed
+  failingChecks: string[]
+  checks: StatusCheck[]
+}
@@ -0,0 +1,51 @@
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+// path of the WebSocket endpoint of the relay server, relative to its url
+export const TRANSACTION_EVENTS_PATH = '/ws'
+
+/**
+ * - accepted: the request passed the relay server validations
+ * - broadcast: the transaction relaying the request was sent to the node
+ * - boosted: the transaction was replaced by one with a higher gas price
+ * - mined: the hub reported the relayed call as successful
+ * - reverted-on-recipient: the hub reported the relayed call as reverted by the destination contract
+ * - confirmed: the transaction has all the confirmations the relay server waits for
+ */
+export type TransactionLifecycleEventType = 'accepted' | 'broadcast' | 'boosted' | 'mined' | 'reverted-on-recipient' | 'confirmed'
+
+/**
+ * Pushed by the relay server to the WebSocket clients subscribed to the transaction.
+ */
+export default interface TransactionLifecycleEvent {
+  type: TransactionLifecycleEventType
+  // hash of the latest attempt, not known yet when accepted
+  txHash?: PrefixedHexString
+  // keccak256 of the relay request signature, as in the RelayHub events; not known for boosts and confirmations
+  relayRequestSigHash?: PrefixedHexString
+  // the replaced attempt, for boosts
+  previousTxHash?: PrefixedHexString
+  blockNumber?: number
+  // revert reason returned by the destination contract
+  reason?: string
+}
+
+/**
+ * Sent by WebSocket clients to follow the events of a transaction, by the hash of any of its attempts or by the
+ * hash of its relay request signature. Boosted transactions keep being followed under their new hash.
+ */
+export interface TransactionSubscriptionMessage {
+  action: 'subscribe' | 'unsubscribe'
+  txHash?: PrefixedHexString
+  relayRequestSigHash?: PrefixedHexString
+}
+
+/**
+ * Sent by the relay server to the WebSocket clients: the events, the answers to their subscription messages,
+ * and the hashes of the transactions no longer followed after `txEventsSubscriptionTimeout` without events.
+ */
+export type TransactionEventsServerMessage =
+  TransactionLifecycleEvent |
+  { subscribed: PrefixedHexString } |
+  { unsubscribed: PrefixedHexString } |
+  { expired: PrefixedHexString[] } |
+  { error: string }
@@ -0,0 +1,43 @@
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { Address } from '../relayclient/types/Aliases'
+
+/**
+ * A transaction re-sent by the relay server with the same nonce and a higher gas price.
+ */
+export interface BoostRecord {
+  oldTxId: PrefixedHexString
+  newTxId: PrefixedHexString
+  oldGasPrice: number
+  newGasPrice: number
+  blockNumber: number
+}
+
+/**
+ * - pending: none of the attempts is mined yet
+ * - mined: mined, with less than the confirmations the relay server waits for
+ * - confirmed: mined, with enough confirmations
+ * - replaced: its nonce was used by a transaction that is none of its attempts, it will never be mined
+ * - dropped: the node knows none of its attempts, it is mined only if the relay server sends it again
+ */
+export const TRANSACTION_STATUSES = ['pending', 'mined', 'confirmed', 'replaced', 'dropped'] as const
+
+export type TransactionStatus = typeof TRANSACTION_STATUSES[number]
+
+export default interface TransactionStatusResponse {
+  // hash of the latest attempt, which replaces the previous ones
+  txId: PrefixedHexString
+  relayRequestHash?: PrefixedHexString
+  signer: Address
+  nonce: number
+  gasPrice: number
+  attempts: number
+  // oldest boost first
+  boostHistory: BoostRecord[]
+  status: TransactionStatus
+  // hash of the attempt that was mined, which may be one the latest attempt replaced
+  minedTxId?: PrefixedHexString
+  minedBlockNumber?: number
+  confirmations?: number
+  // false if the transaction was mined but reverted
+  succeeded?: boolean
+}
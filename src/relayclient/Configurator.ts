@@ -3,6 +3,7 @@ import { LogLevelNumbers } from 'loglevel'
 
 import { constants } from '../common/Constants'
 import { defaultEnvironment } from '../common/Environments'
+import { LogFormat } from '../common/Logging'
 
 import AccountManager from './AccountManager'
 import ContractInteractor, { Web3Provider } from '../common/ContractInteractor'
@@ -12,6 +13,9 @@ import { KnownRelaysManager, DefaultRelayScore, EmptyFilter } from './KnownRelay
 import RelayedTransactionValidator from './RelayedTransactionValidator'
 import { Address, AsyncScoreCalculator, IntString, PingFilter, RelayFilter } from './types/Aliases'
 import { GasPricePingFilter } from './RelayClient'
+import { TransactionEventsSubscriber } from './TransactionEventsSubscriber'
+
+export type RelayTransport = 'rest' | 'jsonrpc'
 
 const GAS_PRICE_PERCENT = 0 //
 const MAX_RELAY_NONCE_GAP = 3
@@ -37,7 +41,11 @@ const defaultEnvelopingConfig: EnvelopingConfig = {
   forwarderAddress: constants.ZERO_ADDRESS,
   smartWalletFactoryAddress: constants.ZERO_ADDRESS,
   logLevel: 0,
-  clientId: '1'
+  logFormat: 'pretty',
+  clientId: '1',
+  relayTransport: 'rest',
+  requireRelayCommitment: false,
+  subscribeToTransactionEvents: false
 }
 
 /**
@@ -95,6 +103,10 @@ export async function resolveConfiguration (provider: Web3Provider, partialConfi
 /**
  * @field methodSuffix - allows use of versioned methods, i.e. 'eth_signTypedData_v4'. Should be '_v4' for Metamask
  * @field jsonStringifyRequest - should be 'true' for Metamask, false for ganache
+ * @field relayTransport - 'rest' to use the REST routes of the relay server, 'jsonrpc' to use its JSON-RPC 2.0 endpoint
+ * @field requireRelayCommitment - reject relays that do not return a signed commitment with the transaction
+ * @field subscribeToTransactionEvents - follow relayed transactions over the relay WebSocket, emitting their lifecycle as RelayEvents
+ * @field logFormat - 'json' to log one JSON object per line, with the correlation ID sent to the relays, instead of plain messages
  */
 export interface EnvelopingConfig {
   preferredRelays: string[]
@@ -106,6 +118,7 @@ export interface EnvelopingConfig {
   relayTimeoutGrace: number
   sliceSize: number
   logLevel: LogLevelNumbers
+  logFormat: LogFormat
   gasPriceFactorPercent: number
   minGasPrice: number
   maxRelayNonceGap: number
@@ -116,6 +129,9 @@ export interface EnvelopingConfig {
   smartWalletFactoryAddress: Address
   chainId: number
   clientId: IntString
+  relayTransport: RelayTransport
+  requireRelayCommitment: boolean
+  subscribeToTransactionEvents: boolean
 }
 
 export interface EnvelopingDependencies {
@@ -127,6 +143,7 @@ export interface EnvelopingDependencies {
   pingFilter: PingFilter
   relayFilter: RelayFilter
   scoreCalculator: AsyncScoreCalculator
+  transactionEventsSubscriber: TransactionEventsSubscriber
   config: EnvelopingConfig
 }
 
@@ -155,6 +172,7 @@ export function getDependencies (config: EnvelopingConfig, provider?: HttpProvid
   const scoreCalculator = overrideDependencies?.scoreCalculator ?? DefaultRelayScore
   const knownRelaysManager = overrideDependencies?.knownRelaysManager ?? new KnownRelaysManager(contractInteractor, config, relayFilter)
   const transactionValidator = overrideDependencies?.transactionValidator ?? new RelayedTransactionValidator(contractInteractor, config)
+  const transactionEventsSubscriber = overrideDependencies?.transactionEventsSubscriber ?? new TransactionEventsSubscriber()
 
   const ret = {
     httpClient,
@@ -165,6 +183,7 @@ export function getDependencies (config: EnvelopingConfig, provider?: HttpProvid
     pingFilter,
     relayFilter,
     scoreCalculator,
+    transactionEventsSubscriber,
     config
   }
 
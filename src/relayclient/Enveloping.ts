@@ -11,6 +11,7 @@ import { getDependencies, EnvelopingConfig, EnvelopingDependencies } from './Con
 import { Address, IntString } from './types/Aliases'
 
 import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import log from 'loglevel'
 
 import TypedRequestData, { getDomainSeparatorHash, TypedDeployRequestData } from '../common/EIP712/TypedRequestData'
 
@@ -251,16 +252,16 @@ export class Enveloping {
   async sendTransaction (relayUrl: string, request: DeployTransactionRequest|RelayTransactionRequest): Promise<RelayingAttempt> {
     const httpClient = new HttpClient(new HttpWrapper(), {})
     try {
-      const hexTransaction = await httpClient.relayTransaction(relayUrl, request)
-      console.log(`hexTrx is ${hexTransaction}`)
+      const { signedTx: hexTransaction } = await httpClient.relayTransaction(relayUrl, request)
+      log.debug(`hexTrx is ${hexTransaction}`)
       const transaction = new Transaction(hexTransaction, this.dependencies.contractInteractor.getRawTxOptions())
       const txHash: string = transaction.hash(true).toString('hex')
       const hash = `0x${txHash}`
-      console.log('tx hash: ' + hash)
+      log.info('tx hash: ' + hash)
       return { transaction }
     } catch (error) {
       const reasonStr = error instanceof Error ? error.message : JSON.stringify(error)
-      console.log(`GOT ERROR - Reason: ${reasonStr}`)
+      log.error(`GOT ERROR - Reason: ${reasonStr}`)
       return { error }
     }
   }
@@ -1,21 +1,66 @@
 import log from 'loglevel'
 import { PrefixedHexString } from 'ethereumjs-tx'
+import jsonrpc, { RpcParams } from 'jsonrpc-lite'
 
 import PingResponse from '../common/PingResponse'
 import HttpWrapper from './HttpWrapper'
-import { DeployTransactionRequest, RelayTransactionRequest } from './types/RelayTransactionRequest'
+import {
+  DeployEstimateRequest,
+  DeployTransactionRequest,
+  RelayEstimateRequest,
+  RelayTransactionRequest
+} from './types/RelayTransactionRequest'
 import { EnvelopingConfig } from './Configurator'
+import RateLimitedError, { JSON_RPC_RATE_LIMITED } from '../common/RateLimitedError'
+import { SignedRelayCommitment } from '../common/EIP712/RelayCommitment'
+import TransactionStatusResponse from '../common/TransactionStatusResponse'
+import EstimateResponse from '../common/EstimateResponse'
+import { CORRELATION_ID_HEADER } from '../common/Logging'
+
+export interface RelayTransactionResponse {
+  signedTx: PrefixedHexString
+  // missing if the relay server predates signed commitments
+  commitment?: SignedRelayCommitment
+}
 
 export default class HttpClient {
   private readonly httpWrapper: HttpWrapper
   private readonly config: Partial<EnvelopingConfig>
+  private jsonRpcId = 0
 
   constructor (httpWrapper: HttpWrapper, config: Partial<EnvelopingConfig>) {
     this.httpWrapper = httpWrapper
     this.config = config
   }
 
+  private get useJsonRpc (): boolean {
+    return this.config.relayTransport === 'jsonrpc'
+  }
+
+  /**
+   * Call a method of the relay server's JSON-RPC 2.0 endpoint.
+   */
+  async callJsonRpc (relayUrl: string, method: string, params?: RpcParams, headers?: Record<string, string>): Promise<any> {
+    const request = jsonrpc.request(++this.jsonRpcId, method, params)
+    const response = await this.httpWrapper.sendPromise(relayUrl + '/', request, headers)
+    if (response == null) {
+      throw new Error('Relay responded without a body')
+    }
+    if (response.error != null) {
+      if (response.error.code === JSON_RPC_RATE_LIMITED) {
+        throw new RateLimitedError(response.error.message, response.error.data?.retryAfter ?? 0)
+      }
+      throw new Error(`Got error response from relay: ${response.error.message as string} (code ${response.error.code as string})`)
+    }
+    return response.result
+  }
+
   async getPingResponse (relayUrl: string, verifier?: string): Promise<PingResponse> {
+    if (this.useJsonRpc) {
+      const pingResponse: PingResponse = await this.callJsonRpc(relayUrl, 'relay_ping', verifier == null ? undefined : { verifier })
+      log.info(`pingResponse: ${JSON.stringify(pingResponse)}`)
+      return pingResponse
+    }
     const verifierSuffix = verifier == null ? '' : '?verifier=' + verifier
     const pingResponse: PingResponse = await this.httpWrapper.sendPromise(relayUrl + '/getaddr' + verifierSuffix)
     if (pingResponse == null) {
@@ -26,8 +71,26 @@ export default class HttpClient {
     return pingResponse
   }
 
-  async relayTransaction (relayUrl: string, request: RelayTransactionRequest | DeployTransactionRequest): Promise<PrefixedHexString> {
-    const { signedTx, error }: { signedTx: string, error: string } = await this.httpWrapper.sendPromise(relayUrl + '/relay', request)
+  /**
+   * @param correlationId - sent to the relay, which logs it along with its handling of the request
+   */
+  async relayTransaction (relayUrl: string, request: RelayTransactionRequest | DeployTransactionRequest, correlationId?: string): Promise<RelayTransactionResponse> {
+    const headers = correlationId != null ? { [CORRELATION_ID_HEADER]: correlationId } : undefined
+    if (this.useJsonRpc) {
+      const { signedTx, commitment }: RelayTransactionResponse = await this.callJsonRpc(relayUrl, 'relay_send', request, headers)
+      log.info('relayTransaction response:', signedTx)
+      if (signedTx == null) {
+        throw new Error('body.signedTx field missing.')
+      }
+      return { signedTx, commitment }
+    }
+    const { signedTx, commitment, error }: { signedTx: string, commitment?: SignedRelayCommitment, error: string } = await this.httpWrapper.sendPromise(relayUrl + '/relay', request, headers)
+      .catch(e => {
+        if (e.response?.status === 429) {
+          throw new RateLimitedError(e.response.data?.error ?? 'Rate limited by relay', e.response.data?.retryAfter ?? 0)
+        }
+        throw e
+      })
     log.info('relayTransaction response:', signedTx, error)
     if (error != null) {
       throw new Error(`Got error response from relay: ${error}`)
@@ -35,6 +98,44 @@ export default class HttpClient {
     if (signedTx == null) {
       throw new Error('body.signedTx field missing.')
     }
-    return signedTx
+    return { signedTx, commitment }
+  }
+
+  /**
+   * Ask the relay for the gas, gas price and token fee it requires to relay the request.
+   */
+  async estimate (relayUrl: string, request: RelayEstimateRequest | DeployEstimateRequest): Promise<EstimateResponse> {
+    if (this.useJsonRpc) {
+      return await this.callJsonRpc(relayUrl, 'relay_estimate', request)
+    }
+    const estimate = await this.httpWrapper.sendPromise(relayUrl + '/estimate', request)
+      .catch(e => {
+        if (e.response?.status === 429) {
+          throw new RateLimitedError(e.response.data?.error ?? 'Rate limited by relay', e.response.data?.retryAfter ?? 0)
+        }
+        if (e.response?.data?.error != null) {
+          throw new Error(`Got error response from relay: ${e.response.data.error as string}`)
+        }
+        throw e
+      })
+    log.info('estimate response:', estimate)
+    return estimate
+  }
+
+  /**
+   * Ask the relay what happened to a transaction it sent, e.g. whether it was replaced by a boosted one.
+   * @returns undefined if the relay does not know the transaction
+   */
+  async getTransactionStatus (relayUrl: string, txHash: PrefixedHexString): Promise<TransactionStatusResponse | undefined> {
+    if (this.useJsonRpc) {
+      return await this.callJsonRpc(relayUrl, 'relay_txStatus', { txHash }) ?? undefined
+    }
+    return await this.httpWrapper.sendPromise(`${relayUrl}/tx/${txHash}`)
+      .catch(e => {
+        if (e.response?.status === 404) {
+          return undefined
+        }
+        throw e
+      })
   }
 }
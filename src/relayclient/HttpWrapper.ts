@@ -1,4 +1,5 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios'
+import log from 'loglevel'
 
 const LOGMAXLEN = 120
 const DEFAULT_TIMEOUT = 30000
@@ -16,27 +17,31 @@ export default class HttpWrapper {
 
     if (this.logreq) {
       this.provider.interceptors.response.use(function (response) {
-        console.log('got response:', response.config.url, JSON.stringify(response.data).slice(0, LOGMAXLEN))
+        log.info('got response:', response.config.url, JSON.stringify(response.data).slice(0, LOGMAXLEN))
         return response
       }, async function (error: any): Promise<never> {
         const errData = error.response != null ? error.response.data : { error: error.message }
         const errStr = ((typeof errData === 'string') ? errData : JSON.stringify(errData)).slice(0, LOGMAXLEN)
         const errUrl = error.response != null ? error.response.config.url : error.address
-        console.log('got response:', errUrl, 'err=', errStr)
+        log.info('got response:', errUrl, 'err=', errStr)
         return await Promise.reject(error)
       })
     }
   }
 
-  async sendPromise (url: string, jsonRequestData?: any): Promise<any> {
+  /**
+   * @param headers - added to the default headers, e.g. the correlation ID of a relay request
+   */
+  async sendPromise (url: string, jsonRequestData?: any, headers?: Record<string, string>): Promise<any> {
     if (this.logreq) {
-      console.log('sending request:', url, JSON.stringify(jsonRequestData ?? {}).slice(0, LOGMAXLEN))
+      log.info('sending request:', url, JSON.stringify(jsonRequestData ?? {}).slice(0, LOGMAXLEN))
     }
 
     const response = await this.provider.request({
       url,
       method: jsonRequestData != null ? 'POST' : 'GET',
-      data: jsonRequestData
+      data: jsonRequestData,
+      headers
     })
     return response.data
   }
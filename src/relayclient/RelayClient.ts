@@ -1,11 +1,18 @@
 import log from 'loglevel'
 import { HttpProvider, TransactionReceipt } from 'web3-core'
 import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import { bufferToHex, keccak256, toBuffer } from 'ethereumjs-util'
 
 import { constants } from '../common/Constants'
 
 import { DeployRequest, RelayRequest } from '../common/EIP712/RelayRequest'
-import { DeployTransactionRequest, RelayMetadata, RelayTransactionRequest } from './types/RelayTransactionRequest'
+import {
+  DeployEstimateRequest,
+  DeployTransactionRequest,
+  RelayEstimateRequest,
+  RelayMetadata,
+  RelayTransactionRequest
+} from './types/RelayTransactionRequest'
 import EnvelopingTransactionDetails from './types/EnvelopingTransactionDetails'
 import { Address, PingFilter } from './types/Aliases'
 import HttpClient from './HttpClient'
@@ -16,7 +23,10 @@ import AccountManager from './AccountManager'
 import RelayedTransactionValidator from './RelayedTransactionValidator'
 import { configure, getDependencies, EnvelopingConfig, EnvelopingDependencies } from './Configurator'
 import { RelayInfo } from './types/RelayInfo'
-import { decodeRevertReason, calculateDeployTransactionMaxPossibleGas, estimateMaxPossibleRelayCallWithLinearFit } from '../common/Utils'
+import { decodeRevertReason, calculateDeployTransactionMaxPossibleGas, estimateMaxPossibleRelayCallWithLinearFit, sleep } from '../common/Utils'
+import RateLimitedError from '../common/RateLimitedError'
+import { SignedRelayCommitment } from '../common/EIP712/RelayCommitment'
+import EstimateResponse from '../common/EstimateResponse'
 import { EventEmitter } from 'events'
 
 import {
@@ -24,9 +34,18 @@ import {
   InitEvent,
   NextRelayEvent,
   DoneRefreshRelaysEvent,
-  RefreshRelaysEvent, RelayerResponseEvent, SendToRelayerEvent, SignRequestEvent, ValidateRequestEvent
+  RefreshRelaysEvent, RelayerResponseEvent, SendToRelayerEvent, SignRequestEvent, ValidateRequestEvent,
+  TransactionAcceptedEvent,
+  TransactionBoostedEvent,
+  TransactionBroadcastEvent,
+  TransactionConfirmedEvent,
+  TransactionMinedEvent,
+  TransactionRevertedOnRecipientEvent
 } from './RelayEvents'
+import { TransactionEventsSubscriber } from './TransactionEventsSubscriber'
+import TransactionLifecycleEvent from '../common/TransactionLifecycleEvent'
 import { getDomainSeparatorHash } from '../common/EIP712/TypedRequestData'
+import { ContextLogger, generateCorrelationId, setLogFormat } from '../common/Logging'
 import { toBN, toHex } from 'web3-utils'
 
 export const GasPricePingFilter: PingFilter = (pingResponse, transactionDetails) => {
@@ -40,15 +59,25 @@ export const GasPricePingFilter: PingFilter = (pingResponse, transactionDetails)
 
 export interface RelayingAttempt {
   transaction?: Transaction
+  commitment?: SignedRelayCommitment
   error?: Error
 }
 
 export interface RelayingResult {
   transaction?: Transaction
+  commitment?: SignedRelayCommitment
+  // sent to every relay attempted, to find the relay server logs about the transaction
+  correlationId: string
   pingErrors: Map<string, Error>
   relayingErrors: Map<string, Error>
 }
 
+export interface RelayEstimate extends EstimateResponse {
+  // the estimate holds for requests signed for this relay
+  relayUrl: string
+  relayWorker: Address
+}
+
 export class RelayClient {
   readonly emitter = new EventEmitter()
   readonly config: EnvelopingConfig
@@ -57,9 +86,14 @@ export class RelayClient {
   protected knownRelaysManager: KnownRelaysManager
   private readonly transactionValidator: RelayedTransactionValidator
   private readonly pingFilter: PingFilter
+  private readonly transactionEventsSubscriber: TransactionEventsSubscriber
 
   public readonly accountManager: AccountManager
   private initialized = false
+  // commitments signed by the relays, by hash of the transaction they relayed
+  private readonly relayCommitments = new Map<PrefixedHexString, SignedRelayCommitment>()
+  // url of the relay that sent each transaction, by transaction hash
+  private readonly relayedTransactionUrls = new Map<PrefixedHexString, string>()
 
   /**
    * create a RelayClient library object, to force contracts to go through a relay.
@@ -79,6 +113,16 @@ export class RelayClient {
     this.transactionValidator = dependencies.transactionValidator
     this.accountManager = dependencies.accountManager
     this.pingFilter = dependencies.pingFilter
+    this.transactionEventsSubscriber = dependencies.transactionEventsSubscriber
+    if (this.config.subscribeToTransactionEvents) {
+      this.transactionEventsSubscriber.on('event', (relayUrl: string, event: TransactionLifecycleEvent) => {
+        this.emit(this._toRelayEvent(relayUrl, event))
+      })
+    }
+    // the host application keeps its own log format unless json is asked for
+    if (this.config.logFormat === 'json') {
+      setLogFormat('json', 'RelayClient')
+    }
     log.setLevel(this.config.logLevel)
   }
 
@@ -103,6 +147,31 @@ export class RelayClient {
     this.emitter.emit('enveloping', event)
   }
 
+  _toRelayEvent (relayUrl: string, event: TransactionLifecycleEvent): RelayEvent {
+    const txHash = event.txHash ?? ''
+    switch (event.type) {
+      case 'accepted':
+        return new TransactionAcceptedEvent(relayUrl, event.relayRequestSigHash ?? '')
+      case 'broadcast':
+        return new TransactionBroadcastEvent(relayUrl, txHash)
+      case 'boosted':
+        return new TransactionBoostedEvent(relayUrl, event.previousTxHash ?? '', txHash)
+      case 'mined':
+        return new TransactionMinedEvent(relayUrl, txHash, event.blockNumber ?? 0)
+      case 'reverted-on-recipient':
+        return new TransactionRevertedOnRecipientEvent(relayUrl, txHash, event.blockNumber ?? 0, event.reason)
+      case 'confirmed':
+        return new TransactionConfirmedEvent(relayUrl, txHash, event.blockNumber)
+    }
+  }
+
+  /**
+   * Stop following the relayed transactions, closing the WebSocket connections to the relays.
+   */
+  closeTransactionEvents (): void {
+    this.transactionEventsSubscriber.close()
+  }
+
   /**
    * In case Relay Server does not broadcast the signed transaction to the network,
    * client also broadcasts the same transaction. If the transaction fails with nonce
@@ -234,6 +303,52 @@ export class RelayClient {
     return maxPossibleGas.toNumber()
   }
 
+  /**
+   * Ask a relay what it requires to relay the transaction: the gas limits, gas price and token fee to put in
+   * the request so it gets accepted. Unlike the local estimations, this uses the relay's own computations.
+   * Deploy requests can only be estimated signed, so the user is asked to sign the deploy request as given.
+   * @param transactionDetails - leave `gas` undefined to have the relay estimate the destination call
+   * @returns the estimate and the relay that made it
+   */
+  async estimateWithRelay (transactionDetails: EnvelopingTransactionDetails): Promise<RelayEstimate> {
+    await this._init()
+    this.emit(new RefreshRelaysEvent())
+    await this.knownRelaysManager.refresh()
+    const trxDetails = { ...transactionDetails }
+    trxDetails.gasPrice = trxDetails.forceGasPrice ?? await this._calculateGasPrice()
+    if (trxDetails.isSmartWalletDeploy ?? false) {
+      trxDetails.gas = '0x00'
+    } else {
+      // the relay estimates the destination call when no gas is given
+      trxDetails.gas = trxDetails.gas ?? '0x00'
+    }
+    const relaySelectionManager = await new RelaySelectionManager(trxDetails, this.knownRelaysManager, this.httpClient, this.pingFilter, this.config).init()
+    const count = relaySelectionManager.relaysLeft().length
+    this.emit(new DoneRefreshRelaysEvent(count))
+    if (count === 0) {
+      throw new Error('no registered relayers')
+    }
+    const estimateErrors = new Map<string, Error>()
+    while (true) {
+      const activeRelay = await relaySelectionManager.selectNextRelay()
+      if (activeRelay == null) {
+        relaySelectionManager.errors.forEach((error, relayUrl) => estimateErrors.set(relayUrl, error))
+        const reasons = Array.from(estimateErrors.entries()).map(([relayUrl, error]) => `${relayUrl}: ${error.message}`)
+        throw new Error(`No relay could estimate the transaction: ${reasons.join(', ')}`)
+      }
+      const relayUrl = activeRelay.relayInfo.relayUrl
+      this.emit(new NextRelayEvent(relayUrl))
+      try {
+        const request = await this._prepareEstimateRequest(activeRelay, trxDetails)
+        const estimate = await this.httpClient.estimate(relayUrl, request)
+        return { ...estimate, relayUrl, relayWorker: activeRelay.pingResponse.relayWorkerAddress }
+      } catch (error) {
+        log.info(`relay ${relayUrl} failed to estimate: ${(error as Error).message}`)
+        estimateErrors.set(relayUrl, error)
+      }
+    }
+  }
+
   // Used to estimate the gas cost of calling relayHub.deployCall (assuming no payment in tokens is done)
   // The reason the tokenPayment is removed is for allowing the user to sign the payload for an estimate, being
   // assured she won't be charged since tokenAmount is 0
@@ -323,59 +438,35 @@ export class RelayClient {
   }
 
   async estimateTokenTransferGas (transactionDetails: EnvelopingTransactionDetails, relayWorker: Address): Promise<number> {
-    let gasCost = 0
     const tokenContract = transactionDetails.tokenContract ?? constants.ZERO_ADDRESS
 
-    if (tokenContract !== constants.ZERO_ADDRESS && toBN(transactionDetails.tokenAmount ?? '0').gt(toBN(0))) {
-      let tokenOrigin: string
+    if (tokenContract === constants.ZERO_ADDRESS || !toBN(transactionDetails.tokenAmount ?? '0').gt(toBN(0))) {
+      return 0
+    }
 
-      if (transactionDetails.isSmartWalletDeploy ?? false) {
-        // If it is a deploy and tokenGas was not defined, then the smartwallet address is needed to estimate the token gas
-        const smartWalletAddress = transactionDetails.smartWalletAddress ?? constants.ZERO_ADDRESS
+    let tokenOrigin: string
 
-        if (smartWalletAddress === constants.ZERO_ADDRESS) {
-          throw Error('In a deploy, if tokenGas is not defined, then the calculated SmartWallet address is needed to estimate the tokenGas value')
-        }
-        tokenOrigin = smartWalletAddress
-      } else {
-        tokenOrigin = this.resolveForwarder(transactionDetails) // the smart wallet
-      }
+    if (transactionDetails.isSmartWalletDeploy ?? false) {
+      // If it is a deploy and tokenGas was not defined, then the smartwallet address is needed to estimate the token gas
+      const smartWalletAddress = transactionDetails.smartWalletAddress ?? constants.ZERO_ADDRESS
 
-      if (tokenOrigin !== constants.ZERO_ADDRESS) {
-        const encodedFunction = this.contractInteractor.web3.eth.abi.encodeFunctionCall({
-          name: 'transfer',
-          type: 'function',
-          inputs: [
-            {
-              type: 'address',
-              name: 'recipient'
-            }, {
-              type: 'uint256',
-              name: 'amount'
-            }
-          ]
-        },
-        [relayWorker,
-          transactionDetails.tokenAmount ?? '0'])
-
-        gasCost = await this.contractInteractor.estimateGas({
-          from: tokenOrigin, // token holder is the smart wallet
-          to: tokenContract,
-          gasPrice: transactionDetails.gasPrice,
-          data: encodedFunction
-        })
+      if (smartWalletAddress === constants.ZERO_ADDRESS) {
+        throw Error('In a deploy, if tokenGas is not defined, then the calculated SmartWallet address is needed to estimate the tokenGas value')
       }
+      tokenOrigin = smartWalletAddress
+    } else {
+      tokenOrigin = this.resolveForwarder(transactionDetails) // the smart wallet
     }
 
-    let internalCallCost = gasCost > constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION ? gasCost - constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION : gasCost
-    internalCallCost = internalCallCost * constants.ESTIMATED_GAS_CORRECTION_FACTOR
-
-    return internalCallCost
+    return await this.contractInteractor.estimateTokenTransferGas(tokenOrigin, tokenContract, relayWorker,
+      transactionDetails.tokenAmount ?? '0', transactionDetails.gasPrice)
   }
 
   async relayTransaction (transactionDetails: EnvelopingTransactionDetails): Promise<RelayingResult> {
     await this._init()
-    log.debug('Relay Client - Relaying transaction')
+    const correlationId = generateCorrelationId()
+    const logger = new ContextLogger({ component: 'RelayClient', correlationId })
+    logger.debug('Relay Client - Relaying transaction', { phase: 'prepare' })
     log.debug(`Relay Client - Relay Hub:${transactionDetails.relayHub}`)
     // TODO: should have a better strategy to decide how often to refresh known relays
     this.emit(new RefreshRelaysEvent())
@@ -413,16 +504,20 @@ export class RelayClient {
           transactionDetails.tokenGas = (await this.estimateTokenTransferGas(transactionDetails, activeRelay.pingResponse.relayWorkerAddress)).toString()
         }
 
-        relayingAttempt = await this._attemptRelay(activeRelay, transactionDetails)
+        relayingAttempt = await this._attemptRelay(activeRelay, transactionDetails, logger)
           .catch(error => ({ error }))
         if (relayingAttempt.transaction === undefined || relayingAttempt.transaction === null) {
-          relayingErrors.set(activeRelay.relayInfo.relayUrl, relayingAttempt.error ?? new Error('No error reason was given'))
+          const error = relayingAttempt.error ?? new Error('No error reason was given')
+          logger.info(`relay ${activeRelay.relayInfo.relayUrl} failed: ${error.message}`, { phase: 'relay' })
+          relayingErrors.set(activeRelay.relayInfo.relayUrl, error)
           continue
         }
-        log.debug('Relay Client - Relayed done')
+        logger.debug('Relay Client - Relayed done', { phase: 'relayed', txId: bufferToHex(relayingAttempt.transaction.hash(true)) })
       }
       return {
         transaction: relayingAttempt?.transaction,
+        commitment: relayingAttempt?.commitment,
+        correlationId,
         relayingErrors,
         pingErrors: relaySelectionManager.errors
       }
@@ -439,11 +534,15 @@ export class RelayClient {
     return `0x${gasPrice.toString(16)}`
   }
 
+  /**
+   * @param logger - carries the correlation ID sent to the relay
+   */
   async _attemptRelay (
     relayInfo: RelayInfo,
-    transactionDetails: EnvelopingTransactionDetails
+    transactionDetails: EnvelopingTransactionDetails,
+    logger = new ContextLogger({ component: 'RelayClient', correlationId: generateCorrelationId() })
   ): Promise<RelayingAttempt> {
-    log.info(`attempting relay: ${JSON.stringify(relayInfo)} transaction: ${JSON.stringify(transactionDetails)}`)
+    logger.info(`attempting relay: ${JSON.stringify(relayInfo)} transaction: ${JSON.stringify(transactionDetails)}`, { phase: 'attempt' })
     let httpRequest: RelayTransactionRequest | DeployTransactionRequest
     let acceptCallResult
 
@@ -474,29 +573,67 @@ export class RelayClient {
     }
 
     let hexTransaction: PrefixedHexString
+    let commitment: SignedRelayCommitment | undefined
+    const relayUrl = relayInfo.relayInfo.relayUrl
+    // subscribed before sending, so the events pushed while the relay handles the request are not missed
+    const transactionKey = { relayRequestSigHash: bufferToHex(keccak256(toBuffer(httpRequest.metadata.signature))) }
+    if (this.config.subscribeToTransactionEvents) {
+      await this.transactionEventsSubscriber.subscribe(relayUrl, transactionKey)
+        .catch((error: Error) => log.info(`cannot follow the transaction events of ${relayUrl}: ${error.message}`))
+    }
     this.emit(new SendToRelayerEvent(relayInfo.relayInfo.relayUrl))
     try {
-      hexTransaction = await this.httpClient.relayTransaction(relayInfo.relayInfo.relayUrl, httpRequest)
+      ({ signedTx: hexTransaction, commitment } = await this.httpClient.relayTransaction(relayInfo.relayInfo.relayUrl, httpRequest, logger.context.correlationId))
     } catch (error) {
+      this.transactionEventsSubscriber.unsubscribe(relayUrl, transactionKey)
+      if (error instanceof RateLimitedError) {
+        // the relay is healthy but busy with this client, not a failure: just move on to the next relay
+        log.info(`relay ${relayInfo.relayInfo.relayUrl} rate limited the request, retry in ${error.retryAfterSeconds} seconds`)
+        return { error }
+      }
       if (error?.message == null || error.message.indexOf('timeout') !== -1) {
         this.knownRelaysManager.saveRelayFailure(new Date().getTime(), relayInfo.relayInfo.relayManager, relayInfo.relayInfo.relayUrl)
       }
-      log.info('relayTransaction: ', JSON.stringify(httpRequest))
+      logger.info(`relayTransaction: ${JSON.stringify(httpRequest)}`, { phase: 'send' })
       return { error }
     }
     const transaction = new Transaction(hexTransaction, this.contractInteractor.getRawTxOptions())
     if (!this.transactionValidator.validateRelayResponse(httpRequest, hexTransaction)) {
+      this.transactionEventsSubscriber.unsubscribe(relayUrl, transactionKey)
       this.emit(new RelayerResponseEvent(false))
       this.knownRelaysManager.saveRelayFailure(new Date().getTime(), relayInfo.relayInfo.relayManager, relayInfo.relayInfo.relayUrl)
       return { error: new Error('Returned transaction did not pass validation') }
     }
+    const commitmentError = commitment == null
+      ? (this.config.requireRelayCommitment ? 'relay returned no commitment' : undefined)
+      : this.transactionValidator.validateRelayCommitment(httpRequest, commitment, relayInfo.relayInfo.relayManager)
+    if (commitmentError != null) {
+      this.transactionEventsSubscriber.unsubscribe(relayUrl, transactionKey)
+      this.emit(new RelayerResponseEvent(false))
+      this.knownRelaysManager.saveRelayFailure(new Date().getTime(), relayInfo.relayInfo.relayManager, relayInfo.relayInfo.relayUrl)
+      return { error: new Error(`Returned commitment did not pass validation: ${commitmentError}`) }
+    }
+    const transactionHash = bufferToHex(transaction.hash(true))
+    this.relayedTransactionUrls.set(transactionHash, relayInfo.relayInfo.relayUrl)
+    if (commitment != null) {
+      this.relayCommitments.set(transactionHash, commitment)
+    }
     this.emit(new RelayerResponseEvent(true))
     await this._broadcastRawTx(transaction)
     return {
-      transaction
+      transaction,
+      commitment
     }
   }
 
+  /**
+   * The commitment the relay signed when accepting the request relayed by the given transaction,
+   * evidence of the terms the relay agreed to.
+   */
+  getRelayCommitment (transactionHash: PrefixedHexString): SignedRelayCommitment | undefined {
+    return this.relayCommitments.get(transactionHash.toLowerCase())
+  }
+
   async _prepareDeployHttpRequest (
     relayInfo: RelayInfo,
     transactionDetails: EnvelopingTransactionDetails
@@ -564,6 +701,33 @@ export class RelayClient {
     relayInfo: RelayInfo,
     transactionDetails: EnvelopingTransactionDetails
   ): Promise<RelayTransactionRequest> {
+    const relayRequest = await this._prepareRelayRequest(relayInfo, transactionDetails)
+    const relayWorker = relayRequest.relayData.relayWorker
+    this.emit(new SignRequestEvent())
+    const signature = await this.accountManager.sign(relayRequest)
+    // max nonce is not signed, as contracts cannot access addresses' nonces.
+    const transactionCount = await this.contractInteractor.getTransactionCount(relayWorker)
+    const relayMaxNonce = transactionCount + this.config.maxRelayNonceGap
+    // TODO: the server accepts a flat object, and that is why this code looks like shit.
+    //  Must teach server to accept correct types
+    const metadata: RelayMetadata = {
+      relayHubAddress: this.config.relayHubAddress,
+      signature,
+      relayMaxNonce
+    }
+    const httpRequest: RelayTransactionRequest = {
+      relayRequest,
+      metadata
+    }
+    log.info(`Created HTTP relay request: ${JSON.stringify(httpRequest)}`)
+
+    return httpRequest
+  }
+
+  async _prepareRelayRequest (
+    relayInfo: RelayInfo,
+    transactionDetails: EnvelopingTransactionDetails
+  ): Promise<RelayRequest> {
     const forwarderAddress = this.resolveForwarder(transactionDetails)
 
     const senderNonce: string = await this.contractInteractor.getSenderNonce(forwarderAddress)
@@ -606,25 +770,27 @@ export class RelayClient {
         relayWorker
       }
     }
-    this.emit(new SignRequestEvent())
-    const signature = await this.accountManager.sign(relayRequest)
-    // max nonce is not signed, as contracts cannot access addresses' nonces.
-    const transactionCount = await this.contractInteractor.getTransactionCount(relayWorker)
-    const relayMaxNonce = transactionCount + this.config.maxRelayNonceGap
-    // TODO: the server accepts a flat object, and that is why this code looks like shit.
-    //  Must teach server to accept correct types
-    const metadata: RelayMetadata = {
-      relayHubAddress: this.config.relayHubAddress,
-      signature,
-      relayMaxNonce
+    return relayRequest
+  }
+
+  /**
+   * Relay requests are sent unsigned, deploy requests are signed as given since the relay cannot estimate them otherwise.
+   */
+  async _prepareEstimateRequest (
+    relayInfo: RelayInfo,
+    transactionDetails: EnvelopingTransactionDetails
+  ): Promise<RelayEstimateRequest | DeployEstimateRequest> {
+    if (transactionDetails.isSmartWalletDeploy ?? false) {
+      const { relayRequest, metadata } = await this._prepareDeployHttpRequest(relayInfo, transactionDetails)
+      return {
+        relayRequest,
+        metadata: { relayHubAddress: metadata.relayHubAddress, signature: metadata.signature }
+      }
     }
-    const httpRequest: RelayTransactionRequest = {
-      relayRequest,
-      metadata
+    return {
+      relayRequest: await this._prepareRelayRequest(relayInfo, transactionDetails),
+      metadata: { relayHubAddress: this.config.relayHubAddress }
     }
-    log.info(`Created HTTP relay request: ${JSON.stringify(httpRequest)}`)
-
-    return httpRequest
   }
 
   resolveForwarder (transactionDetails: EnvelopingTransactionDetails): Address {
@@ -647,15 +813,46 @@ export class RelayClient {
     return params
   }
 
+  /**
+   * Wait for the receipt of a transaction. If the transaction was relayed by this client, the relay is
+   * asked for replacements while waiting, and the receipt of the replacing (boosted) transaction is returned.
+   */
   async getTransactionReceipt (transactionHash: PrefixedHexString,
     retries: number = constants.WAIT_FOR_RECEIPT_RETRIES,
     initialBackoff: number = constants.WAIT_FOR_RECEIPT_INITIAL_BACKOFF): Promise<TransactionReceipt> {
-    return await this.contractInteractor.getTransactionReceipt(transactionHash, retries, initialBackoff)
+    const relayUrl = this.relayedTransactionUrls.get(transactionHash.toLowerCase())
+    if (relayUrl == null) {
+      return await this.contractInteractor.getTransactionReceipt(transactionHash, retries, initialBackoff)
+    }
+    let currentHash = transactionHash
+    for (let tryCount = 0, backoff = initialBackoff; tryCount < retries; tryCount++, backoff *= 2) {
+      const receipt = await this.contractInteractor.getTransactionReceiptIfMined(currentHash)
+      if (receipt != null) {
+        return receipt
+      }
+      const txStatus = await this.httpClient.getTransactionStatus(relayUrl, currentHash)
+        .catch((error: Error) => {
+          log.info(`failed to get status of ${currentHash} from ${relayUrl}: ${error.message}`)
+          return undefined
+        })
+      if (txStatus?.status === 'replaced') {
+        throw new Error(`Transaction ${transactionHash} will not be mined, its nonce was used by another transaction`)
+      }
+      // the mined attempt may be one the latest attempt replaced
+      const nextHash = txStatus?.minedTxId ?? txStatus?.txId
+      if (nextHash != null && nextHash.toLowerCase() !== currentHash.toLowerCase()) {
+        log.info(`transaction ${currentHash} was replaced by ${nextHash}`)
+        currentHash = nextHash
+        continue
+      }
+      await sleep(backoff)
+    }
+    throw new Error(`No receipt found for this transaction ${transactionHash}`)
   }
 }
 
 export function _dumpRelayingResult (relayingResult: RelayingResult): string {
-  let str = ''
+  let str = `Correlation ID: ${relayingResult.correlationId}\n`
   if (relayingResult.pingErrors.size > 0) {
     str += `Ping errors (${relayingResult.pingErrors.size}):`
     Array.from(relayingResult.pingErrors.keys()).forEach(e => {
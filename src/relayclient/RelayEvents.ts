@@ -44,3 +44,33 @@ export class SendToRelayerEvent extends RelayEvent {
 export class RelayerResponseEvent extends RelayEvent {
   constructor (readonly success: boolean) { super('relayer-response', 7) }
 }
+
+// pushed by the relay over WebSocket after it accepted the request, when the client subscribes to transaction events.
+// They come after the relayer response, so they are not counted in "total"
+export class TransactionAcceptedEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly relayRequestSigHash: string) { super('tx-accepted', TOTAL_EVENTS) }
+}
+
+export class TransactionBroadcastEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly txHash: string) { super('tx-broadcast', TOTAL_EVENTS) }
+}
+
+// the relay replaced the transaction with one paying a higher gas price
+export class TransactionBoostedEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly previousTxHash: string, readonly txHash: string) { super('tx-boosted', TOTAL_EVENTS) }
+}
+
+export class TransactionMinedEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly txHash: string, readonly blockNumber: number) { super('tx-mined', TOTAL_EVENTS) }
+}
+
+// the transaction was mined, but the destination contract reverted the relayed call
+export class TransactionRevertedOnRecipientEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly txHash: string, readonly blockNumber: number, readonly reason?: string) {
+    super('tx-reverted-on-recipient', TOTAL_EVENTS)
+  }
+}
+
+export class TransactionConfirmedEvent extends RelayEvent {
+  constructor (readonly relayUrl: string, readonly txHash: string, readonly blockNumber?: number) { super('tx-confirmed', TOTAL_EVENTS) }
+}
@@ -1,12 +1,16 @@
 import log from 'loglevel'
 import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
-import { bufferToHex } from 'ethereumjs-util'
+import { bufferToHex, ecrecover, fromRpcSig, pubToAddress } from 'ethereumjs-util'
 
 import { isSameAddress } from '../common/Utils'
 
 import ContractInteractor from '../common/ContractInteractor'
 import { DeployTransactionRequest, RelayTransactionRequest } from './types/RelayTransactionRequest'
 import { EnvelopingConfig } from './Configurator'
+import { Address } from './types/Aliases'
+import TypedRelayCommitmentData, { RELAY_COMMITMENT_VERSION, SignedRelayCommitment } from '../common/EIP712/RelayCommitment'
+import { getRelayRequestHash } from '../common/EIP712/TypedRequestData'
+import { TypedDataUtils } from 'eth-sig-util'
 
 export default class RelayedTransactionValidator {
   private readonly contractInteractor: ContractInteractor
@@ -58,9 +62,51 @@ export default class RelayedTransactionValidator {
 
       return true
     } else {
-      console.error('validateRelayResponse: req', relayRequestAbiEncode, this.config.relayHubAddress, request.relayRequest.relayData.relayWorker)
-      console.error('validateRelayResponse: rsp', bufferToHex(transaction.data), bufferToHex(transaction.to), signer)
+      log.error('validateRelayResponse: req', relayRequestAbiEncode, this.config.relayHubAddress, request.relayRequest.relayData.relayWorker)
+      log.error('validateRelayResponse: rsp', bufferToHex(transaction.data), bufferToHex(transaction.to), signer)
       return false
     }
   }
+
+  /**
+   * Check that the commitment returned with the transaction is signed by the relay manager and matches the request.
+   * @returns the reason the commitment is not valid, or undefined if it is valid
+   */
+  validateRelayCommitment (
+    request: RelayTransactionRequest | DeployTransactionRequest,
+    signedCommitment: SignedRelayCommitment,
+    relayManager: Address
+  ): string | undefined {
+    if (signedCommitment.version !== RELAY_COMMITMENT_VERSION) {
+      return `unsupported commitment version ${signedCommitment.version}`
+    }
+    const { commitment } = signedCommitment
+    let signer: Address
+    try {
+      const { v, r, s } = fromRpcSig(signedCommitment.signature)
+      const digest = TypedDataUtils.sign(new TypedRelayCommitmentData(this.config.chainId, commitment))
+      signer = bufferToHex(pubToAddress(ecrecover(digest, v, r, s)))
+    } catch (e) {
+      return `invalid commitment signature: ${(e as Error).message}`
+    }
+    const expectedHash = getRelayRequestHash(this.config.chainId, request.relayRequest)
+    if (!isSameAddress(signer, relayManager) || !isSameAddress(commitment.relayManager, relayManager)) {
+      return `commitment not signed by relay manager ${relayManager}`
+    }
+    if (commitment.relayRequestHash !== expectedHash) {
+      return `commitment is for request ${commitment.relayRequestHash}, expected ${expectedHash}`
+    }
+    if (!isSameAddress(commitment.relayHub, this.config.relayHubAddress) ||
+      !isSameAddress(commitment.relayWorker, request.relayRequest.relayData.relayWorker)) {
+      return 'commitment hub or worker do not match the request'
+    }
+    if (commitment.gasPrice !== request.relayRequest.relayData.gasPrice ||
+      commitment.relayMaxNonce > request.metadata.relayMaxNonce) {
+      return 'commitment gas price or nonce ceiling do not match the request'
+    }
+    if (commitment.deadline * 1000 < Date.now()) {
+      return `commitment expired at ${commitment.deadline}`
+    }
+    return undefined
+  }
 }
@@ -0,0 +1,152 @@
+import { EventEmitter } from 'events'
+import log from 'loglevel'
+import WebSocket from 'ws'
+
+import TransactionLifecycleEvent, {
+  TRANSACTION_EVENTS_PATH,
+  TransactionSubscriptionMessage
+} from '../common/TransactionLifecycleEvent'
+
+const DEFAULT_CONNECT_TIMEOUT = 5000
+
+export type TransactionKey = { txHash: string } | { relayRequestSigHash: string }
+
+interface RelayConnection {
+  socket: WebSocket
+  opened: Promise<void>
+  // hashes known for each followed transaction => the hash it was subscribed with
+  aliases: Map<string, string>
+}
+
+/**
+ * Follows relayed transactions through the WebSocket endpoint of the relays that sent them, and emits
+ * an `event` with the relay url and the {@link TransactionLifecycleEvent} for every event pushed.
+ * One connection is kept per relay, and closed once all the transactions followed there are confirmed.
+ */
+export class TransactionEventsSubscriber extends EventEmitter {
+  private readonly connections = new Map<string, RelayConnection>()
+
+  constructor (readonly connectTimeout = DEFAULT_CONNECT_TIMEOUT) {
+    super()
+  }
+
+  static getEventsUrl (relayUrl: string): string {
+    return relayUrl.replace(/^http/, 'ws').replace(/\/$/, '') + TRANSACTION_EVENTS_PATH
+  }
+
+  async subscribe (relayUrl: string, key: TransactionKey): Promise<void> {
+    const connection = this._getConnection(relayUrl)
+    await connection.opened
+    const hash = this._getHash(key)
+    connection.aliases.set(hash, hash)
+    this._send(connection, { action: 'subscribe', ...key })
+  }
+
+  unsubscribe (relayUrl: string, key: TransactionKey): void {
+    const connection = this.connections.get(relayUrl)
+    if (connection == null) {
+      return
+    }
+    const hash = connection.aliases.get(this._getHash(key))
+    if (hash != null) {
+      this._send(connection, { action: 'unsubscribe', ...key })
+      this._forget(relayUrl, connection, hash)
+    }
+  }
+
+  close (): void {
+    this.connections.forEach(connection => connection.socket.close())
+    this.connections.clear()
+  }
+
+  _getHash (key: TransactionKey): string {
+    return ('txHash' in key ? key.txHash : key.relayRequestSigHash).toLowerCase()
+  }
+
+  _getConnection (relayUrl: string): RelayConnection {
+    const existing = this.connections.get(relayUrl)
+    if (existing != null) {
+      return existing
+    }
+    const socket = new WebSocket(TransactionEventsSubscriber.getEventsUrl(relayUrl))
+    const opened = new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`timeout connecting to the transaction events of ${relayUrl}`))
+        socket.terminate()
+      }, this.connectTimeout)
+      socket.once('open', () => {
+        clearTimeout(timeout)
+        resolve()
+      })
+      socket.once('error', (error: Error) => {
+        clearTimeout(timeout)
+        reject(error)
+      })
+    })
+    const connection: RelayConnection = { socket, opened, aliases: new Map() }
+    socket.on('message', (data: WebSocket.Data) => this._handleMessage(relayUrl, connection, data as string))
+    socket.on('error', (error: Error) => log.info(`transaction events of ${relayUrl} failed: ${error.message}`))
+    socket.on('close', () => {
+      if (this.connections.get(relayUrl) === connection) {
+        this.connections.delete(relayUrl)
+      }
+    })
+    this.connections.set(relayUrl, connection)
+    return connection
+  }
+
+  _handleMessage (relayUrl: string, connection: RelayConnection, data: string): void {
+    let message: any
+    try {
+      message = JSON.parse(data)
+    } catch (e) {
+      log.info(`invalid message from the transaction events of ${relayUrl}: ${data}`)
+      return
+    }
+    if (message.error != null) {
+      log.info(`transaction events of ${relayUrl}: ${message.error as string}`)
+      return
+    }
+    if (message.expired != null) {
+      // the relay stopped following the transaction, it has no more events to push
+      const expiredHash = (message.expired as string[]).map(it => connection.aliases.get(it)).find(it => it != null)
+      if (expiredHash != null) {
+        this._forget(relayUrl, connection, expiredHash)
+      }
+      return
+    }
+    if (message.type == null) {
+      // acknowledgement of a subscription
+      return
+    }
+    const event: TransactionLifecycleEvent = message
+    const hashes = [event.txHash, event.previousTxHash, event.relayRequestSigHash]
+      .filter((it): it is string => it != null)
+      .map(it => it.toLowerCase())
+    const subscribedHash = hashes.map(it => connection.aliases.get(it)).find(it => it != null)
+    if (subscribedHash == null) {
+      return
+    }
+    hashes.forEach(it => connection.aliases.set(it, subscribedHash))
+    this.emit('event', relayUrl, event)
+    if (event.type === 'confirmed') {
+      this._forget(relayUrl, connection, subscribedHash)
+    }
+  }
+
+  _forget (relayUrl: string, connection: RelayConnection, subscribedHash: string): void {
+    for (const [alias, hash] of connection.aliases) {
+      if (hash === subscribedHash) {
+        connection.aliases.delete(alias)
+      }
+    }
+    if (connection.aliases.size === 0) {
+      connection.socket.close()
+      this.connections.delete(relayUrl)
+    }
+  }
+
+  _send (connection: RelayConnection, message: TransactionSubscriptionMessage): void {
+    connection.socket.send(JSON.stringify(message))
+  }
+}
@@ -77,3 +77,34 @@ export const RelayTransactionRequestShape = {
     signature: ow.string
   }
 }
+
+export interface EstimateMetadata {
+  relayHubAddress: Address
+  // optional for relay requests; a signed request is estimated exactly instead of with the linear fit
+  signature?: PrefixedHexString
+}
+
+export interface RelayEstimateRequest {
+  relayRequest: RelayRequest
+  metadata: EstimateMetadata
+}
+
+export interface DeployEstimateRequest {
+  relayRequest: DeployRequest
+  metadata: EstimateMetadata
+}
+
+const EstimateMetadataShape = {
+  relayHubAddress: ow.string,
+  signature: ow.optional.string
+}
+
+export const RelayEstimateRequestShape = {
+  relayRequest: RelayTransactionRequestShape.relayRequest,
+  metadata: EstimateMetadataShape
+}
+
+export const DeployEstimateRequestShape = {
+  relayRequest: DeployTransactionRequestShape.relayRequest,
+  metadata: EstimateMetadataShape
+}
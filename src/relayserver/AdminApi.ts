@@ -0,0 +1,413 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import ow, { ArgumentError, BasePredicate } from 'ow'
+import log from 'loglevel'
+
+import { AcceptanceState, RelayServer } from './RelayServer'
+import { getLedgerPeriod, LedgerEntry, summarizeLedger } from './RevenueLedger'
+import { ServerAction, SERVER_ACTION_NAMES } from './StoredTransaction'
+import { ArchivedTransaction } from './TransactionArchive'
+
+export const ADMIN_AUDIT_FILENAME = 'admin-audit.log'
+
+// maximum age of the timestamp of an HMAC signed request, so its nonce only has to be remembered that long
+const HMAC_MAX_SKEW_SECONDS = 300
+
+export type AdminAuthMethod = 'bearer' | 'hmac'
+
+export class AdminAuthenticationError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'AdminAuthenticationError'
+  }
+}
+
+/**
+ * The parts of an HTTP request the admin API authenticates.
+ */
+export interface AdminRequest {
+  headers: Record<string, string | string[] | undefined>
+  method: string
+  // path and query string, as sent by the client
+  url: string
+  // body as received, before JSON parsing
+  rawBody?: Buffer
+}
+
+export interface AdminAuditEntry {
+  // ISO 8601 time the action was run
+  timestamp: string
+  action: string
+  params: any
+  clientIp?: string
+  authMethod?: AdminAuthMethod
+  success: boolean
+  error?: string
+}
+
+/**
+ * Append-only record of the admin actions, one JSON entry per line. The latest entries are kept in memory.
+ */
+export class AdminAuditLog {
+  private readonly entries: AdminAuditEntry[] = []
+
+  /**
+   * @param fileName - file the entries are appended to, or undefined to keep them in memory only
+   * @param maxEntries - number of entries kept in memory
+   */
+  constructor (readonly fileName?: string, readonly maxEntries = 1000) {
+    if (fileName != null && fs.existsSync(fileName)) {
+      const lines = fs.readFileSync(fileName, 'utf8').split('\n').filter(line => line !== '')
+      lines.slice(-maxEntries).forEach(line => {
+        try {
+          this.entries.push(JSON.parse(line))
+        } catch (e) {
+          // e.g. the last line, cut by a crash while it was appended
+          log.warn(`admin: skipping malformed line of ${fileName}: ${line.slice(0, 100)}`)
+        }
+      })
+    }
+  }
+
+  /**
+   * @param persist - false to keep the entry in memory only, for the requests anyone can send
+   */
+  record (entry: AdminAuditEntry, persist = true): void {
+    this.entries.push(entry)
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift()
+    }
+    if (this.fileName != null && persist) {
+      fs.appendFileSync(this.fileName, JSON.stringify(entry) + '\n')
+    }
+    log.warn(`admin: ${entry.action} ${JSON.stringify(entry.params)} ${entry.success ? 'done' : `failed: ${entry.error ?? ''}`}`)
+  }
+
+  /**
+   * @returns the latest entries, oldest first
+   */
+  getEntries (limit = this.maxEntries): AdminAuditEntry[] {
+    return this.entries.slice(-limit)
+  }
+}
+
+export interface AdminAction {
+  method: 'get' | 'post' | 'delete'
+  // express route, relative to /admin
+  path: string
+  params: BasePredicate<any>
+  handler: (params: any) => Promise<any>
+}
+
+const NoParamsShape = ow.object.empty
+// the verifiers are trusted for the RelayHub of relayHubAddress, unless another of the hubs of the server is given
+const VerifierParamsShape = ow.object.exactShape({ address: ow.string, relayHub: ow.optional.string })
+// UTC days, as YYYY-MM-DD, both included
+const LedgerPeriodShape = ow.object.exactShape({ from: ow.optional.string, to: ow.optional.string })
+
+// query string params, so the numbers are strings
+const TxArchiveQueryShape = ow.object.exactShape({
+  signer: ow.optional.string,
+  destination: ow.optional.string,
+  serverAction: ow.optional.string.oneOf(SERVER_ACTION_NAMES),
+  fromBlock: ow.optional.string.numeric,
+  toBlock: ow.optional.string.numeric,
+  limit: ow.optional.string.numeric
+})
+
+function header (req: AdminRequest, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function safeEqual (a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB)
+}
+
+/**
+ * Hex HMAC-SHA256 signature of an admin request, to be sent in the `X-Admin-Signature` header along with
+ * the `X-Admin-Timestamp` (unix seconds) and the `X-Admin-Nonce` it covers. The nonce must be unique for each request.
+ */
+export function signAdminRequest (secret: string, timestamp: number, nonce: string, method: string, url: string, body: string = ''): string {
+  return crypto.createHmac('sha256', secret)
+    .update(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${url}\n${body}`)
+    .digest('hex')
+}
+
+/**
+ * A random nonce for {@link signAdminRequest}.
+ */
+export function createAdminNonce (): string {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * Operator API of the relay server, served under `/admin` when `adminToken` or `adminHmacSecret` is configured.
+ * Requests authenticate with `Authorization: Bearer <adminToken>`, or with an HMAC signature (see {@link signAdminRequest}).
+ * Every action, successful or not, is recorded in the audit log.
+ */
+export class AdminApi {
+  readonly actions: Record<string, AdminAction>
+  // nonces of the accepted HMAC signed requests, to the time (ms) their timestamp expires
+  private readonly usedNonces = new Map<string, number>()
+
+  constructor (readonly backend: RelayServer, readonly auditLog: AdminAuditLog) {
+    this.actions = {
+      state: {
+        method: 'get',
+        path: '/state',
+        params: NoParamsShape,
+        handler: async () => await this.getState()
+      },
+      pause: {
+        method: 'post',
+        path: '/pause',
+        params: NoParamsShape,
+        handler: async () => await this.setAcceptanceState('paused')
+      },
+      resume: {
+        method: 'post',
+        path: '/resume',
+        params: NoParamsShape,
+        handler: async () => await this.setAcceptanceState('accepting')
+      },
+      drain: {
+        method: 'post',
+        path: '/drain',
+        params: NoParamsShape,
+        handler: async () => await this.setAcceptanceState('draining')
+      },
+      refreshGasPrice: {
+        method: 'post',
+        path: '/gas-price/refresh',
+        params: NoParamsShape,
+        handler: async () => {
+          await this.backend._refreshGasPrice()
+          return { gasPrice: this.backend.gasPrice.toString() }
+        }
+      },
+      withdraw: {
+        method: 'post',
+        path: '/withdraw',
+        params: ow.object.exactShape({ relayHub: ow.optional.string, confirm: ow.optional.string }),
+        handler: async (params: { relayHub?: string, confirm?: string }) => {
+          // the hub only withdraws the whole stake, and deletes it
+          if (params.confirm !== 'unstake') {
+            throw new Error('Withdrawing the stake unregisters the relay from the hub, send {"confirm": "unstake"} to do it')
+          }
+          return { transactionHash: await this.backend.withdrawFromHub(params.relayHub) }
+        }
+      },
+      replenish: {
+        method: 'post',
+        path: '/replenish',
+        params: ow.object.exactShape({ workerIndex: ow.optional.number.integer }),
+        handler: async (params: { workerIndex?: number }) =>
+          ({ transactionHashes: await this.backend.replenishWorkers(params.workerIndex) })
+      },
+      rotateWorker: {
+        method: 'post',
+        path: '/workers/rotate',
+        params: ow.object.exactShape({ workerIndex: ow.number.integer }),
+        handler: async (params: { workerIndex: number }) => ({ rotation: await this.backend.rotateWorker(params.workerIndex) })
+      },
+      workerRotations: {
+        method: 'get',
+        path: '/workers/rotations',
+        params: NoParamsShape,
+        handler: async () => ({ rotations: this.backend.workerRotator.getRotations() })
+      },
+      addVerifier: {
+        method: 'post',
+        path: '/verifiers',
+        params: VerifierParamsShape,
+        handler: async (params: { address: string, relayHub?: string }) => {
+          this.backend.addTrustedVerifier(params.address, params.relayHub)
+          return await this.backend.verifierHandler()
+        }
+      },
+      removeVerifier: {
+        method: 'delete',
+        path: '/verifiers/:address',
+        params: VerifierParamsShape,
+        handler: async (params: { address: string, relayHub?: string }) => {
+          if (!this.backend.removeTrustedVerifier(params.address, params.relayHub)) {
+            throw new Error(`Verifier ${params.address} is not trusted`)
+          }
+          return await this.backend.verifierHandler()
+        }
+      },
+      txStore: {
+        method: 'get',
+        path: '/txstore',
+        params: NoParamsShape,
+        handler: async () => ({ transactions: await this.backend.txStoreManager.getAll() })
+      },
+      txArchive: {
+        method: 'get',
+        path: '/txarchive',
+        params: TxArchiveQueryShape,
+        handler: async (params: Record<string, string | undefined>) => ({ transactions: await this.queryTxArchive(params) })
+      },
+      penalizations: {
+        method: 'get',
+        path: '/penalizations',
+        params: NoParamsShape,
+        handler: async () => ({ evidence: await this.backend.penalizationStore.getAll() })
+      },
+      ledger: {
+        method: 'get',
+        path: '/ledger',
+        params: LedgerPeriodShape,
+        handler: async (params: { from?: string, to?: string }) => summarizeLedger(await this.getLedgerEntries(params))
+      },
+      ledgerEntries: {
+        method: 'get',
+        path: '/ledger/entries',
+        params: LedgerPeriodShape,
+        handler: async (params: { from?: string, to?: string }) => ({ entries: await this.getLedgerEntries(params) })
+      },
+      audit: {
+        method: 'get',
+        path: '/audit',
+        params: NoParamsShape,
+        handler: async () => ({ entries: this.auditLog.getEntries() })
+      }
+    }
+  }
+
+  static fromServer (backend: RelayServer): AdminApi {
+    const { workdir } = backend.config
+    return new AdminApi(backend, new AdminAuditLog(workdir !== '' ? `${workdir}/${ADMIN_AUDIT_FILENAME}` : undefined))
+  }
+
+  isEnabled (): boolean {
+    return this.backend.config.adminToken !== '' || this.backend.config.adminHmacSecret !== ''
+  }
+
+  /**
+   * @returns how the request authenticated
+   * @throws AdminAuthenticationError if it carries no valid credentials
+   */
+  authenticate (req: AdminRequest, now: number = Date.now()): AdminAuthMethod {
+    const { adminToken, adminHmacSecret } = this.backend.config
+    const authorization = header(req, 'authorization')
+    if (adminToken !== '' && authorization != null && authorization.startsWith('Bearer ')) {
+      if (safeEqual(authorization.slice('Bearer '.length), adminToken)) {
+        return 'bearer'
+      }
+      throw new AdminAuthenticationError('Invalid bearer token')
+    }
+    const timestamp = header(req, 'x-admin-timestamp')
+    const nonce = header(req, 'x-admin-nonce')
+    const signature = header(req, 'x-admin-signature')
+    if (adminHmacSecret !== '' && timestamp != null && signature != null) {
+      if (!/^\d+$/.test(timestamp)) {
+        throw new AdminAuthenticationError('Invalid request timestamp')
+      }
+      if (Math.abs(now / 1000 - parseInt(timestamp)) > HMAC_MAX_SKEW_SECONDS) {
+        throw new AdminAuthenticationError('Request timestamp is too far from the server time')
+      }
+      if (nonce == null || nonce === '') {
+        throw new AdminAuthenticationError('Missing request nonce')
+      }
+      const expected = signAdminRequest(adminHmacSecret, parseInt(timestamp), nonce, req.method, req.url, req.rawBody?.toString('utf8'))
+      if (!safeEqual(signature, expected)) {
+        throw new AdminAuthenticationError('Invalid request signature')
+      }
+      this.useNonce(nonce, (parseInt(timestamp) + HMAC_MAX_SKEW_SECONDS) * 1000, now)
+      return 'hmac'
+    }
+    throw new AdminAuthenticationError('Missing admin credentials')
+  }
+
+  /**
+   * Remember the nonce of a signed request until its timestamp expires, after which the request is rejected anyway.
+   * @throws AdminAuthenticationError if the nonce was already used
+   */
+  private useNonce (nonce: string, expiresAt: number, now: number): void {
+    this.usedNonces.forEach((nonceExpiresAt, usedNonce) => {
+      if (nonceExpiresAt < now) {
+        this.usedNonces.delete(usedNonce)
+      }
+    })
+    if (this.usedNonces.has(nonce)) {
+      throw new AdminAuthenticationError('Request nonce was already used')
+    }
+    this.usedNonces.set(nonce, expiresAt)
+  }
+
+  /**
+   * Validate the params of an action, run it and record it in the audit log.
+   * @throws if the action is unknown, the params are invalid or the action fails
+   */
+  async run (name: string, params: any, authMethod?: AdminAuthMethod, clientIp?: string): Promise<any> {
+    const action = this.actions[name]
+    const entry: AdminAuditEntry = { timestamp: new Date().toISOString(), action: name, params, clientIp, authMethod, success: false }
+    try {
+      if (action == null) {
+        throw new Error(`Unknown admin action ${name}`)
+      }
+      try {
+        ow(params, action.params)
+      } catch (e) {
+        throw e instanceof ArgumentError ? new Error(`Invalid params: ${e.message}`) : e
+      }
+      const result = await action.handler(params)
+      entry.success = true
+      return result
+    } catch (e) {
+      entry.error = (e as Error).message
+      throw e
+    } finally {
+      this.auditLog.record(entry)
+    }
+  }
+
+  /**
+   * Record a request rejected by {@link authenticate}. Anyone can send them, so they are not written to the audit file.
+   */
+  recordAuthenticationFailure (name: string, error: string, clientIp?: string): void {
+    this.auditLog.record({ timestamp: new Date().toISOString(), action: name, params: {}, clientIp, success: false, error }, false)
+  }
+
+  async getState (): Promise<any> {
+    const pendingTransactions = (await this.backend.txStoreManager.getAll()).length
+    return {
+      acceptanceState: this.backend.acceptanceState,
+      ready: this.backend.isReady(),
+      pendingTransactions,
+      // a draining server can be stopped once its transactions are mined
+      drained: this.backend.acceptanceState === 'draining' && pendingTransactions === 0,
+      gasPrice: this.backend.gasPrice.toString()
+    }
+  }
+
+  async getLedgerEntries (params: { from?: string, to?: string }): Promise<LedgerEntry[]> {
+    const { fromTimestamp, toTimestamp } = getLedgerPeriod(params.from, params.to)
+    return await this.backend.ledger.getEntries(fromTimestamp, toTimestamp)
+  }
+
+  async queryTxArchive (params: Record<string, string | undefined>): Promise<ArchivedTransaction[]> {
+    const archive = this.backend.transactionManager.transactionArchive
+    if (archive == null) {
+      throw new Error('The transaction archive is not enabled')
+    }
+    const toNumber = (value?: string): number | undefined => value != null ? parseInt(value) : undefined
+    return await archive.query({
+      signer: params.signer,
+      destination: params.destination,
+      serverAction: params.serverAction != null ? ServerAction[params.serverAction as keyof typeof ServerAction] : undefined,
+      fromBlock: toNumber(params.fromBlock),
+      toBlock: toNumber(params.toBlock),
+      limit: toNumber(params.limit)
+    })
+  }
+
+  async setAcceptanceState (state: AcceptanceState): Promise<any> {
+    this.backend.setAcceptanceState(state)
+    return await this.getState()
+  }
+}
@@ -0,0 +1,129 @@
+import log from 'loglevel'
+import Web3 from 'web3'
+import { WebsocketProvider } from 'web3-core'
+import { BlockHeader } from 'web3-eth'
+
+import Timeout = NodeJS.Timeout
+
+/**
+ * A source of the numbers of the new blocks of the chain.
+ */
+export interface BlockSubscription {
+  /**
+   * @param onBlock called with the number of each new block
+   * @param onConnectionChange called with true once subscribed, and with false when the subscription is lost
+   */
+  start: (onBlock: (blockNumber: number) => void, onConnectionChange: (connected: boolean) => void) => void
+  stop: () => void
+}
+
+/**
+ * Subscribes to the `newHeads` of the RSK node over a WebSocket, and subscribes again after
+ * `reconnectDelay` ms when the connection is lost.
+ */
+export class NewHeadsSubscription implements BlockSubscription {
+  private provider?: WebsocketProvider
+  private reconnectTask?: Timeout
+  private connected = false
+  private stopped = true
+  private onBlock: (blockNumber: number) => void = () => {}
+  private onConnectionChange: (connected: boolean) => void = () => {}
+
+  constructor (readonly url: string, readonly reconnectDelay: number) {}
+
+  start (onBlock: (blockNumber: number) => void, onConnectionChange: (connected: boolean) => void): void {
+    this.onBlock = onBlock
+    this.onConnectionChange = onConnectionChange
+    this.stopped = false
+    this._connect()
+  }
+
+  stop (): void {
+    this.stopped = true
+    if (this.reconnectTask != null) {
+      clearTimeout(this.reconnectTask)
+    }
+    this._close()
+  }
+
+  _connect (): void {
+    this.reconnectTask = undefined
+    const provider = new Web3.providers.WebsocketProvider(this.url)
+    this.provider = provider
+    // replaces the default handlers, which only fail the pending requests of the provider dropped here
+    provider.on('error', () => this._disconnected(provider, 'connection error'))
+    provider.on('end', () => this._disconnected(provider, 'connection closed'))
+    // the subscriptions of web3 1.2 have no 'connected' event, a failing subscription reports an error instead
+    provider.on('connect', () => {
+      log.info(`Subscribed to new blocks at ${this.url}`)
+      this.connected = true
+      this.onConnectionChange(true)
+    })
+    new Web3(provider).eth.subscribe('newBlockHeaders')
+      .on('data', (header: BlockHeader) => this.onBlock(header.number))
+      .on('error', (error: Error) => this._disconnected(provider, error.message))
+  }
+
+  _disconnected (provider: WebsocketProvider, reason: string): void {
+    // a dropped provider may still report the errors of its closing connection
+    if (this.stopped || provider !== this.provider) {
+      return
+    }
+    log.warn(`Subscription to new blocks at ${this.url} lost (${reason}), subscribing again in ${this.reconnectDelay}ms`)
+    this._close()
+    if (this.connected) {
+      this.connected = false
+      this.onConnectionChange(false)
+    }
+    this.reconnectTask = setTimeout(() => this._connect(), this.reconnectDelay)
+  }
+
+  _close (): void {
+    const provider = this.provider
+    this.provider = undefined
+    if (provider != null) {
+      try {
+        provider.disconnect(1000, 'closing')
+      } catch (e) {
+        log.debug('Closing the block subscription:', e.message)
+      }
+    }
+  }
+}
+
+/**
+ * Processes the blocks one by one and in order. Blocks notified while a block is processed are queued, and
+ * the blocks between the last processed one and a notified one are processed first, e.g. the blocks missed
+ * while a subscription was reconnecting.
+ */
+export class OrderedBlockProcessor {
+  lastProcessedBlock = 0
+  private latestNotifiedBlock = 0
+  private processing?: Promise<void>
+
+  /**
+   * @param processBlock must not throw, the block counts as processed once it returns
+   */
+  constructor (private readonly processBlock: (blockNumber: number) => Promise<void>) {}
+
+  /**
+   * Process the blocks up to the given one.
+   * @returns once the blocks are processed, including the ones notified meanwhile
+   */
+  async notify (blockNumber: number): Promise<void> {
+    this.latestNotifiedBlock = Math.max(this.latestNotifiedBlock, blockNumber)
+    if (this.processing == null) {
+      this.processing = this._processPending().finally(() => { this.processing = undefined })
+    }
+    return await this.processing
+  }
+
+  async _processPending (): Promise<void> {
+    while (this.lastProcessedBlock < this.latestNotifiedBlock) {
+      // the first block is the latest one, whose round scans the hub events of the older ones
+      const blockNumber = this.lastProcessedBlock === 0 ? this.latestNotifiedBlock : this.lastProcessedBlock + 1
+      await this.processBlock(blockNumber)
+      this.lastProcessedBlock = blockNumber
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import { isAddress } from 'web3-utils'
+
+/**
+ * Definition of one configuration parameter: its type, default and documentation.
+ * A set of definitions (a {@link ConfigSchema}) yields the TypeScript type of the configuration
+ * (see {@link ConfigOf}), the conversion and validation of its values and its documentation.
+ */
+export interface ConfigParam<T> {
+  // type shown in the documentation, e.g. 'number' or 'wei'
+  type: string
+  description: string
+  default: T
+  // default shown in the documentation, when more readable than the value, e.g. '0.001 rbtc'
+  documentedDefault?: string
+  /**
+   * Convert a value of a config file, where it may already have its type, or of an environment variable
+   * or command line flag, where it is a string.
+   * @throws Error with the reason the value is invalid, e.g. 'must be a number'
+   */
+  parse: (value: unknown) => T
+  /**
+   * @returns the reason the value is invalid, e.g. 'must be at least 1', or undefined if it is valid
+   */
+  validate?: (value: T) => string | undefined
+}
+
+export type ConfigSchema = Record<string, ConfigParam<any>>
+
+export type ConfigOf<S extends ConfigSchema> = { [K in keyof S]: S[K] extends ConfigParam<infer T> ? T : never }
+
+// decimals of the units amounts may be given in, e.g. "0.001 rbtc"
+const AmountUnits: Record<string, number> = {
+  wei: 0,
+  kwei: 3,
+  mwei: 6,
+  gwei: 9,
+  szabo: 12,
+  finney: 15,
+  ether: 18,
+  rbtc: 18,
+  trbtc: 18
+}
+
+// milliseconds in a unit of duration, e.g. "30s"
+const DurationUnits: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 3600000
+}
+
+function describeValues (values: readonly string[]): string {
+  return values.length === 1 ? values[0] : `${values.slice(0, -1).join(', ')} or ${values[values.length - 1]}`
+}
+
+function invalid (reason: string, value: unknown): never {
+  throw new Error(`${reason}, got ${JSON.stringify(value)}`)
+}
+
+/**
+ * Convert an amount to wei. The amount is a number of wei, or a decimal number followed by a unit,
+ * e.g. "0.001 rbtc" or "60 gwei".
+ * @returns the amount in wei, as a decimal string
+ */
+export function parseWei (value: unknown): string {
+  // toFixed writes numbers from 1e21 with an exponent
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 1e21) {
+    return value.toFixed(0)
+  }
+  const match = typeof value === 'string' ? value.trim().match(/^(\d+)(?:\.(\d+))?(?:\s*([A-Za-z]+))?$/) : null
+  if (match == null) {
+    invalid('must be an amount of wei or a number with a unit, e.g. "0.001 rbtc"', value)
+  }
+  const [, integer, fraction = '', unit = 'wei'] = match
+  const decimals = AmountUnits[unit.toLowerCase()]
+  if (decimals == null) {
+    invalid(`must be in one of the units ${describeValues(Object.keys(AmountUnits))}`, value)
+  }
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    invalid('must be a whole amount of wei', value)
+  }
+  return (integer + fraction.padEnd(decimals, '0').slice(0, decimals)).replace(/^0+(?=\d)/, '')
+}
+
+/**
+ * Convert a duration to milliseconds. The duration is a number of milliseconds, or a number followed by
+ * one of the units ms, s, m or h, e.g. "30s".
+ */
+export function parseDuration (value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value
+  }
+  const match = typeof value === 'string' ? value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/) : null
+  if (match == null) {
+    invalid('must be a number of milliseconds or a number with a unit ms, s, m or h, e.g. "30s"', value)
+  }
+  return Number(match[1]) * DurationUnits[match[2] ?? 'ms']
+}
+
+export function stringParam (defaultValue: string, description: string): ConfigParam<string> {
+  return {
+    type: 'string',
+    description,
+    default: defaultValue,
+    parse: value => typeof value === 'string' ? value : invalid('must be a string', value)
+  }
+}
+
+/**
+ * A string taking one of the given values.
+ */
+export function enumParam<T extends string> (values: readonly T[], defaultValue: T, description: string): ConfigParam<T> {
+  return {
+    type: values.map(it => `'${it}'`).join(' \\| '),
+    description,
+    default: defaultValue,
+    parse: value => typeof value === 'string' ? value as T : invalid('must be a string', value),
+    validate: value => values.includes(value) ? undefined : `must be ${describeValues(values)}`
+  }
+}
+
+export function numberParam (
+  defaultValue: number,
+  description: string,
+  { integer = false, min, max }: { integer?: boolean, min?: number, max?: number } = {}
+): ConfigParam<number> {
+  return {
+    type: integer ? 'integer' : 'number',
+    description,
+    default: defaultValue,
+    parse: value => {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof number !== 'number' || isNaN(number)) {
+        invalid('must be a number', value)
+      }
+      return number
+    },
+    validate: value => {
+      if (integer && !Number.isInteger(value)) return 'must be an integer'
+      if (min != null && value < min) return `must be at least ${min}`
+      if (max != null && value > max) return `must be at most ${max}`
+      return undefined
+    }
+  }
+}
+
+export function booleanParam (defaultValue: boolean, description: string): ConfigParam<boolean> {
+  return {
+    type: 'boolean',
+    description,
+    default: defaultValue,
+    parse: value => {
+      if (value === true || value === 'true') return true
+      if (value === false || value === 'false') return false
+      invalid('must be true or false', value)
+    }
+  }
+}
+
+/**
+ * An address, which may be left empty when the default is empty.
+ */
+export function addressParam (defaultValue: string, description: string): ConfigParam<string> {
+  return {
+    type: 'address',
+    description,
+    default: defaultValue,
+    parse: value => typeof value === 'string' ? value : invalid('must be a string', value),
+    validate: value => isAddress(value) || (value === '' && defaultValue === '') ? undefined : `is not a valid address: ${value}`
+  }
+}
+
+/**
+ * A list of addresses, given as an array in config files, or as a JSON array or comma separated list.
+ */
+export function addressListParam (description: string): ConfigParam<string[]> {
+  return {
+    type: 'address[]',
+    description,
+    default: [],
+    parse: value => {
+      const list = typeof value === 'string' && value.trim().startsWith('[') ? JSON.parse(value) : value
+      if (typeof list === 'string') {
+        return list.split(',').map(it => it.trim()).filter(it => it !== '')
+      }
+      if (!Array.isArray(list) || list.some(it => typeof it !== 'string')) {
+        invalid('must be a list of addresses', value)
+      }
+      return list
+    },
+    validate: value => {
+      const invalidAddress = value.find(it => !isAddress(it))
+      return invalidAddress == null ? undefined : `is not a list of valid addresses: ${invalidAddress}`
+    }
+  }
+}
+
+/**
+ * A list of strings taking the given values, given as an array in config files, or as a JSON array or comma separated list.
+ */
+export function enumListParam<T extends string> (values: readonly T[], defaultValue: T[], description: string): ConfigParam<T[]> {
+  return {
+    type: `(${values.map(it => `'${it}'`).join(' \\| ')})[]`,
+    description,
+    default: defaultValue,
+    parse: value => {
+      const list = typeof value === 'string' && value.trim().startsWith('[') ? JSON.parse(value) : value
+      if (typeof list === 'string') {
+        return list.split(',').map(it => it.trim()).filter(it => it !== '') as T[]
+      }
+      if (!Array.isArray(list) || list.some(it => typeof it !== 'string')) {
+        invalid('must be a list of strings', value)
+      }
+      return list
+    },
+    validate: value => {
+      const invalidValue = value.find(it => !values.includes(it))
+      return invalidValue == null ? undefined : `must only contain ${describeValues(values)}, got ${invalidValue}`
+    }
+  }
+}
+
+/**
+ * An object, given as is in config files, or as a JSON string.
+ */
+export function objectParam<T extends object> (defaultValue: T, description: string): ConfigParam<T> {
+  return {
+    type: 'object',
+    description,
+    default: defaultValue,
+    parse: value => {
+      const object = typeof value === 'string' ? JSON.parse(value) : value
+      if (object == null || typeof object !== 'object' || Array.isArray(object)) {
+        invalid('must be an object', value)
+      }
+      return object
+    }
+  }
+}
+
+/**
+ * A list of objects, given as an array in config files, or as a JSON array.
+ * @param validateItem - returns the reason an item is invalid, or undefined if it is valid
+ */
+export function objectListParam<T extends object> (description: string, validateItem: (item: T) => string | undefined = () => undefined): ConfigParam<T[]> {
+  return {
+    type: 'object[]',
+    description,
+    default: [],
+    parse: value => {
+      const list = typeof value === 'string' ? JSON.parse(value) : value
+      if (!Array.isArray(list) || list.some(it => it == null || typeof it !== 'object' || Array.isArray(it))) {
+        invalid('must be a list of objects', value)
+      }
+      return list
+    },
+    validate: value => {
+      for (let index = 0; index < value.length; index++) {
+        const reason = validateItem(value[index])
+        if (reason != null) {
+          return `item #${index} ${reason}`
+        }
+      }
+      return undefined
+    }
+  }
+}
+
+/**
+ * An amount of wei, which may be given with a unit, e.g. "0.001 rbtc" (see {@link parseWei}).
+ */
+export function weiParam (defaultValue: string, description: string): ConfigParam<number> {
+  return {
+    type: 'wei',
+    description,
+    default: Number(parseWei(defaultValue)),
+    documentedDefault: defaultValue,
+    parse: value => Number(parseWei(value))
+  }
+}
+
+/**
+ * Like {@link weiParam}, for amounts kept as decimal strings as they may exceed the safe integers.
+ */
+export function weiStringParam (defaultValue: string, description: string): ConfigParam<string> {
+  return {
+    type: 'wei',
+    description,
+    default: parseWei(defaultValue),
+    documentedDefault: defaultValue,
+    parse: parseWei
+  }
+}
+
+/**
+ * A duration in milliseconds, which may be given with a unit, e.g. "30s" (see {@link parseDuration}).
+ */
+export function durationParam (defaultValue: string, description: string): ConfigParam<number> {
+  return {
+    type: 'duration',
+    description,
+    default: parseDuration(defaultValue),
+    documentedDefault: defaultValue,
+    parse: parseDuration
+  }
+}
+
+/**
+ * A parameter without default, left undefined when not set.
+ */
+export function optionalParam<T> (param: ConfigParam<T>): ConfigParam<T | undefined> {
+  return {
+    ...param,
+    default: undefined,
+    documentedDefault: undefined,
+    validate: value => value == null ? undefined : param.validate?.(value)
+  }
+}
+
+/**
+ * @returns the defaults of the parameters of the schema
+ */
+export function configDefaults<S extends ConfigSchema> (schema: S): ConfigOf<S> {
+  const defaults: any = {}
+  Object.entries(schema).forEach(([name, param]) => { defaults[name] = param.default })
+  return defaults
+}
+
+/**
+ * @returns the reasons the values of the configuration are invalid, as 'invalid param: <name> <reason>'
+ */
+export function validateConfig<S extends ConfigSchema> (schema: S, config: Partial<ConfigOf<S>>): string[] {
+  return Object.entries(config).flatMap(([name, value]) => {
+    const reason = value === undefined ? undefined : schema[name]?.validate?.(value)
+    return reason == null ? [] : [`invalid param: ${name} ${reason}`]
+  })
+}
+
+/**
+ * @returns the documentation of the parameters of the schema, as a markdown table
+ */
+export function describeConfig (schema: ConfigSchema): string {
+  const rows = Object.entries(schema).map(([name, param]) => {
+    const defaultValue = param.documentedDefault ?? (param.default === undefined ? '' : JSON.stringify(param.default))
+    return `| \`${name}\` | ${param.type} | ${defaultValue === '' ? '' : `\`${defaultValue}\``} | ${param.description} |`
+  })
+  return ['| Parameter | Type | Default | Description |', '| --- | --- | --- | --- |', ...rows].join('\n')
+}
@@ -0,0 +1,79 @@
+import BN from 'bn.js'
+import { toBN } from 'web3-utils'
+
+import { Address } from '../relayclient/types/Aliases'
+import { DeployTransactionRequest, RelayTransactionRequest } from '../relayclient/types/RelayTransactionRequest'
+
+const WEI_PER_RBTC = new BN(10).pow(new BN(18))
+
+/**
+ * Supplies the exchange rates the relay server charges with.
+ * Implement it to read rates from an oracle or a price feed, and pass it as the `priceSource` server dependency.
+ */
+export interface PriceSource {
+  /**
+   * @returns the amount of token base units worth 1 RBTC, or undefined if the token is not accepted
+   */
+  getTokensPerRbtc: (token: Address) => Promise<BN | undefined>
+}
+
+/**
+ * Price source with fixed rates, keyed by token address.
+ */
+export class StaticPriceSource implements PriceSource {
+  private readonly rates = new Map<string, BN>()
+
+  constructor (rates: Record<Address, string>) {
+    Object.entries(rates).forEach(([token, rate]) => {
+      this.rates.set(token.toLowerCase(), toBN(rate))
+    })
+  }
+
+  async getTokensPerRbtc (token: Address): Promise<BN | undefined> {
+    return this.rates.get(token.toLowerCase())
+  }
+}
+
+/**
+ * Decides whether the tokenAmount offered by a request pays for the gas the relay worker may spend on it.
+ */
+export class FeePolicy {
+  private readonly exemptVerifiers: Set<string>
+
+  constructor (readonly priceSource: PriceSource, readonly marginPercent: number, exemptVerifiers: Address[]) {
+    this.exemptVerifiers = new Set(exemptVerifiers.map(it => it.toLowerCase()))
+  }
+
+  isExempt (verifier: Address): boolean {
+    return this.exemptVerifiers.has(verifier.toLowerCase())
+  }
+
+  /**
+   * The token amount worth `maxPossibleGas * gasPrice` plus the margin, rounded up.
+   * @throws if the token is not accepted
+   */
+  async computeFee (token: Address, maxPossibleGas: BN, gasPrice: BN): Promise<BN> {
+    const tokensPerRbtc = await this.priceSource.getTokensPerRbtc(token)
+    if (tokensPerRbtc == null) {
+      throw new Error(`Token ${token} is not accepted as payment`)
+    }
+    // in basis points, as muln only takes integers and the margin may be e.g. 2.5
+    const marginBasisPoints = Math.round(this.marginPercent * 100)
+    const numerator = maxPossibleGas.mul(gasPrice).mul(tokensPerRbtc).muln(10000 + marginBasisPoints)
+    const denominator = WEI_PER_RBTC.muln(10000)
+    const fee = numerator.div(denominator)
+    return numerator.mod(denominator).isZero() ? fee : fee.addn(1)
+  }
+
+  async validate (req: RelayTransactionRequest | DeployTransactionRequest, maxPossibleGas: BN): Promise<void> {
+    if (this.isExempt(req.relayRequest.relayData.callVerifier)) {
+      return
+    }
+    const { tokenContract, tokenAmount } = req.relayRequest.request
+    const requiredFee = await this.computeFee(tokenContract, maxPossibleGas, toBN(req.relayRequest.relayData.gasPrice))
+    const offeredFee = toBN(tokenAmount)
+    if (offeredFee.lt(requiredFee)) {
+      throw new Error(`Insufficient token fee: offered ${offeredFee.toString()}, required ${requiredFee.toString()} of token ${tokenContract}`)
+    }
+  }
+}
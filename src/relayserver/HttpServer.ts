@@ -1,41 +1,82 @@
-import express, { Express, Request, Response } from 'express'
-import jsonrpc from 'jsonrpc-lite'
+import express, { Express, NextFunction, Request, Response } from 'express'
+import jsonrpc, { JsonRpcError } from 'jsonrpc-lite'
 import bodyParser from 'body-parser'
 import cors from 'cors'
 import { RelayServer } from './RelayServer'
 import { Server } from 'http'
 import log from 'loglevel'
 import { Address } from '../relayclient/types/Aliases'
+import { METRICS_CONTENT_TYPE } from './Metrics'
+import { JsonRpcApi } from './JsonRpcApi'
+import RateLimitedError from '../common/RateLimitedError'
+import RelayApiError from '../common/RelayApiError'
+import StatusResponse from '../common/StatusResponse'
+import { AdminApi, AdminAuthMethod } from './AdminApi'
+import { TransactionEventsServer } from './TransactionEventsServer'
+import { CORRELATION_ID_HEADER, generateCorrelationId, isValidCorrelationId } from '../common/Logging'
+import { API_VERSION, RestApi, toRelayApiError } from './RestApi'
+
+// the raw body is covered by the HMAC signature of admin requests
+type RawBodyRequest = Request & { rawBody?: Buffer }
+
+// keeps the body as received, which the HMAC signatures of the admin requests cover, whatever its content type
+function captureRawBody (req: any, res: any, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf
+}
 
 export class HttpServer {
   app: Express
+  readonly jsonRpcApi: JsonRpcApi
+  readonly adminApi: AdminApi
+  readonly restApi: RestApi
+  readonly transactionEventsServer: TransactionEventsServer
   private serverInstance?: Server
 
   constructor (private readonly port: number, readonly backend: RelayServer) {
+    this.jsonRpcApi = new JsonRpcApi(backend)
+    this.adminApi = AdminApi.fromServer(backend)
+    this.restApi = new RestApi(backend)
+    this.transactionEventsServer = new TransactionEventsServer(backend, backend.config.txEventsSubscriptionTimeout)
     this.app = express()
     this.app.use(cors())
 
-    this.app.use(bodyParser.urlencoded({ extended: false }))
-    this.app.use(bodyParser.json())
+    this.app.use(bodyParser.urlencoded({ extended: false, verify: captureRawBody }))
+    this.app.use(bodyParser.json({ verify: captureRawBody }))
+    this.app.use(this.correlationIdHandler.bind(this))
     /* eslint-disable @typescript-eslint/no-misused-promises */
+    Object.entries(this.restApi.routes).forEach(([name, route]) => {
+      this.app[route.method](`/${API_VERSION}${route.path}`, async (req: Request, res: Response) => await this.restHandler(name, req, res))
+    })
+    // unversioned aliases of the /v1 routes, with their original responses
     this.app.post('/', this.rootHandler.bind(this))
     this.app.get('/getaddr', this.pingHandler.bind(this))
     this.app.get('/status', this.statusHandler.bind(this))
     this.app.get('/tokens', this.tokenHandler.bind(this))
     this.app.get('/verifiers', this.verifierHandler.bind(this))
     this.app.post('/relay', this.relayHandler.bind(this))
+    this.app.post('/estimate', this.estimateHandler.bind(this))
+    this.app.get('/tx/by-request/:relayRequestHash', this.relayRequestStatusHandler.bind(this))
+    this.app.get('/tx/:hash', this.txStatusHandler.bind(this))
+    this.app.get('/metrics', this.metricsHandler.bind(this))
+    if (this.adminApi.isEnabled()) {
+      Object.entries(this.adminApi.actions).forEach(([name, action]) => {
+        this.app[action.method](`/admin${action.path}`, async (req: Request, res: Response) => await this.adminHandler(name, req, res))
+      })
+    }
+    this.app.use(this.jsonParseErrorHandler.bind(this))
     this.backend.once('removed', this.stop.bind(this))
     this.backend.once('unstaked', this.close.bind(this))
     /* eslint-enable */
-    this.backend.on('error', (e) => { console.error('httpServer:', e) })
+    this.backend.on('error', (e) => { log.error('httpServer:', e) })
   }
 
   start (): void {
     if (this.serverInstance === undefined) {
       this.serverInstance = this.app.listen(this.port, () => {
-        console.log('Listening on port', this.port)
+        log.info('Listening on port', this.port)
         this.startBackend()
       })
+      this.transactionEventsServer.start(this.serverInstance)
     }
   }
 
@@ -48,44 +89,105 @@ export class HttpServer {
   }
 
   stop (): void {
+    this.transactionEventsServer.stop()
     this.serverInstance?.close()
-    console.log('Http server stopped.\nShutting down relay...')
+    log.info('Http server stopped.\nShutting down relay...')
   }
 
   close (): void {
-    console.log('Stopping relay worker...')
+    log.info('Stopping relay worker...')
     this.backend.stop()
   }
 
-  // TODO: use this when changing to jsonrpc
-  async rootHandler (req: any, res: any): Promise<void> {
-    let status
+  /**
+   * Take the correlation ID sent by the client, or create one, and echo it in the response.
+   */
+  correlationIdHandler (req: Request, res: Response, next: NextFunction): void {
+    const sent = req.get(CORRELATION_ID_HEADER)
+    const correlationId = isValidCorrelationId(sent) ? sent : generateCorrelationId()
+    res.locals.correlationId = correlationId
+    res.set(CORRELATION_ID_HEADER, correlationId)
+    next()
+  }
+
+  async restHandler (name: string, req: Request, res: Response): Promise<void> {
+    const route = this.restApi.routes[name]
     try {
-      let res
-      // @ts-ignore
-      const func = this.backend[req.body.method]
-      if (func != null) {
-        res = await func.apply(this.backend, [req.body.params]) ?? { code: 200 }
+      const result = await this.restApi.run(name, {
+        body: req.body,
+        query: req.query,
+        params: req.params,
+        clientIp: req.ip,
+        correlationId: res.locals.correlationId
+      })
+      res.status(route.status?.(result) ?? 200).send(result)
+    } catch (e) {
+      // anything but a RelayApiError is a bug of the route, sent as an internal_error
+      const error = toRelayApiError(e)
+      if (error.retryAfter != null) {
+        res.set('Retry-After', error.retryAfter.toString())
+      }
+      res.status(error.status).send(error.toResponse())
+      if (error.code === 'internal_error') {
+        log.error(`${API_VERSION} ${name} handler failed: ${error.message}`)
+      }
+    }
+  }
+
+  async rootHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const response = await this.jsonRpcApi.handle(req.body, req.ip, res.locals.correlationId)
+      if (response == null) {
+        res.status(204).end()
       } else {
-        // @ts-ignore
-        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
-        throw Error(`Implementation of method ${req.body.params} not found on backend!`)
+        res.send(response)
       }
-      status = jsonrpc.success(req.body.id, res)
     } catch (e) {
-      let stack = e.stack.toString()
-      // remove anything after 'rootHandler'
-      stack = stack.replace(/(rootHandler.*)[\s\S]*/, '$1')
-      status = jsonrpc.error(req.body.id, new jsonrpc.JsonRpcError(stack, -125))
+      const message: string = e.message
+      res.send(jsonrpc.error(null, JsonRpcError.internalError(message)))
+      log.error(`json-rpc handler rejected: ${message}`)
+    }
+  }
+
+  jsonParseErrorHandler (err: any, req: Request, res: Response, next: NextFunction): void {
+    if (err.type !== 'entity.parse.failed') {
+      next(err)
+      return
+    }
+    if (req.path === '/') {
+      res.send(jsonrpc.error(null, JsonRpcError.parseError(err.message)))
+    } else if (req.path.startsWith(`/${API_VERSION}/`)) {
+      res.status(400).send(new RelayApiError('invalid_request', err.message).toResponse())
+    } else {
+      res.status(400).send({ message: err.message })
+    }
+  }
+
+  async adminHandler (name: string, req: RawBodyRequest, res: Response): Promise<void> {
+    let authMethod: AdminAuthMethod
+    try {
+      authMethod = this.adminApi.authenticate({ headers: req.headers, method: req.method, url: req.originalUrl, rawBody: req.rawBody })
+    } catch (e) {
+      const message: string = e.message
+      this.adminApi.recordAuthenticationFailure(name, message, req.ip)
+      res.status(401).send({ error: message })
+      return
+    }
+    try {
+      const result = await this.adminApi.run(name, { ...req.query, ...req.body, ...req.params }, authMethod, req.ip)
+      res.send(result)
+    } catch (e) {
+      const message: string = e.message
+      res.status(400).send({ error: message })
+      log.error(`admin handler ${name} rejected: ${message}`)
     }
-    res.send(status)
   }
 
   async pingHandler (req: Request, res: Response): Promise<void> {
     try {
       const pingResponse = await this.backend.pingHandler(req.query.verifier as string)
       res.send(pingResponse)
-      console.log(`address ${pingResponse.relayWorkerAddress} sent. ready: ${pingResponse.ready}`)
+      log.debug(`address ${pingResponse.relayWorkerAddress} sent. ready: ${pingResponse.ready}`)
     } catch (e) {
       const message: string = e.message
       res.send({ message })
@@ -93,18 +195,95 @@ export class HttpServer {
     }
   }
 
-  statusHandler (req: any, res: any): void {
-    // TODO: check components and return proper status code
-    res.status(204).end()
+  async statusHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const statusResponse = await this.backend.statusHandler()
+      res.status(statusResponse.healthy ? 200 : 503).send(statusResponse)
+      if (!statusResponse.healthy) {
+        log.warn(`status: failing checks ${statusResponse.failingChecks.join(', ')}`)
+      }
+    } catch (e) {
+      const message: string = e.message
+      const statusResponse: StatusResponse = {
+        healthy: false,
+        failingChecks: ['status'],
+        checks: [{ name: 'status', healthy: false, critical: true, details: `check failed: ${message}` }]
+      }
+      res.status(503).send(statusResponse)
+      log.error(`status handler rejected: ${message}`)
+    }
+  }
+
+  async metricsHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const metrics = await this.backend.metricsHandler()
+      res.set('Content-Type', METRICS_CONTENT_TYPE)
+      res.send(metrics)
+    } catch (e) {
+      const message: string = e.message
+      res.status(500).send({ message })
+      log.error(`metrics handler rejected: ${message}`)
+    }
   }
 
   async relayHandler (req: Request, res: Response): Promise<void> {
     try {
-      const signedTx = (await this.backend.createRelayTransaction(req.body)).signedTx
-      res.send({ signedTx })
+      const { signedTx, commitment } = await this.backend.createRelayTransaction(req.body, req.ip, res.locals.correlationId)
+      res.send({ signedTx, commitment })
     } catch (e) {
+      if (e instanceof RateLimitedError) {
+        res.set('Retry-After', e.retryAfterSeconds.toString())
+        res.status(429).send({ error: e.message, rateLimited: true, retryAfter: e.retryAfterSeconds })
+        return
+      }
       res.send({ error: e.message })
-      console.log('tx failed:', e)
+    }
+  }
+
+  async estimateHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const estimate = await this.backend.estimateHandler(req.body, req.ip)
+      res.send(estimate)
+    } catch (e) {
+      if (e instanceof RateLimitedError) {
+        res.set('Retry-After', e.retryAfterSeconds.toString())
+        res.status(429).send({ error: e.message, rateLimited: true, retryAfter: e.retryAfterSeconds })
+        log.info(`estimate request rate limited: ${e.message}`)
+        return
+      }
+      const message: string = e.message
+      res.status(400).send({ error: message })
+      log.error(`estimate handler rejected: ${message}`)
+    }
+  }
+
+  async txStatusHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const txStatus = await this.backend.txStatusHandler(req.params.hash)
+      if (txStatus == null) {
+        res.status(404).send({ message: `transaction ${req.params.hash} not found` })
+      } else {
+        res.send(txStatus)
+      }
+    } catch (e) {
+      const message: string = e.message
+      res.status(500).send({ message })
+      log.error(`tx status handler rejected: ${message}`)
+    }
+  }
+
+  async relayRequestStatusHandler (req: Request, res: Response): Promise<void> {
+    try {
+      const txStatus = await this.backend.relayRequestStatusHandler(req.params.relayRequestHash)
+      if (txStatus == null) {
+        res.status(404).send({ message: `relay request ${req.params.relayRequestHash} not found` })
+      } else {
+        res.send(txStatus)
+      }
+    } catch (e) {
+      const message: string = e.message
+      res.status(500).send({ message })
+      log.error(`relay request status handler rejected: ${message}`)
     }
   }
 
@@ -0,0 +1,167 @@
+import jsonrpc, { ErrorObject, ID, JsonRpcError, SuccessObject } from 'jsonrpc-lite'
+import ow, { ArgumentError, BasePredicate } from 'ow'
+import log from 'loglevel'
+
+import { RelayServer } from './RelayServer'
+import {
+  DeployEstimateRequest,
+  DeployEstimateRequestShape,
+  DeployTransactionRequest,
+  DeployTransactionRequestShape,
+  RelayEstimateRequest,
+  RelayEstimateRequestShape,
+  RelayTransactionRequest,
+  RelayTransactionRequestShape
+} from '../relayclient/types/RelayTransactionRequest'
+import RateLimitedError, { JSON_RPC_RATE_LIMITED } from '../common/RateLimitedError'
+
+/**
+ * Implementation-defined error code (reserved range -32000 to -32099) returned when the relay server
+ * rejects a well-formed call, e.g. a relay request failing the server's validations.
+ */
+export const JSON_RPC_SERVER_ERROR = -32000
+
+export type JsonRpcResponse = SuccessObject | ErrorObject
+
+interface JsonRpcMethod {
+  params: BasePredicate<any>
+  handler: (params: any, clientIp?: string, correlationId?: string) => Promise<any>
+}
+
+const VerifierParamsShape = ow.optional.object.exactShape({
+  verifier: ow.optional.string
+})
+
+const NoParamsShape = ow.optional.any(ow.object.empty, ow.array.empty)
+
+/**
+ * JSON-RPC 2.0 front end of the relay server, served on `POST /`.
+ * Supports single and batch calls; notifications (calls without an id) are executed but get no response.
+ */
+export class JsonRpcApi {
+  private readonly methods: Record<string, JsonRpcMethod>
+
+  constructor (readonly backend: RelayServer) {
+    this.methods = {
+      relay_ping: {
+        params: VerifierParamsShape,
+        handler: async (params?: { verifier?: string }) => await this.backend.pingHandler(params?.verifier)
+      },
+      relay_send: {
+        params: ow.any(
+          ow.object.exactShape(RelayTransactionRequestShape),
+          ow.object.exactShape(DeployTransactionRequestShape)),
+        handler: async (params: RelayTransactionRequest | DeployTransactionRequest, clientIp?: string, correlationId?: string) => {
+          const { signedTx, commitment } = await this.backend.createRelayTransaction(params, clientIp, correlationId)
+          return { signedTx, commitment }
+        }
+      },
+      relay_estimate: {
+        params: ow.any(
+          ow.object.exactShape(RelayEstimateRequestShape),
+          ow.object.exactShape(DeployEstimateRequestShape)),
+        handler: async (params: RelayEstimateRequest | DeployEstimateRequest, clientIp?: string) =>
+          await this.backend.estimateHandler(params, clientIp)
+      },
+      relay_tokens: {
+        params: VerifierParamsShape,
+        handler: async (params?: { verifier?: string }) => await this.backend.tokenHandler(params?.verifier)
+      },
+      relay_verifiers: {
+        params: NoParamsShape,
+        handler: async () => await this.backend.verifierHandler()
+      },
+      relay_txStatus: {
+        params: ow.any(
+          ow.object.exactShape({ txHash: ow.string }),
+          ow.object.exactShape({ relayRequestHash: ow.string })),
+        handler: async (params: { txHash?: string, relayRequestHash?: string }) => params.txHash != null
+          ? await this.backend.txStatusHandler(params.txHash)
+          : await this.backend.relayRequestStatusHandler(params.relayRequestHash as string)
+      },
+      relay_status: {
+        params: NoParamsShape,
+        handler: async () => await this.backend.statusHandler()
+      }
+    }
+  }
+
+  getMethodNames (): string[] {
+    return Object.keys(this.methods)
+  }
+
+  /**
+   * Handle a parsed request body.
+   * @param clientIp - address of the HTTP client, passed on for rate limiting
+   * @param correlationId - of the HTTP request, logged along with the relay requests it carries
+   * @returns the response object, an array of them for a batch, or undefined if nothing must be sent back
+   */
+  async handle (body: any, clientIp?: string, correlationId?: string): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (Array.isArray(body)) {
+      if (body.length === 0) {
+        return jsonrpc.error(null, JsonRpcError.invalidRequest('empty batch'))
+      }
+      const responses: JsonRpcResponse[] = []
+      for (const call of body) {
+        const response = await this.handleCall(call, clientIp, correlationId)
+        if (response != null) {
+          responses.push(response)
+        }
+      }
+      return responses.length === 0 ? undefined : responses
+    }
+    return await this.handleCall(body, clientIp, correlationId)
+  }
+
+  async handleCall (call: any, clientIp?: string, correlationId?: string): Promise<JsonRpcResponse | undefined> {
+    if (!this._isValidCall(call)) {
+      const id: ID = this._isValidId(call?.id) ? call.id : null
+      return jsonrpc.error(id, JsonRpcError.invalidRequest(undefined))
+    }
+    const isNotification = call.id === undefined
+    const id: ID = call.id ?? null
+    const response = await this._execute(id, call.method, call.params, clientIp, correlationId)
+    return isNotification ? undefined : response
+  }
+
+  async _execute (id: ID, methodName: string, params: any, clientIp?: string, correlationId?: string): Promise<JsonRpcResponse> {
+    if (!Object.prototype.hasOwnProperty.call(this.methods, methodName)) {
+      return jsonrpc.error(id, JsonRpcError.methodNotFound({ method: methodName }))
+    }
+    const method = this.methods[methodName]
+    try {
+      ow(params, 'params', method.params)
+    } catch (e) {
+      if (e instanceof ArgumentError) {
+        return jsonrpc.error(id, JsonRpcError.invalidParams(e.message))
+      }
+      throw e
+    }
+    try {
+      const result = await method.handler(params, clientIp, correlationId)
+      // jsonrpc.success() refuses the null id the spec allows
+      return new SuccessObject(id, result ?? null)
+    } catch (e) {
+      const message: string = e.message
+      if (e instanceof RateLimitedError) {
+        log.info(`json-rpc ${methodName} rate limited: ${message}`)
+        return jsonrpc.error(id, new JsonRpcError(message, JSON_RPC_RATE_LIMITED, { retryAfter: e.retryAfterSeconds }))
+      }
+      log.error(`json-rpc ${methodName} rejected: ${message}`)
+      return jsonrpc.error(id, new JsonRpcError(message, JSON_RPC_SERVER_ERROR))
+    }
+  }
+
+  _isValidCall (call: any): boolean {
+    return call != null &&
+      typeof call === 'object' &&
+      call.jsonrpc === '2.0' &&
+      typeof call.method === 'string' &&
+      (call.id === undefined || this._isValidId(call.id)) &&
+      (call.params === undefined || typeof call.params === 'object')
+  }
+
+  _isValidId (id: any): boolean {
+    return id === null || typeof id === 'string' || Number.isInteger(id)
+  }
+}
@@ -4,10 +4,14 @@ import fs from 'fs'
 import ow from 'ow'
 import { toHex } from 'web3-utils'
 import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import { EIP712TypedData } from 'eth-sig-util'
+import { getLocalEip712Signature } from '../common/Utils'
+import { KeystoreOptions, readKeystoreSeed, writeKeystoreSeed } from './Keystore'
+import { TransactionSigner } from './TransactionSigner'
 
 export const KEYSTORE_FILENAME = 'keystore'
 
-export class KeyManager {
+export class KeyManager implements TransactionSigner {
   private readonly hdkey: any
   private _privateKeys: Record<PrefixedHexString, Buffer> = {}
   private nonces: Record<string, number> = {}
@@ -16,34 +20,27 @@ export class KeyManager {
    * @param count - # of addresses managed by this manager
    * @param workdir - read seed from keystore file (or generate one and write it)
    * @param seed - if working in memory (no workdir), you can specify a seed - or use randomly generated one.
+   * @param keystore - encrypt the keystore file with this passphrase. A plaintext keystore file is encrypted in place.
    */
-  constructor (count: number, workdir?: string, seed?: Buffer) {
+  constructor (count: number, workdir?: string, seed?: Buffer, keystore?: KeystoreOptions) {
     ow(count, ow.number)
     if (seed != null && workdir != null) {
       throw new Error('Can\'t specify both seed and workdir')
     }
 
     if (workdir != null) {
-      // @ts-ignore
-      try {
-        if (!fs.existsSync(workdir)) {
-          fs.mkdirSync(workdir, { recursive: true })
-        }
-        let genseed
-        const keyStorePath = workdir + '/' + KEYSTORE_FILENAME
-        if (fs.existsSync(keyStorePath)) {
-          genseed = Buffer.from(JSON.parse(fs.readFileSync(keyStorePath).toString()).seed, 'hex')
-        } else {
-          genseed = Wallet.generate().getPrivateKey()
-          fs.writeFileSync(keyStorePath, JSON.stringify({ seed: genseed.toString('hex') }), { flag: 'w' })
-        }
-        this.hdkey = EthereumHDKey.fromMasterSeed(genseed)
-      } catch (e) {
-        // eslint-disable-next-line @typescript-eslint/strict-boolean-expressions
-        if (!e.message.includes('file already exists')) {
-          throw e
-        }
+      if (!fs.existsSync(workdir)) {
+        fs.mkdirSync(workdir, { recursive: true })
       }
+      let genseed
+      const keyStorePath = workdir + '/' + KEYSTORE_FILENAME
+      if (fs.existsSync(keyStorePath)) {
+        genseed = readKeystoreSeed(keyStorePath, keystore)
+      } else {
+        genseed = Wallet.generate().getPrivateKey()
+        writeKeystoreSeed(keyStorePath, genseed, keystore)
+      }
+      this.hdkey = EthereumHDKey.fromMasterSeed(genseed)
     } else {
       // no workdir: working in-memory
       if (seed == null) {
@@ -59,13 +56,23 @@ export class KeyManager {
     this._privateKeys = {}
     this.nonces = {}
     for (let index = 0; index < count; index++) {
-      const w = this.hdkey.deriveChild(index).getWallet()
-      const address = toHex(w.getAddress())
-      this._privateKeys[address] = w.getPrivateKey()
-      this.nonces[index] = 0
+      this.addKey()
     }
   }
 
+  /**
+   * Derive the key of the next index.
+   * @returns its address
+   */
+  addKey (): PrefixedHexString {
+    const index = this.getAddresses().length
+    const w = this.hdkey.deriveChild(index).getWallet()
+    const address = toHex(w.getAddress())
+    this._privateKeys[address] = w.getPrivateKey()
+    this.nonces[index] = 0
+    return address
+  }
+
   getAddress (index: number): PrefixedHexString {
     return this.getAddresses()[index]
   }
@@ -89,4 +96,13 @@ export class KeyManager {
     const rawTx = '0x' + tx.serialize().toString('hex')
     return rawTx
   }
+
+  signTypedData (signer: string, typedData: EIP712TypedData): PrefixedHexString {
+    ow(signer, ow.string)
+    const privateKey = this._privateKeys[signer]
+    if (privateKey === undefined) {
+      throw new Error(`Can't sign: signer=${signer} is not managed`)
+    }
+    return getLocalEip712Signature(typedData, privateKey)
+  }
 }
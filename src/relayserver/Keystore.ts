@@ -0,0 +1,203 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import readline from 'readline'
+import { Writable } from 'stream'
+import log from 'loglevel'
+import { keccak256 } from 'ethereumjs-util'
+
+// environment variable the passphrase of the keystores is read from first
+export const KEYSTORE_PASSPHRASE_ENV = 'ENVELOPING_KEYSTORE_PASSPHRASE'
+
+export type KdfParams =
+  { kdf: 'scrypt', n: number, r: number, p: number, dklen: number } |
+  { kdf: 'pbkdf2', c: number, prf: 'hmac-sha256', dklen: number }
+
+// the defaults of geth and ethereumjs-wallet
+export const DEFAULT_KDF_PARAMS: KdfParams = { kdf: 'scrypt', n: 262144, r: 8, p: 1, dklen: 32 }
+
+/**
+ * A secret encrypted as a Web3 Secret Storage v3 keystore, with aes-128-ctr and a scrypt or pbkdf2 derived key.
+ * The secret of the relay keystores is the master seed of the keys, which is not itself an account key, so the
+ * keystore has no address.
+ */
+export interface EncryptedKeystore {
+  version: 3
+  id: string
+  crypto: {
+    cipher: 'aes-128-ctr'
+    cipherparams: { iv: string }
+    ciphertext: string
+    kdf: KdfParams['kdf']
+    kdfparams: Record<string, any>
+    mac: string
+  }
+}
+
+/**
+ * How the keystores of a {@link KeyManager} are encrypted.
+ */
+export interface KeystoreOptions {
+  passphrase: string
+  // key derivation of the keystores written, DEFAULT_KDF_PARAMS if not set
+  kdfParams?: KdfParams
+}
+
+function deriveKey (passphrase: string, kdfparams: Record<string, any>): Buffer {
+  const salt = Buffer.from(kdfparams.salt, 'hex')
+  switch (kdfparams.kdf) {
+    case 'scrypt': {
+      const { n, r, p, dklen } = kdfparams
+      // scrypt needs 128 * n * r bytes, more than the default limit of node for the usual n
+      return crypto.scryptSync(passphrase, salt, dklen, { N: n, r, p, maxmem: 256 * n * r })
+    }
+    case 'pbkdf2':
+      if (kdfparams.prf !== 'hmac-sha256') {
+        throw new Error(`Unsupported keystore pbkdf2 prf: ${kdfparams.prf as string}`)
+      }
+      return crypto.pbkdf2Sync(passphrase, salt, kdfparams.c, kdfparams.dklen, 'sha256')
+    default:
+      throw new Error(`Unsupported keystore kdf: ${kdfparams.kdf as string}`)
+  }
+}
+
+function mac (derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  return keccak256(Buffer.concat([derivedKey.slice(16, 32), ciphertext]))
+}
+
+function randomUuid (): string {
+  const bytes = crypto.randomBytes(16)
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = bytes.toString('hex')
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-')
+}
+
+export function encryptKeystore (secret: Buffer, passphrase: string, kdfParams: KdfParams = DEFAULT_KDF_PARAMS): EncryptedKeystore {
+  const kdfparams = { ...kdfParams, salt: crypto.randomBytes(32).toString('hex') }
+  const derivedKey = deriveKey(passphrase, kdfparams)
+  const iv = crypto.randomBytes(16)
+  const cipher = crypto.createCipheriv('aes-128-ctr', derivedKey.slice(0, 16), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()])
+  const { kdf, ...params } = kdfparams
+  return {
+    version: 3,
+    id: randomUuid(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf,
+      kdfparams: params,
+      mac: mac(derivedKey, ciphertext).toString('hex')
+    }
+  }
+}
+
+/**
+ * @throws if the passphrase is wrong, or the keystore is not a supported v3 keystore
+ */
+export function decryptKeystore (keystore: EncryptedKeystore, passphrase: string): Buffer {
+  if (keystore.version !== 3 || keystore.crypto?.cipher !== 'aes-128-ctr') {
+    throw new Error('Unsupported keystore: only version 3 keystores with the aes-128-ctr cipher are supported')
+  }
+  const derivedKey = deriveKey(passphrase, { ...keystore.crypto.kdfparams, kdf: keystore.crypto.kdf })
+  const ciphertext = Buffer.from(keystore.crypto.ciphertext, 'hex')
+  const expectedMac = Buffer.from(keystore.crypto.mac, 'hex')
+  const actualMac = mac(derivedKey, ciphertext)
+  if (expectedMac.length !== actualMac.length || !crypto.timingSafeEqual(expectedMac, actualMac)) {
+    throw new Error('Wrong keystore passphrase')
+  }
+  const decipher = crypto.createDecipheriv('aes-128-ctr', derivedKey.slice(0, 16), Buffer.from(keystore.crypto.cipherparams.iv, 'hex'))
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+export function isEncryptedKeystore (content: any): content is EncryptedKeystore {
+  return content?.crypto != null
+}
+
+/**
+ * Write the seed of a key manager, encrypted if options are given and as plaintext hex otherwise.
+ * The keystore is written to a temporary file first, so that a crash cannot leave it truncated.
+ */
+export function writeKeystoreSeed (keystorePath: string, seed: Buffer, options?: KeystoreOptions): void {
+  const content = options != null ? encryptKeystore(seed, options.passphrase, options.kdfParams) : { seed: seed.toString('hex') }
+  const temporaryPath = `${keystorePath}.tmp`
+  fs.writeFileSync(temporaryPath, JSON.stringify(content), { mode: 0o600 })
+  fs.renameSync(temporaryPath, keystorePath)
+}
+
+/**
+ * Read the seed of a key manager. A plaintext keystore is encrypted in place when options are given.
+ * @throws if the keystore is encrypted and no or a wrong passphrase is given
+ */
+export function readKeystoreSeed (keystorePath: string, options?: KeystoreOptions): Buffer {
+  const content = JSON.parse(fs.readFileSync(keystorePath).toString())
+  if (isEncryptedKeystore(content)) {
+    if (options == null) {
+      throw new Error(`Keystore ${keystorePath} is encrypted, its passphrase is needed`)
+    }
+    return decryptKeystore(content, options.passphrase)
+  }
+  const seed = Buffer.from(content.seed, 'hex')
+  if (options != null) {
+    writeKeystoreSeed(keystorePath, seed, options)
+    log.warn(`Keystore ${keystorePath} was not encrypted, it is now`)
+  }
+  return seed
+}
+
+/**
+ * Encrypt a keystore with a new passphrase.
+ * @param oldPassphrase - undefined if the keystore is not encrypted yet
+ */
+export function changeKeystorePassphrase (keystorePath: string, oldPassphrase: string | undefined, options: KeystoreOptions): void {
+  const content = JSON.parse(fs.readFileSync(keystorePath).toString())
+  if (isEncryptedKeystore(content) && oldPassphrase == null) {
+    throw new Error(`Keystore ${keystorePath} is encrypted, its current passphrase is needed`)
+  }
+  const seed = readKeystoreSeed(keystorePath, oldPassphrase != null ? { passphrase: oldPassphrase } : undefined)
+  writeKeystoreSeed(keystorePath, seed, options)
+}
+
+/**
+ * Ask for a passphrase on the terminal, without echoing it.
+ */
+export async function promptPassphrase (question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Cannot prompt for the keystore passphrase: not running in a terminal')
+  }
+  // the characters typed are echoed to this output, which drops them
+  const muted = new Writable({ write: (chunk, encoding, callback) => callback() })
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true })
+  process.stdout.write(question)
+  try {
+    return await new Promise<string>(resolve => rl.question('', resolve))
+  } finally {
+    rl.close()
+    process.stdout.write('\n')
+  }
+}
+
+/**
+ * The passphrase of the keystores, read from the ENVELOPING_KEYSTORE_PASSPHRASE environment variable,
+ * then from the passphrase file, then from the terminal if prompting is enabled.
+ * @returns undefined if none of them is set, and the keystores are not encrypted
+ */
+export async function readKeystorePassphrase (
+  config: { keystorePassphraseFile: string, keystorePassphrasePrompt: boolean },
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | undefined> {
+  let passphrase: string | undefined
+  if (env[KEYSTORE_PASSPHRASE_ENV] != null && env[KEYSTORE_PASSPHRASE_ENV] !== '') {
+    passphrase = env[KEYSTORE_PASSPHRASE_ENV]
+  } else if (config.keystorePassphraseFile !== '') {
+    // editors usually end files with a newline, which is not part of the passphrase
+    passphrase = fs.readFileSync(config.keystorePassphraseFile, 'utf8').replace(/\r?\n$/, '')
+  } else if (config.keystorePassphrasePrompt) {
+    passphrase = await promptPassphrase('Keystore passphrase: ')
+  }
+  if (passphrase === '') {
+    throw new Error('The keystore passphrase is empty')
+  }
+  return passphrase
+}
@@ -0,0 +1,65 @@
+import ow from 'ow'
+
+import {
+  ArchivedTransaction,
+  matchesArchiveQuery,
+  sortArchivedTransactions,
+  TransactionArchive,
+  TransactionArchiveQuery
+} from './TransactionArchive'
+
+// the archive returns copies, as the other archives do, so its transactions are not changed by their users
+function copy (tx: ArchivedTransaction): ArchivedTransaction {
+  return JSON.parse(JSON.stringify(tx))
+}
+
+/**
+ * A {@link TransactionArchive} kept in memory only, for the servers with the `memory` transaction store.
+ * The transactions are lost on restart.
+ */
+export class MemoryTransactionArchive implements TransactionArchive {
+  // by txId
+  private readonly transactions = new Map<string, ArchivedTransaction>()
+
+  async archiveTransactions (transactions: ArchivedTransaction[]): Promise<void> {
+    for (const tx of transactions) {
+      ow(tx.txId, ow.string.nonEmpty)
+      this.transactions.set(tx.txId, copy(tx))
+    }
+  }
+
+  async getTxByIdOrReplacedId (txId: string): Promise<ArchivedTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return this.find(tx => tx.txId === id || (tx.boostHistory ?? []).some(boost => boost.oldTxId.toLowerCase() === id))
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<ArchivedTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    const hash = relayRequestHash.toLowerCase()
+    return this.find(tx => tx.relayRequestHash?.toLowerCase() === hash)
+  }
+
+  async query (query: TransactionArchiveQuery = {}): Promise<ArchivedTransaction[]> {
+    const transactions = Array.from(this.transactions.values()).filter(tx => matchesArchiveQuery(tx, query)).map(copy)
+    return sortArchivedTransactions(transactions, query.limit)
+  }
+
+  async prune (before: number): Promise<number> {
+    let removed = 0
+    for (const [txId, tx] of this.transactions) {
+      if (tx.archivedAt < before) {
+        this.transactions.delete(txId)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  private find (predicate: (tx: ArchivedTransaction) => boolean): ArchivedTransaction | null {
+    const found = Array.from(this.transactions.values()).find(predicate)
+    return found != null ? copy(found) : null
+  }
+}
@@ -0,0 +1,106 @@
+import ow from 'ow'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address } from '../relayclient/types/Aliases'
+
+import { ServerAction, StoredTransaction } from './StoredTransaction'
+import { compareNonces, isPendingAction, toStoredTx, TxStore } from './TxStore'
+
+// the store returns copies, as the other stores do, so its transactions are not changed by their users
+function copy (tx: StoredTransaction): StoredTransaction {
+  return JSON.parse(JSON.stringify(tx))
+}
+
+/**
+ * A {@link TxStore} kept in memory only, for tests and for servers that rebuild their state from the chain.
+ * The transactions are lost on restart.
+ */
+export class MemoryTxStore implements TxStore {
+  // by signer and nonce
+  private readonly transactions = new Map<string, StoredTransaction>()
+
+  async putTx (tx: StoredTransaction, updateExisting: boolean = false): Promise<void> {
+    const tx1 = toStoredTx(tx)
+    const key = this.key(tx1.from, tx1.nonce)
+    const existing = this.transactions.get(key)
+    if (existing != null && updateExisting) {
+      this.transactions.set(key, copy({ ...existing, ...tx1 }))
+      return
+    }
+    if (existing != null || this.find(it => it.txId === tx1.txId) != null) {
+      throw new Error(`Can't insert transaction ${tx1.txId} of ${tx1.from} with nonce ${tx1.nonce}, it violates the unique constraint`)
+    }
+    this.transactions.set(key, copy(tx1))
+  }
+
+  async getTxByNonce (signer: PrefixedHexString, nonce: number): Promise<StoredTransaction> {
+    ow(nonce, ow.any(ow.number, ow.string))
+    ow(signer, ow.string)
+
+    return this.result(this.transactions.get(this.key(signer, nonce)))
+  }
+
+  async getTxById (txId: string): Promise<StoredTransaction> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return this.result(this.find(it => it.txId === id))
+  }
+
+  async getTxByIdOrReplacedId (txId: string): Promise<StoredTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return this.result(this.find(it => it.txId === id || (it.boostHistory ?? []).some(boost => boost.oldTxId.toLowerCase() === id)))
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<StoredTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    const hash = relayRequestHash.toLowerCase()
+    return this.result(this.find(it => it.relayRequestHash?.toLowerCase() === hash))
+  }
+
+  async getTxsUntilNonce (signer: PrefixedHexString, nonce: number): Promise<StoredTransaction[]> {
+    return (await this.getAllBySigner(signer)).filter(it => it.nonce <= nonce)
+  }
+
+  async removeTxsUntilNonce (signer: PrefixedHexString, nonce: number): Promise<unknown> {
+    ow(nonce, ow.number)
+    ow(signer, ow.string)
+
+    const removed = await this.getTxsUntilNonce(signer, nonce)
+    removed.forEach(it => this.transactions.delete(this.key(signer, it.nonce)))
+    return removed.length
+  }
+
+  async clearAll (): Promise<void> {
+    this.transactions.clear()
+  }
+
+  async getAllBySigner (signer: PrefixedHexString): Promise<StoredTransaction[]> {
+    const lowerCaseSigner = signer.toLowerCase()
+    return (await this.getAll()).filter(it => it.nonceSigner?.signer === lowerCaseSigner)
+  }
+
+  async getAll (): Promise<StoredTransaction[]> {
+    return Array.from(this.transactions.values()).map(copy).sort(compareNonces)
+  }
+
+  async isActionPending (serverAction: ServerAction, destination: Address | undefined = undefined): Promise<boolean> {
+    return this.find(it => isPendingAction(it, serverAction, destination)) != null
+  }
+
+  private key (signer: Address, nonce: number | string): string {
+    return `${signer.toLowerCase()}:${nonce.toString()}`
+  }
+
+  private find (predicate: (tx: StoredTransaction) => boolean): StoredTransaction | undefined {
+    return Array.from(this.transactions.values()).find(predicate)
+  }
+
+  private result (tx: StoredTransaction | undefined): StoredTransaction {
+    // as nedb, the store answers null when nothing is found
+    return (tx != null ? copy(tx) : null) as StoredTransaction
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Minimal metrics registry rendering the Prometheus text exposition format (version 0.0.4).
+ * Only the metric types the relay server needs are implemented.
+ */
+export type Labels = Record<string, string>
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+function escapeLabelValue (value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function labelsKey (labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort((a, b) => a.localeCompare(b)).map(name => [name, labels[name]]))
+}
+
+function formatLabels (labels: Labels): string {
+  const names = Object.keys(labels)
+  if (names.length === 0) {
+    return ''
+  }
+  return '{' + names.map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(',') + '}'
+}
+
+function formatValue (value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf'
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf'
+  return value.toString()
+}
+
+abstract class Metric {
+  constructor (readonly name: string, readonly help: string, readonly type: string) {}
+
+  abstract samples (): string[]
+
+  render (): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n')
+  }
+}
+
+abstract class LabelledMetric extends Metric {
+  protected readonly values = new Map<string, { labels: Labels, value: number }>()
+
+  protected _add (labels: Labels, delta: number): void {
+    const key = labelsKey(labels)
+    const current = this.values.get(key)
+    this.values.set(key, { labels, value: (current?.value ?? 0) + delta })
+  }
+
+  get (labels: Labels = {}): number {
+    return this.values.get(labelsKey(labels))?.value ?? 0
+  }
+
+  samples (): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+  }
+}
+
+export class Counter extends LabelledMetric {
+  constructor (name: string, help: string) {
+    super(name, help, 'counter')
+  }
+
+  inc (labels: Labels = {}, delta: number = 1): void {
+    if (delta < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`)
+    }
+    this._add(labels, delta)
+  }
+}
+
+export class Gauge extends LabelledMetric {
+  constructor (name: string, help: string) {
+    super(name, help, 'gauge')
+  }
+
+  set (value: number, labels: Labels = {}): void {
+    this.values.set(labelsKey(labels), { labels, value })
+  }
+
+  reset (): void {
+    this.values.clear()
+  }
+}
+
+export class Histogram extends Metric {
+  private readonly bucketCounts: number[]
+  private sum = 0
+  private count = 0
+
+  constructor (name: string, help: string, readonly buckets: number[]) {
+    super(name, help, 'histogram')
+    this.buckets = [...buckets].sort((a, b) => a - b)
+    this.bucketCounts = this.buckets.map(() => 0)
+  }
+
+  observe (value: number): void {
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        this.bucketCounts[index]++
+      }
+    })
+    this.sum += value
+    this.count++
+  }
+
+  samples (): string[] {
+    return [
+      ...this.buckets.map((bucket, index) => `${this.name}_bucket{le="${formatValue(bucket)}"} ${this.bucketCounts[index]}`),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${formatValue(this.sum)}`,
+      `${this.name}_count ${this.count}`
+    ]
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = []
+
+  register<T extends Metric> (metric: T): T {
+    if (this.metrics.find(it => it.name === metric.name) != null) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.push(metric)
+    return metric
+  }
+
+  render (): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n'
+  }
+}
+
+const PREFIX = 'enveloping_relay_'
+
+/**
+ * The set of metrics exported by the relay server on the /metrics endpoint.
+ */
+export class RelayServerMetrics {
+  readonly registry = new MetricsRegistry()
+
+  readonly relayedRequests = this.registry.register(new Counter(`${PREFIX}requests_relayed_total`,
+    'Relay and deploy requests accepted and broadcast, by verifier'))
+
+  readonly rejectedRequests = this.registry.register(new Counter(`${PREFIX}requests_rejected_total`,
+    'Relay and deploy requests rejected, by rejection reason and verifier'))
+
+  readonly boostedTransactions = this.registry.register(new Counter(`${PREFIX}boosted_transactions_total`,
+    'Stuck transactions re-sent with a higher gas price'))
+
+  readonly pendingTransactions = this.registry.register(new Gauge(`${PREFIX}pending_transactions`,
+    'Transactions in the TxStore not yet confirmed'))
+
+  readonly workerBalance = this.registry.register(new Gauge(`${PREFIX}worker_balance_wei`,
+    'Last known balance of each relay worker'))
+
+  readonly managerBalance = this.registry.register(new Gauge(`${PREFIX}manager_balance_wei`,
+    'Last known balance of the relay manager'))
+
+  readonly gasPrice = this.registry.register(new Gauge(`${PREFIX}gas_price_wei`,
+    'Minimum gas price currently accepted by the relay server'))
+
+  readonly ready = this.registry.register(new Gauge(`${PREFIX}ready`,
+    '1 if the relay server is READY, 0 otherwise'))
+
+  readonly alerted = this.registry.register(new Gauge(`${PREFIX}alerted`,
+    '1 if the relay server is in alerted state, 0 otherwise'))
+
+  readonly roundDuration = this.registry.register(new Histogram(`${PREFIX}interval_round_duration_seconds`,
+    'Duration of the handling of each new block', [0.1, 0.5, 1, 2.5, 5, 10, 30, 60]))
+}
@@ -0,0 +1,80 @@
+import AsyncNedb from 'nedb-async'
+import log from 'loglevel'
+import ow from 'ow'
+
+import { ArchivedTransaction, sortArchivedTransactions, TransactionArchive, TransactionArchiveQuery } from './TransactionArchive'
+
+export const TX_ARCHIVE_FILENAME = 'txarchive.db'
+
+/**
+ * A {@link TransactionArchive} in a nedb file, `txarchive.db` in the workdir.
+ */
+export class NedbTransactionArchive implements TransactionArchive {
+  private readonly archive: AsyncNedb<any>
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    this.archive = new AsyncNedb({
+      filename: inMemory ? undefined : `${workdir}/${TX_ARCHIVE_FILENAME}`,
+      autoload: true,
+      timestampData: true
+    })
+    this.archive.ensureIndex({ fieldName: 'txId', unique: true })
+    this.archive.ensureIndex({ fieldName: 'nonceSigner.signer' })
+    this.archive.ensureIndex({ fieldName: 'minedBlockNumber' })
+    this.archive.ensureIndex({ fieldName: 'relayRequestHash' })
+    this.archive.ensureIndex({ fieldName: 'archivedAt' })
+
+    log.info('Transaction archive location:', inMemory ? 'memory' : `${workdir}/${TX_ARCHIVE_FILENAME}`)
+  }
+
+  async archiveTransactions (transactions: ArchivedTransaction[]): Promise<void> {
+    for (const tx of transactions) {
+      ow(tx.txId, ow.string.nonEmpty)
+      await this.archive.asyncUpdate({ txId: tx.txId }, tx, { upsert: true })
+    }
+  }
+
+  async getTxByIdOrReplacedId (txId: string): Promise<ArchivedTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return await this.archive.asyncFindOne({ $or: [{ txId: id }, { 'boostHistory.oldTxId': id }] })
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<ArchivedTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    return await this.archive.asyncFindOne({ relayRequestHash: relayRequestHash.toLowerCase() })
+  }
+
+  async query (query: TransactionArchiveQuery = {}): Promise<ArchivedTransaction[]> {
+    const conditions: any[] = []
+    if (query.signer != null) {
+      conditions.push({ 'nonceSigner.signer': query.signer.toLowerCase() })
+    }
+    if (query.destination != null) {
+      conditions.push({ to: query.destination.toLowerCase() })
+    }
+    if (query.serverAction != null) {
+      conditions.push({ serverAction: query.serverAction })
+    }
+    if (query.fromBlock != null) {
+      conditions.push({ minedBlockNumber: { $gte: query.fromBlock } })
+    }
+    if (query.toBlock != null) {
+      conditions.push({ minedBlockNumber: { $lte: query.toBlock } })
+    }
+    const documents: Array<ArchivedTransaction & { _id?: string, createdAt?: Date, updatedAt?: Date }> =
+      await this.archive.asyncFind(conditions.length > 0 ? { $and: conditions } : {})
+    return sortArchivedTransactions(documents.map(({ _id, createdAt, updatedAt, ...tx }) => tx as ArchivedTransaction), query.limit)
+  }
+
+  async prune (before: number): Promise<number> {
+    const removed = await this.archive.asyncRemove({ archivedAt: { $lt: before } }, { multi: true }) as number
+    if (removed > 0) {
+      // nedb appends the removals to the file, rewriting it is what frees the space
+      this.archive.persistence.compactDatafile()
+    }
+    return removed
+  }
+}
@@ -0,0 +1,111 @@
+import ow, { BasePredicate } from 'ow'
+
+/**
+ * The structure of a request or response body, as the ow validators of the relay server describe it:
+ * - an ow predicate, e.g. `ow.string` or `ow.optional.number`
+ * - a plain object of shapes, for an object with exactly these properties
+ * - an array of one shape, for an array of items of that shape
+ */
+export type ApiShape = BasePredicate<any> | ApiObjectShape | ApiArrayShape
+export interface ApiObjectShape { [property: string]: ApiShape }
+export interface ApiArrayShape extends Array<ApiShape> {}
+
+/**
+ * The subset of the OpenAPI 3 schema object generated from an {@link ApiShape}.
+ */
+export interface OpenApiSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+  properties?: Record<string, OpenApiSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: OpenApiSchema
+  oneOf?: OpenApiSchema[]
+  enum?: string[]
+  $ref?: string
+  description?: string
+}
+
+function isObjectShape (shape: ApiShape): shape is ApiObjectShape {
+  return shape != null && Object.getPrototypeOf(shape) === Object.prototype
+}
+
+/**
+ * @returns the ow predicate validating the values of the shape
+ */
+export function shapePredicate (shape: ApiShape): BasePredicate<any> {
+  if (Array.isArray(shape)) {
+    return ow.array.ofType(shapePredicate(shape[0]))
+  }
+  if (isObjectShape(shape)) {
+    const properties: Record<string, BasePredicate<any>> = {}
+    Object.entries(shape).forEach(([name, property]) => { properties[name] = shapePredicate(property) })
+    return ow.object.exactShape(properties)
+  }
+  return shape as BasePredicate<any>
+}
+
+/**
+ * Whether the value of a property of the shape may be missing.
+ */
+export function isOptionalShape (shape: ApiShape): boolean {
+  return !Array.isArray(shape) && !isObjectShape(shape) && ow.isValid(undefined, shape as BasePredicate<any>)
+}
+
+// schemas of the predicates whose type can't be found from sample values, e.g. the ones of enumPredicate
+const PredicateSchemas = new WeakMap<BasePredicate<any>, OpenApiSchema>()
+
+/**
+ * `ow.string.oneOf(values)`, described in the OpenAPI document as a string enum.
+ */
+export function enumPredicate (values: readonly string[]): BasePredicate<string> {
+  const predicate = ow.string.oneOf([...values])
+  PredicateSchemas.set(predicate, { type: 'string', enum: [...values] })
+  return predicate
+}
+
+// ow predicates do not expose their type, so it is found from the sample values they take
+function predicateSchema (predicate: BasePredicate<any>): OpenApiSchema {
+  const schema = PredicateSchemas.get(predicate)
+  if (schema != null) {
+    return schema
+  }
+  if (ow.isValid('0x', predicate)) {
+    return { type: 'string' }
+  }
+  if (ow.isValid(1, predicate)) {
+    return { type: ow.isValid(1.5, predicate) ? 'number' : 'integer' }
+  }
+  if (ow.isValid(true, predicate)) {
+    return { type: 'boolean' }
+  }
+  if (ow.isValid([], predicate)) {
+    return { type: 'array' }
+  }
+  if (ow.isValid({}, predicate)) {
+    return { type: 'object' }
+  }
+  // so a shape is not published without its type
+  throw new Error('No OpenAPI schema for the predicate: describe it with enumPredicate or take a sample value')
+}
+
+/**
+ * @returns the OpenAPI schema of the values the shape validates
+ */
+export function shapeToSchema (shape: ApiShape): OpenApiSchema {
+  if (Array.isArray(shape)) {
+    return { type: 'array', items: shapeToSchema(shape[0]) }
+  }
+  if (isObjectShape(shape)) {
+    const properties: Record<string, OpenApiSchema> = {}
+    Object.entries(shape).forEach(([name, property]) => { properties[name] = shapeToSchema(property) })
+    const required = Object.keys(shape).filter(name => !isOptionalShape(shape[name]))
+    return {
+      type: 'object',
+      properties,
+      // OpenAPI 3.0 does not allow an empty list
+      required: required.length !== 0 ? required : undefined,
+      additionalProperties: false
+    }
+  }
+  return predicateSchema(shape as BasePredicate<any>)
+}
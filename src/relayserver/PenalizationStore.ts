@@ -0,0 +1,112 @@
+import AsyncNedb from 'nedb-async'
+import log from 'loglevel'
+import ow from 'ow'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address, IntString } from '../relayclient/types/Aliases'
+
+export const PENALIZATIONS_FILENAME = 'penalizations.db'
+
+/**
+ * A transaction as the penalizer takes it: the RLP of its unsigned fields and its signature.
+ */
+export interface PenalizableTransaction {
+  txHash: PrefixedHexString
+  unsignedTx: PrefixedHexString
+  signature: PrefixedHexString
+}
+
+/**
+ * Two different transactions signed by a relay worker with the same nonce, and what was done about them.
+ */
+export interface PenalizationEvidence {
+  // hashes of both transactions, sorted and joined
+  id: string
+  // lower-cased relay worker that signed both transactions
+  signer: Address
+  nonce: number
+  transactions: PenalizableTransaction[]
+  detectedBlock: number
+  // penalizeRepeatedNonce transaction, not set if it was not sent
+  penalizationTxHash?: PrefixedHexString
+  // nonce of the penalization, kept by its boosts
+  penalizationNonce?: number
+  // why the penalization was not sent, e.g. the transactions were penalized already,
+  // or why it failed, e.g. it reverted
+  error?: string
+  // times sending the penalization was tried, as failures to reach the node are tried again
+  attempts?: number
+  // set when the StakePenalized event of the penalization is seen
+  penalizedBlock?: number
+  reward?: IntString
+  // transfer of the reward to the penalizationBeneficiary
+  rewardTransferTxHash?: PrefixedHexString
+}
+
+export function getEvidenceId (txHash1: PrefixedHexString, txHash2: PrefixedHexString): string {
+  const [first, second] = [txHash1.toLowerCase(), txHash2.toLowerCase()]
+  return first < second ? `${first}-${second}` : `${second}-${first}`
+}
+
+/**
+ * Record of the repeated nonce evidence already handled, so it is submitted once, across restarts.
+ */
+export class PenalizationStore {
+  private readonly store: AsyncNedb<any>
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    this.store = new AsyncNedb({
+      filename: inMemory ? undefined : `${workdir}/${PENALIZATIONS_FILENAME}`,
+      autoload: true,
+      timestampData: true
+    })
+    this.store.ensureIndex({ fieldName: 'id', unique: true })
+
+    log.info('Penalizations database location:', inMemory ? 'memory' : `${workdir}/${PENALIZATIONS_FILENAME}`)
+  }
+
+  async putEvidence (evidence: PenalizationEvidence): Promise<void> {
+    ow(evidence.id, ow.string.nonEmpty)
+    await this.store.asyncInsert(evidence)
+  }
+
+  async updateEvidence (id: string, update: Partial<PenalizationEvidence>): Promise<void> {
+    await this.store.asyncUpdate({ id }, { $set: update })
+  }
+
+  async getEvidence (id: string): Promise<PenalizationEvidence | null> {
+    ow(id, ow.string)
+
+    return await this.store.asyncFindOne({ id })
+  }
+
+  /**
+   * Penalizations sent whose StakePenalized event was not seen yet, and that did not fail.
+   */
+  async getUnconfirmedPenalizations (): Promise<PenalizationEvidence[]> {
+    return await this.store.asyncFind({
+      $and: [
+        { penalizationTxHash: { $exists: true } },
+        { penalizedBlock: { $exists: false } },
+        { error: { $exists: false } }]
+    })
+  }
+
+  /**
+   * Evidence whose penalization could not be sent, tried less than maxAttempts times.
+   */
+  async getRetryablePenalizations (maxAttempts: number): Promise<PenalizationEvidence[]> {
+    return await this.store.asyncFind({
+      $and: [
+        { penalizationTxHash: { $exists: false } },
+        { error: { $exists: true } },
+        { attempts: { $lt: maxAttempts } }]
+    })
+  }
+
+  async getAll (): Promise<PenalizationEvidence[]> {
+    return (await this.store.asyncFind({})).sort(function (e1, e2) {
+      return e1.detectedBlock - e2.detectedBlock
+    })
+  }
+}
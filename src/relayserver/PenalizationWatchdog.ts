@@ -0,0 +1,354 @@
+import log from 'loglevel'
+import { PrefixedHexString, Transaction as EthereumTransaction } from 'ethereumjs-tx'
+import {
+  bufferToHex,
+  bufferToInt,
+  ecrecover,
+  keccak256,
+  publicToAddress,
+  rlp,
+  setLengthLeft,
+  stripZeros,
+  toBuffer
+} from 'ethereumjs-util'
+import { Transaction } from 'web3-core'
+import { toBN, toHex } from 'web3-utils'
+
+import { Address } from '../relayclient/types/Aliases'
+import { defaultEnvironment } from '../common/Environments'
+import ContractInteractor, { RelayWorkersAdded, StakePenalized } from '../common/ContractInteractor'
+import { isSameAddress } from '../common/Utils'
+
+import { PenalizableTransaction, PenalizationEvidence, PenalizationStore, getEvidenceId } from './PenalizationStore'
+import { SendTransactionDetails, TransactionManager } from './TransactionManager'
+import { ServerConfigParams } from './ServerConfigParams'
+import { ServerAction } from './StoredTransaction'
+
+// bounds the work of a round when the server falls behind
+const MAX_BLOCKS_PER_ROUND = 50
+// how long a transaction is remembered to compare it with later ones using the same nonce
+const SEEN_TRANSACTIONS_BLOCKS = 1000
+// a penalization failing e.g. for a node error is tried again at the next blocks, up to this many times
+const MAX_PENALIZATION_ATTEMPTS = 5
+
+const mintxgascost = defaultEnvironment.mintxgascost
+
+/**
+ * A transaction as returned by the node, with its signature.
+ */
+export interface SignedRpcTransaction extends Transaction {
+  v: string
+  r: string
+  s: string
+}
+
+function toIntBuffer (value: number | string): Buffer {
+  return stripZeros(toBuffer(toHex(toBN(value))))
+}
+
+/**
+ * Rebuild the payload a transaction signer signed, and its signature, as {@link Penalizer.penalizeRepeatedNonce} takes them.
+ * @throws if the signature does not recover the sender of the transaction
+ */
+export function getPenalizableTransaction (tx: SignedRpcTransaction): PenalizableTransaction {
+  const fields = [
+    toIntBuffer(tx.nonce),
+    toIntBuffer(tx.gasPrice),
+    toIntBuffer(tx.gas),
+    toBuffer(tx.to ?? '0x'),
+    toIntBuffer(tx.value),
+    toBuffer(tx.input)
+  ]
+  let v = bufferToInt(toBuffer(tx.v))
+  // EIP-155 signatures cover the chain id, and carry it in v
+  if (v > 28) {
+    const chainId = Math.floor((v - 35) / 2)
+    fields.push(toBuffer(chainId), Buffer.alloc(0), Buffer.alloc(0))
+    v -= chainId * 2 + 8
+  }
+  const unsignedTx = rlp.encode(fields)
+  const r = setLengthLeft(toBuffer(tx.r), 32) as Buffer
+  const s = setLengthLeft(toBuffer(tx.s), 32) as Buffer
+  const signer = bufferToHex(publicToAddress(ecrecover(keccak256(unsignedTx), v, r, s)))
+  if (!isSameAddress(signer, tx.from)) {
+    throw new Error(`signature of transaction ${tx.hash} recovers ${signer} instead of ${tx.from}`)
+  }
+  return {
+    txHash: tx.hash,
+    unsignedTx: bufferToHex(unsignedTx),
+    signature: bufferToHex(Buffer.concat([r, s, toBuffer(v)]))
+  }
+}
+
+/**
+ * Transactions with the same signer and nonce are penalizable unless they only differ in gas price,
+ * as a boost does. This mirrors the checks of the penalizer.
+ */
+export function isRepeatedNonce (tx1: Transaction, tx2: Transaction): boolean {
+  if (!isSameAddress(tx1.from, tx2.from) || tx1.nonce !== tx2.nonce || tx1.hash === tx2.hash) {
+    return false
+  }
+  return tx1.input.toLowerCase() !== tx2.input.toLowerCase() ||
+    tx1.gas !== tx2.gas ||
+    !isSameAddress(tx1.to ?? '0x', tx2.to ?? '0x') ||
+    !toBN(tx1.value).eq(toBN(tx2.value))
+}
+
+/**
+ * Watches the blocks and the mempool for relay workers of other relays signing two different transactions
+ * with the same nonce, and reports them to the penalizer. The penalizer forfeits the stake of their manager and
+ * rewards half of it to the relay manager of this server, which forwards it to the `penalizationBeneficiary`
+ * if one is configured.
+ */
+export class PenalizationWatchdog {
+  lastScannedBlock = 0
+  private lastWorkersScannedBlock = 0
+  private lastPenalizationsScannedBlock = 0
+  // lower-cased workers of the other relay managers registered on the hub
+  readonly registeredWorkers = new Set<Address>()
+  private readonly ownWorkers: Set<Address>
+  // `${signer}:${nonce}` => first transaction seen with that nonce
+  private readonly seenTransactions = new Map<string, { tx: SignedRpcTransaction, blockNumber: number }>()
+
+  constructor (
+    readonly contractInteractor: ContractInteractor,
+    readonly transactionManager: TransactionManager,
+    readonly store: PenalizationStore,
+    readonly config: ServerConfigParams,
+    readonly managerAddress: Address,
+    workerAddresses: Address[]) {
+    this.ownWorkers = new Set(workerAddresses.map(it => it.toLowerCase()))
+  }
+
+  /**
+   * Look at the blocks since the last scan and at the pending transactions.
+   * @returns hashes of the transactions sent
+   */
+  async scan (currentBlock: number): Promise<PrefixedHexString[]> {
+    await this._refreshRegisteredWorkers(currentBlock)
+    const fromBlock = Math.max(this.lastScannedBlock + 1, currentBlock - MAX_BLOCKS_PER_ROUND + 1)
+    // before the new evidence, so a penalization is tried once per round
+    let transactionHashes = await this._retryPenalizations(currentBlock)
+    for (let blockNumber = fromBlock; blockNumber <= currentBlock; blockNumber++) {
+      const block = await this.contractInteractor.getBlockWithTransactions(blockNumber)
+      transactionHashes = transactionHashes.concat(await this._inspectTransactions(block.transactions as SignedRpcTransaction[], blockNumber, currentBlock))
+    }
+    this.lastScannedBlock = currentBlock
+    try {
+      const pending = await this.contractInteractor.getBlockWithTransactions('pending')
+      transactionHashes = transactionHashes.concat(await this._inspectTransactions(pending.transactions as SignedRpcTransaction[], currentBlock, currentBlock))
+    } catch (e) {
+      log.debug(`penalization watchdog: cannot read the pending transactions: ${(e as Error).message}`)
+    }
+    this._forgetOldTransactions(currentBlock)
+    return transactionHashes.concat(await this._handlePenalizedStakes(currentBlock))
+  }
+
+  async _refreshRegisteredWorkers (currentBlock: number): Promise<void> {
+    const events = await this.contractInteractor.getPastEventsForHub([],
+      { fromBlock: this.lastWorkersScannedBlock + 1, toBlock: currentBlock }, [RelayWorkersAdded])
+    for (const event of events) {
+      if (isSameAddress(event.returnValues.relayManager, this.managerAddress)) {
+        continue
+      }
+      for (const worker of event.returnValues.newRelayWorkers as Address[]) {
+        this.registeredWorkers.add(worker.toLowerCase())
+      }
+    }
+    this.lastWorkersScannedBlock = currentBlock
+  }
+
+  async _inspectTransactions (transactions: SignedRpcTransaction[], blockNumber: number, currentBlock: number): Promise<PrefixedHexString[]> {
+    const transactionHashes: PrefixedHexString[] = []
+    for (const tx of transactions) {
+      const signer = tx.from.toLowerCase()
+      if (!this.registeredWorkers.has(signer) || this.ownWorkers.has(signer)) {
+        continue
+      }
+      const key = `${signer}:${tx.nonce}`
+      const seen = this.seenTransactions.get(key)
+      if (seen == null) {
+        this.seenTransactions.set(key, { tx, blockNumber })
+        continue
+      }
+      if (isRepeatedNonce(seen.tx, tx)) {
+        const txHash = await this.reportRepeatedNonce(seen.tx, tx, currentBlock)
+        if (txHash != null) {
+          transactionHashes.push(txHash)
+        }
+      }
+    }
+    return transactionHashes
+  }
+
+  _forgetOldTransactions (currentBlock: number): void {
+    for (const [key, seen] of this.seenTransactions) {
+      if (seen.blockNumber < currentBlock - SEEN_TRANSACTIONS_BLOCKS) {
+        this.seenTransactions.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Send the two transactions to the penalizer, unless this evidence was handled already.
+   * @returns hash of the penalization, if sent
+   */
+  async reportRepeatedNonce (tx1: SignedRpcTransaction, tx2: SignedRpcTransaction, currentBlock: number): Promise<PrefixedHexString | undefined> {
+    const id = getEvidenceId(tx1.hash, tx2.hash)
+    if (await this.store.getEvidence(id) != null) {
+      return undefined
+    }
+    log.warn(`Relay worker ${tx1.from} signed transactions ${tx1.hash} and ${tx2.hash} with the same nonce ${tx1.nonce}`)
+    const evidence: PenalizationEvidence = {
+      id,
+      signer: tx1.from.toLowerCase(),
+      nonce: tx1.nonce,
+      transactions: [],
+      detectedBlock: currentBlock,
+      attempts: 0
+    }
+    try {
+      evidence.transactions = [getPenalizableTransaction(tx1), getPenalizableTransaction(tx2)]
+    } catch (e) {
+      // the transactions can't be penalized, so there is nothing to try again
+      evidence.error = (e as Error).message
+      evidence.attempts = MAX_PENALIZATION_ATTEMPTS
+      log.error(`Cannot penalize relay worker ${tx1.from}: ${evidence.error}`)
+      await this.store.putEvidence(evidence)
+      return undefined
+    }
+    Object.assign(evidence, await this._penalize(evidence, currentBlock))
+    await this.store.putEvidence(evidence)
+    return evidence.penalizationTxHash
+  }
+
+  /**
+   * Send again the penalizations that could not be sent, unless a penalization is pending: it may be one whose
+   * broadcast failed, which the TransactionManager sends again itself.
+   * @returns hashes of the penalizations sent
+   */
+  async _retryPenalizations (currentBlock: number): Promise<PrefixedHexString[]> {
+    const retryable = await this.store.getRetryablePenalizations(MAX_PENALIZATION_ATTEMPTS)
+    if (retryable.length === 0 || await this.transactionManager.txStoreManager.isActionPending(ServerAction.PENALIZATION)) {
+      return []
+    }
+    const transactionHashes: PrefixedHexString[] = []
+    for (const evidence of retryable) {
+      log.info(`Trying again to penalize relay worker ${evidence.signer}, last error: ${evidence.error ?? ''}`)
+      const update = await this._penalize(evidence, currentBlock)
+      await this.store.updateEvidence(evidence.id, update)
+      if (update.penalizationTxHash != null) {
+        transactionHashes.push(update.penalizationTxHash)
+      }
+    }
+    return transactionHashes
+  }
+
+  /**
+   * Send the penalizeRepeatedNonce transaction of the evidence.
+   * @returns the fields of the evidence to update: the penalization sent, or the error
+   */
+  async _penalize (evidence: PenalizationEvidence, currentBlock: number): Promise<Partial<PenalizationEvidence>> {
+    const attempts = (evidence.attempts ?? 0) + 1
+    try {
+      const [first, second] = evidence.transactions
+      const method = await this.contractInteractor.getPenalizeRepeatedNonceMethod(first.unsignedTx, first.signature, second.unsignedTx, second.signature)
+      // the penalizer rejects transactions already penalized, and managers without stake
+      await method.call({ from: this.managerAddress })
+      const gasLimit = await this.transactionManager.attemptEstimateGas('PenalizeRepeatedNonce', method, this.managerAddress)
+      const details: SendTransactionDetails = {
+        signer: this.managerAddress,
+        serverAction: ServerAction.PENALIZATION,
+        method,
+        destination: await this.contractInteractor.getPenalizerAddress(),
+        gasLimit,
+        creationBlockNumber: currentBlock
+      }
+      const { transactionHash, signedTx } = await this.transactionManager.sendTransaction(details)
+      log.warn(`Penalization of relay worker ${evidence.signer} sent: ${transactionHash}`)
+      return {
+        attempts,
+        error: undefined,
+        penalizationTxHash: transactionHash,
+        penalizationNonce: bufferToInt(new EthereumTransaction(signedTx, this.transactionManager.rawTxOptions).nonce)
+      }
+    } catch (e) {
+      const error = (e as Error).message
+      log.error(`Cannot penalize relay worker ${evidence.signer} (attempt ${attempts} of ${MAX_PENALIZATION_ATTEMPTS}): ${error}`)
+      return { attempts, error }
+    }
+  }
+
+  /**
+   * Match the StakePenalized events rewarding this relay manager with the penalizations sent, and forward the
+   * rewards to the beneficiary.
+   */
+  async _handlePenalizedStakes (currentBlock: number): Promise<PrefixedHexString[]> {
+    const unconfirmed = await this.store.getUnconfirmedPenalizations()
+    if (unconfirmed.length === 0) {
+      return []
+    }
+    // the blocks scanned already are not scanned again, so the range does not grow while a penalization is pending
+    const fromBlock = Math.max(Math.min(...unconfirmed.map(it => it.detectedBlock)), this.lastPenalizationsScannedBlock + 1)
+    const events = fromBlock <= currentBlock
+      ? await this.contractInteractor.getPastEventsForStakeManagement([StakePenalized], [], { fromBlock, toBlock: currentBlock })
+      : []
+    this.lastPenalizationsScannedBlock = currentBlock
+    const transactionHashes: PrefixedHexString[] = []
+    const penalized = new Set<string>()
+    for (const event of events) {
+      if (!isSameAddress(event.returnValues.beneficiary, this.managerAddress)) {
+        continue
+      }
+      const penalization = await this.contractInteractor.getTransaction(event.transactionHash)
+      // boosts change the hash of the penalization, but not its nonce
+      const evidence = unconfirmed.find(it => it.penalizationNonce === penalization.nonce && isSameAddress(penalization.from, this.managerAddress))
+      if (evidence == null) {
+        continue
+      }
+      const reward: string = event.returnValues.reward.toString()
+      const update: Partial<PenalizationEvidence> = { penalizedBlock: event.blockNumber, reward }
+      log.warn(`Relay manager ${event.returnValues.relayManager as string} penalized, reward: ${reward}`)
+      if (this.config.penalizationBeneficiary !== '' && !isSameAddress(this.config.penalizationBeneficiary, this.managerAddress)) {
+        update.rewardTransferTxHash = await this._transferReward(reward, currentBlock)
+        transactionHashes.push(update.rewardTransferTxHash)
+      }
+      await this.store.updateEvidence(evidence.id, update)
+      penalized.add(evidence.id)
+    }
+    await this._failUnmatchedPenalizations(unconfirmed.filter(it => !penalized.has(it.id)), currentBlock)
+    return transactionHashes
+  }
+
+  /**
+   * Mark as failed the penalizations confirmed without their StakePenalized event, e.g. reverted because another
+   * relay reported the same worker first, so they are no longer waited for.
+   */
+  async _failUnmatchedPenalizations (unmatched: PenalizationEvidence[], currentBlock: number): Promise<void> {
+    if (unmatched.length === 0) {
+      return
+    }
+    const confirmedBlock = Math.max(currentBlock - this.config.confirmationsNeeded, 0)
+    const confirmedNonce = await this.contractInteractor.getTransactionCount(this.managerAddress, confirmedBlock)
+    for (const evidence of unmatched) {
+      if (evidence.penalizationNonce != null && evidence.penalizationNonce < confirmedNonce) {
+        const error = 'the penalization was mined without penalizing the relay manager'
+        log.warn(`Penalization of relay worker ${evidence.signer} failed: ${error}`)
+        await this.store.updateEvidence(evidence.id, { error })
+      }
+    }
+  }
+
+  async _transferReward (reward: string, currentBlock: number): Promise<PrefixedHexString> {
+    const details: SendTransactionDetails = {
+      signer: this.managerAddress,
+      serverAction: ServerAction.VALUE_TRANSFER,
+      destination: this.config.penalizationBeneficiary,
+      value: toHex(reward),
+      gasLimit: mintxgascost,
+      creationBlockNumber: currentBlock
+    }
+    const { transactionHash } = await this.transactionManager.sendTransaction(details)
+    return transactionHash
+  }
+}
@@ -0,0 +1,122 @@
+import RateLimitedError from '../common/RateLimitedError'
+import { ServerConfigParams } from './ServerConfigParams'
+
+export interface TokenBucketConfig {
+  // maximum number of requests accepted in a burst
+  burst: number
+  // sustained number of requests accepted per minute
+  perMinute: number
+}
+
+export type RateLimitScope = 'ip' | 'sender' | 'forwarder' | 'destination'
+
+// above this many tracked keys per scope, buckets that refilled completely are dropped
+const PRUNE_THRESHOLD = 10000
+
+export class TokenBucket {
+  tokens: number
+  private lastRefill: number
+
+  constructor (readonly config: TokenBucketConfig, now: number) {
+    this.tokens = config.burst
+    this.lastRefill = now
+  }
+
+  refill (now: number): void {
+    const elapsedMinutes = Math.max(0, now - this.lastRefill) / 60000
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsedMinutes * this.config.perMinute)
+    this.lastRefill = now
+  }
+
+  isFull (now: number): boolean {
+    this.refill(now)
+    return this.tokens >= this.config.burst
+  }
+
+  secondsUntilNextToken (): number {
+    if (this.tokens >= 1) {
+      return 0
+    }
+    if (this.config.perMinute <= 0) {
+      return Number.POSITIVE_INFINITY
+    }
+    return Math.ceil((1 - this.tokens) * 60 / this.config.perMinute)
+  }
+}
+
+/**
+ * Token bucket rate limiter, with an independent bucket per key in each scope.
+ * Scopes without a configured limit are not limited.
+ */
+export class RateLimiter {
+  private readonly buckets: Record<RateLimitScope, Map<string, TokenBucket>> = {
+    ip: new Map(),
+    sender: new Map(),
+    forwarder: new Map(),
+    destination: new Map()
+  }
+
+  constructor (readonly limits: Partial<Record<RateLimitScope, TokenBucketConfig>>) {}
+
+  static fromConfig (config: ServerConfigParams): RateLimiter {
+    const limits: Partial<Record<RateLimitScope, TokenBucketConfig>> = {}
+    const scopeConfig = (burst?: number, perMinute?: number): TokenBucketConfig | undefined =>
+      burst != null && perMinute != null ? { burst, perMinute } : undefined
+    limits.ip = scopeConfig(config.ipRateLimitBurst, config.ipRateLimitPerMinute)
+    limits.sender = scopeConfig(config.senderRateLimitBurst, config.senderRateLimitPerMinute)
+    limits.forwarder = scopeConfig(config.forwarderRateLimitBurst, config.forwarderRateLimitPerMinute)
+    limits.destination = scopeConfig(config.destinationRateLimitBurst, config.destinationRateLimitPerMinute)
+    return new RateLimiter(limits)
+  }
+
+  isEnabled (): boolean {
+    return Object.values(this.limits).some(limit => limit != null)
+  }
+
+  /**
+   * Take one token from the bucket of every given key, or none if any of them is empty.
+   * @throws RateLimitedError naming the exhausted scope
+   */
+  consume (keys: Partial<Record<RateLimitScope, string>>, now: number = Date.now()): void {
+    const buckets: Array<{ scope: RateLimitScope, bucket: TokenBucket }> = []
+    for (const scope of Object.keys(keys) as RateLimitScope[]) {
+      const key = keys[scope]
+      const limit = this.limits[scope]
+      if (key == null || limit == null) {
+        continue
+      }
+      const bucket = this._getBucket(scope, key.toLowerCase(), limit, now)
+      bucket.refill(now)
+      buckets.push({ scope, bucket })
+    }
+    const exhausted = buckets.filter(({ bucket }) => bucket.tokens < 1)
+    if (exhausted.length > 0) {
+      const retryAfterSeconds = Math.max(...exhausted.map(({ bucket }) => bucket.secondsUntilNextToken()))
+      throw new RateLimitedError(
+        `Rate limit exceeded for ${exhausted.map(({ scope }) => scope).join(', ')}, retry in ${retryAfterSeconds} seconds`,
+        retryAfterSeconds)
+    }
+    buckets.forEach(({ bucket }) => { bucket.tokens -= 1 })
+  }
+
+  _getBucket (scope: RateLimitScope, key: string, limit: TokenBucketConfig, now: number): TokenBucket {
+    const scopeBuckets = this.buckets[scope]
+    let bucket = scopeBuckets.get(key)
+    if (bucket == null) {
+      if (scopeBuckets.size >= PRUNE_THRESHOLD) {
+        this._prune(scopeBuckets, now)
+      }
+      bucket = new TokenBucket(limit, now)
+      scopeBuckets.set(key, bucket)
+    }
+    return bucket
+  }
+
+  _prune (scopeBuckets: Map<string, TokenBucket>, now: number): void {
+    for (const [key, bucket] of scopeBuckets) {
+      if (bucket.isFull(now)) {
+        scopeBuckets.delete(key)
+      }
+    }
+  }
+}
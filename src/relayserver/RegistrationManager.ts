@@ -24,7 +24,7 @@ import ContractInteractor, {
 
 import { SendTransactionDetails, TransactionManager } from './TransactionManager'
 import { ServerConfigParams } from './ServerConfigParams'
-import { TxStoreManager } from './TxStoreManager'
+import { TxStore } from './TxStore'
 import { ServerAction } from './StoredTransaction'
 import chalk from 'chalk'
 
@@ -43,18 +43,21 @@ export class RegistrationManager {
   hubAddress: Address
 
   managerAddress: Address
-  workerAddress: Address
+  workerAddresses: Address[]
 
   eventEmitter: EventEmitter
+  isStakedInOtherHubs: () => Promise<boolean>
 
   contractInteractor: ContractInteractor
   ownerAddress?: Address
   transactionManager: TransactionManager
   config: ServerConfigParams
-  txStoreManager: TxStoreManager
+  txStoreManager: TxStore
 
   lastMinedRegisterTransaction?: EventData
   lastWorkerAddedTransaction?: EventData
+  // lower-cased addresses of all workers ever added to the hub by this manager
+  addedWorkers = new Set<Address>()
   private delayedEvents: Array<{ block: number, eventData: EventData }> = []
 
   get isStakeLocked (): boolean {
@@ -73,12 +76,14 @@ export class RegistrationManager {
   constructor (
     contractInteractor: ContractInteractor,
     transactionManager: TransactionManager,
-    txStoreManager: TxStoreManager,
+    txStoreManager: TxStore,
     eventEmitter: EventEmitter,
     config: ServerConfigParams,
     // exposed from key manager?
     managerAddress: Address,
-    workerAddress: Address
+    workerAddresses: Address[],
+    // the manager and the workers are shared by the hubs the server registers in
+    isStakedInOtherHubs: () => Promise<boolean> = async () => false
   ) {
     const listener = (): void => {
       this.printNotRegisteredMessage()
@@ -89,8 +94,9 @@ export class RegistrationManager {
     this.contractInteractor = contractInteractor
     this.hubAddress = config.relayHubAddress
     this.managerAddress = managerAddress
-    this.workerAddress = workerAddress
+    this.workerAddresses = workerAddresses
     this.eventEmitter = eventEmitter
+    this.isStakedInOtherHubs = isStakedInOtherHubs
     this.transactionManager = transactionManager
     this.txStoreManager = txStoreManager
     this.config = config
@@ -98,7 +104,9 @@ export class RegistrationManager {
 
   async init (): Promise<void> {
     if (this.lastWorkerAddedTransaction == null) {
-      this.lastWorkerAddedTransaction = await this._queryLatestWorkerAddedEvent()
+      const workersAddedEvents = await this._queryWorkerAddedEvents()
+      workersAddedEvents.forEach(event => this._recordAddedWorkers(event))
+      this.lastWorkerAddedTransaction = getLatestEventData(workersAddedEvents)
     }
 
     if (this.lastMinedRegisterTransaction == null) {
@@ -114,7 +122,7 @@ export class RegistrationManager {
     const topics = [address2topic(this.managerAddress)]
     const options: PastEventOptions = {
       fromBlock: lastScannedBlock + 1,
-      toBlock: 'latest'
+      toBlock: currentBlock
     }
     const eventNames = [StakeAdded, StakeUnlocked, StakeWithdrawn]
     const decodedEvents = await this.contractInteractor.getPastEventsForStakeManagement(eventNames, topics, options)
@@ -145,6 +153,7 @@ export class RegistrationManager {
           }
           break
         case RelayWorkersAdded:
+          this._recordAddedWorkers(eventData)
           if (this.lastWorkerAddedTransaction == null || isSecondEventLater(this.lastWorkerAddedTransaction, eventData)) {
             this.lastWorkerAddedTransaction = eventData
           }
@@ -162,7 +171,7 @@ export class RegistrationManager {
     }
 
     const isRegistrationCorrect = await this._isRegistrationCorrect()
-    const isRegistrationPending = await this.txStoreManager.isActionPending(ServerAction.REGISTER_SERVER)
+    const isRegistrationPending = await this.txStoreManager.isActionPending(ServerAction.REGISTER_SERVER, this.hubAddress)
     if (!(isRegistrationPending || isRegistrationCorrect) || forceRegistration) {
       transactionHashes = transactionHashes.concat(await this.attemptRegistration(currentBlock))
     }
@@ -217,11 +226,17 @@ export class RegistrationManager {
   }
 
   /**
+   * Sends the funds to the owner and stops the server, unless the manager is still staked in another hub,
+   * for which the relay keeps relaying with the same workers and manager.
    * @param withdrawManager - whether to send the relay manager's balance to the owner.
    *        Note that more than one relay process could be using the same manager account.
    * @param currentBlock
    */
   async withdrawAllFunds (withdrawManager: boolean, currentBlock: number): Promise<PrefixedHexString[]> {
+    if (await this.isStakedInOtherHubs()) {
+      log.warn(`Manager ${this.managerAddress} is no longer staked in hub ${this.hubAddress}, but still is in other hubs: keeping the funds`)
+      return []
+    }
     let transactionHashes: PrefixedHexString[] = []
     transactionHashes = transactionHashes.concat(await this._sendWorkersEthBalancesToOwner(currentBlock))
     if (withdrawManager) {
@@ -237,6 +252,14 @@ export class RegistrationManager {
     this.balanceRequired.currentValue = toBN(currentBalance)
   }
 
+  /**
+   * Whether the manager has a locked stake in the hub, as of the latest block.
+   */
+  async isStaked (): Promise<boolean> {
+    const stakeInfo = await this.contractInteractor.getStakeInfo(this.managerAddress)
+    return !toBN(stakeInfo.stake).isZero() && stakeInfo.withdrawBlock === '0'
+  }
+
   async refreshStake (): Promise<void> {
     const stakeInfo = await this.contractInteractor.getStakeInfo(this.managerAddress)
     const stake = toBN(stakeInfo.stake)
@@ -256,9 +279,12 @@ export class RegistrationManager {
     }
   }
 
-  async addRelayWorker (currentBlock: number): Promise<PrefixedHexString> {
+  /**
+   * Adds to the hub, in a single transaction, every worker of the pool that was not added yet.
+   */
+  async addRelayWorkers (currentBlock: number): Promise<PrefixedHexString> {
     // register on chain
-    const addRelayWorkerMethod = await this.contractInteractor.getAddRelayWorkersMethod([this.workerAddress])
+    const addRelayWorkerMethod = await this.contractInteractor.getAddRelayWorkersMethod(this._getMissingWorkers())
     const gasLimit = await this.transactionManager.attemptEstimateGas('AddRelayWorkers', addRelayWorkerMethod, this.managerAddress)
     const details: SendTransactionDetails = {
       signer: this.managerAddress,
@@ -284,11 +310,11 @@ export class RegistrationManager {
     }
 
     let transactions: PrefixedHexString[] = []
-    // add worker only if not already added
+    // add workers only if not already added
     const workersAdded = this._isWorkerValid()
-    const addWorkersPending = await this.txStoreManager.isActionPending(ServerAction.ADD_WORKER)
+    const addWorkersPending = await this.txStoreManager.isActionPending(ServerAction.ADD_WORKER, this.hubAddress)
     if (!(workersAdded || addWorkersPending)) {
-      const txHash = await this.addRelayWorker(currentBlock)
+      const txHash = await this.addRelayWorkers(currentBlock)
       transactions = transactions.concat(txHash)
     }
 
@@ -338,44 +364,53 @@ export class RegistrationManager {
   }
 
   async _sendWorkersEthBalancesToOwner (currentBlock: number): Promise<PrefixedHexString[]> {
-    // sending workers' balance to owner (currently one worker, todo: extend to multiple)
+    // sending every worker's balance to owner
     const transactionHashes: PrefixedHexString[] = []
     const gasPrice = await this.contractInteractor.getGasPrice()
     const gasLimit = mintxgascost
     const txCost = toBN(gasLimit * parseInt(gasPrice))
-    const workerBalance = toBN(await this.contractInteractor.getBalance(this.workerAddress))
-    if (workerBalance.gte(txCost)) {
-      log.info(`Sending workers' RBTC balance ${workerBalance.toString()} to owner`)
-      const details = {
-        signer: this.workerAddress,
-        serverAction: ServerAction.VALUE_TRANSFER,
-        destination: this.ownerAddress as string,
-        gasLimit,
-        gasPrice,
-        value: toHex(workerBalance.sub(txCost)),
-        creationBlockNumber: currentBlock
+    for (const workerAddress of this.workerAddresses) {
+      const workerBalance = toBN(await this.contractInteractor.getBalance(workerAddress))
+      if (workerBalance.gte(txCost)) {
+        log.info(`Sending worker ${workerAddress} RBTC balance ${workerBalance.toString()} to owner`)
+        const details = {
+          signer: workerAddress,
+          serverAction: ServerAction.VALUE_TRANSFER,
+          destination: this.ownerAddress as string,
+          gasLimit,
+          gasPrice,
+          value: toHex(workerBalance.sub(txCost)),
+          creationBlockNumber: currentBlock
+        }
+        const { transactionHash } = await this.transactionManager.sendTransaction(details)
+        transactionHashes.push(transactionHash)
+      } else {
+        log.info(`worker ${workerAddress} balance too low: ${workerBalance.toString()}, tx cost: ${gasLimit * parseInt(gasPrice)}`)
       }
-      const { transactionHash } = await this.transactionManager.sendTransaction(details)
-      transactionHashes.push(transactionHash)
-    } else {
-      log.info(`balance too low: ${workerBalance.toString()}, tx cost: ${gasLimit * parseInt(gasPrice)}`)
     }
     return transactionHashes
   }
 
-  async _queryLatestWorkerAddedEvent (): Promise<EventData | undefined> {
-    const workersAddedEvents = await this.contractInteractor.getPastEventsForHub([address2topic(this.managerAddress)],
+  async _queryWorkerAddedEvents (): Promise<EventData[]> {
+    return await this.contractInteractor.getPastEventsForHub([address2topic(this.managerAddress)],
       {
         fromBlock: 1
       },
       [RelayWorkersAdded])
-    return getLatestEventData(workersAddedEvents)
+  }
+
+  _recordAddedWorkers (eventData: EventData): void {
+    for (const worker of eventData.returnValues.newRelayWorkers as string[]) {
+      this.addedWorkers.add(worker.toLowerCase())
+    }
+  }
+
+  _getMissingWorkers (): Address[] {
+    return this.workerAddresses.filter(worker => !this.addedWorkers.has(worker.toLowerCase()))
   }
 
   _isWorkerValid (): boolean {
-    // eslint-disable-next-line @typescript-eslint/prefer-optional-chain
-    return this.lastWorkerAddedTransaction != null && this.lastWorkerAddedTransaction.returnValues.newRelayWorkers
-      .map((a: string) => a.toLowerCase()).includes(this.workerAddress.toLowerCase())
+    return this._getMissingWorkers().length === 0
   }
 
   async isRegistered (): Promise<boolean> {
@@ -394,7 +429,7 @@ ${this.balanceRequired.description}
 ${this.stakeRequired.description}
 Stake locked   | ${boolString(this.isStakeLocked)}
 Manager        | ${this.managerAddress}
-Worker         | ${this.workerAddress}
+Workers        | ${this.workerAddresses.join(', ')}
 Owner          | ${this.ownerAddress ?? chalk.red('unknown')}
 `
     log.info(message)
@@ -0,0 +1,42 @@
+import { EventData } from 'web3-eth-contract'
+
+import { IRelayHubInstance } from '../../types/truffle-contracts'
+
+import ContractInteractor from '../common/ContractInteractor'
+import { isSameAddress } from '../common/Utils'
+import { Address } from '../relayclient/types/Aliases'
+
+import { RegistrationManager } from './RegistrationManager'
+import { ServerConfigParams } from './ServerConfigParams'
+
+/**
+ * What the relay server keeps for each RelayHub it registers in. The manager, the workers and the TxStore are
+ * shared by all the hubs, the transactions of each hub are told apart by their destination.
+ */
+export class RelayHubContext {
+  relayHubContract!: IRelayHubInstance
+  registrationManager!: RegistrationManager
+  // lower-cased addresses of the verifiers trusted for the requests to this hub
+  readonly trustedVerifiers = new Set<string>()
+  lastMinedActiveTransaction?: EventData
+  // whether the manager was registered in the hub at the last refresh of the state
+  registered = false
+
+  /**
+   * @param config - of the relay server, with the addresses of the hub and its verifiers
+   * @param contractInteractor - configured with the hub and its verifiers
+   */
+  constructor (readonly config: ServerConfigParams, readonly contractInteractor: ContractInteractor) {}
+
+  get address (): Address {
+    return this.config.relayHubAddress
+  }
+
+  is (relayHubAddress: Address): boolean {
+    return isSameAddress(this.address, relayHubAddress)
+  }
+
+  isTrustedVerifier (verifier: Address): boolean {
+    return this.trustedVerifiers.has(verifier.toLowerCase())
+  }
+}
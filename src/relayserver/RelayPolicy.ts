@@ -0,0 +1,161 @@
+import fs from 'fs'
+import BN from 'bn.js'
+import { isAddress, toBN } from 'web3-utils'
+
+import { Address, IntString } from '../relayclient/types/Aliases'
+import { DeployRequest, RelayRequest } from '../common/EIP712/RelayRequest'
+
+export interface DestinationPolicyConfig {
+  // 4-byte method selectors that may be called on the destination, any method if not set
+  allowedSelectors?: string[]
+  // maximum request.gas of calls to the destination
+  maxGas?: IntString
+}
+
+/**
+ * Which requests the relay server is willing to relay, on top of what the trusted verifiers accept.
+ * Every field is optional, and an empty policy accepts every request.
+ */
+export interface RelayPolicyConfig {
+  // if set, only calls to these destination contracts are relayed
+  allowedDestinations?: Address[]
+  // calls to these destination contracts are never relayed
+  deniedDestinations?: Address[]
+  // per destination contract restrictions
+  destinations?: Record<Address, DestinationPolicyConfig>
+  // maximum request.value, in wei
+  maxValue?: IntString
+  // verifier address => token contracts its requests may pay with. Verifiers not listed may use any token
+  allowedTokensByVerifier?: Record<Address, Address[]>
+}
+
+interface DestinationPolicy {
+  allowedSelectors?: Set<string>
+  maxGas?: BN
+}
+
+const SELECTOR_REGEX = /^0x[0-9a-fA-F]{8}$/
+
+function error (err: string): never {
+  throw new Error(`invalid relay policy: ${err}`)
+}
+
+function toAddressSet (addresses: Address[] | undefined, name: string): Set<string> | undefined {
+  if (addresses == null) {
+    return undefined
+  }
+  if (!Array.isArray(addresses)) {
+    error(`${name} must be a list of addresses`)
+  }
+  return new Set(addresses.map(address => {
+    if (!isAddress(address)) {
+      error(`${name} contains ${address}, not an address`)
+    }
+    return address.toLowerCase()
+  }))
+}
+
+function toAmount (value: IntString | undefined, name: string): BN | undefined {
+  if (value == null) {
+    return undefined
+  }
+  if (!/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(value.toString())) {
+    error(`${name} must be an integer, got ${value}`)
+  }
+  return toBN(value)
+}
+
+/**
+ * Evaluates the {@link RelayPolicyConfig} on relay requests. It only looks at the request, so it is
+ * checked before any call to the RSK node.
+ * Destination, selector and gas rules apply to relayed calls only: the destination of a deploy request
+ * is the smart wallet logic, not a contract called on behalf of the user.
+ */
+export class RelayPolicy {
+  private readonly allowedDestinations?: Set<string>
+  private readonly deniedDestinations?: Set<string>
+  private readonly destinations = new Map<string, DestinationPolicy>()
+  private readonly maxValue?: BN
+  private readonly allowedTokensByVerifier = new Map<string, Set<string>>()
+
+  /**
+   * @throws if the configuration is malformed
+   */
+  constructor (readonly config: RelayPolicyConfig) {
+    this.allowedDestinations = toAddressSet(config.allowedDestinations, 'allowedDestinations')
+    this.deniedDestinations = toAddressSet(config.deniedDestinations, 'deniedDestinations')
+    this.maxValue = toAmount(config.maxValue, 'maxValue')
+    Object.entries(config.destinations ?? {}).forEach(([destination, destinationConfig]) => {
+      if (!isAddress(destination)) {
+        error(`destinations contains ${destination}, not an address`)
+      }
+      const { allowedSelectors, maxGas } = destinationConfig
+      allowedSelectors?.forEach(selector => {
+        if (!SELECTOR_REGEX.test(selector)) {
+          error(`selector ${selector} of destination ${destination} is not a 4-byte hex string`)
+        }
+      })
+      this.destinations.set(destination.toLowerCase(), {
+        allowedSelectors: allowedSelectors == null ? undefined : new Set(allowedSelectors.map(it => it.toLowerCase())),
+        maxGas: toAmount(maxGas, `maxGas of destination ${destination}`)
+      })
+    })
+    Object.entries(config.allowedTokensByVerifier ?? {}).forEach(([verifier, tokens]) => {
+      if (!isAddress(verifier)) {
+        error(`allowedTokensByVerifier contains ${verifier}, not an address`)
+      }
+      this.allowedTokensByVerifier.set(verifier.toLowerCase(), toAddressSet(tokens, `allowed tokens of verifier ${verifier}`) ?? new Set())
+    })
+  }
+
+  /**
+   * Read the policy from a JSON file.
+   */
+  static fromFile (fileName: string): RelayPolicy {
+    if (!fs.existsSync(fileName)) {
+      error(`unable to read relay policy file "${fileName}"`)
+    }
+    return new RelayPolicy(JSON.parse(fs.readFileSync(fileName, 'utf8')))
+  }
+
+  /**
+   * @throws naming the rule the request breaks
+   */
+  validate (relayRequest: RelayRequest | DeployRequest, isDeploy: boolean): void {
+    const { to, data, value, tokenContract } = relayRequest.request
+    if (!isDeploy) {
+      this.validateDestination(to, data, toBN((relayRequest as RelayRequest).request.gas))
+    }
+    if (this.maxValue != null && toBN(value).gt(this.maxValue)) {
+      throw new Error(`Relay policy: value ${value} exceeds the maximum of ${this.maxValue.toString()}`)
+    }
+    const verifier = relayRequest.relayData.callVerifier
+    const allowedTokens = this.allowedTokensByVerifier.get(verifier.toLowerCase())
+    if (allowedTokens != null && !allowedTokens.has(tokenContract.toLowerCase())) {
+      throw new Error(`Relay policy: token ${tokenContract} is not accepted for verifier ${verifier}`)
+    }
+  }
+
+  validateDestination (to: Address, data: string, gas: BN): void {
+    const destination = to.toLowerCase()
+    if (this.deniedDestinations?.has(destination) === true) {
+      throw new Error(`Relay policy: destination ${to} is denied`)
+    }
+    if (this.allowedDestinations != null && !this.allowedDestinations.has(destination)) {
+      throw new Error(`Relay policy: destination ${to} is not allowed`)
+    }
+    const destinationPolicy = this.destinations.get(destination)
+    if (destinationPolicy == null) {
+      return
+    }
+    if (destinationPolicy.allowedSelectors != null) {
+      const selector = data.length >= 10 ? data.slice(0, 10).toLowerCase() : undefined
+      if (selector == null || !destinationPolicy.allowedSelectors.has(selector)) {
+        throw new Error(`Relay policy: method ${selector ?? '(none)'} of destination ${to} is not allowed`)
+      }
+    }
+    if (destinationPolicy.maxGas != null && gas.gt(destinationPolicy.maxGas)) {
+      throw new Error(`Relay policy: gas ${gas.toString()} exceeds the maximum of ${destinationPolicy.maxGas.toString()} for destination ${to}`)
+    }
+  }
+}
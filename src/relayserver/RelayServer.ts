@@ -4,39 +4,87 @@ import ow from 'ow'
 import { EventData } from 'web3-eth-contract'
 import { EventEmitter } from 'events'
 import { PrefixedHexString } from 'ethereumjs-tx'
-import { toBN } from 'web3-utils'
+import { isAddress, toBN } from 'web3-utils'
+import BN from 'bn.js'
 
 import { IRelayVerifierInstance, IRelayHubInstance, IDeployVerifierInstance } from '../../types/truffle-contracts'
 
 import ContractInteractor, { TransactionRejectedByRecipient, TransactionRelayed } from '../common/ContractInteractor'
 import { Address } from '../relayclient/types/Aliases'
-import { DeployTransactionRequest, DeployTransactionRequestShape, RelayTransactionRequest, RelayTransactionRequestShape } from '../relayclient/types/RelayTransactionRequest'
-
+import {
+  DeployEstimateRequest,
+  DeployEstimateRequestShape,
+  DeployTransactionRequest,
+  DeployTransactionRequestShape,
+  RelayEstimateRequest,
+  RelayEstimateRequestShape,
+  RelayTransactionRequest,
+  RelayTransactionRequestShape
+} from '../relayclient/types/RelayTransactionRequest'
+
+import EstimateResponse from '../common/EstimateResponse'
 import PingResponse from '../common/PingResponse'
+import StatusResponse, { StatusCheck } from '../common/StatusResponse'
 import VersionsManager from '../common/VersionsManager'
 import { AmountRequired } from '../common/AmountRequired'
 import {
   address2topic,
+  calculateDeployTransactionMaxPossibleGas,
+  decodeRevertReason,
+  estimateMaxPossibleRelayCallWithLinearFit,
+  isSameAddress,
   getLatestEventData,
   randomInRange,
   sleep
 } from '../common/Utils'
 
-import { replenishStrategy } from './ReplenishFunction'
+import { isBuiltInReplenishStrategy, loadReplenishStrategy, ReplenishContext, ReplenishStrategy, withdrawStakeFromHub } from './ReplenishStrategy'
 import { RegistrationManager } from './RegistrationManager'
+import { RelayHubContext } from './RelayHubContext'
 import { SendTransactionDetails, SignedTransactionDetails, TransactionManager } from './TransactionManager'
-import { ServerAction } from './StoredTransaction'
-import { TxStoreManager } from './TxStoreManager'
-import { configureServer, ServerConfigParams, ServerDependencies } from './ServerConfigParams'
+import { ServerAction, StoredTransaction } from './StoredTransaction'
+import { TxStore } from './TxStore'
+import { RelayServerMetrics } from './Metrics'
+import { RateLimiter } from './RateLimiter'
+import { FeePolicy, PriceSource, StaticPriceSource } from './FeePolicy'
+import { RelayPolicy } from './RelayPolicy'
+import { PenalizationStore } from './PenalizationStore'
+import { PenalizationWatchdog } from './PenalizationWatchdog'
+import { WorkerRotator } from './WorkerRotation'
+import { WorkerRotation, WorkerRotationStore } from './WorkerRotationStore'
+import { createLedgerEntry, RevenueLedger, tokensToWei } from './RevenueLedger'
+import { BlockSubscription, NewHeadsSubscription, OrderedBlockProcessor } from './BlockSubscription'
+import { configureServer, relayHubConfigs, ServerConfigParams, ServerDependencies } from './ServerConfigParams'
 import { constants } from '../common/Constants'
 import { DeployRequest, RelayRequest } from '../common/EIP712/RelayRequest'
 import TokenResponse from '../common/TokenResponse'
+import TransactionStatusResponse from '../common/TransactionStatusResponse'
+import TransactionLifecycleEvent from '../common/TransactionLifecycleEvent'
+import { ContextLogger } from '../common/Logging'
 import VerifierResponse from '../common/VerifierResponse'
-import { toChecksumAddress } from 'ethereumjs-util'
+import { bufferToHex, keccak256, toBuffer, toChecksumAddress } from 'ethereumjs-util'
+import TypedRelayCommitmentData, { RELAY_COMMITMENT_VERSION, SignedRelayCommitment } from '../common/EIP712/RelayCommitment'
+import { getRelayRequestHash } from '../common/EIP712/TypedRequestData'
 
 import Timeout = NodeJS.Timeout
 
 const VERSION = '2.0.1'
+// how often the transactions past their retention are removed from the archive
+const TX_ARCHIVE_PRUNE_INTERVAL = 3600 * 1000
+
+export interface RelayedTransactionDetails extends SignedTransactionDetails {
+  commitment: SignedRelayCommitment
+}
+
+/**
+ * Whether the server takes new relay requests. Operators switch it with the admin API.
+ * - 'accepting': normal operation
+ * - 'paused': new requests are rejected and the pending transactions are not boosted, so their gas price is held
+ *   until the server resumes, e.g. while investigating an incident
+ * - 'draining': new requests are rejected while the pending transactions keep being boosted until mined,
+ *   e.g. before a shutdown
+ */
+export type AcceptanceState = 'accepting' | 'paused' | 'draining'
 
 export class RelayServer extends EventEmitter {
   lastScannedBlock = 0
@@ -44,52 +92,195 @@ export class RelayServer extends EventEmitter {
   ready = false
   lastSuccessfulRounds = Number.MAX_SAFE_INTEGER
   readonly managerAddress: PrefixedHexString
-  readonly workerAddress: PrefixedHexString
+  readonly workerAddresses: PrefixedHexString[]
   gasPrice: number = 0
   _workerSemaphoreOn = false
   alerted = false
   alertedBlock: number = 0
+  acceptanceState: AcceptanceState = 'accepting'
   private initialized = false
   readonly contractInteractor: ContractInteractor
   private readonly versionManager: VersionsManager
   private workerTask?: Timeout
+  private txArchivePruneTask?: Timeout
+  private started = false
+  readonly blockSubscription?: BlockSubscription
+  // processes every block in order, when subscribed to the new blocks
+  readonly blockProcessor: OrderedBlockProcessor
   config: ServerConfigParams
   transactionManager: TransactionManager
-  txStoreManager: TxStoreManager
+  txStoreManager: TxStore
 
-  lastMinedActiveTransaction?: EventData
-
-  registrationManager!: RegistrationManager
+  // the RelayHub of relayHubAddress first, then the additionalRelayHubs
+  readonly relayHubs: RelayHubContext[]
   chainId!: number
   networkId!: number
-  relayHubContract!: IRelayHubInstance
 
-  trustedVerifiers: Set<String | undefined> = new Set<String | undefined>()
+  workersBalanceRequired: AmountRequired[]
 
-  workerBalanceRequired: AmountRequired
+  readonly metrics = new RelayServerMetrics()
+  readonly rateLimiter: RateLimiter
+  readonly priceSource: PriceSource
+  feePolicy?: FeePolicy
+  relayPolicy: RelayPolicy
+  readonly penalizationStore: PenalizationStore
+  penalizationWatchdog?: PenalizationWatchdog
+  readonly ledger: RevenueLedger
+  readonly workerRotator: WorkerRotator
 
+  private readonly logger = new ContextLogger({ component: 'RelayServer' })
   private readonly customReplenish: boolean
+  private replenishStrategy?: ReplenishStrategy
+  private lastSelectedWorkerIndex = -1
 
   constructor (config: Partial<ServerConfigParams>, dependencies: ServerDependencies) {
     super()
     this.versionManager = new VersionsManager(VERSION)
     this.config = configureServer(config)
     this.contractInteractor = dependencies.contractInteractor
+    this.relayHubs = relayHubConfigs(this.config).map((hubConfig, index) =>
+      new RelayHubContext(hubConfig, index === 0 ? this.contractInteractor : this.contractInteractor.forRelayHub(hubConfig)))
     this.txStoreManager = dependencies.txStoreManager
     this.transactionManager = new TransactionManager(dependencies, this.config)
     this.managerAddress = this.transactionManager.managerKeyManager.getAddress(0)
-    this.workerAddress = this.transactionManager.workersKeyManager.getAddress(0)
+    this.workerAddresses = this.transactionManager.workersKeyManager.getAddresses()
+    if (this.workerAddresses.length === 0) {
+      throw new Error('Workers KeyManager must manage at least one worker')
+    }
     this.customReplenish = this.config.customReplenish
-    this.workerBalanceRequired = new AmountRequired('Worker Balance', toBN(this.config.workerMinBalance))
+    // with customReplenish, the built-in strategies are not used and one has to be registered
+    const useConfiguredStrategy = !this.customReplenish || !isBuiltInReplenishStrategy(this.config.replenishStrategy)
+    this.replenishStrategy = dependencies.replenishStrategy ?? (useConfiguredStrategy ? loadReplenishStrategy(this.config) : undefined)
+    this.rateLimiter = RateLimiter.fromConfig(this.config)
+    this.priceSource = dependencies.priceSource ?? new StaticPriceSource(this.config.tokenExchangeRates)
+    if (this.config.feePolicyEnabled) {
+      this.feePolicy = new FeePolicy(this.priceSource, this.config.feeMarginPercent, this.config.feeExemptVerifiers)
+    }
+    this.relayPolicy = this._loadRelayPolicy()
+    this.penalizationStore = dependencies.penalizationStore ?? new PenalizationStore({ inMemory: true })
+    this.ledger = dependencies.ledger ?? new RevenueLedger({ inMemory: true })
+    this.workerRotator = new WorkerRotator(this, dependencies.workerRotationStore ?? new WorkerRotationStore({ inMemory: true }))
+    this.blockSubscription = dependencies.blockSubscription ?? (this.config.blockSubscriptionUrl !== ''
+      ? new NewHeadsSubscription(this.config.blockSubscriptionUrl, this.config.blockSubscriptionReconnectDelay)
+      : undefined)
+    this.blockProcessor = new OrderedBlockProcessor(async blockNumber =>
+      await this._runRound(async () => await this._workerSemaphore(blockNumber)))
+    this.workersBalanceRequired = this.workerAddresses.map((_, workerIndex) =>
+      new AmountRequired(`Worker #${workerIndex} Balance`, toBN(this.config.workerMinBalance)))
     this.printServerAddresses()
     log.setLevel(this.config.logLevel)
     log.warn('RelayServer version', VERSION)
     log.info('Using server configuration:\n', this.config)
   }
 
+  get registrationManager (): RegistrationManager {
+    return this.relayHubs[0].registrationManager
+  }
+
+  get relayHubContract (): IRelayHubInstance {
+    return this.relayHubs[0].relayHubContract
+  }
+
+  get trustedVerifiers (): Set<string> {
+    return this.relayHubs[0].trustedVerifiers
+  }
+
+  /**
+   * The RelayHub a request is for, by its metadata.relayHubAddress.
+   */
+  getRelayHub (relayHubAddress: Address): RelayHubContext {
+    const hub = this.relayHubs.find(it => it.is(relayHubAddress))
+    if (hub == null) {
+      throw new Error(
+        `Wrong hub address.\nRelay server's hub address: ${this.relayHubs.map(it => it.address).join(', ')}, request's hub address: ${relayHubAddress}\n`)
+    }
+    return hub
+  }
+
+  _loadRelayPolicy (): RelayPolicy {
+    return this.config.relayPolicyFile !== '' ? RelayPolicy.fromFile(this.config.relayPolicyFile) : new RelayPolicy(this.config.relayPolicy)
+  }
+
+  /**
+   * Read the relay policy file again. The current policy is kept if the new one is invalid.
+   */
+  reloadRelayPolicy (): void {
+    this.relayPolicy = this._loadRelayPolicy()
+    log.info('Relay policy reloaded:', JSON.stringify(this.relayPolicy.config))
+  }
+
   printServerAddresses (): void {
     log.info(`Server manager address  | ${this.managerAddress}`)
-    log.info(`Server worker  address  | ${this.workerAddress}`)
+    this.workerAddresses.forEach((workerAddress, workerIndex) => {
+      log.info(`Server worker  address  | ${workerAddress} (#${workerIndex})`)
+    })
+  }
+
+  getWorkerIndex (workerAddress: Address): number {
+    return this.workerAddresses.findIndex(it => it.toLowerCase() === workerAddress.toLowerCase())
+  }
+
+  /**
+   * Derive the key of a new worker, for a {@link WorkerRotator}. No request is routed to it until it is added to the hubs.
+   * @returns its index
+   */
+  addWorker (): number {
+    const workersSigner = this.transactionManager.workersKeyManager
+    if (workersSigner.addKey == null) {
+      throw new Error('The workers signer cannot derive new keys')
+    }
+    const workerAddress = workersSigner.addKey()
+    const workerIndex = this.workerAddresses.push(workerAddress) - 1
+    this.transactionManager.nonces[workerAddress] = 0
+    this.workersBalanceRequired.push(new AmountRequired(`Worker #${workerIndex} Balance`, toBN(this.config.workerMinBalance)))
+    log.info(`Server worker  address  | ${workerAddress} (#${workerIndex})`)
+    return workerIndex
+  }
+
+  /**
+   * Start replacing a worker with a new one (see {@link WorkerRotator}).
+   */
+  async rotateWorker (workerIndex: number): Promise<WorkerRotation> {
+    if (!this.initialized) {
+      throw new Error('The server is not initialized yet')
+    }
+    return await this.workerRotator.start(workerIndex, await this.contractInteractor.getBlockNumber())
+  }
+
+  /**
+   * Picks the worker the next client should sign its request for, according to the configured
+   * {@link ServerConfigParams.workerSelectionPolicy}. Workers below the minimum balance are skipped
+   * unless none of them is funded.
+   */
+  async selectWorkerIndex (): Promise<number> {
+    const routedWorkers = this.workerAddresses
+      .map((_, workerIndex) => workerIndex)
+      .filter(workerIndex => this.workerRotator.isRouted(this.workerAddresses[workerIndex]))
+    const fundedWorkers = routedWorkers.filter(workerIndex => this.workersBalanceRequired[workerIndex].isSatisfied)
+    const candidates = fundedWorkers.length > 0 ? fundedWorkers : routedWorkers
+
+    let selected: number
+    switch (this.config.workerSelectionPolicy) {
+      case 'least-pending': {
+        let minPending = Number.MAX_SAFE_INTEGER
+        selected = candidates[0]
+        for (const workerIndex of candidates) {
+          const pending = (await this.txStoreManager.getAllBySigner(this.workerAddresses[workerIndex])).length
+          if (pending < minPending) {
+            minPending = pending
+            selected = workerIndex
+          }
+        }
+        break
+      }
+      case 'round-robin':
+        selected = candidates.find(workerIndex => workerIndex > this.lastSelectedWorkerIndex) ?? candidates[0]
+        break
+      default:
+        throw new Error(`Unknown worker selection policy: ${this.config.workerSelectionPolicy as string}`)
+    }
+    this.lastSelectedWorkerIndex = selected
+    return selected
   }
 
   getMinGasPrice (): number {
@@ -100,31 +291,207 @@ export class RelayServer extends EventEmitter {
     return this.customReplenish
   }
 
+  registerReplenishStrategy (strategy: ReplenishStrategy): void {
+    this.replenishStrategy = strategy
+  }
+
   async pingHandler (verifier?: string): Promise<PingResponse> {
+    const workerIndex = await this.selectWorkerIndex()
     return {
-      relayWorkerAddress: this.workerAddress,
+      relayWorkerAddress: this.workerAddresses[workerIndex],
       relayManagerAddress: this.managerAddress,
       relayHubAddress: this.relayHubContract?.address ?? '',
       minGasPrice: this.getMinGasPrice().toString(),
       chainId: this.chainId.toString(),
       networkId: this.networkId.toString(),
-      ready: this.isReady() ?? false,
+      ready: this.isAccepting(),
       version: VERSION
     }
   }
 
+  /**
+   * Check every component the server depends on. The server is healthy only if all critical checks pass.
+   */
+  async statusHandler (): Promise<StatusResponse> {
+    const checks: StatusCheck[] = []
+    const check = (name: string, healthy: boolean, details: string, critical = true): void => {
+      checks.push({ name, healthy, critical, details })
+    }
+
+    try {
+      const latestBlock = await this.contractInteractor.getBlock('latest')
+      const blockAge = Math.floor(Date.now() / 1000) - parseInt(latestBlock.timestamp.toString())
+      check('rskNode', true, `latest block #${latestBlock.number}`)
+      check('latestBlockAge',
+        this.config.statusMaxBlockAge === 0 || blockAge <= this.config.statusMaxBlockAge,
+        `latest block is ${blockAge}s old, maximum allowed is ${this.config.statusMaxBlockAge === 0 ? 'unlimited' : `${this.config.statusMaxBlockAge}s`}`)
+    } catch (e) {
+      check('rskNode', false, `node unreachable: ${(e as Error).message}`)
+    }
+
+    // a check that throws is reported as failed, the other checks are still run
+    const guard = async (name: string, body: () => Promise<void>): Promise<void> => {
+      try {
+        await body()
+      } catch (e) {
+        check(name, false, `check failed: ${(e as Error).message}`)
+      }
+    }
+
+    await guard('registration', async () => {
+      if (this.registrationManager == null) {
+        check('registration', false, 'server not initialized')
+        return
+      }
+      const transactions = await this.txStoreManager.getAll()
+      // the checks of the additional hubs are suffixed with their index, as the ones of the workers
+      for (const [hubIndex, hub] of this.relayHubs.entries()) {
+        const suffix = hubIndex === 0 ? '' : `#${hubIndex}`
+        const registrationManager = hub.registrationManager
+        const pendingTransactions = transactions.filter(it => isSameAddress(it.to, hub.address)).length
+        check(`registration${suffix}`, await registrationManager.isRegistered(),
+          `registered on hub ${registrationManager.hubAddress}, ${pendingTransactions} unconfirmed transactions to the hub`)
+        check(`stake${suffix}`, registrationManager.isStakeLocked && registrationManager.stakeRequired.isSatisfied,
+          `locked: ${registrationManager.isStakeLocked.toString()} | ${registrationManager.stakeRequired.description}`)
+      }
+      check('managerBalance', this.registrationManager.balanceRequired.isSatisfied, this.registrationManager.balanceRequired.description)
+    })
+
+    await guard('workerBalance', async () => {
+      // the server keeps working with a subset of funded workers, so single workers are not critical
+      const activeWorkers = this.workerAddresses
+        .map((_, workerIndex) => workerIndex)
+        .filter(workerIndex => !this.workerRotator.isRetired(this.workerAddresses[workerIndex]))
+      activeWorkers.forEach(workerIndex => {
+        const workerBalanceRequired = this.workersBalanceRequired[workerIndex]
+        check(`workerBalance#${workerIndex}`, workerBalanceRequired.isSatisfied, workerBalanceRequired.description, false)
+      })
+      const fundedWorkers = activeWorkers.filter(workerIndex => this.workersBalanceRequired[workerIndex].isSatisfied).length
+      check('workerBalance', fundedWorkers > 0, `${fundedWorkers} of ${activeWorkers.length} workers funded`)
+    })
+
+    await guard('pendingTransactions', async () => {
+      const pendingTransactions = (await this.txStoreManager.getAll()).length
+      check('pendingTransactions', pendingTransactions <= this.config.statusMaxPendingTransactions,
+        `${pendingTransactions} unconfirmed transactions, maximum allowed is ${this.config.statusMaxPendingTransactions}`)
+    })
+
+    check('acceptance', this.acceptanceState === 'accepting', `${this.acceptanceState} relay requests`, false)
+    check('alerted', !this.alerted, this.alerted ? `alerted since block #${this.alertedBlock}` : 'not alerted', false)
+    check('successfulRounds', this.lastSuccessfulRounds >= this.config.successfulRoundsForReady,
+      `${this.lastSuccessfulRounds} successful rounds, ${this.config.successfulRoundsForReady} needed`)
+
+    const failingChecks = checks.filter(it => it.critical && !it.healthy).map(it => it.name)
+    return {
+      healthy: failingChecks.length === 0,
+      failingChecks,
+      checks
+    }
+  }
+
+  /**
+   * Status of a transaction sent by this server, looked up by the hash of any of its attempts.
+   * Transactions no longer in the TxStore are looked up in the archive, then on chain.
+   * @returns undefined if the transaction is unknown
+   */
+  async txStatusHandler (txHash: PrefixedHexString): Promise<TransactionStatusResponse | undefined> {
+    const storedTx = await this.txStoreManager.getTxByIdOrReplacedId(txHash) ??
+      await this.transactionManager.transactionArchive?.getTxByIdOrReplacedId(txHash)
+    if (storedTx != null) {
+      return await this._getTransactionStatus(storedTx)
+    }
+    const receipt = await this.contractInteractor.getTransactionReceiptIfMined(txHash)
+    if (receipt == null || !this.isManagedAddress(receipt.from)) {
+      return undefined
+    }
+    const transaction = await this.contractInteractor.getTransaction(txHash)
+    const latestBlock = await this.contractInteractor.getBlockNumber()
+    const confirmations = latestBlock - receipt.blockNumber
+    return {
+      txId: receipt.transactionHash,
+      signer: receipt.from,
+      nonce: transaction.nonce,
+      gasPrice: parseInt(transaction.gasPrice),
+      attempts: 1,
+      boostHistory: [],
+      status: confirmations >= this.config.confirmationsNeeded ? 'confirmed' : 'mined',
+      minedTxId: receipt.transactionHash,
+      minedBlockNumber: receipt.blockNumber,
+      confirmations,
+      succeeded: receipt.status
+    }
+  }
+
+  /**
+   * Status of the transaction relaying the request with the given EIP-712 hash.
+   * @returns undefined if the request is unknown
+   */
+  async relayRequestStatusHandler (relayRequestHash: PrefixedHexString): Promise<TransactionStatusResponse | undefined> {
+    const storedTx = await this.txStoreManager.getTxByRelayRequestHash(relayRequestHash) ??
+      await this.transactionManager.transactionArchive?.getTxByRelayRequestHash(relayRequestHash)
+    return storedTx == null ? undefined : await this._getTransactionStatus(storedTx)
+  }
+
+  async _getTransactionStatus (storedTx: StoredTransaction): Promise<TransactionStatusResponse> {
+    const status: TransactionStatusResponse = {
+      txId: storedTx.txId,
+      relayRequestHash: storedTx.relayRequestHash,
+      signer: storedTx.from,
+      nonce: storedTx.nonce,
+      gasPrice: storedTx.gasPrice,
+      attempts: storedTx.attempts,
+      boostHistory: storedTx.boostHistory ?? [],
+      status: 'pending'
+    }
+    // read before the receipts: if the nonce is used and none of the attempts has a receipt, another transaction used it
+    const nextNonce = await this.contractInteractor.getTransactionCount(storedTx.from)
+    const receipt = await this.transactionManager._getMinedReceipt(storedTx)
+    if (receipt == null) {
+      if (nextNonce > storedTx.nonce) {
+        return { ...status, status: 'replaced' }
+      }
+      return await this._isDropped(storedTx) ? { ...status, status: 'dropped' } : status
+    }
+    const confirmations = await this.contractInteractor.getBlockNumber() - receipt.blockNumber
+    return {
+      ...status,
+      status: confirmations >= this.config.confirmationsNeeded ? 'confirmed' : 'mined',
+      minedTxId: receipt.transactionHash,
+      minedBlockNumber: receipt.blockNumber,
+      confirmations,
+      succeeded: receipt.status
+    }
+  }
+
+  /**
+   * @returns true if the node knows none of the attempts of the transaction
+   */
+  async _isDropped (storedTx: StoredTransaction): Promise<boolean> {
+    const attempts = [storedTx.txId, ...(storedTx.boostHistory ?? []).map(boost => boost.oldTxId)]
+    for (const txId of attempts) {
+      if (await this.contractInteractor.getTransaction(txId) != null) {
+        return false
+      }
+    }
+    return true
+  }
+
+  isManagedAddress (address: Address): boolean {
+    return isSameAddress(address, this.managerAddress) || this.getWorkerIndex(address) !== -1
+  }
+
   async tokenHandler (verifier?: Address): Promise<TokenResponse> {
     let verifiersToQuery: Address[]
 
     // if a verifier was supplied, check that it is trusted
     if (verifier !== undefined) {
-      if (!this.trustedVerifiers.has(verifier.toLowerCase())) {
+      if (!this.isTrustedVerifier(verifier)) {
         throw new Error('supplied verifier is not trusted')
       }
       verifiersToQuery = [verifier]
     } else {
       // if no verifier was supplied, query all tursted verifiers
-      verifiersToQuery = Array.from(this.trustedVerifiers) as Address[]
+      verifiersToQuery = this.getTrustedVerifiers()
     }
 
     const res: TokenResponse = {}
@@ -139,7 +506,13 @@ export class RelayServer extends EventEmitter {
 
   async verifierHandler (): Promise<VerifierResponse> {
     return {
-      trustedVerifiers: Array.from(this.trustedVerifiers) as Address[]
+      trustedVerifiers: this.getTrustedVerifiers()
+    }
+  }
+
+  validateAccepting (): void {
+    if (this.acceptanceState !== 'accepting') {
+      throw new Error(`relay ${this.acceptanceState}: not accepting new requests`)
     }
   }
 
@@ -160,17 +533,20 @@ export class RelayServer extends EventEmitter {
   }
 
   validateInput (req: RelayTransactionRequest | DeployTransactionRequest): void {
-    // Check that the relayHub is the correct one
-    if (req.metadata.relayHubAddress.toLowerCase() !== this.relayHubContract.address.toLowerCase()) {
-      throw new Error(
-        `Wrong hub address.\nRelay server's hub address: ${this.relayHubContract.address}, request's hub address: ${req.metadata.relayHubAddress}\n`)
+    // Check that the relayHub is one of this server's
+    const hub = this.getRelayHub(req.metadata.relayHubAddress)
+    if (!hub.registered) {
+      throw new Error(`Not registered on hub ${hub.address}`)
     }
 
-    // Check the relayWorker (todo: once migrated to multiple relays, check if exists)
-    if (req.relayRequest.relayData.relayWorker.toLowerCase() !== this.workerAddress.toLowerCase()) {
+    // Check the relayWorker belongs to this server's pool
+    if (this.getWorkerIndex(req.relayRequest.relayData.relayWorker) < 0) {
       throw new Error(
         `Wrong worker address: ${req.relayRequest.relayData.relayWorker}\n`)
     }
+    if (!this.workerRotator.isRouted(req.relayRequest.relayData.relayWorker)) {
+      throw new Error(`Worker ${req.relayRequest.relayData.relayWorker} does not take requests, it is being rotated`)
+    }
 
     // Check that the gasPrice is initialized & acceptable
     if (this.gasPrice > parseInt(req.relayRequest.relayData.gasPrice)) {
@@ -180,14 +556,14 @@ export class RelayServer extends EventEmitter {
   }
 
   validateVerifier (req: RelayTransactionRequest | DeployTransactionRequest): void {
-    if (!this.isTrustedVerifier(req.relayRequest.relayData.callVerifier)) {
+    if (!this.isTrustedVerifier(req.relayRequest.relayData.callVerifier, req.metadata.relayHubAddress)) {
       throw new Error(`Invalid verifier: ${req.relayRequest.relayData.callVerifier}`)
     }
   }
 
-  async validateMaxNonce (relayMaxNonce: number): Promise<void> {
+  async validateMaxNonce (relayWorker: Address, relayMaxNonce: number): Promise<void> {
     // Check that max nonce is valid
-    const nonce = await this.transactionManager.pollNonce(this.workerAddress)
+    const nonce = await this.transactionManager.pollNonce(relayWorker)
     if (nonce > relayMaxNonce) {
       throw new Error(`Unacceptable relayMaxNonce: ${relayMaxNonce}. current nonce: ${nonce}`)
     }
@@ -195,8 +571,9 @@ export class RelayServer extends EventEmitter {
 
   async validateRequestWithVerifier (req: RelayTransactionRequest|DeployTransactionRequest): Promise<{maxPossibleGas: BN}> {
     const verifier = req.relayRequest.relayData.callVerifier
+    const relayWorker = this.workerAddresses[this.getWorkerIndex(req.relayRequest.relayData.relayWorker)]
 
-    if (!this.isTrustedVerifier(verifier)) {
+    if (!this.isTrustedVerifier(verifier, req.metadata.relayHubAddress)) {
       throw new Error('Invalid verifier')
     }
 
@@ -263,9 +640,9 @@ export class RelayServer extends EventEmitter {
 
     try {
       if (this.isDeployRequest(req)) {
-        await (verifierContract as IDeployVerifierInstance).contract.methods.verifyRelayedCall((req as DeployTransactionRequest).relayRequest, req.metadata.signature).call({ from: this.workerAddress }, 'pending')
+        await (verifierContract as IDeployVerifierInstance).contract.methods.verifyRelayedCall((req as DeployTransactionRequest).relayRequest, req.metadata.signature).call({ from: relayWorker }, 'pending')
       } else {
-        await (verifierContract as IRelayVerifierInstance).contract.methods.verifyRelayedCall((req as RelayTransactionRequest).relayRequest, req.metadata.signature).call({ from: this.workerAddress }, 'pending')
+        await (verifierContract as IRelayVerifierInstance).contract.methods.verifyRelayedCall((req as RelayTransactionRequest).relayRequest, req.metadata.signature).call({ from: relayWorker }, 'pending')
       }
     } catch (e) {
       const error = e as Error
@@ -280,7 +657,7 @@ export class RelayServer extends EventEmitter {
     log.debug('Relay Server - req: ', req)
     try {
       await method.call({
-        from: this.workerAddress,
+        from: this.workerAddresses[this.getWorkerIndex(req.relayRequest.relayData.relayWorker)],
         gasPrice: req.relayRequest.relayData.gasPrice,
         gas: maxPossibleGas.toString()
       }, 'pending')
@@ -289,51 +666,239 @@ export class RelayServer extends EventEmitter {
     }
   }
 
-  async createRelayTransaction (req: RelayTransactionRequest | DeployTransactionRequest): Promise<SignedTransactionDetails> {
-    log.debug(`dump request params: ${JSON.stringify(req)}`)
+  /**
+   * Estimate what the server requires to relay a request, so the client can fill it in before signing.
+   * Relay requests may be unsigned, in which case the gas is extrapolated with the linear fit from the estimated
+   * destination and token gas, plus `linearFitEstimateMarginPercent`. Deploy requests must be signed, as the
+   * factory call cannot be estimated without the owner's signature.
+   * @param clientIp - address of the HTTP client, used for the per-IP rate limit
+   */
+  async estimateHandler (req: RelayEstimateRequest | DeployEstimateRequest, clientIp?: string): Promise<EstimateResponse> {
+    if (!this.isReady()) {
+      throw new Error('relay not ready')
+    }
+    this.validateAccepting()
+    const isDeploy = this.isDeployRequest(req)
+    ow(req, ow.object.exactShape(isDeploy ? DeployEstimateRequestShape : RelayEstimateRequestShape))
+    this.rateLimiter.consume({ ip: clientIp })
+
+    const { relayRequest, metadata } = req
+    this.relayPolicy.validate(relayRequest, isDeploy)
+    const hub = this.getRelayHub(metadata.relayHubAddress)
+    if (!hub.registered) {
+      throw new Error(`Not registered on hub ${hub.address}`)
+    }
+    const workerIndex = this.getWorkerIndex(relayRequest.relayData.relayWorker)
+    if (workerIndex < 0) {
+      throw new Error(`Wrong worker address: ${relayRequest.relayData.relayWorker}\n`)
+    }
+    if (!this.workerRotator.isRouted(relayRequest.relayData.relayWorker)) {
+      throw new Error(`Worker ${relayRequest.relayData.relayWorker} does not take requests, it is being rotated`)
+    }
+    const workerAddress = this.workerAddresses[workerIndex]
+    const verifier = relayRequest.relayData.callVerifier
+    if (!hub.isTrustedVerifier(verifier)) {
+      throw new Error(`Invalid verifier: ${verifier}`)
+    }
+
+    const gasPrice = BN.max(toBN(this.gasPrice), toBN(relayRequest.relayData.gasPrice))
+    const feePolicy = this.feePolicy != null && !this.feePolicy.isExempt(verifier) ? this.feePolicy : undefined
+    const { tokenContract, tokenAmount } = relayRequest.request
+    const paysToken = !isSameAddress(tokenContract, constants.ZERO_ADDRESS) && (feePolicy != null || !toBN(tokenAmount).isZero())
+
+    // a smart wallet that does not exist yet cannot be asked to estimate a transfer, deploys bring their own tokenGas
+    let tokenGas = paysToken ? toBN(relayRequest.request.tokenGas).toNumber() : 0
+    if (paysToken && tokenGas === 0 && !isDeploy) {
+      const amount = BN.max(toBN(tokenAmount), toBN(1))
+      tokenGas = Math.ceil(await this.contractInteractor.estimateTokenTransferGas(relayRequest.relayData.callForwarder,
+        tokenContract, workerAddress, amount.toString(), relayRequest.relayData.gasPrice))
+    }
+    // the estimate of a signed request without tokenAmount does not include the token transfer
+    const unpaidTokenGas = toBN(tokenAmount).isZero() ? tokenGas : 0
+
+    const signature = metadata.signature
+    const signedRequest = {
+      relayRequest,
+      metadata: { relayHubAddress: metadata.relayHubAddress, relayMaxNonce: 0, signature: signature ?? '' }
+    }
+    let destinationGas = 0
+    let maxPossibleGas: number
+    let marginPercent = 0
+    if (isDeploy) {
+      if (signature == null) {
+        throw new Error('Deploy requests can only be estimated when signed')
+      }
+      const deployGas = await this.contractInteractor.walletFactoryEstimateGasOfDeployCall(signedRequest as DeployTransactionRequest)
+      maxPossibleGas = calculateDeployTransactionMaxPossibleGas((deployGas + unpaidTokenGas).toString(), tokenGas.toString()).toNumber()
+    } else {
+      const request = (relayRequest as RelayRequest).request
+      destinationGas = Math.ceil(await this.contractInteractor.estimateDestinationContractCallGas({
+        from: relayRequest.relayData.callForwarder,
+        to: request.to,
+        gasPrice: relayRequest.relayData.gasPrice,
+        data: request.data
+      }))
+      if (signature != null) {
+        maxPossibleGas = await this.contractInteractor.estimateRelayTransactionMaxPossibleGasWithTransactionRequest(signedRequest as RelayTransactionRequest) + unpaidTokenGas
+      } else {
+        // the relay call can't be estimated without the signature, only the calls it makes
+        const gas = Math.max(toBN(request.gas).toNumber(), destinationGas)
+        marginPercent = this.config.linearFitEstimateMarginPercent
+        maxPossibleGas = Math.ceil(estimateMaxPossibleRelayCallWithLinearFit(gas, tokenGas) * (100 + marginPercent) / 100)
+      }
+    }
+
+    const requiredTokenAmount = feePolicy == null ? toBN(0) : await feePolicy.computeFee(tokenContract, toBN(maxPossibleGas), gasPrice)
+    return {
+      maxPossibleGas: maxPossibleGas.toString(),
+      gasPrice: gasPrice.toString(),
+      estimatedDestinationGas: destinationGas.toString(),
+      estimatedTokenGas: tokenGas.toString(),
+      requiredTokenAmount: requiredTokenAmount.toString(),
+      exact: signature != null,
+      gasEstimation: signature != null ? 'relay-call' : 'linear-fit',
+      marginPercent
+    }
+  }
+
+  /**
+   * @param clientIp - address of the HTTP client, used for the per-IP rate limit
+   * @param correlationId - sent by the client, logged along with the handling of the request and its transaction
+   */
+  async createRelayTransaction (req: RelayTransactionRequest | DeployTransactionRequest, clientIp?: string, correlationId?: string): Promise<RelayedTransactionDetails> {
+    // tracks the validation step being run, so rejections can be reported by reason
+    const progress = { step: 'not_ready' }
+    // only trusted verifiers are used as label values, to keep the number of series bounded
+    const verifier = req?.relayRequest?.relayData?.callVerifier
+    const verifierLabel = typeof verifier === 'string' && this.isTrustedVerifier(verifier) ? verifier.toLowerCase() : 'untrusted'
+    try {
+      const txDetails = await this._createRelayTransaction(req, progress, clientIp, correlationId)
+      this.metrics.relayedRequests.inc({ verifier: verifierLabel })
+      return txDetails
+    } catch (e) {
+      this.metrics.rejectedRequests.inc({ reason: progress.step, verifier: verifierLabel })
+      this.logger.info(`relay request rejected: ${(e as Error).message}`, { correlationId, phase: progress.step })
+      throw e
+    }
+  }
+
+  async _createRelayTransaction (req: RelayTransactionRequest | DeployTransactionRequest, progress: { step: string }, clientIp?: string, correlationId?: string): Promise<RelayedTransactionDetails> {
+    this.logger.debug(`dump request params: ${JSON.stringify(req)}`, { correlationId, phase: 'received' })
     if (!this.isReady()) {
       throw new Error('relay not ready')
     }
+    progress.step = 'not_accepting'
+    this.validateAccepting()
+    progress.step = 'invalid_input_types'
     this.validateInputTypes(req)
 
+    // before any RPC call, so limited clients cost no node round-trips
+    progress.step = 'rate_limited'
+    this.rateLimiter.consume({
+      ip: clientIp,
+      sender: req.relayRequest.request.from,
+      forwarder: req.relayRequest.relayData.callForwarder,
+      destination: req.relayRequest.request.to
+    })
+    progress.step = 'policy'
+    this.relayPolicy.validate(req.relayRequest, this.isDeployRequest(req))
+
     if (this.alerted) {
       log.error('Alerted state: slowing down traffic')
       await sleep(randomInRange(this.config.minAlertedDelayMS, this.config.maxAlertedDelayMS))
     }
+    progress.step = 'invalid_input'
     this.validateInput(req)
-    await this.validateMaxNonce(req.metadata.relayMaxNonce)
+    const workerIndex = this.getWorkerIndex(req.relayRequest.relayData.relayWorker)
+    const workerAddress = this.workerAddresses[workerIndex]
+    progress.step = 'max_nonce'
+    await this.validateMaxNonce(workerAddress, req.metadata.relayMaxNonce)
 
+    progress.step = 'verifier'
     const { maxPossibleGas } = await this.validateRequestWithVerifier(req)
 
+    if (this.feePolicy != null) {
+      progress.step = 'fee'
+      await this.feePolicy.validate(req, maxPossibleGas)
+    }
+
     // Send relayed transaction
     log.debug('maxPossibleGas is', maxPossibleGas.toString())
 
     const isDeploy = this.isDeployRequest(req)
+    const relayHubContract = this.getRelayHub(req.metadata.relayHubAddress).relayHubContract
 
-    const method = isDeploy ? this.relayHubContract.contract.methods.deployCall(
-      req.relayRequest as DeployRequest, req.metadata.signature) : this.relayHubContract.contract.methods.relayCall(
+    const method = isDeploy ? relayHubContract.contract.methods.deployCall(
+      req.relayRequest as DeployRequest, req.metadata.signature) : relayHubContract.contract.methods.relayCall(
       req.relayRequest as RelayRequest, req.metadata.signature)
 
     // Call relayCall as a view function to see if we'll get paid for relaying this tx
+    progress.step = 'view_call'
     await this.validateViewCallSucceeds(method, req, maxPossibleGas)
+    progress.step = 'send'
+    const relayRequestSigHash = bufferToHex(keccak256(toBuffer(req.metadata.signature)))
+    this.emitTransactionEvent({ type: 'accepted', relayRequestSigHash })
     const currentBlock = await this.contractInteractor.getBlockNumber()
+    const relayRequestHash = getRelayRequestHash(this.chainId, req.relayRequest)
     const details: SendTransactionDetails =
       {
-        signer: this.workerAddress,
+        signer: workerAddress,
         serverAction: ServerAction.RELAY_CALL,
         method,
         destination: req.metadata.relayHubAddress,
         gasLimit: maxPossibleGas.toNumber(),
         creationBlockNumber: currentBlock,
-        gasPrice: req.relayRequest.relayData.gasPrice
+        gasPrice: req.relayRequest.relayData.gasPrice,
+        relayRequestHash,
+        correlationId
       }
+    this.logger.info('relay request accepted', { correlationId, relayRequestHash, worker: workerAddress, phase: progress.step })
     const txDetails = await this.transactionManager.sendTransaction(details)
+    this.emitTransactionEvent({ type: 'broadcast', txHash: txDetails.transactionHash, relayRequestSigHash })
+    const commitment = await this.signRelayCommitment(req, relayRequestHash, workerAddress, maxPossibleGas)
     // after sending a transaction is a good time to check the worker's balance, and replenish it.
-    await this.replenishServer(0, currentBlock)
-    return txDetails
+    await this.replenishServer(workerIndex, currentBlock)
+    return { ...txDetails, commitment }
+  }
+
+  /**
+   * Sign with the manager key the terms the server accepted the request under, as evidence for the client.
+   */
+  async signRelayCommitment (req: RelayTransactionRequest | DeployTransactionRequest, relayRequestHash: PrefixedHexString, workerAddress: Address, maxPossibleGas: BN): Promise<SignedRelayCommitment> {
+    const commitment = {
+      relayRequestHash,
+      relayHub: this.getRelayHub(req.metadata.relayHubAddress).relayHubContract.address,
+      relayManager: this.managerAddress,
+      relayWorker: workerAddress,
+      maxGas: maxPossibleGas.toString(),
+      gasPrice: req.relayRequest.relayData.gasPrice,
+      relayMaxNonce: req.metadata.relayMaxNonce,
+      deadline: Math.floor(Date.now() / 1000) + this.config.commitmentValiditySeconds
+    }
+    const signature = await this.transactionManager.managerKeyManager.signTypedData(this.managerAddress,
+      new TypedRelayCommitmentData(this.chainId, commitment))
+    return { version: RELAY_COMMITMENT_VERSION, commitment, signature }
   }
 
   async intervalHandler (): Promise<void> {
+    if (this.blockSubscription != null) {
+      // polling while the subscription is lost, which processes every block too
+      return await this.contractInteractor.getBlockNumber()
+        .then(async blockNumber => await this.blockProcessor.notify(blockNumber))
+        .catch(e => this._handleRoundError(e))
+    }
+    return await this._runRound(async () => {
+      const block = await this.contractInteractor.getBlock('latest')
+      if (block.number > this.lastScannedBlock) {
+        await this._workerSemaphore(block.number)
+      }
+    })
+  }
+
+  /**
+   * Run the handling of a block, which turns the server not ready if it fails or takes longer than readyTimeout.
+   */
+  async _runRound (round: () => Promise<void>): Promise<void> {
     const now = Date.now()
     let workerTimeout: Timeout
     if (!this.config.devMode) {
@@ -345,38 +910,90 @@ export class RelayServer extends EventEmitter {
       }, this.config.readyTimeout)
     }
 
-    return this.contractInteractor.getBlock('latest')
-      .then(
-        block => {
-          if (block.number > this.lastScannedBlock) {
-            return this._workerSemaphore.bind(this)(block.number)
-          }
-        })
-      .catch((e) => {
-        this.emit('error', e)
-        const error = e as Error
-        log.error(`error in worker: ${error.message} ${error.stack}`)
-        this.lastSuccessfulRounds = 0
-      })
+    return round()
+      .catch((e) => this._handleRoundError(e))
       .finally(() => {
         clearTimeout(workerTimeout)
+        this.metrics.roundDuration.observe((Date.now() - now) / 1000)
       })
   }
 
+  _handleRoundError (e: any): void {
+    this.emit('error', e)
+    const error = e as Error
+    log.error(`error in worker: ${error.message} ${error.stack}`)
+    this.lastSuccessfulRounds = 0
+  }
+
   start (): void {
-    log.debug(`Started polling for new blocks every ${this.config.checkInterval}ms`)
-    // eslint-disable-next-line @typescript-eslint/no-misused-promises
-    this.workerTask = setInterval(this.intervalHandler.bind(this), this.config.checkInterval)
+    if (this.blockSubscription != null) {
+      this.blockSubscription.start(
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        blockNumber => { this.blockProcessor.notify(blockNumber) },
+        connected => this._blockSubscriptionChanged(connected))
+    }
+    // until the subscription is connected, if any
+    this._startPolling()
+    if (this.transactionManager.transactionArchive != null) {
+      this._pruneTransactionArchive()
+      this.txArchivePruneTask = setInterval(() => this._pruneTransactionArchive(), TX_ARCHIVE_PRUNE_INTERVAL)
+      this.txArchivePruneTask.unref()
+    }
+    this.started = true
   }
 
   stop (): void {
-    if (this.workerTask == null) {
+    if (!this.started) {
       throw new Error('Server not started')
     }
-    clearInterval(this.workerTask)
+    this.blockSubscription?.stop()
+    this._stopPolling()
+    if (this.txArchivePruneTask != null) {
+      clearInterval(this.txArchivePruneTask)
+      this.txArchivePruneTask = undefined
+    }
+    this.started = false
     log.info('Successfully stopped polling!!')
   }
 
+  _pruneTransactionArchive (): void {
+    this.transactionManager.pruneTransactionArchive()
+      .then(removed => {
+        if (removed > 0) {
+          log.info(`Removed ${removed} transactions past their retention from the archive`)
+        }
+      })
+      .catch(e => log.error('Failed to prune the transaction archive:', e.message))
+  }
+
+  _startPolling (): void {
+    if (this.workerTask != null) {
+      return
+    }
+    log.debug(`Started polling for new blocks every ${this.config.checkInterval}ms`)
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    this.workerTask = setInterval(this.intervalHandler.bind(this), this.config.checkInterval)
+  }
+
+  _stopPolling (): void {
+    if (this.workerTask != null) {
+      clearInterval(this.workerTask)
+      this.workerTask = undefined
+    }
+  }
+
+  _blockSubscriptionChanged (connected: boolean): void {
+    if (!connected) {
+      this._startPolling()
+      return
+    }
+    this._stopPolling()
+    // catch up with the blocks mined while the subscription was lost
+    this.contractInteractor.getBlockNumber()
+      .then(async blockNumber => await this.blockProcessor.notify(blockNumber))
+      .catch(e => this._handleRoundError(e))
+  }
+
   async _workerSemaphore (blockNumber: number): Promise<void> {
     if (this._workerSemaphoreOn) {
       log.warn('Different worker is not finished yet, skipping this block')
@@ -409,48 +1026,85 @@ export class RelayServer extends EventEmitter {
    *    or both revert.
    *
    * @param verifiers list of trusted verifiers addresses
+   * @param hub the verifiers are trusted for, besides its relay and deploy verifiers
    */
-  async _initTrustedVerifiers (verifiers: string[] = []): Promise<void> {
-    this.trustedVerifiers.clear()
+  async _initTrustedVerifiers (verifiers: string[] = [], hub: RelayHubContext = this.relayHubs[0]): Promise<void> {
+    const trustedVerifiers = hub.trustedVerifiers
+    trustedVerifiers.clear()
     for (const verifierAddress of verifiers) {
-      this.trustedVerifiers.add(verifierAddress.toLowerCase())
+      trustedVerifiers.add(verifierAddress.toLowerCase())
     }
-    if (this.config.relayVerifierAddress !== constants.ZERO_ADDRESS && !this.trustedVerifiers.has(this.config.relayVerifierAddress.toLowerCase())) {
-      this.trustedVerifiers.add(this.config.relayVerifierAddress.toLowerCase())
+    if (hub.config.relayVerifierAddress !== constants.ZERO_ADDRESS && !trustedVerifiers.has(hub.config.relayVerifierAddress.toLowerCase())) {
+      trustedVerifiers.add(hub.config.relayVerifierAddress.toLowerCase())
     }
-    if (this.config.deployVerifierAddress !== constants.ZERO_ADDRESS && !this.trustedVerifiers.has(this.config.deployVerifierAddress.toLowerCase())) {
-      this.trustedVerifiers.add(this.config.deployVerifierAddress.toLowerCase())
+    if (hub.config.deployVerifierAddress !== constants.ZERO_ADDRESS && !trustedVerifiers.has(hub.config.deployVerifierAddress.toLowerCase())) {
+      trustedVerifiers.add(hub.config.deployVerifierAddress.toLowerCase())
     }
   }
 
-  async init (): Promise<void> {
-    if (this.initialized) {
-      throw new Error('_init was already called')
+  async _initRelayHub (hub: RelayHubContext): Promise<void> {
+    if (!hub.contractInteractor.isInitialized()) {
+      await hub.contractInteractor.init()
     }
-    log.debug('Relay Server - Relay Server initializing')
-
-    await this.transactionManager._init()
-    log.debug('Relay Server - Transaction Manager initialized')
-    await this._initTrustedVerifiers(this.config.trustedVerifiers)
-    this.relayHubContract = this.contractInteractor.relayHubInstance
-    const relayHubAddress = this.relayHubContract.address
+    await this._initTrustedVerifiers(hub.config.trustedVerifiers, hub)
+    hub.relayHubContract = hub.contractInteractor.relayHubInstance
+    const relayHubAddress = hub.relayHubContract.address
     log.debug(`Relay Server - Relay hub: ${relayHubAddress}`)
-    const code = await this.contractInteractor.getCode(relayHubAddress)
+    const code = await hub.contractInteractor.getCode(relayHubAddress)
     if (code.length < 10) {
       this.fatal(`No RelayHub deployed at address ${relayHubAddress}.`)
     }
 
-    this.registrationManager = new RegistrationManager(
-      this.contractInteractor,
+    hub.registrationManager = new RegistrationManager(
+      hub.contractInteractor,
       this.transactionManager,
       this.txStoreManager,
       this,
-      this.config,
+      hub.config,
       this.managerAddress,
-      this.workerAddress
+      this.workerAddresses,
+      async () => await this._isStakedInOtherHubs(hub)
     )
-    await this.registrationManager.init()
-    log.debug('Relay Server - Registration manager initialized')
+    await hub.registrationManager.init()
+    log.debug(`Relay Server - Registration manager of hub ${relayHubAddress} initialized`)
+  }
+
+  /**
+   * Whether the manager still has a locked stake in a hub other than the given one, whose workers and manager
+   * must then keep their funds and the server keep running.
+   */
+  async _isStakedInOtherHubs (hub: RelayHubContext): Promise<boolean> {
+    for (const otherHub of this.relayHubs) {
+      if (otherHub !== hub && await otherHub.registrationManager.isStaked()) {
+        return true
+      }
+    }
+    return false
+  }
+
+  async init (): Promise<void> {
+    if (this.initialized) {
+      throw new Error('_init was already called')
+    }
+    log.debug('Relay Server - Relay Server initializing')
+
+    await this.transactionManager._init()
+    log.debug('Relay Server - Transaction Manager initialized')
+    await this.workerRotator.init()
+    for (const hub of this.relayHubs) {
+      await this._initRelayHub(hub)
+    }
+    if (this.config.penalizationWatchdogEnabled) {
+      this.penalizationWatchdog = new PenalizationWatchdog(
+        this.contractInteractor,
+        this.transactionManager,
+        this.penalizationStore,
+        this.config,
+        this.managerAddress,
+        this.workerAddresses
+      )
+      log.debug('Relay Server - Penalization watchdog initialized')
+    }
 
     this.chainId = this.contractInteractor.getChainId()
     this.networkId = this.contractInteractor.getNetworkId()
@@ -474,18 +1128,20 @@ latestBlock timestamp   | ${latestBlock.timestamp}
     this.initialized = true
 
     // Assume started server is not registered until _worker figures stuff out
-    this.registrationManager.printNotRegisteredMessage()
+    this.relayHubs.forEach(hub => hub.registrationManager.printNotRegisteredMessage())
   }
 
   /**
-   * It withdraws excess balance from the relayHub to the relayManager, and refills the relayWorker with
-   * balance if required.
-   * @param workerIndex Not used so it can be any number
+   * Refills the relayWorker with balance if required, as decided by the replenish strategy.
+   * @param workerIndex Index of the worker to refill, in {@link workerAddresses}
    * @param currentBlock Where to place the replenish action
    */
-
   async replenishServer (workerIndex: number, currentBlock: number): Promise<PrefixedHexString[]> {
-    return await replenishStrategy(this, workerIndex, currentBlock)
+    if (this.replenishStrategy == null) {
+      throw new Error('customReplenish is set but no replenish strategy was registered')
+    }
+    this.workersBalanceRequired[workerIndex].currentValue = await this.getWorkerBalance(workerIndex)
+    return await this.replenishStrategy.replenish(this, workerIndex, currentBlock)
   }
 
   async _worker (blockNumber: number): Promise<PrefixedHexString[]> {
@@ -500,7 +1156,9 @@ latestBlock timestamp   | ${latestBlock.timestamp}
     }
     this.lastRefreshBlock = blockNumber
     await this._refreshGasPrice()
-    await this.registrationManager.refreshBalance()
+    for (const hub of this.relayHubs) {
+      await hub.registrationManager.refreshBalance()
+    }
     if (!this.registrationManager.balanceRequired.isSatisfied) {
       this.setReadyState(false)
       return []
@@ -518,23 +1176,62 @@ latestBlock timestamp   | ${latestBlock.timestamp}
 
   async _handleChanges (currentBlockNumber: number): Promise<PrefixedHexString[]> {
     let transactionHashes: PrefixedHexString[] = []
-    const hubEventsSinceLastScan = await this.getAllHubEventsSinceLastScan()
-    await this._updateLatestTxBlockNumber(hubEventsSinceLastScan)
-    const shouldRegisterAgain = await this._shouldRegisterAgain(currentBlockNumber, hubEventsSinceLastScan)
-    transactionHashes = transactionHashes.concat(await this.registrationManager.handlePastEvents(hubEventsSinceLastScan, this.lastScannedBlock, currentBlockNumber, shouldRegisterAgain))
-    await this.transactionManager.removeConfirmedTransactions(currentBlockNumber)
-    await this._boostStuckPendingTransactions(currentBlockNumber)
+    const hubEventsSinceLastScan = new Map<RelayHubContext, EventData[]>()
+    for (const hub of this.relayHubs) {
+      const hubEvents = await this.getAllHubEventsSinceLastScan(hub, currentBlockNumber)
+      hubEventsSinceLastScan.set(hub, hubEvents)
+      await this._updateLatestTxBlockNumber(hubEvents, hub)
+      const shouldRegisterAgain = await this._shouldRegisterAgain(currentBlockNumber, hubEvents, hub)
+      transactionHashes = transactionHashes.concat(await hub.registrationManager.handlePastEvents(hubEvents, this.lastScannedBlock, currentBlockNumber, shouldRegisterAgain))
+    }
+    const confirmedTransactions = await this.transactionManager.removeConfirmedTransactions(currentBlockNumber)
+    for (const confirmedTx of confirmedTransactions) {
+      this.emitTransactionEvent({ type: 'confirmed', txHash: confirmedTx.txId, blockNumber: confirmedTx.minedBlockNumber })
+      // deployCall emits no event and failed transactions none at all, so they are only recorded here
+      if (confirmedTx.serverAction === ServerAction.RELAY_CALL) {
+        await this._recordInLedger(confirmedTx.txId)
+      }
+    }
+    if (this.acceptanceState !== 'paused') {
+      await this._boostStuckPendingTransactions(currentBlockNumber)
+    }
     this.lastScannedBlock = currentBlockNumber
-    const isRegistered = await this.registrationManager.isRegistered()
-    if (!isRegistered) {
+    // the server relays for the hubs it is registered on, and is not ready if there are none
+    for (const hub of this.relayHubs) {
+      hub.registered = await hub.registrationManager.isRegistered()
+    }
+    const registeredHubs = this.relayHubs.filter(hub => hub.registered)
+    if (registeredHubs.length === 0) {
       this.setReadyState(false)
       return transactionHashes
     }
-    await this.handlePastHubEvents(currentBlockNumber, hubEventsSinceLastScan)
-    const workerIndex = 0
-    transactionHashes = transactionHashes.concat(await this.replenishServer(workerIndex, currentBlockNumber))
-    const workerBalance = await this.getWorkerBalance(workerIndex)
-    if (workerBalance.lt(toBN(this.config.workerMinBalance))) {
+    for (const hub of registeredHubs) {
+      await this.handlePastHubEvents(currentBlockNumber, hubEventsSinceLastScan.get(hub) ?? [])
+    }
+    if (this.penalizationWatchdog != null) {
+      // only a staked relay manager can report, and a failing scan must not keep the workers from being funded
+      try {
+        transactionHashes = transactionHashes.concat(await this.penalizationWatchdog.scan(currentBlockNumber))
+      } catch (e) {
+        log.error('Penalization watchdog failed:', e.message)
+      }
+    }
+    transactionHashes = transactionHashes.concat(await this.workerRotator.advance(currentBlockNumber))
+    let fundedWorkers = 0
+    for (let workerIndex = 0; workerIndex < this.workerAddresses.length; workerIndex++) {
+      // the funds of a retired worker are sent back to the manager
+      if (this.workerRotator.isRetired(this.workerAddresses[workerIndex])) {
+        continue
+      }
+      transactionHashes = transactionHashes.concat(await this.replenishServer(workerIndex, currentBlockNumber))
+      const workerBalance = await this.getWorkerBalance(workerIndex)
+      this.workersBalanceRequired[workerIndex].currentValue = workerBalance
+      if (workerBalance.gte(toBN(this.config.workerMinBalance))) {
+        fundedWorkers++
+      }
+    }
+    // the server can keep relaying as long as at least one worker is able to pay for gas
+    if (fundedWorkers === 0) {
       this.setReadyState(false)
       return transactionHashes
     }
@@ -551,18 +1248,18 @@ latestBlock timestamp   | ${latestBlock.timestamp}
   }
 
   async getWorkerBalance (workerIndex: number): Promise<BN> {
-    return toBN(await this.contractInteractor.getBalance(this.workerAddress, 'pending'))
+    return toBN(await this.contractInteractor.getBalance(this.workerAddresses[workerIndex], 'pending'))
   }
 
-  async _shouldRegisterAgain (currentBlock: number, hubEventsSinceLastScan: EventData[]): Promise<boolean> {
+  async _shouldRegisterAgain (currentBlock: number, hubEventsSinceLastScan: EventData[], hub: RelayHubContext = this.relayHubs[0]): Promise<boolean> {
     const isPendingActivityTransaction =
-      (await this.txStoreManager.isActionPending(ServerAction.RELAY_CALL)) ||
-      (await this.txStoreManager.isActionPending(ServerAction.REGISTER_SERVER))
+      (await this.txStoreManager.isActionPending(ServerAction.RELAY_CALL, hub.address)) ||
+      (await this.txStoreManager.isActionPending(ServerAction.REGISTER_SERVER, hub.address))
     if (this.config.registrationBlockRate === 0 || isPendingActivityTransaction) {
       log.debug(`_shouldRegisterAgain returns false isPendingActivityTransaction=${isPendingActivityTransaction} registrationBlockRate=${this.config.registrationBlockRate}`)
       return false
     }
-    const latestTxBlockNumber = this._getLatestTxBlockNumber()
+    const latestTxBlockNumber = this._getLatestTxBlockNumber(hub)
     const registrationExpired = currentBlock - latestTxBlockNumber >= this.config.registrationBlockRate
     if (!registrationExpired) {
       log.debug(`_shouldRegisterAgain registrationExpired=${registrationExpired} currentBlock=${currentBlock} latestTxBlockNumber=${latestTxBlockNumber} registrationBlockRate=${this.config.registrationBlockRate}`)
@@ -579,7 +1276,15 @@ latestBlock timestamp   | ${latestBlock.timestamp}
       switch (event.event) {
         case TransactionRejectedByRecipient:
           log.debug('handle TransactionRejectedByRecipient event', event)
+          this.emitTransactionEvent({
+            type: 'reverted-on-recipient',
+            txHash: event.transactionHash,
+            relayRequestSigHash: event.returnValues.relayRequestSigHash,
+            blockNumber: event.blockNumber,
+            reason: decodeRevertReason(event.returnValues.reason) ?? undefined
+          })
           await this._handleTransactionRejectedByRecipientEvent(currentBlockNumber)
+          await this._recordInLedger(event.transactionHash)
           break
         case TransactionRelayed:
           log.debug(`handle TransactionRelayed event: ${JSON.stringify(event)}`)
@@ -589,21 +1294,70 @@ latestBlock timestamp   | ${latestBlock.timestamp}
     }
   }
 
-  async getAllHubEventsSinceLastScan (): Promise<EventData[]> {
+  /**
+   * @param toBlock - the block of the round, so that a round catching up on older blocks
+   *        does not handle the events of the blocks after it
+   */
+  async getAllHubEventsSinceLastScan (hub: RelayHubContext = this.relayHubs[0], toBlock: number | 'latest' = 'latest'): Promise<EventData[]> {
     const topics = [address2topic(this.managerAddress)]
     const options = {
       fromBlock: this.lastScannedBlock + 1,
-      toBlock: 'latest'
+      toBlock
     }
-    const events = await this.contractInteractor.getPastEventsForHub(topics, options)
+    const events = await hub.contractInteractor.getPastEventsForHub(topics, options)
     if (events.length !== 0) {
-      log.debug(`Found ${events.length} events since last scan`)
+      log.debug(`Found ${events.length} events of hub ${hub.address} since last scan`)
     }
     return events
   }
 
   async _handleTransactionRelayedEvent (event: EventData): Promise<void> {
     // Here put anything that needs to be performed after a Transaction gets relayed
+    this.emitTransactionEvent({
+      type: 'mined',
+      txHash: event.transactionHash,
+      relayRequestSigHash: event.returnValues.relayRequestSigHash,
+      blockNumber: event.blockNumber
+    })
+    await this._recordInLedger(event.transactionHash)
+  }
+
+  /**
+   * Add a mined relayCall or deployCall transaction to the {@link RevenueLedger}, once.
+   * The tokens collected are valued at the current exchange rate of the price source.
+   */
+  async _recordInLedger (txHash: PrefixedHexString): Promise<void> {
+    try {
+      if (await this.ledger.hasEntry(txHash)) {
+        return
+      }
+      // replaced by a boost, or dropped
+      const receipt = await this.contractInteractor.getTransactionReceiptIfMined(txHash)
+      if (receipt == null) {
+        return
+      }
+      const tx = await this.contractInteractor.getTransaction(txHash)
+      const block = await this.contractInteractor.getBlock(receipt.blockNumber)
+      const entry = createLedgerEntry(tx, receipt, parseInt(block.timestamp.toString()))
+      if (entry == null) {
+        return
+      }
+      const tokensPerRbtc = await this.priceSource.getTokensPerRbtc(entry.tokenContract)
+      if (tokensPerRbtc != null && !tokensPerRbtc.isZero()) {
+        entry.tokenCollectedWei = tokensToWei(entry.tokenCollected, tokensPerRbtc)
+      }
+      await this.ledger.record(entry)
+    } catch (e) {
+      log.error(`Failed to record transaction ${txHash} in the ledger:`, e.message)
+    }
+  }
+
+  /**
+   * Report a step of the lifecycle of a relayed transaction to the `transactionEvent` listeners,
+   * such as the WebSocket clients of the {@link TransactionEventsServer}.
+   */
+  emitTransactionEvent (event: TransactionLifecycleEvent): void {
+    this.emit('transactionEvent', event)
   }
 
   async _handleTransactionRejectedByRecipientEvent (blockNumber: number): Promise<void> {
@@ -612,24 +1366,24 @@ latestBlock timestamp   | ${latestBlock.timestamp}
     log.error(`Relay entered alerted state. Block number: ${blockNumber}`)
   }
 
-  _getLatestTxBlockNumber (): number {
-    return this.lastMinedActiveTransaction?.blockNumber ?? -1
+  _getLatestTxBlockNumber (hub: RelayHubContext = this.relayHubs[0]): number {
+    return hub.lastMinedActiveTransaction?.blockNumber ?? -1
   }
 
-  async _updateLatestTxBlockNumber (eventsSinceLastScan: EventData[]): Promise<void> {
+  async _updateLatestTxBlockNumber (eventsSinceLastScan: EventData[], hub: RelayHubContext = this.relayHubs[0]): Promise<void> {
     const latestTransactionSinceLastScan = getLatestEventData(eventsSinceLastScan)
     if (latestTransactionSinceLastScan != null) {
-      this.lastMinedActiveTransaction = latestTransactionSinceLastScan
-      log.debug(`found newer block ${this.lastMinedActiveTransaction?.blockNumber}`)
+      hub.lastMinedActiveTransaction = latestTransactionSinceLastScan
+      log.debug(`found newer block ${hub.lastMinedActiveTransaction?.blockNumber}`)
     }
-    if (this.lastMinedActiveTransaction == null) {
-      this.lastMinedActiveTransaction = await this._queryLatestActiveEvent()
-      log.debug(`queried node for last active server event, found in block ${this.lastMinedActiveTransaction?.blockNumber}`)
+    if (hub.lastMinedActiveTransaction == null) {
+      hub.lastMinedActiveTransaction = await this._queryLatestActiveEvent(hub)
+      log.debug(`queried node for last active server event, found in block ${hub.lastMinedActiveTransaction?.blockNumber}`)
     }
   }
 
-  async _queryLatestActiveEvent (): Promise<EventData | undefined> {
-    const events: EventData[] = await this.contractInteractor.getPastEventsForHub([address2topic(this.managerAddress)], {
+  async _queryLatestActiveEvent (hub: RelayHubContext = this.relayHubs[0]): Promise<EventData | undefined> {
+    const events: EventData[] = await hub.contractInteractor.getPastEventsForHub([address2topic(this.managerAddress)], {
       fromBlock: 1
     })
     return getLatestEventData(events)
@@ -646,12 +1400,16 @@ latestBlock timestamp   | ${latestBlock.timestamp}
     for (const [txHash, boostedTxDetails] of managerBoostedTransactions) {
       transactionDetails.set(txHash, boostedTxDetails)
     }
-    for (const workerIndex of [0]) {
+    for (let workerIndex = 0; workerIndex < this.workerAddresses.length; workerIndex++) {
       const workerBoostedTransactions = await this._boostStuckTransactionsForWorker(blockNumber, workerIndex)
       for (const [txHash, boostedTxDetails] of workerBoostedTransactions) {
         transactionDetails.set(txHash, boostedTxDetails)
       }
     }
+    for (const [previousTxHash, boostedTxDetails] of transactionDetails) {
+      this.emitTransactionEvent({ type: 'boosted', txHash: boostedTxDetails.transactionHash, previousTxHash })
+    }
+    this.metrics.boostedTransactions.inc({}, transactionDetails.size)
     return transactionDetails
   }
 
@@ -660,12 +1418,123 @@ latestBlock timestamp   | ${latestBlock.timestamp}
   }
 
   async _boostStuckTransactionsForWorker (blockNumber: number, workerIndex: number): Promise<Map<PrefixedHexString, SignedTransactionDetails>> {
-    const signer = this.workerAddress
+    const signer = this.workerAddresses[workerIndex]
     return await this.transactionManager.boostUnderpricedPendingTransactionsForSigner(signer, blockNumber)
   }
 
-  isTrustedVerifier (verifier: string): boolean {
-    return this.trustedVerifiers.has(verifier.toLowerCase())
+  /**
+   * Refresh the gauges that reflect the current server state and render all metrics.
+   * Balances are the last values observed by the worker rounds, so scraping does not hit the RSK node.
+   */
+  async metricsHandler (): Promise<string> {
+    const metrics = this.metrics
+    metrics.pendingTransactions.set((await this.txStoreManager.getAll()).length)
+    metrics.workerBalance.reset()
+    this.workerAddresses.forEach((workerAddress, workerIndex) => {
+      metrics.workerBalance.set(parseFloat(this.workersBalanceRequired[workerIndex].currentValue.toString()), { worker: workerAddress.toLowerCase() })
+    })
+    if (this.registrationManager != null) {
+      metrics.managerBalance.set(parseFloat(this.registrationManager.balanceRequired.currentValue.toString()))
+    }
+    metrics.gasPrice.set(this.gasPrice)
+    metrics.ready.set(this.isReady() ? 1 : 0)
+    metrics.alerted.set(this.alerted ? 1 : 0)
+    return metrics.registry.render()
+  }
+
+  /**
+   * @param relayHubAddress - of the hub the verifier must be trusted for, or undefined for any of them
+   */
+  isTrustedVerifier (verifier: string, relayHubAddress?: Address): boolean {
+    const hubs = relayHubAddress != null ? [this.getRelayHub(relayHubAddress)] : this.relayHubs
+    return hubs.some(hub => hub.isTrustedVerifier(verifier))
+  }
+
+  /**
+   * @returns the verifiers trusted for any of the hubs
+   */
+  getTrustedVerifiers (): Address[] {
+    const verifiers = new Set<Address>()
+    this.relayHubs.forEach(hub => hub.trustedVerifiers.forEach(verifier => verifiers.add(verifier)))
+    return Array.from(verifiers)
+  }
+
+  /**
+   * @param relayHubAddress - of the hub to trust the verifier for, the one of relayHubAddress if undefined
+   */
+  addTrustedVerifier (verifier: Address, relayHubAddress?: Address): void {
+    if (!isAddress(verifier)) {
+      throw new Error(`Invalid verifier address: ${verifier}`)
+    }
+    const hub = relayHubAddress != null ? this.getRelayHub(relayHubAddress) : this.relayHubs[0]
+    hub.trustedVerifiers.add(verifier.toLowerCase())
+    log.warn(`Trusted verifier added for hub ${hub.address}: ${verifier}`)
+  }
+
+  /**
+   * @param relayHubAddress - of the hub to stop trusting the verifier for, the one of relayHubAddress if undefined
+   * @returns false if the verifier was not trusted
+   */
+  removeTrustedVerifier (verifier: Address, relayHubAddress?: Address): boolean {
+    const hub = relayHubAddress != null ? this.getRelayHub(relayHubAddress) : this.relayHubs[0]
+    const removed = hub.trustedVerifiers.delete(verifier.toLowerCase())
+    if (removed) {
+      log.warn(`Trusted verifier removed for hub ${hub.address}: ${verifier}`)
+    }
+    return removed
+  }
+
+  setAcceptanceState (state: AcceptanceState): void {
+    if (this.acceptanceState !== state) {
+      log.warn(chalk.yellow(`Relayer acceptance: ${state.toUpperCase()}`))
+    }
+    this.acceptanceState = state
+  }
+
+  /**
+   * Ready and taking new relay requests, as advertised in the ping response.
+   */
+  isAccepting (): boolean {
+    return this.isReady() && this.acceptanceState === 'accepting'
+  }
+
+  /**
+   * Withdraw the manager's whole stake from a RelayHub now. The hub deletes the stake, so the relay is no longer
+   * registered on it.
+   * @param relayHubAddress - of the hub to withdraw from, the one of relayHubAddress if undefined
+   */
+  async withdrawFromHub (relayHubAddress?: Address): Promise<PrefixedHexString> {
+    const currentBlock = await this.contractInteractor.getBlockNumber()
+    if (relayHubAddress == null) {
+      return await withdrawStakeFromHub(this, currentBlock)
+    }
+    const hub = this.getRelayHub(relayHubAddress)
+    const hubContext: ReplenishContext = {
+      config: hub.config,
+      contractInteractor: hub.contractInteractor,
+      transactionManager: this.transactionManager,
+      txStoreManager: this.txStoreManager,
+      managerAddress: this.managerAddress,
+      workerAddresses: this.workerAddresses,
+      emit: this.emit.bind(this)
+    }
+    return await withdrawStakeFromHub(hubContext, currentBlock)
+  }
+
+  /**
+   * Run the replenish strategy now for one worker, or for all of them.
+   */
+  async replenishWorkers (workerIndex?: number): Promise<PrefixedHexString[]> {
+    if (workerIndex != null && (workerIndex < 0 || workerIndex >= this.workerAddresses.length)) {
+      throw new Error(`No worker #${workerIndex}, the server has ${this.workerAddresses.length} workers`)
+    }
+    const currentBlock = await this.contractInteractor.getBlockNumber()
+    const workerIndexes = workerIndex != null ? [workerIndex] : this.workerAddresses.map((_, index) => index)
+    let transactionHashes: PrefixedHexString[] = []
+    for (const index of workerIndexes) {
+      transactionHashes = transactionHashes.concat(await this.replenishServer(index, currentBlock))
+    }
+    return transactionHashes
   }
 
   isReady (): boolean {
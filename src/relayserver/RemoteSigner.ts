@@ -0,0 +1,158 @@
+import axios, { AxiosError, AxiosInstance } from 'axios'
+import log from 'loglevel'
+import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import { EIP712TypedData, TypedDataUtils } from 'eth-sig-util'
+import { bufferToHex, ecrecover, fromRpcSig, pubToAddress, rlp } from 'ethereumjs-util'
+
+import { Address } from '../relayclient/types/Aliases'
+import { isSameAddress, sleep } from '../common/Utils'
+
+import { ServerAction } from './StoredTransaction'
+import { ServerConfigParams } from './ServerConfigParams'
+import { TransactionSigner } from './TransactionSigner'
+
+export interface RemoteSignerOptions {
+  // base URL of the signing service
+  url: string
+  // bearer token of the signing service, if it needs one
+  token?: string
+  // of each request, in milliseconds
+  timeout: number
+  // number of times a request failing for a network error, a timeout or a 5xx status is sent again
+  retries: number
+  // the signer refuses to sign transactions of other actions, without asking the service
+  allowedActions: ServerAction[]
+  // the signer refuses to sign typed data of other primary types, without asking the service
+  allowedTypedData: string[]
+}
+
+const RETRY_DELAY = 500
+
+/**
+ * Signs with keys held by an external signing service, e.g. one backed by a vault or an HSM.
+ * The service answers:
+ * - `GET /addresses` with `{ "addresses": ["0x..."] }`, the addresses of the keys it signs with;
+ * - `POST /sign-transaction` with `{ "signedTx": "0x..." }`, for a body `{ signer, serverAction, transaction }`
+ *   where the transaction has the hex `nonce`, `gasPrice`, `gasLimit`, `to`, `value` and `data`, and its `chainId`;
+ * - `POST /sign-typed-data` with `{ "signature": "0x..." }`, for a body `{ signer, typedData }`.
+ * Requests the service rejects have a 4xx status.
+ */
+export class RemoteSigner implements TransactionSigner {
+  private addresses: Address[] = []
+  private readonly httpClient: AxiosInstance
+
+  static fromConfig (url: string, config: ServerConfigParams): RemoteSigner {
+    return new RemoteSigner({
+      url,
+      token: config.remoteSignerToken !== '' ? config.remoteSignerToken : undefined,
+      timeout: config.remoteSignerTimeout,
+      retries: config.remoteSignerRetries,
+      allowedActions: config.remoteSignerAllowedActions.map(action => ServerAction[action]),
+      allowedTypedData: config.remoteSignerAllowedTypedData
+    })
+  }
+
+  constructor (readonly options: RemoteSignerOptions) {
+    this.httpClient = axios.create({
+      baseURL: options.url,
+      timeout: options.timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.token != null ? { Authorization: `Bearer ${options.token}` } : {})
+      }
+    })
+  }
+
+  /**
+   * Fetch the addresses of the keys of the service, which must be done before using the signer.
+   */
+  async init (): Promise<void> {
+    const { addresses } = await this.request('/addresses')
+    if (!Array.isArray(addresses) || addresses.length === 0) {
+      throw new Error(`Remote signer ${this.options.url} has no addresses`)
+    }
+    this.addresses = addresses.map((address: string) => address.toLowerCase())
+  }
+
+  getAddress (index: number): PrefixedHexString {
+    return this.addresses[index]
+  }
+
+  getAddresses (): PrefixedHexString[] {
+    return this.addresses
+  }
+
+  isSigner (signer: Address): boolean {
+    return this.addresses.includes(signer.toLowerCase())
+  }
+
+  async signTransaction (signer: Address, tx: Transaction, serverAction?: ServerAction): Promise<PrefixedHexString> {
+    this.checkSigner(signer)
+    if (serverAction == null || !this.options.allowedActions.includes(serverAction)) {
+      throw new Error(`Can't sign: remote signer does not sign ${serverAction != null ? ServerAction[serverAction] : 'unknown'} transactions`)
+    }
+    const transaction = {
+      nonce: bufferToHex(tx.nonce),
+      gasPrice: bufferToHex(tx.gasPrice),
+      gasLimit: bufferToHex(tx.gasLimit),
+      to: bufferToHex(tx.to),
+      value: bufferToHex(tx.value),
+      data: bufferToHex(tx.data),
+      chainId: tx.getChainId()
+    }
+    const { signedTx } = await this.request('/sign-transaction', { signer, serverAction: ServerAction[serverAction], transaction })
+    // only the signature is taken, so a transaction with other values than the one asked for is not valid
+    const [, , , , , , v, r, s] = rlp.decode(signedTx) as unknown as Buffer[]
+    tx.v = v
+    tx.r = r
+    tx.s = s
+    if (!tx.verifySignature() || !isSameAddress(bufferToHex(tx.getSenderAddress()), signer)) {
+      throw new Error(`Remote signer ${this.options.url} did not sign the transaction of ${signer}`)
+    }
+    return '0x' + tx.serialize().toString('hex')
+  }
+
+  async signTypedData (signer: Address, typedData: EIP712TypedData): Promise<PrefixedHexString> {
+    this.checkSigner(signer)
+    if (!this.options.allowedTypedData.includes(typedData.primaryType)) {
+      throw new Error(`Can't sign: remote signer does not sign ${typedData.primaryType} typed data`)
+    }
+    const { signature } = await this.request('/sign-typed-data', { signer, typedData })
+    // recovered as recoverTypedSignature_v4 does, which has no typing
+    let recovered: Address | undefined
+    try {
+      const { v, r, s } = fromRpcSig(signature)
+      recovered = bufferToHex(pubToAddress(ecrecover(TypedDataUtils.sign(typedData), v, r, s)))
+    } catch (e) {
+      recovered = undefined
+    }
+    if (recovered == null || !isSameAddress(recovered, signer)) {
+      throw new Error(`Remote signer ${this.options.url} did not sign the typed data of ${signer}`)
+    }
+    return signature
+  }
+
+  private checkSigner (signer: Address): void {
+    if (!this.isSigner(signer)) {
+      throw new Error(`Can't sign: signer=${signer} is not managed`)
+    }
+  }
+
+  private async request (path: string, body?: any): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.httpClient.request({ url: path, method: body != null ? 'POST' : 'GET', data: body })
+        return response.data
+      } catch (e) {
+        const status = (e as AxiosError).response?.status
+        const rejected = status != null && status < 500
+        if (rejected || attempt >= this.options.retries) {
+          const reason = (e as AxiosError).response?.data?.error ?? e.message
+          throw new Error(`Remote signer ${this.options.url} failed to answer ${path}: ${reason as string}`)
+        }
+        log.warn(`Remote signer ${this.options.url} failed to answer ${path}, retrying:`, e.message)
+        await sleep(RETRY_DELAY * (attempt + 1))
+      }
+    }
+  }
+}
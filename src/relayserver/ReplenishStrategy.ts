@@ -0,0 +1,223 @@
+import log from 'loglevel'
+import path from 'path'
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { toBN, toHex } from 'web3-utils'
+import BN from 'bn.js'
+
+import ContractInteractor from '../common/ContractInteractor'
+import { defaultEnvironment } from '../common/Environments'
+import { isSameAddress } from '../common/Utils'
+import { Address } from '../relayclient/types/Aliases'
+import { ServerConfigParams } from './ServerConfigParams'
+import { ServerAction } from './StoredTransaction'
+import { SendTransactionDetails, TransactionManager } from './TransactionManager'
+import { TxStore } from './TxStore'
+
+/**
+ * The parts of the relay server a replenish strategy works with. {@link RelayServer} implements it.
+ */
+export interface ReplenishContext {
+  readonly config: ServerConfigParams
+  readonly contractInteractor: ContractInteractor
+  readonly transactionManager: TransactionManager
+  readonly txStoreManager: TxStore
+  readonly managerAddress: Address
+  readonly workerAddresses: Address[]
+  emit: (event: string, ...args: any[]) => boolean
+}
+
+/**
+ * Keeps the relay workers funded. Register one with the `replenishStrategy` server dependency, with
+ * {@link RelayServer.registerReplenishStrategy}, or name a built-in or a module path in the `replenishStrategy` config.
+ * A module must export as default either a strategy or a function taking the server config and returning one.
+ */
+export interface ReplenishStrategy {
+  /**
+   * Called for each worker once per block, and for a worker right after it relays a transaction.
+   * @returns hashes of the transactions sent
+   */
+  replenish: (server: ReplenishContext, workerIndex: number, currentBlock: number) => Promise<PrefixedHexString[]>
+}
+
+async function getBalance (server: ReplenishContext, address: Address): Promise<BN> {
+  return toBN(await server.contractInteractor.getBalance(address, 'pending'))
+}
+
+/**
+ * Send the manager's RBTC to a worker, up to the worker target balance, keeping the manager above its minimum.
+ * Nothing is sent while a previous transfer to the worker is pending.
+ */
+export async function refillWorkerFromManager (server: ReplenishContext, workerIndex: number, currentBlock: number): Promise<PrefixedHexString[]> {
+  const workerAddress = server.workerAddresses[workerIndex]
+  if (await server.txStoreManager.isActionPending(ServerAction.VALUE_TRANSFER, workerAddress)) {
+    return []
+  }
+  const workerBalance = await getBalance(server, workerAddress)
+  const refill = toBN(server.config.workerTargetBalance.toString()).sub(workerBalance)
+  if (refill.lten(0)) {
+    return []
+  }
+  const managerBalance = await getBalance(server, server.managerAddress)
+  log.info(`== replenishServer: mgr balance=${managerBalance.toString()} worker #${workerIndex} balance=${workerBalance.toString()} refill=${refill.toString()}`)
+  if (!refill.lt(managerBalance.sub(toBN(server.config.managerMinBalance.toString())))) {
+    const message = `== replenishServer: can't replenish worker #${workerIndex}: mgr balance too low ${managerBalance.toString()} refill=${refill.toString()}`
+    server.emit('fundingNeeded', message)
+    log.warn(message)
+    return []
+  }
+  log.info(`Replenishing worker #${workerIndex} balance by manager rbtc balance`)
+  const details: SendTransactionDetails = {
+    signer: server.managerAddress,
+    serverAction: ServerAction.VALUE_TRANSFER,
+    destination: workerAddress,
+    value: toHex(refill),
+    creationBlockNumber: currentBlock,
+    gasLimit: defaultEnvironment.mintxgascost
+  }
+  const { transactionHash } = await server.transactionManager.sendTransaction(details)
+  return [transactionHash]
+}
+
+async function isBelowMinBalance (server: ReplenishContext, workerIndex: number): Promise<boolean> {
+  const workerBalance = await getBalance(server, server.workerAddresses[workerIndex])
+  return workerBalance.lt(toBN(server.config.workerMinBalance.toString()))
+}
+
+/**
+ * Tops a worker up from the manager's balance when it falls below the worker minimum balance.
+ */
+export class ManagerToWorkerStrategy implements ReplenishStrategy {
+  async replenish (server: ReplenishContext, workerIndex: number, currentBlock: number): Promise<PrefixedHexString[]> {
+    if (!await isBelowMinBalance(server, workerIndex)) {
+      return []
+    }
+    return await refillWorkerFromManager(server, workerIndex, currentBlock)
+  }
+}
+
+/**
+ * Like {@link ManagerToWorkerStrategy}, but when the manager cannot pay for the refill it first withdraws its stake
+ * from the RelayHub, the only RBTC the hub holds for a relay. The hub only lets the whole stake be withdrawn, and
+ * deletes it: the relay is no longer staked nor registered. So this is only done when the operator allowed it with
+ * `replenishUnstakeAllowed`, and needs the manager to own its stake, the stake to be unlocked and due, and at least
+ * `minHubWithdrawalBalance`. The worker is refilled once the withdrawal is mined.
+ */
+export class WithdrawFromHubStrategy extends ManagerToWorkerStrategy {
+  async replenish (server: ReplenishContext, workerIndex: number, currentBlock: number): Promise<PrefixedHexString[]> {
+    if (!await isBelowMinBalance(server, workerIndex)) {
+      return []
+    }
+    const refill = toBN(server.config.workerTargetBalance.toString()).sub(await getBalance(server, server.workerAddresses[workerIndex]))
+    const available = (await getBalance(server, server.managerAddress)).sub(toBN(server.config.managerMinBalance.toString()))
+    if (refill.lt(available) || !server.config.replenishUnstakeAllowed) {
+      // asks for funding when the manager can't pay
+      return await refillWorkerFromManager(server, workerIndex, currentBlock)
+    }
+    return await this.withdrawFromHub(server, currentBlock)
+  }
+
+  async withdrawFromHub (server: ReplenishContext, currentBlock: number): Promise<PrefixedHexString[]> {
+    if (await server.txStoreManager.isActionPending(ServerAction.DEPOSIT_WITHDRAWAL, server.config.relayHubAddress)) {
+      return []
+    }
+    try {
+      return [await withdrawStakeFromHub(server, currentBlock, toBN(server.config.minHubWithdrawalBalance.toString()))]
+    } catch (e) {
+      const message = `== replenishServer: can't withdraw from hub: ${(e as Error).message}`
+      server.emit('fundingNeeded', message)
+      log.warn(message)
+      return []
+    }
+  }
+}
+
+/**
+ * Withdraw the manager's whole stake from the RelayHub of the config to the manager. The hub deletes the stake,
+ * so the relay is no longer registered and stops being picked by the clients.
+ * @param minStake - smallest stake worth withdrawing
+ * @throws if a withdrawal is pending, or the stake is not owned by the manager, due, and at least minStake
+ */
+export async function withdrawStakeFromHub (server: ReplenishContext, currentBlock: number, minStake: BN = toBN(1)): Promise<PrefixedHexString> {
+  if (await server.txStoreManager.isActionPending(ServerAction.DEPOSIT_WITHDRAWAL, server.config.relayHubAddress)) {
+    throw new Error('a stake withdrawal is already pending')
+  }
+  const stakeInfo = await server.contractInteractor.getStakeInfo(server.managerAddress)
+  const withdrawBlock = parseInt(stakeInfo.withdrawBlock)
+  const isWithdrawable = isSameAddress(stakeInfo.owner, server.managerAddress) && withdrawBlock !== 0 && withdrawBlock <= currentBlock
+  if (!isWithdrawable || toBN(stakeInfo.stake).lt(minStake)) {
+    throw new Error(`stake of ${stakeInfo.stake} is not withdrawable by the manager`)
+  }
+  log.warn(`Withdrawing the whole stake of ${stakeInfo.stake} from the hub to the manager, the relay will no longer be registered`)
+  const method = await server.contractInteractor.getWithdrawStakeMethod(server.managerAddress)
+  const gasLimit = await server.transactionManager.attemptEstimateGas('WithdrawStake', method, server.managerAddress)
+  const details: SendTransactionDetails = {
+    signer: server.managerAddress,
+    serverAction: ServerAction.DEPOSIT_WITHDRAWAL,
+    method,
+    destination: server.config.relayHubAddress,
+    creationBlockNumber: currentBlock,
+    gasLimit
+  }
+  const { transactionHash } = await server.transactionManager.sendTransaction(details)
+  return transactionHash
+}
+
+/**
+ * Tops every worker up to the target balance once every `intervalBlocks` blocks, and in between only refills
+ * the workers that fall below the minimum balance.
+ */
+export class ScheduledBatchStrategy implements ReplenishStrategy {
+  private lastBatchBlock = Number.NEGATIVE_INFINITY
+
+  constructor (readonly intervalBlocks: number) {}
+
+  async replenish (server: ReplenishContext, workerIndex: number, currentBlock: number): Promise<PrefixedHexString[]> {
+    if (currentBlock - this.lastBatchBlock < this.intervalBlocks) {
+      if (!await isBelowMinBalance(server, workerIndex)) {
+        return []
+      }
+      return await refillWorkerFromManager(server, workerIndex, currentBlock)
+    }
+    this.lastBatchBlock = currentBlock
+    let transactionHashes: PrefixedHexString[] = []
+    for (let index = 0; index < server.workerAddresses.length; index++) {
+      transactionHashes = transactionHashes.concat(await refillWorkerFromManager(server, index, currentBlock))
+    }
+    return transactionHashes
+  }
+}
+
+export const BuiltInReplenishStrategies: Record<string, (config: ServerConfigParams) => ReplenishStrategy> = {
+  'manager-to-worker': () => new ManagerToWorkerStrategy(),
+  'withdraw-from-hub': (config) => {
+    if (!config.replenishUnstakeAllowed) {
+      log.warn('The withdraw-from-hub replenish strategy only refills the workers from the manager until replenishUnstakeAllowed is set')
+    }
+    return new WithdrawFromHubStrategy()
+  },
+  'scheduled-batch': (config) => new ScheduledBatchStrategy(config.replenishBatchIntervalBlocks)
+}
+
+export function isBuiltInReplenishStrategy (name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BuiltInReplenishStrategies, name)
+}
+
+/**
+ * Create the strategy named by the `replenishStrategy` config: a built-in name, or a path to a module.
+ */
+export function loadReplenishStrategy (config: ServerConfigParams): ReplenishStrategy {
+  const name = config.replenishStrategy
+  if (isBuiltInReplenishStrategy(name)) {
+    return BuiltInReplenishStrategies[name](config)
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const exported = require(path.resolve(name))
+  const strategy = exported?.default ?? exported
+  if (typeof strategy?.replenish === 'function') {
+    return strategy
+  }
+  if (typeof strategy === 'function') {
+    return strategy(config)
+  }
+  throw new Error(`Module ${name} does not export a replenish strategy`)
+}
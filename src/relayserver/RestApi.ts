@@ -0,0 +1,316 @@
+import ow, { ArgumentError, BasePredicate } from 'ow'
+
+import {
+  DeployEstimateRequestShape,
+  DeployTransactionRequestShape,
+  RelayEstimateRequestShape,
+  RelayTransactionRequestShape
+} from '../relayclient/types/RelayTransactionRequest'
+import RateLimitedError from '../common/RateLimitedError'
+import RelayApiError, { RELAY_API_ERROR_STATUS, RelayApiErrorCode } from '../common/RelayApiError'
+import { TRANSACTION_STATUSES } from '../common/TransactionStatusResponse'
+import { ApiObjectShape, ApiShape, enumPredicate, OpenApiSchema, shapePredicate, shapeToSchema } from './OpenApi'
+import { RelayServer } from './RelayServer'
+
+export const API_VERSION = 'v1'
+// version of the API contract, changed along with the OpenAPI document
+const API_CONTRACT_VERSION = '1.0.0'
+
+const PingResponseShape = {
+  relayWorkerAddress: ow.string,
+  relayManagerAddress: ow.string,
+  relayHubAddress: ow.string,
+  minGasPrice: ow.string,
+  networkId: ow.optional.string,
+  chainId: ow.optional.string,
+  ready: ow.boolean,
+  version: ow.string
+}
+
+const StatusResponseShape = {
+  healthy: ow.boolean,
+  failingChecks: [ow.string],
+  checks: [{
+    name: ow.string,
+    healthy: ow.boolean,
+    critical: ow.boolean,
+    details: ow.string
+  }]
+}
+
+const EstimateResponseShape = {
+  maxPossibleGas: ow.string,
+  gasPrice: ow.string,
+  estimatedDestinationGas: ow.string,
+  estimatedTokenGas: ow.string,
+  requiredTokenAmount: ow.string,
+  exact: ow.boolean,
+  gasEstimation: enumPredicate(['relay-call', 'linear-fit']),
+  marginPercent: ow.number
+}
+
+const RelayTransactionResponseShape = {
+  signedTx: ow.string,
+  // see SignedRelayCommitment
+  commitment: ow.optional.object
+}
+
+const TransactionStatusResponseShape = {
+  txId: ow.string,
+  relayRequestHash: ow.optional.string,
+  signer: ow.string,
+  nonce: ow.number.integer,
+  gasPrice: ow.number,
+  attempts: ow.number.integer,
+  boostHistory: [{
+    oldTxId: ow.string,
+    newTxId: ow.string,
+    oldGasPrice: ow.number,
+    newGasPrice: ow.number,
+    blockNumber: ow.number.integer
+  }],
+  status: enumPredicate(TRANSACTION_STATUSES),
+  minedTxId: ow.optional.string,
+  minedBlockNumber: ow.optional.number.integer,
+  confirmations: ow.optional.number.integer,
+  succeeded: ow.optional.boolean
+}
+
+const ErrorResponseShape = {
+  error: {
+    code: enumPredicate(Object.keys(RELAY_API_ERROR_STATUS)),
+    message: ow.string,
+    retryAfter: ow.optional.number
+  }
+}
+
+/**
+ * The bodies of the requests and responses of the API, by schema name. The request shapes are the ones
+ * the server validates requests with, so the OpenAPI document cannot drift from the validation.
+ */
+export const API_SCHEMAS: Record<string, ApiShape> = {
+  RelayTransactionRequest: RelayTransactionRequestShape,
+  DeployTransactionRequest: DeployTransactionRequestShape,
+  RelayEstimateRequest: RelayEstimateRequestShape,
+  DeployEstimateRequest: DeployEstimateRequestShape,
+  RelayTransactionResponse: RelayTransactionResponseShape,
+  EstimateResponse: EstimateResponseShape,
+  PingResponse: PingResponseShape,
+  StatusResponse: StatusResponseShape,
+  // verifier address => addresses of the tokens it accepts
+  TokenResponse: ow.object,
+  VerifierResponse: { trustedVerifiers: [ow.string] },
+  TransactionStatusResponse: TransactionStatusResponseShape,
+  OpenApiDocument: ow.object,
+  ErrorResponse: ErrorResponseShape
+}
+
+const VerifierQueryShape = { verifier: ow.optional.string }
+
+export interface RestRequest {
+  body: any
+  query: any
+  // path parameters
+  params: Record<string, string>
+  clientIp?: string
+  correlationId?: string
+}
+
+export interface RestRoute {
+  method: 'get' | 'post'
+  // express route, relative to /v1
+  path: string
+  summary: string
+  // names of the schemas of the body, which must match one of them
+  body?: string[]
+  query?: ApiObjectShape
+  // name of the schema of the successful responses
+  response: string
+  // statuses of the successful responses, the first being the default
+  statuses?: number[]
+  status?: (result: any) => number
+  // code of the errors thrown by the handler, other than RelayApiError and RateLimitedError
+  errorCode?: RelayApiErrorCode
+  handler: (request: RestRequest) => Promise<any>
+}
+
+function found<T> (result: T | undefined, what: string): T {
+  if (result == null) {
+    throw new RelayApiError('not_found', `${what} not found`)
+  }
+  return result
+}
+
+function ref (schemaName: string): OpenApiSchema {
+  return { $ref: `#/components/schemas/${schemaName}` }
+}
+
+function jsonContent (schemaNames: string[]): any {
+  const schema = schemaNames.length === 1 ? ref(schemaNames[0]) : { oneOf: schemaNames.map(ref) }
+  return { 'application/json': { schema } }
+}
+
+/**
+ * @returns the error sent to the client for an error thrown while handling a route
+ */
+export function toRelayApiError (error: Error, errorCode: RelayApiErrorCode = 'internal_error'): RelayApiError {
+  if (error instanceof RelayApiError) {
+    return error
+  }
+  if (error instanceof RateLimitedError) {
+    return new RelayApiError('rate_limited', error.message, error.retryAfterSeconds)
+  }
+  return new RelayApiError(errorCode, error.message)
+}
+
+/**
+ * Versioned REST API of the relay server, served under `/v1`, with typed errors (see {@link RelayApiError}).
+ * The routes are described by {@link getOpenApiDocument}, served at `/v1/openapi.json`.
+ * The unversioned routes of the HttpServer are kept as aliases, with their original error responses.
+ */
+export class RestApi {
+  readonly routes: Record<string, RestRoute>
+
+  constructor (readonly backend: RelayServer) {
+    this.routes = {
+      ping: {
+        method: 'get',
+        path: '/getaddr',
+        summary: 'Addresses, minimum gas price and readiness of the relay server',
+        query: VerifierQueryShape,
+        response: 'PingResponse',
+        handler: async ({ query }) => await this.backend.pingHandler(query.verifier)
+      },
+      status: {
+        method: 'get',
+        path: '/status',
+        summary: 'Health checks of the relay server, with status 503 when a critical one fails',
+        response: 'StatusResponse',
+        statuses: [200, 503],
+        status: result => result.healthy === true ? 200 : 503,
+        handler: async () => await this.backend.statusHandler()
+      },
+      tokens: {
+        method: 'get',
+        path: '/tokens',
+        summary: 'Tokens accepted as payment, by verifier',
+        query: VerifierQueryShape,
+        response: 'TokenResponse',
+        handler: async ({ query }) => await this.backend.tokenHandler(query.verifier)
+      },
+      verifiers: {
+        method: 'get',
+        path: '/verifiers',
+        summary: 'Verifiers trusted by the relay server',
+        response: 'VerifierResponse',
+        handler: async () => await this.backend.verifierHandler()
+      },
+      relay: {
+        method: 'post',
+        path: '/relay',
+        summary: 'Relay a signed relay or deploy request, returning the signed transaction',
+        body: ['RelayTransactionRequest', 'DeployTransactionRequest'],
+        response: 'RelayTransactionResponse',
+        errorCode: 'rejected',
+        handler: async ({ body, clientIp, correlationId }) => {
+          const { signedTx, commitment } = await this.backend.createRelayTransaction(body, clientIp, correlationId)
+          return { signedTx, commitment }
+        }
+      },
+      estimate: {
+        method: 'post',
+        path: '/estimate',
+        summary: 'Gas, gas price and token fee the relay server requires to relay a request',
+        body: ['RelayEstimateRequest', 'DeployEstimateRequest'],
+        response: 'EstimateResponse',
+        errorCode: 'rejected',
+        handler: async ({ body, clientIp }) => await this.backend.estimateHandler(body, clientIp)
+      },
+      relayRequestStatus: {
+        method: 'get',
+        path: '/tx/by-request/:relayRequestHash',
+        summary: 'Status of the transaction relaying a request, by the EIP-712 hash of the request',
+        response: 'TransactionStatusResponse',
+        handler: async ({ params }) =>
+          found(await this.backend.relayRequestStatusHandler(params.relayRequestHash), `relay request ${params.relayRequestHash}`)
+      },
+      txStatus: {
+        method: 'get',
+        path: '/tx/:hash',
+        summary: 'Status of a transaction sent by the relay server, by the hash of any of its attempts',
+        response: 'TransactionStatusResponse',
+        handler: async ({ params }) => found(await this.backend.txStatusHandler(params.hash), `transaction ${params.hash}`)
+      },
+      openApi: {
+        method: 'get',
+        path: '/openapi.json',
+        summary: 'This OpenAPI document',
+        response: 'OpenApiDocument',
+        handler: async () => this.getOpenApiDocument()
+      }
+    }
+  }
+
+  /**
+   * Validate the body and query of a request, and run the handler of its route.
+   * @throws RelayApiError
+   */
+  async run (name: string, request: RestRequest): Promise<any> {
+    const route = this.routes[name]
+    try {
+      if (route.body != null) {
+        const predicates = route.body.map(schemaName => shapePredicate(API_SCHEMAS[schemaName]))
+        ow(request.body, 'body', predicates.length === 1 ? predicates[0] : ow.any(...predicates as [BasePredicate<any>]))
+      }
+      ow(request.query ?? {}, 'query', shapePredicate(route.query ?? {}))
+    } catch (e) {
+      throw e instanceof ArgumentError ? new RelayApiError('invalid_request', e.message) : e
+    }
+    try {
+      return await route.handler(request)
+    } catch (e) {
+      throw toRelayApiError(e, route.errorCode)
+    }
+  }
+
+  /**
+   * @returns the OpenAPI 3 document of the routes, generated from the shapes they validate and return
+   */
+  getOpenApiDocument (): any {
+    const paths: Record<string, any> = {}
+    Object.entries(this.routes).forEach(([name, route]) => {
+      const path = `/${API_VERSION}${route.path.replace(/:(\w+)/g, '{$1}')}`
+      const pathParameters = (route.path.match(/:\w+/g) ?? []).map(parameter =>
+        ({ name: parameter.slice(1), in: 'path', required: true, schema: { type: 'string' } }))
+      const querySchema = shapeToSchema(route.query ?? {})
+      const queryParameters = Object.entries(querySchema.properties ?? {}).map(([parameter, schema]) =>
+        ({ name: parameter, in: 'query', required: querySchema.required?.includes(parameter) ?? false, schema }))
+      const responses: Record<string, any> = {}
+      for (const status of route.statuses ?? [200]) {
+        responses[status] = { description: route.summary, content: jsonContent([route.response]) }
+      }
+      responses.default = { description: 'Error', content: jsonContent(['ErrorResponse']) }
+      paths[path] = {
+        ...paths[path],
+        [route.method]: {
+          operationId: name,
+          summary: route.summary,
+          parameters: [...pathParameters, ...queryParameters],
+          requestBody: route.body != null ? { required: true, content: jsonContent(route.body) } : undefined,
+          responses
+        }
+      }
+    })
+    const schemas: Record<string, OpenApiSchema> = {}
+    Object.entries(API_SCHEMAS).forEach(([name, shape]) => { schemas[name] = shapeToSchema(shape) })
+    return JSON.parse(JSON.stringify({
+      openapi: '3.0.3',
+      info: {
+        title: 'Enveloping Relay Server',
+        version: API_CONTRACT_VERSION
+      },
+      paths,
+      components: { schemas }
+    }))
+  }
+}
@@ -0,0 +1,279 @@
+import AsyncNedb from 'nedb-async'
+import log from 'loglevel'
+import BN from 'bn.js'
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { Transaction, TransactionReceipt } from 'web3-core'
+import Web3 from 'web3'
+import { AbiItem, toBN } from 'web3-utils'
+
+import relayHubAbi from '../common/interfaces/IRelayHub.json'
+import { Address, IntString } from '../relayclient/types/Aliases'
+import { TransactionRejectedByRecipient } from '../common/ContractInteractor'
+
+// as ContractInteractor, through the typed abi coder of web3, which needs no provider to encode and decode
+const abi = new Web3().eth.abi
+const relayHubAbiItems = relayHubAbi as AbiItem[]
+
+export const LEDGER_FILENAME = 'ledger.db'
+
+/**
+ * - relayed: the call or the deploy succeeded
+ * - reverted-on-recipient: the destination contract reverted, after the token payment was made
+ * - failed: the whole transaction reverted, so the worker paid for the gas and collected nothing
+ */
+export type LedgerEntryStatus = 'relayed' | 'reverted-on-recipient' | 'failed'
+
+/**
+ * What relaying one transaction cost the relay worker, and what it collected.
+ */
+export interface LedgerEntry {
+  txHash: PrefixedHexString
+  blockNumber: number
+  // unix time of the block, in seconds
+  timestamp: number
+  isDeploy: boolean
+  status: LedgerEntryStatus
+  relayWorker: Address
+  verifier: Address
+  // request.to: the contract called, or the initialization logic of a deployed smart wallet
+  destination: Address
+  tokenContract: Address
+  // token base units collected, 0 if the transaction failed
+  tokenCollected: IntString
+  // tokenCollected valued in wei at the exchange rate known when it was recorded, if any
+  tokenCollectedWei?: IntString
+  gasUsed: number
+  gasPrice: IntString
+  // gasUsed * gasPrice, in wei
+  cost: IntString
+  // RelayHub called, missing in the entries recorded before the server served several hubs
+  relayHub?: Address
+}
+
+export interface LedgerAggregate {
+  transactions: number
+  revertedOnRecipient: number
+  failed: number
+  gasUsed: number
+  // wei spent on gas
+  cost: IntString
+  // wei value of the tokens collected, counting only the entries with a known exchange rate
+  collectedWei: IntString
+  // collectedWei - cost, negative when the relay loses money
+  profitWei: IntString
+  // token address => base units collected
+  tokensCollected: Record<Address, IntString>
+}
+
+export interface LedgerSummary {
+  total: LedgerAggregate
+  // UTC day, as YYYY-MM-DD => aggregate of the transactions mined that day
+  byDay: Record<string, LedgerAggregate>
+  // token address => aggregate of the transactions paying with that token
+  byToken: Record<Address, LedgerAggregate>
+  // RelayHub address => aggregate of the transactions relayed through that hub
+  byHub: Record<Address, LedgerAggregate>
+}
+
+interface RelayHubCall {
+  isDeploy: boolean
+  request: { to: Address, tokenContract: Address, tokenAmount: IntString }
+  relayData: { gasPrice: IntString, relayWorker: Address, callVerifier: Address }
+}
+
+const relayHubCalls = relayHubAbiItems
+  .filter(item => item.type === 'function' && (item.name === 'relayCall' || item.name === 'deployCall'))
+  .map(item => ({ item, selector: abi.encodeFunctionSignature(item) }))
+
+const rejectedByRecipientTopic = abi.encodeEventSignature(relayHubAbiItems
+  .find(item => item.type === 'event' && item.name === TransactionRejectedByRecipient) as AbiItem)
+
+/**
+ * @returns the relay or deploy request sent by a relayCall or deployCall transaction, or undefined for other calls
+ */
+export function decodeRelayHubCall (input: PrefixedHexString): RelayHubCall | undefined {
+  const call = relayHubCalls.find(it => input.toLowerCase().startsWith(it.selector))
+  if (call == null) {
+    return undefined
+  }
+  const decoded = abi.decodeParameters(call.item.inputs ?? [], '0x' + input.slice(10))
+  return { isDeploy: call.item.name === 'deployCall', ...decoded[0] }
+}
+
+/**
+ * @returns the entry of a mined relayCall or deployCall transaction, or undefined for other transactions
+ */
+export function createLedgerEntry (tx: Transaction, receipt: TransactionReceipt, timestamp: number): LedgerEntry | undefined {
+  const call = decodeRelayHubCall(tx.input)
+  if (call == null) {
+    return undefined
+  }
+  let status: LedgerEntryStatus = 'relayed'
+  if (!receipt.status) {
+    status = 'failed'
+  } else if (receipt.logs.some(it => it.topics[0] === rejectedByRecipientTopic)) {
+    status = 'reverted-on-recipient'
+  }
+  return {
+    txHash: receipt.transactionHash.toLowerCase(),
+    blockNumber: receipt.blockNumber,
+    timestamp,
+    isDeploy: call.isDeploy,
+    status,
+    relayWorker: call.relayData.relayWorker.toLowerCase(),
+    verifier: call.relayData.callVerifier.toLowerCase(),
+    destination: call.request.to.toLowerCase(),
+    tokenContract: call.request.tokenContract.toLowerCase(),
+    tokenCollected: status === 'failed' ? '0' : call.request.tokenAmount.toString(),
+    gasUsed: receipt.gasUsed,
+    gasPrice: tx.gasPrice,
+    cost: toBN(receipt.gasUsed).mul(toBN(tx.gasPrice)).toString(),
+    relayHub: tx.to?.toLowerCase()
+  }
+}
+
+/**
+ * Value of a token amount in wei, given the token base units worth 1 RBTC.
+ */
+export function tokensToWei (amount: IntString, tokensPerRbtc: BN): IntString {
+  return toBN(amount).mul(toBN(1e18.toString())).div(tokensPerRbtc).toString()
+}
+
+export function getLedgerDay (timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * @param from - first UTC day included, as YYYY-MM-DD, or undefined for no lower bound
+ * @param to - last UTC day included, as YYYY-MM-DD, or undefined for no upper bound
+ * @returns the bounds of the period as unix times in seconds, as taken by {@link RevenueLedger.getEntries}
+ */
+export function getLedgerPeriod (from?: string, to?: string): { fromTimestamp?: number, toTimestamp?: number } {
+  const parseDay = (day: string): number => {
+    const time = Date.parse(`${day}T00:00:00Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(time)) {
+      throw new Error(`Invalid day ${day}, expected YYYY-MM-DD`)
+    }
+    return time / 1000
+  }
+  return {
+    fromTimestamp: from != null ? parseDay(from) : undefined,
+    toTimestamp: to != null ? parseDay(to) + 24 * 3600 - 1 : undefined
+  }
+}
+
+function emptyAggregate (): LedgerAggregate {
+  return {
+    transactions: 0,
+    revertedOnRecipient: 0,
+    failed: 0,
+    gasUsed: 0,
+    cost: '0',
+    collectedWei: '0',
+    profitWei: '0',
+    tokensCollected: {}
+  }
+}
+
+function addEntry (aggregate: LedgerAggregate, entry: LedgerEntry): void {
+  aggregate.transactions++
+  if (entry.status === 'reverted-on-recipient') {
+    aggregate.revertedOnRecipient++
+  } else if (entry.status === 'failed') {
+    aggregate.failed++
+  }
+  aggregate.gasUsed += entry.gasUsed
+  aggregate.cost = toBN(aggregate.cost).add(toBN(entry.cost)).toString()
+  aggregate.collectedWei = toBN(aggregate.collectedWei).add(toBN(entry.tokenCollectedWei ?? '0')).toString()
+  aggregate.profitWei = toBN(aggregate.collectedWei).sub(toBN(aggregate.cost)).toString()
+  const collected = aggregate.tokensCollected[entry.tokenContract] ?? '0'
+  aggregate.tokensCollected[entry.tokenContract] = toBN(collected).add(toBN(entry.tokenCollected)).toString()
+}
+
+export function summarizeLedger (entries: LedgerEntry[]): LedgerSummary {
+  const summary: LedgerSummary = { total: emptyAggregate(), byDay: {}, byToken: {}, byHub: {} }
+  for (const entry of entries) {
+    const day = getLedgerDay(entry.timestamp)
+    summary.byDay[day] = summary.byDay[day] ?? emptyAggregate()
+    summary.byToken[entry.tokenContract] = summary.byToken[entry.tokenContract] ?? emptyAggregate()
+    addEntry(summary.total, entry)
+    addEntry(summary.byDay[day], entry)
+    addEntry(summary.byToken[entry.tokenContract], entry)
+    if (entry.relayHub != null) {
+      summary.byHub[entry.relayHub] = summary.byHub[entry.relayHub] ?? emptyAggregate()
+      addEntry(summary.byHub[entry.relayHub], entry)
+    }
+  }
+  return summary
+}
+
+const ENTRY_COLUMNS: Array<keyof LedgerEntry> = ['txHash', 'blockNumber', 'timestamp', 'isDeploy', 'status', 'relayWorker',
+  'verifier', 'destination', 'tokenContract', 'tokenCollected', 'tokenCollectedWei', 'gasUsed', 'gasPrice', 'cost', 'relayHub']
+
+const AGGREGATE_COLUMNS: Array<keyof LedgerAggregate> = ['transactions', 'revertedOnRecipient', 'failed', 'gasUsed', 'cost', 'collectedWei', 'profitWei']
+
+export function ledgerEntriesToCsv (entries: LedgerEntry[]): string {
+  const rows = entries.map(entry => ENTRY_COLUMNS.map(column => entry[column] ?? '').join(','))
+  return [ENTRY_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+/**
+ * One row per day and per token, then the total. The token amounts collected are in the JSON summary only,
+ * as each token has its own unit, and so are the aggregates per hub.
+ */
+export function ledgerSummaryToCsv (summary: LedgerSummary): string {
+  const row = (scope: string, key: string, aggregate: LedgerAggregate): string =>
+    [scope, key, ...AGGREGATE_COLUMNS.map(column => aggregate[column])].join(',')
+  return [
+    ['scope', 'key', ...AGGREGATE_COLUMNS].join(','),
+    ...Object.entries(summary.byDay).map(([day, aggregate]) => row('day', day, aggregate)),
+    ...Object.entries(summary.byToken).map(([token, aggregate]) => row('token', token, aggregate)),
+    row('total', '', summary.total)
+  ].join('\n') + '\n'
+}
+
+/**
+ * Persistent record of the cost and revenue of every transaction relayed by the server.
+ */
+export class RevenueLedger {
+  private readonly ledger: AsyncNedb<any>
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    this.ledger = new AsyncNedb({
+      filename: inMemory ? undefined : `${workdir}/${LEDGER_FILENAME}`,
+      autoload: true,
+      timestampData: true
+    })
+    this.ledger.ensureIndex({ fieldName: 'txHash', unique: true })
+
+    log.info('Ledger database location:', inMemory ? 'memory' : `${workdir}/${LEDGER_FILENAME}`)
+  }
+
+  async hasEntry (txHash: PrefixedHexString): Promise<boolean> {
+    return await this.ledger.asyncFindOne({ txHash: txHash.toLowerCase() }) != null
+  }
+
+  /**
+   * @returns false if the transaction was recorded already
+   */
+  async record (entry: LedgerEntry): Promise<boolean> {
+    if (await this.hasEntry(entry.txHash)) {
+      return false
+    }
+    await this.ledger.asyncInsert(entry)
+    return true
+  }
+
+  /**
+   * @param fromTimestamp - unix time in seconds of the first block included
+   * @param toTimestamp - unix time in seconds of the last block included
+   * @returns the entries, oldest first
+   */
+  async getEntries (fromTimestamp = 0, toTimestamp = Number.MAX_SAFE_INTEGER): Promise<LedgerEntry[]> {
+    const entries: Array<LedgerEntry & { _id?: string, createdAt?: Date, updatedAt?: Date }> =
+      await this.ledger.asyncFind({ timestamp: { $gte: fromTimestamp, $lte: toTimestamp } })
+    return entries
+      .map(({ _id, createdAt, updatedAt, ...entry }) => entry)
+      .sort((entry1, entry2) => entry1.blockNumber - entry2.blockNumber)
+  }
+}
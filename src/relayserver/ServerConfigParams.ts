@@ -1,130 +1,197 @@
 import parseArgs from 'minimist'
 import * as fs from 'fs'
+import path from 'path'
+import yaml from 'js-yaml'
 import { VersionRegistry } from '../common/VersionRegistry'
 import ContractInteractor from '../common/ContractInteractor'
 import { configure } from '../relayclient/Configurator'
 import { constants } from '../common/Constants'
 import { Address } from '../relayclient/types/Aliases'
-import { KeyManager } from './KeyManager'
-import { TxStoreManager } from './TxStoreManager'
-import { LogLevelNumbers } from 'loglevel'
+import { TransactionSigner } from './TransactionSigner'
+import { SERVER_ACTION_NAMES } from './StoredTransaction'
+import { TX_STORE_BACKENDS, TxStore, TxStoreBackend } from './TxStore'
+import { PenalizationStore } from './PenalizationStore'
+import { RevenueLedger } from './RevenueLedger'
+import { BlockSubscription } from './BlockSubscription'
+import { WorkerRotationStore } from './WorkerRotationStore'
+import { TransactionArchive } from './TransactionArchive'
+import { PriceSource } from './FeePolicy'
+import { ReplenishStrategy } from './ReplenishStrategy'
+import { RelayPolicyConfig } from './RelayPolicy'
+import log, { LogLevelNumbers } from 'loglevel'
+import { LogFormat } from '../common/Logging'
+import { isAddress } from 'web3-utils'
+import {
+  addressListParam,
+  addressParam,
+  booleanParam,
+  configDefaults,
+  ConfigOf,
+  ConfigParam,
+  ConfigSchema,
+  describeConfig,
+  durationParam,
+  enumListParam,
+  enumParam,
+  numberParam,
+  objectListParam,
+  objectParam,
+  optionalParam,
+  stringParam,
+  validateConfig,
+  weiParam,
+  weiStringParam
+} from './ConfigSchema'
 
 require('source-map-support').install({ errorFormatterForce: true })
 
-// TODO: is there a way to merge the typescript definition ServerConfigParams with the runtime checking ConfigParamTypes ?
-export interface ServerConfigParams {
-  url: string
-  port: number
-  versionRegistryAddress: string
-  versionRegistryDelayPeriod?: number
-  relayHubId?: string
-  relayHubAddress: string
-  rskNodeUrl: string
-  workdir: string
-  checkInterval: number
-  readyTimeout: number
-  devMode: boolean
-  customReplenish: boolean
-  registrationBlockRate: number
-  alertedBlockDelay: number
-  minAlertedDelayMS: number
-  maxAlertedDelayMS: number
-  trustedVerifiers: Address[]
-  gasPriceFactor: number
-  logLevel: LogLevelNumbers
-  deployVerifierAddress: Address
-  relayVerifierAddress: Address
-  workerMinBalance: number
-  workerTargetBalance: number
-  managerMinBalance: number
-  managerMinStake: string
-  managerTargetBalance: number
-  minHubWithdrawalBalance: number
-  refreshStateTimeoutBlocks: number
-  pendingTransactionTimeoutBlocks: number
-  successfulRoundsForReady: number
-  confirmationsNeeded: number
-  retryGasPriceFactor: number
-  maxGasPrice: string
-  defaultGasLimit: number
-  estimateGasFactor: number
+/**
+ * How the server picks the worker advertised in a ping response.
+ * - 'round-robin': cycle through the funded workers
+ * - 'least-pending': pick the funded worker with the fewest unconfirmed transactions
+ */
+export type WorkerSelectionPolicy = 'round-robin' | 'least-pending'
+
+/**
+ * A RelayHub the relay server registers in besides the one of relayHubAddress, with the verifiers it trusts
+ * for the requests to that hub. Its verifiers default to none.
+ */
+export interface AdditionalRelayHubConfig {
+  relayHubAddress: Address
+  relayVerifierAddress?: Address
+  deployVerifierAddress?: Address
+  trustedVerifiers?: Address[]
 }
 
+function validateAdditionalRelayHub (hub: AdditionalRelayHubConfig): string | undefined {
+  if (hub.relayHubAddress == null) {
+    return 'has no relayHubAddress'
+  }
+  const addresses = [hub.relayHubAddress, hub.relayVerifierAddress, hub.deployVerifierAddress, ...(hub.trustedVerifiers ?? [])]
+  const invalidAddress = addresses.find(it => it !== undefined && (typeof it !== 'string' || !isAddress(it)))
+  return invalidAddress === undefined ? undefined : `has an invalid address: ${invalidAddress}`
+}
+
+/**
+ * Definition of the parameters of the relay server, which may be set in the config file, the environment and the
+ * command line. The type {@link ServerConfigParams}, the validation and the documentation of the parameters
+ * are all derived from it.
+ */
+export const serverConfigSchema = {
+  url: stringParam('http://localhost:8090', 'URL the clients reach the relay server at, registered in the RelayHub'),
+  port: numberParam(0, 'port of the HTTP server', { integer: true, min: 0 }),
+  versionRegistryAddress: addressParam(constants.ZERO_ADDRESS, 'VersionRegistry to read the RelayHub address from, instead of relayHubAddress'),
+  versionRegistryDelayPeriod: optionalParam(numberParam(0, 'seconds a VersionRegistry entry must exist before it is used', { min: 0 })),
+  relayHubId: optionalParam(stringParam('', 'ID of the RelayHub in the VersionRegistry')),
+  relayHubAddress: addressParam(constants.ZERO_ADDRESS, 'RelayHub the relay server is registered in'),
+  additionalRelayHubs: objectListParam<AdditionalRelayHubConfig>('other RelayHubs the relay server registers in, as { relayHubAddress, relayVerifierAddress, deployVerifierAddress, trustedVerifiers }', validateAdditionalRelayHub),
+  rskNodeUrl: stringParam('', 'URL of the RSK node'),
+  workdir: stringParam('', 'directory of the keys and databases of the relay server'),
+  txStoreBackend: enumParam<TxStoreBackend>(TX_STORE_BACKENDS, 'nedb', 'storage of the pending transactions: \'nedb\' (txstore.db), \'sqlite\' (txstore.sqlite) or \'memory\', lost on restart'),
+  txArchiveEnabled: booleanParam(true, 'move the confirmed transactions to the archive instead of deleting them, kept in the txStoreBackend: txarchive.db, txarchive.sqlite or memory'),
+  txArchiveRetentionDays: numberParam(90, 'days the confirmed transactions are kept in the archive, 0 to keep them forever', { integer: true, min: 0 }),
+  keystorePassphraseFile: stringParam('', 'file with the passphrase of the encrypted keystores of the manager and workers, used if ENVELOPING_KEYSTORE_PASSPHRASE is not set'),
+  keystorePassphrasePrompt: booleanParam(false, 'ask for the passphrase of the keystores on the terminal if neither ENVELOPING_KEYSTORE_PASSPHRASE nor keystorePassphraseFile is set'),
+  managerSignerUrl: stringParam('', 'URL of a remote signing service holding the manager key, which then has no keystore in the workdir'),
+  workersSignerUrl: stringParam('', 'URL of a remote signing service holding the worker keys, which then have no keystore in the workdir'),
+  remoteSignerToken: stringParam('', 'bearer token of the remote signing services'),
+  remoteSignerTimeout: durationParam('10s', 'timeout of each request to a remote signing service'),
+  remoteSignerRetries: numberParam(2, 'times a request to a remote signing service is retried after a network error, a timeout or a 5xx status', { integer: true, min: 0 }),
+  remoteSignerAllowedActions: enumListParam(SERVER_ACTION_NAMES, [...SERVER_ACTION_NAMES], 'transactions the remote signing services are asked to sign, the others fail'),
+  remoteSignerAllowedTypedData: enumListParam(['RelayCommitment'], ['RelayCommitment'], 'EIP-712 primary types of the typed data the remote signing services are asked to sign, the others fail'),
+  checkInterval: durationParam('10s', 'interval between the checks for new blocks, when not subscribed to them'),
+  readyTimeout: durationParam('30s', 'time the handling of a block may take before the relay server is not ready'),
+  blockSubscriptionUrl: stringParam('', 'WebSocket URL of the RSK node to subscribe to new blocks, which are then all processed in order; polls every checkInterval if empty'),
+  blockSubscriptionReconnectDelay: durationParam('5s', 'delay before subscribing again to new blocks after the connection is lost'),
+  txEventsSubscriptionTimeout: durationParam('1h', 'time a websocket client follows a transaction without any event about it, e.g. one that is never relayed'),
+  devMode: booleanParam(false, 'development mode, which resets the transaction store on start and skips some checks'),
+  customReplenish: booleanParam(false, 'if set, the replenish strategy must be registered or loaded from a module path'),
+  replenishStrategy: stringParam('manager-to-worker', '\'manager-to-worker\', \'withdraw-from-hub\', \'scheduled-batch\' or a module path'),
+  replenishUnstakeAllowed: booleanParam(false, 'let the \'withdraw-from-hub\' strategy withdraw the whole stake of the manager, which unregisters the relay from the RelayHub'),
+  replenishBatchIntervalBlocks: numberParam(120, 'blocks between the top-ups of the \'scheduled-batch\' strategy', { integer: true, min: 1 }),
+  registrationBlockRate: numberParam(0, 'blocks after which the relay server registers again, 0 to only register once', { integer: true, min: 0 }),
+  alertedBlockDelay: numberParam(0, 'blocks the relay server stays alerted after a penalizable transaction', { integer: true, min: 0 }),
+  minAlertedDelayMS: durationParam('0', 'minimum random delay of the responses while alerted'),
+  maxAlertedDelayMS: durationParam('0', 'maximum random delay of the responses while alerted'),
+  trustedVerifiers: addressListParam('verifiers trusted by the relay server, besides the relay and deploy verifiers'),
+  gasPriceFactor: numberParam(1, 'factor applied to the gas price of the network', { min: 0 }),
+  logLevel: numberParam(1, 'loglevel level, from 0 (trace) to 5 (silent)', { integer: true, min: 0, max: 5 }) as ConfigParam<LogLevelNumbers>,
+  logFormat: enumParam<LogFormat>(['pretty', 'json'], 'pretty', '\'pretty\' for development, \'json\' for one JSON object per line'),
+  deployVerifierAddress: addressParam(constants.ZERO_ADDRESS, 'verifier of the deploy requests'),
+  relayVerifierAddress: addressParam(constants.ZERO_ADDRESS, 'verifier of the relay requests'),
+  workerCount: numberParam(1, 'number of relay workers', { integer: true, min: 1 }),
+  workerSelectionPolicy: enumParam<WorkerSelectionPolicy>(['round-robin', 'least-pending'], 'round-robin', 'how the worker advertised in a ping response is picked'),
+  workerMinBalance: weiParam('0.001 rbtc', 'balance below which a worker is replenished'),
+  workerTargetBalance: weiParam('0.003 rbtc', 'balance a worker is replenished to'),
+  managerMinBalance: weiParam('0.001 rbtc', 'balance the relay manager needs to be ready'),
+  managerMinStake: weiStringParam('1', 'stake the relay manager needs to be ready'),
+  managerTargetBalance: weiParam('0.003 rbtc', 'balance the relay manager is replenished to'),
+  minHubWithdrawalBalance: weiParam('0.001 rbtc', 'minimum stake in the RelayHub worth withdrawing'),
+  refreshStateTimeoutBlocks: numberParam(5, 'blocks after which the state of the relay server is refreshed', { integer: true, min: 1 }),
+  pendingTransactionTimeoutBlocks: numberParam(30, 'blocks before a pending transaction is boosted, around 5 minutes with 10 seconds block times', { integer: true, min: 1 }),
+  successfulRoundsForReady: numberParam(3, 'successful mined blocks to become ready after exception', { integer: true, min: 0 }),
+  statusMaxBlockAge: numberParam(0, 'seconds since the latest block before /status reports the node as stale, 0 disables the check', { min: 0 }),
+  statusMaxPendingTransactions: numberParam(100, 'unconfirmed transactions in the TxStore before /status reports a backlog', { integer: true, min: 0 }),
+  // token bucket rate limits on relay requests, per client IP, request.from, smart wallet and destination contract
+  ipRateLimitBurst: optionalParam(numberParam(1, 'requests per client IP in a burst, no limit if not set', { integer: true, min: 1 })),
+  ipRateLimitPerMinute: optionalParam(numberParam(1, 'requests per client IP per minute after a burst, required with ipRateLimitBurst', { integer: true, min: 1 })),
+  senderRateLimitBurst: optionalParam(numberParam(1, 'requests per request.from in a burst, no limit if not set', { integer: true, min: 1 })),
+  senderRateLimitPerMinute: optionalParam(numberParam(1, 'requests per request.from per minute after a burst, required with senderRateLimitBurst', { integer: true, min: 1 })),
+  forwarderRateLimitBurst: optionalParam(numberParam(1, 'requests per smart wallet in a burst, no limit if not set', { integer: true, min: 1 })),
+  forwarderRateLimitPerMinute: optionalParam(numberParam(1, 'requests per smart wallet per minute after a burst, required with forwarderRateLimitBurst', { integer: true, min: 1 })),
+  destinationRateLimitBurst: optionalParam(numberParam(1, 'requests per destination contract in a burst, no limit if not set', { integer: true, min: 1 })),
+  destinationRateLimitPerMinute: optionalParam(numberParam(1, 'requests per destination contract per minute after a burst, required with destinationRateLimitBurst', { integer: true, min: 1 })),
+  feePolicyEnabled: booleanParam(false, 'reject requests whose tokenAmount does not pay for maxPossibleGas * gasPrice'),
+  tokenExchangeRates: objectParam<Record<Address, string>>({}, 'token address => token base units worth 1 RBTC'),
+  feeMarginPercent: numberParam(0, 'percentage added to the fee on top of the gas cost, to the hundredth, e.g. 2.5', { min: 0 }),
+  feeExemptVerifiers: addressListParam('verifiers whose requests are subsidised and pay no fee'),
+  linearFitEstimateMarginPercent: numberParam(10, 'percentage added to the maxPossibleGas of unsigned relay requests, which /estimate extrapolates with the linear fit', { min: 0 }),
+  commitmentValiditySeconds: numberParam(600, 'deadline of the signed relay commitments, counted from the time the request is accepted', { integer: true, min: 1 }),
+  relayPolicy: objectParam<RelayPolicyConfig>({}, 'destinations, methods, value, gas and tokens the server relays, see RelayPolicyConfig'),
+  relayPolicyFile: stringParam('', 'JSON file with the relay policy, overrides relayPolicy and is read again on reload'),
+  // credentials of the admin API under /admin, which is disabled when both are empty
+  adminToken: stringParam('', 'bearer token of the admin API'),
+  adminHmacSecret: stringParam('', 'secret of the HMAC-SHA256 request signatures of the admin API'),
+  penalizationWatchdogEnabled: booleanParam(false, 'report the relay workers of other relays that sign two transactions with the same nonce'),
+  penalizationBeneficiary: addressParam('', 'address the penalization rewards are forwarded to, the relay manager keeps them if empty'),
+  confirmationsNeeded: numberParam(12, 'blocks after which a mined transaction is confirmed', { integer: true, min: 1 }),
+  retryGasPriceFactor: numberParam(1.2, 'factor applied to the gas price of a transaction when it is boosted', { min: 1 }),
+  maxGasPrice: weiStringParam('100 gwei', 'maximum gas price of a boosted transaction'),
+  defaultGasLimit: numberParam(500000, 'gas limit of the transactions whose gas estimation fails', { integer: true, min: 0 }),
+  estimateGasFactor: numberParam(1.2, 'factor applied to the estimated gas of the transactions of the relay server', { min: 1 })
+}
+
+export type ServerConfigParams = ConfigOf<typeof serverConfigSchema>
+
 export interface ServerDependencies {
   // TODO: rename as this name is terrible
-  managerKeyManager: KeyManager
-  workersKeyManager: KeyManager
+  // a KeyManager, or another TransactionSigner such as a RemoteSigner
+  managerKeyManager: TransactionSigner
+  workersKeyManager: TransactionSigner
   contractInteractor: ContractInteractor
-  txStoreManager: TxStoreManager
-}
-
-const serverDefaultConfiguration: ServerConfigParams = {
-  alertedBlockDelay: 0,
-  minAlertedDelayMS: 0,
-  maxAlertedDelayMS: 0,
-  relayHubAddress: constants.ZERO_ADDRESS,
-  relayVerifierAddress: constants.ZERO_ADDRESS,
-  deployVerifierAddress: constants.ZERO_ADDRESS,
-  trustedVerifiers: [],
-  gasPriceFactor: 1,
-  registrationBlockRate: 0,
-  workerMinBalance: 0.001e18, // 0.001 RBTC
-  workerTargetBalance: 0.003e18, // 0.003 RBTC
-  managerMinBalance: 0.001e18, // 0.001 RBTC
-  managerMinStake: '1', // 1 wei
-  managerTargetBalance: 0.003e18, // 0.003 RBTC
-  minHubWithdrawalBalance: 0.001e18, // 0.001 RBTC
-  checkInterval: 10000,
-  readyTimeout: 30000,
-  devMode: false,
-  customReplenish: false,
-  logLevel: 1,
-  url: 'http://localhost:8090',
-  rskNodeUrl: '',
-  port: 0,
-  versionRegistryAddress: constants.ZERO_ADDRESS,
-  workdir: '',
-  refreshStateTimeoutBlocks: 5,
-  pendingTransactionTimeoutBlocks: 30, // around 5 minutes with 10 seconds block times
-  successfulRoundsForReady: 3, // successful mined blocks to become ready after exception
-  confirmationsNeeded: 12,
-  retryGasPriceFactor: 1.2,
-  defaultGasLimit: 500000,
-  maxGasPrice: 100e9.toString(),
-  estimateGasFactor: 1.2
-}
-
-const ConfigParamsTypes = {
-  config: 'string',
-  url: 'string',
-  port: 'number',
-  versionRegistryAddress: 'string',
-  versionRegistryDelayPeriod: 'number',
-  relayHubId: 'string',
-  relayHubAddress: 'string',
-  gasPriceFactor: 'number',
-  rskNodeUrl: 'string',
-  workdir: 'string',
-  checkInterval: 'number',
-  readyTimeout: 'number',
-  devMode: 'boolean',
-  customReplenish: 'boolean',
-  logLevel: 'number',
-  registrationBlockRate: 'number',
-  alertedBlockDelay: 'number',
-
-  workerMinBalance: 'number',
-  workerTargetBalance: 'number',
-  managerMinBalance: 'number',
-  managerTargetBalance: 'number',
-  minHubWithdrawalBalance: 'number',
-  defaultGasLimit: 'number',
-
-  trustedVerifiers: 'string',
-  relayVerifierAddress: 'string',
-  deployVerifierAddress: 'string'
-
-} as any
+  txStoreManager: TxStore
+  // source of the token exchange rates, defaults to the static tokenExchangeRates of the configuration
+  priceSource?: PriceSource
+  // keeps the workers funded, overrides the replenishStrategy of the configuration
+  replenishStrategy?: ReplenishStrategy
+  // evidence of the repeated nonces reported by the penalization watchdog, kept in memory if not set
+  penalizationStore?: PenalizationStore
+  // cost and revenue of the relayed transactions, kept in memory if not set
+  ledger?: RevenueLedger
+  // source of the new blocks, overrides the blockSubscriptionUrl of the configuration
+  blockSubscription?: BlockSubscription
+  // worker rotations, kept in memory if not set
+  workerRotationStore?: WorkerRotationStore
+  // confirmed transactions, deleted if not set
+  transactionArchive?: TransactionArchive
+}
+
+const serverDefaultConfiguration: ServerConfigParams = configDefaults(serverConfigSchema)
+
+// the path of the config file, only read from the command line and the environment
+const ConfigFileParam = 'config'
+
+const YamlConfigFileExtensions = ['.yaml', '.yml']
 
 // by default: no waiting period - use VersionRegistry entries immediately.
 const DefaultRegistryDelayPeriod = 0
@@ -151,42 +218,50 @@ export function filterMembers (env: any, config: any): any {
     .filter(e => config[e[0]] != null))
 }
 
-// map value from string into its explicit type (number, boolean)
-// TODO; maybe we can use it for more specific types, such as "address"..
+// map value from string or config file into the type of its param
 function explicitType ([key, val]: [string, any]): any {
-  const type = ConfigParamsTypes[key] as string
-  if (type === undefined) {
+  if (key === ConfigFileParam) {
+    return [key, val]
+  }
+  const param = (serverConfigSchema as ConfigSchema)[key]
+  if (param === undefined) {
     error(`unexpected param ${key}=${val as string}`)
   }
-  switch (type) {
-    case 'boolean' :
-      if (val === 'true' || val === true) return [key, true]
-      if (val === 'false' || val === false) return [key, false]
-      break
-    case 'number': {
-      const v = parseInt(val)
-      if (!isNaN(v)) {
-        return [key, v]
-      }
-      break
-    }
-    default:
-      return [key, val]
+  try {
+    return [key, param.parse(val)]
+  } catch (e) {
+    error(`invalid param: ${key} ${e.message as string}`)
   }
-  error(`Invalid ${type}: ${key} = ${val as string}`)
+}
+
+function readConfigFile (configFileName: string): any {
+  if (!fs.existsSync(configFileName)) {
+    error(`unable to read config file "${configFileName}"`)
+  }
+  const content = fs.readFileSync(configFileName, 'utf8')
+  const configFile = YamlConfigFileExtensions.includes(path.extname(configFileName).toLowerCase())
+    ? yaml.safeLoad(content)
+    : JSON.parse(content)
+  if (configFile == null || typeof configFile !== 'object' || Array.isArray(configFile)) {
+    error(`config file "${configFileName}" must contain an object of params`)
+  }
+  return configFile
 }
 
 /**
  * initialize each parameter from commandline, env or config file (in that order)
  * config file must be provided either as command-line or env (obviously, not in
- * the config file..)
+ * the config file..). Config files ending with .yaml or .yml are read as YAML, others as JSON.
+ * The values are converted to the types of their params, e.g. "0.001 rbtc" to wei, but not validated
+ * (see {@link validateServerConfig}) and not merged with the defaults.
  */
 export function parseServerConfig (args: string[], env: any): any {
-  const envDefaults = filterMembers(env, ConfigParamsTypes)
+  const paramTypes = { ...entriesToObj(Object.entries(serverConfigSchema).map(([key, param]) => [key, param.type])), [ConfigFileParam]: 'string' }
+  const envDefaults = filterMembers(env, paramTypes)
 
   const argv = parseArgs(args, {
-    string: filterType(ConfigParamsTypes, 'string'),
-    // boolean: filterType(ConfigParamsTypes, 'boolean'),
+    // everything but the booleans is kept as a string, and converted by the schema
+    string: Object.keys(paramTypes).filter(key => paramTypes[key] !== 'boolean'),
     default: envDefaults
   })
   if (argv._.length > 0) {
@@ -194,17 +269,63 @@ export function parseServerConfig (args: string[], env: any): any {
   }
   delete argv._
   let configFile = {}
-  const configFileName = argv.config as string
+  const configFileName = argv[ConfigFileParam] as string
   if (configFileName != null) {
-    if (!fs.existsSync(configFileName)) {
-      error(`unable to read config file "${configFileName}"`)
-    }
-    configFile = JSON.parse(fs.readFileSync(configFileName, 'utf8'))
+    configFile = readConfigFile(configFileName)
   }
   const config = { ...configFile, ...argv }
   return entriesToObj(Object.entries(config).map(explicitType))
 }
 
+/**
+ * Check the values of the params against the constraints of the schema, e.g. the minimum of a number.
+ * @throws Error with one line per invalid param
+ */
+export function validateServerConfig (config: Partial<ServerConfigParams>): void {
+  const errors = validateConfig(serverConfigSchema, config)
+  if (errors.length > 0) {
+    error(errors.join('\n'))
+  }
+}
+
+/**
+ * @returns the documentation of the params of the relay server, as a markdown table
+ */
+export function describeServerConfig (): string {
+  return describeConfig(serverConfigSchema)
+}
+
+// params holding credentials, never logged
+const SecretServerConfigParams: Array<keyof ServerConfigParams> = ['adminToken', 'adminHmacSecret', 'remoteSignerToken']
+
+/**
+ * @returns the config with the values of the secret params, e.g. the admin token, replaced, to be logged
+ */
+export function redactServerConfig (config: Partial<ServerConfigParams>): Partial<ServerConfigParams> {
+  const redacted: any = { ...config }
+  for (const name of SecretServerConfigParams) {
+    if (redacted[name] != null && redacted[name] !== '') {
+      redacted[name] = '<redacted>'
+    }
+  }
+  return redacted
+}
+
+/**
+ * @returns the configuration of each RelayHub the relay server registers in, the one of relayHubAddress first.
+ * The configuration of the other hubs is the one of the server with the addresses of the hub and its verifiers.
+ */
+export function relayHubConfigs (config: ServerConfigParams): ServerConfigParams[] {
+  return [config, ...config.additionalRelayHubs.map(hub => ({
+    ...config,
+    relayHubAddress: hub.relayHubAddress,
+    relayVerifierAddress: hub.relayVerifierAddress ?? constants.ZERO_ADDRESS,
+    deployVerifierAddress: hub.deployVerifierAddress ?? constants.ZERO_ADDRESS,
+    trustedVerifiers: hub.trustedVerifiers ?? [],
+    additionalRelayHubs: []
+  }))]
+}
+
 // resolve params, and validate the resulting struct
 export async function resolveServerConfig (config: Partial<ServerConfigParams>, web3provider: any): Promise<Partial<ServerConfigParams>> {
   const contractInteractor = new ContractInteractor(web3provider, configure({ relayHubAddress: config.relayHubAddress }))
@@ -222,7 +343,7 @@ export async function resolveServerConfig (config: Partial<ServerConfigParams>,
     const { version, value, time } = await versionRegistry.getVersion(relayHubId, config.versionRegistryDelayPeriod ?? DefaultRegistryDelayPeriod)
     contractInteractor.validateAddress(value, `Invalid param relayHubId ${relayHubId} @ ${version}: not an address:`)
 
-    console.log(`Using RelayHub ID:${relayHubId} version:${version} address:${value} . created at: ${new Date(time * 1000).toString()}`)
+    log.info(`Using RelayHub ID:${relayHubId} version:${version} address:${value} . created at: ${new Date(time * 1000).toString()}`)
     config.relayHubAddress = value
   } else {
     if (config.relayHubAddress == null) {
@@ -236,6 +357,27 @@ export async function resolveServerConfig (config: Partial<ServerConfigParams>,
   }
   if (config.url == null) error('missing param: url')
   if (config.workdir == null) error('missing param: workdir')
+  validateServerConfig(config)
+  const hubAddresses = [config.relayHubAddress, ...(config.additionalRelayHubs ?? []).map(it => it.relayHubAddress)]
+  for (const [index, hubAddress] of hubAddresses.entries()) {
+    if (index > 0 && !await contractInteractor.isContractDeployed(hubAddress)) {
+      error(`RelayHub: no contract at address ${hubAddress}`)
+    }
+    if (hubAddresses.findIndex(it => it.toLowerCase() === hubAddress.toLowerCase()) !== index) {
+      error(`invalid param: additionalRelayHubs RelayHub ${hubAddress} is listed twice`)
+    }
+  }
+  const rateLimits: Array<[string, number | undefined, number | undefined]> = [
+    ['ip', config.ipRateLimitBurst, config.ipRateLimitPerMinute],
+    ['sender', config.senderRateLimitBurst, config.senderRateLimitPerMinute],
+    ['forwarder', config.forwarderRateLimitBurst, config.forwarderRateLimitPerMinute],
+    ['destination', config.destinationRateLimitBurst, config.destinationRateLimitPerMinute]
+  ]
+  for (const [scope, burst, perMinute] of rateLimits) {
+    if (burst != null && perMinute == null) {
+      error(`missing param: ${scope}RateLimitPerMinute is required when ${scope}RateLimitBurst is set`)
+    }
+  }
   return { ...serverDefaultConfiguration, ...config }
 }
 
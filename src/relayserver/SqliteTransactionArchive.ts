@@ -0,0 +1,140 @@
+import fs from 'fs'
+import log from 'loglevel'
+import ow from 'ow'
+import Database from 'better-sqlite3'
+
+import { ArchivedTransaction, sortArchivedTransactions, TransactionArchive, TransactionArchiveQuery } from './TransactionArchive'
+
+export const TX_ARCHIVE_SQLITE_FILENAME = 'txarchive.sqlite'
+
+// the transaction is kept as JSON, along with the columns it is looked up by
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS archived_transactions (
+  txId TEXT PRIMARY KEY,
+  signer TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  serverAction INTEGER NOT NULL,
+  destination TEXT NOT NULL,
+  minedBlockNumber INTEGER,
+  relayRequestHash TEXT,
+  archivedAt INTEGER NOT NULL,
+  tx TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS archived_transactions_by_signer ON archived_transactions (signer, minedBlockNumber);
+CREATE INDEX IF NOT EXISTS archived_transactions_by_block ON archived_transactions (minedBlockNumber);
+CREATE INDEX IF NOT EXISTS archived_transactions_by_relay_request ON archived_transactions (relayRequestHash);
+CREATE INDEX IF NOT EXISTS archived_transactions_by_archived_at ON archived_transactions (archivedAt);
+CREATE TABLE IF NOT EXISTS archived_replaced_transactions (
+  replacedTxId TEXT PRIMARY KEY,
+  txId TEXT NOT NULL,
+  FOREIGN KEY (txId) REFERENCES archived_transactions (txId) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS archived_replaced_transactions_by_tx ON archived_replaced_transactions (txId);
+`
+
+interface TransactionRow {
+  tx: string
+}
+
+/**
+ * A {@link TransactionArchive} in a SQLite database, `txarchive.sqlite` in the workdir, next to the {@link SqliteTxStore}.
+ */
+export class SqliteTransactionArchive implements TransactionArchive {
+  private readonly db: Database.Database
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const BetterSqlite3: typeof Database = require('better-sqlite3')
+    if (!inMemory) {
+      fs.mkdirSync(workdir, { recursive: true })
+    }
+    this.db = new BetterSqlite3(inMemory ? ':memory:' : `${workdir}/${TX_ARCHIVE_SQLITE_FILENAME}`)
+    this.db.pragma('foreign_keys = ON')
+    this.db.exec(SCHEMA)
+
+    log.info('Transaction archive location:', inMemory ? 'memory' : `${workdir}/${TX_ARCHIVE_SQLITE_FILENAME}`)
+  }
+
+  async archiveTransactions (transactions: ArchivedTransaction[]): Promise<void> {
+    this.db.transaction(() => {
+      const insert = this.db.prepare(`INSERT OR REPLACE INTO archived_transactions
+        (txId, signer, nonce, serverAction, destination, minedBlockNumber, relayRequestHash, archivedAt, tx)
+        VALUES (@txId, @signer, @nonce, @serverAction, @destination, @minedBlockNumber, @relayRequestHash, @archivedAt, @tx)`)
+      const insertReplaced = this.db.prepare('INSERT OR REPLACE INTO archived_replaced_transactions (replacedTxId, txId) VALUES (?, ?)')
+      for (const tx of transactions) {
+        ow(tx.txId, ow.string.nonEmpty)
+        insert.run({
+          txId: tx.txId,
+          signer: tx.nonceSigner?.signer ?? tx.from.toLowerCase(),
+          nonce: tx.nonce,
+          serverAction: tx.serverAction,
+          destination: tx.to.toLowerCase(),
+          minedBlockNumber: tx.minedBlockNumber ?? null,
+          relayRequestHash: tx.relayRequestHash?.toLowerCase() ?? null,
+          archivedAt: tx.archivedAt,
+          tx: JSON.stringify(tx)
+        })
+        for (const boost of tx.boostHistory ?? []) {
+          insertReplaced.run(boost.oldTxId.toLowerCase(), tx.txId)
+        }
+      }
+    })()
+  }
+
+  async getTxByIdOrReplacedId (txId: string): Promise<ArchivedTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return this.getOne(`SELECT tx FROM archived_transactions WHERE txId = ?
+      UNION ALL
+      SELECT t.tx FROM archived_replaced_transactions r JOIN archived_transactions t ON t.txId = r.txId WHERE r.replacedTxId = ?`, id, id)
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<ArchivedTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    return this.getOne('SELECT tx FROM archived_transactions WHERE relayRequestHash = ?', relayRequestHash.toLowerCase())
+  }
+
+  async query (query: TransactionArchiveQuery = {}): Promise<ArchivedTransaction[]> {
+    const conditions: string[] = []
+    const params: any[] = []
+    if (query.signer != null) {
+      conditions.push('signer = ?')
+      params.push(query.signer.toLowerCase())
+    }
+    if (query.destination != null) {
+      conditions.push('destination = ?')
+      params.push(query.destination.toLowerCase())
+    }
+    if (query.serverAction != null) {
+      conditions.push('serverAction = ?')
+      params.push(query.serverAction)
+    }
+    if (query.fromBlock != null) {
+      conditions.push('minedBlockNumber >= ?')
+      params.push(query.fromBlock)
+    }
+    if (query.toBlock != null) {
+      conditions.push('minedBlockNumber <= ?')
+      params.push(query.toBlock)
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+    const transactions = this.db.prepare(`SELECT tx FROM archived_transactions${where}`).all(...params)
+      .map((row: TransactionRow) => JSON.parse(row.tx))
+    return sortArchivedTransactions(transactions, query.limit)
+  }
+
+  async prune (before: number): Promise<number> {
+    return this.db.prepare('DELETE FROM archived_transactions WHERE archivedAt < ?').run(before).changes
+  }
+
+  close (): void {
+    this.db.close()
+  }
+
+  private getOne (sql: string, ...params: any[]): ArchivedTransaction | null {
+    const row: TransactionRow | undefined = this.db.prepare(sql).get(...params)
+    return row != null ? JSON.parse(row.tx) : null
+  }
+}
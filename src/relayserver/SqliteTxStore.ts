@@ -0,0 +1,169 @@
+import fs from 'fs'
+import log from 'loglevel'
+import ow from 'ow'
+import Database from 'better-sqlite3'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address } from '../relayclient/types/Aliases'
+
+import { ServerAction, StoredTransaction } from './StoredTransaction'
+import { isPendingAction, toStoredTx, TxStore } from './TxStore'
+
+export const TXSTORE_SQLITE_FILENAME = 'txstore.sqlite'
+
+// the transaction is kept as JSON, along with the columns it is looked up by
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS transactions (
+  signer TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  txId TEXT NOT NULL UNIQUE,
+  serverAction INTEGER NOT NULL,
+  destination TEXT NOT NULL,
+  minedBlockNumber INTEGER,
+  relayRequestHash TEXT,
+  tx TEXT NOT NULL,
+  PRIMARY KEY (signer, nonce)
+);
+CREATE INDEX IF NOT EXISTS transactions_by_action ON transactions (serverAction, minedBlockNumber);
+CREATE INDEX IF NOT EXISTS transactions_by_relay_request ON transactions (relayRequestHash);
+CREATE TABLE IF NOT EXISTS replaced_transactions (
+  replacedTxId TEXT PRIMARY KEY,
+  signer TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  FOREIGN KEY (signer, nonce) REFERENCES transactions (signer, nonce) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS replaced_transactions_by_nonce ON replaced_transactions (signer, nonce);
+`
+
+interface TransactionRow {
+  tx: string
+}
+
+/**
+ * A {@link TxStore} in a SQLite database, `txstore.sqlite` in the workdir, which can be inspected with the `sqlite3` shell.
+ */
+export class SqliteTxStore implements TxStore {
+  private readonly db: Database.Database
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    // the native module is only loaded when the store is used, it is not part of the single-file build of the server
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const BetterSqlite3: typeof Database = require('better-sqlite3')
+    if (!inMemory) {
+      fs.mkdirSync(workdir, { recursive: true })
+    }
+    this.db = new BetterSqlite3(inMemory ? ':memory:' : `${workdir}/${TXSTORE_SQLITE_FILENAME}`)
+    this.db.pragma('foreign_keys = ON')
+    this.db.exec(SCHEMA)
+
+    log.info('Server database location:', inMemory ? 'memory' : `${workdir}/${TXSTORE_SQLITE_FILENAME}`)
+  }
+
+  async putTx (tx: StoredTransaction, updateExisting: boolean = false): Promise<void> {
+    const tx1 = toStoredTx(tx)
+    const { signer, nonce } = tx1.nonceSigner ?? { signer: '', nonce: 0 }
+    this.db.transaction(() => {
+      const existing: TransactionRow | undefined = this.db.prepare('SELECT tx FROM transactions WHERE signer = ? AND nonce = ?').get(signer, nonce)
+      const row = {
+        signer,
+        nonce,
+        txId: tx1.txId,
+        serverAction: tx1.serverAction,
+        destination: tx1.to.toLowerCase(),
+        minedBlockNumber: tx1.minedBlockNumber ?? null,
+        relayRequestHash: tx1.relayRequestHash?.toLowerCase() ?? null,
+        // as nedb, an update keeps the fields the transaction does not have
+        tx: JSON.stringify(existing != null && updateExisting ? { ...JSON.parse(existing.tx), ...tx1 } : tx1)
+      }
+      if (existing != null && updateExisting) {
+        this.db.prepare(`UPDATE transactions SET txId = @txId, serverAction = @serverAction, destination = @destination,
+          minedBlockNumber = @minedBlockNumber, relayRequestHash = @relayRequestHash, tx = @tx
+          WHERE signer = @signer AND nonce = @nonce`).run(row)
+        this.db.prepare('DELETE FROM replaced_transactions WHERE signer = ? AND nonce = ?').run(signer, nonce)
+      } else {
+        try {
+          this.db.prepare(`INSERT INTO transactions (signer, nonce, txId, serverAction, destination, minedBlockNumber, relayRequestHash, tx)
+            VALUES (@signer, @nonce, @txId, @serverAction, @destination, @minedBlockNumber, @relayRequestHash, @tx)`).run(row)
+        } catch (e) {
+          if (e.code === 'SQLITE_CONSTRAINT_PRIMARYKEY' || e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+            throw new Error(`Can't insert transaction ${tx1.txId} of ${signer} with nonce ${nonce}, it violates the unique constraint`)
+          }
+          throw e
+        }
+      }
+      const insertReplaced = this.db.prepare('INSERT OR REPLACE INTO replaced_transactions (replacedTxId, signer, nonce) VALUES (?, ?, ?)')
+      for (const boost of tx1.boostHistory ?? []) {
+        insertReplaced.run(boost.oldTxId.toLowerCase(), signer, nonce)
+      }
+    })()
+  }
+
+  async getTxByNonce (signer: PrefixedHexString, nonce: number): Promise<StoredTransaction> {
+    ow(nonce, ow.any(ow.number, ow.string))
+    ow(signer, ow.string)
+
+    return this.getOne('SELECT tx FROM transactions WHERE signer = ? AND nonce = ?', signer.toLowerCase(), nonce) as StoredTransaction
+  }
+
+  async getTxById (txId: string): Promise<StoredTransaction> {
+    ow(txId, ow.string)
+
+    return this.getOne('SELECT tx FROM transactions WHERE txId = ?', txId.toLowerCase()) as StoredTransaction
+  }
+
+  async getTxByIdOrReplacedId (txId: string): Promise<StoredTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return this.getOne(`SELECT tx FROM transactions WHERE txId = ?
+      UNION ALL
+      SELECT t.tx FROM replaced_transactions r JOIN transactions t ON t.signer = r.signer AND t.nonce = r.nonce WHERE r.replacedTxId = ?`, id, id)
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<StoredTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    return this.getOne('SELECT tx FROM transactions WHERE relayRequestHash = ?', relayRequestHash.toLowerCase())
+  }
+
+  async getTxsUntilNonce (signer: PrefixedHexString, nonce: number): Promise<StoredTransaction[]> {
+    return this.getMany('SELECT tx FROM transactions WHERE signer = ? AND nonce <= ? ORDER BY nonce', signer.toLowerCase(), nonce)
+  }
+
+  async removeTxsUntilNonce (signer: PrefixedHexString, nonce: number): Promise<unknown> {
+    ow(nonce, ow.number)
+    ow(signer, ow.string)
+
+    return this.db.prepare('DELETE FROM transactions WHERE signer = ? AND nonce <= ?').run(signer.toLowerCase(), nonce).changes
+  }
+
+  async clearAll (): Promise<void> {
+    this.db.prepare('DELETE FROM transactions').run()
+  }
+
+  async getAllBySigner (signer: PrefixedHexString): Promise<StoredTransaction[]> {
+    return this.getMany('SELECT tx FROM transactions WHERE signer = ? ORDER BY nonce', signer.toLowerCase())
+  }
+
+  async getAll (): Promise<StoredTransaction[]> {
+    return this.getMany('SELECT tx FROM transactions ORDER BY nonce')
+  }
+
+  async isActionPending (serverAction: ServerAction, destination: Address | undefined = undefined): Promise<boolean> {
+    return this.getMany('SELECT tx FROM transactions WHERE serverAction = ? AND minedBlockNumber IS NULL', serverAction)
+      .some(it => isPendingAction(it, serverAction, destination))
+  }
+
+  close (): void {
+    this.db.close()
+  }
+
+  private getOne (sql: string, ...params: any[]): StoredTransaction | null {
+    const row: TransactionRow | undefined = this.db.prepare(sql).get(...params)
+    return row != null ? JSON.parse(row.tx) : null
+  }
+
+  private getMany (sql: string, ...params: any[]): StoredTransaction[] {
+    return this.db.prepare(sql).all(...params).map((row: TransactionRow) => JSON.parse(row.tx))
+  }
+}
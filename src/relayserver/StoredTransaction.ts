@@ -1,6 +1,7 @@
 import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
 import * as ethUtils from 'ethereumjs-util'
 import { Address } from '../relayclient/types/Aliases'
+import { BoostRecord } from '../common/TransactionStatusResponse'
 
 export enum ServerAction {
   REGISTER_SERVER,
@@ -8,9 +9,13 @@ export enum ServerAction {
   RELAY_CALL,
   VALUE_TRANSFER,
   DEPOSIT_WITHDRAWAL,
-  PENALIZATION
+  PENALIZATION,
+  DISABLE_WORKER
 }
 
+// names of the actions, as in the configuration
+export const SERVER_ACTION_NAMES = Object.keys(ServerAction).filter(key => isNaN(Number(key))) as Array<keyof typeof ServerAction>
+
 export interface StoredTransactionMetadata {
   readonly from: Address
   readonly attempts: number
@@ -18,6 +23,12 @@ export interface StoredTransactionMetadata {
   readonly creationBlockNumber: number
   readonly boostBlockNumber?: number
   readonly minedBlockNumber?: number
+  // EIP-712 hash of the relay request, for RELAY_CALL transactions
+  readonly relayRequestHash?: PrefixedHexString
+  // replacement chain of the transaction, oldest boost first
+  readonly boostHistory?: BoostRecord[]
+  // of the client request relayed, for RELAY_CALL transactions
+  readonly correlationId?: string
 }
 
 export interface StoredTransactionSerialized {
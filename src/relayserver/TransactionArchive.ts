@@ -0,0 +1,103 @@
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { TransactionReceipt } from 'web3-core'
+
+import { Address } from '../relayclient/types/Aliases'
+
+import { ServerAction, StoredTransaction } from './StoredTransaction'
+
+export interface ArchivedTransactionMetadata {
+  // hash of the attempt that was mined: the latest one, or one it replaced when a boost came too late
+  minedTxId?: PrefixedHexString
+  // false if the transaction reverted, undefined if none of its attempts was found on chain
+  receiptStatus?: boolean
+  gasUsed?: number
+  // unix time it was archived, in seconds
+  archivedAt: number
+}
+
+/**
+ * A confirmed transaction as the server sent it, with its boost history and relay request hash,
+ * and the outcome of its mined attempt.
+ */
+export type ArchivedTransaction = StoredTransaction & ArchivedTransactionMetadata
+
+export interface TransactionArchiveQuery {
+  signer?: Address
+  // `to` of the transaction: a RelayHub, a token or the recipient of a value transfer
+  destination?: Address
+  serverAction?: ServerAction
+  // range of the blocks the transactions were mined in, both included
+  fromBlock?: number
+  toBlock?: number
+  // maximum number of transactions returned, the latest ones
+  limit?: number
+}
+
+/**
+ * @param receipt - of the mined attempt of the transaction, if any was found
+ */
+export function createArchivedTransaction (tx: StoredTransaction, receipt: TransactionReceipt | undefined, archivedAt: number): ArchivedTransaction {
+  // the document fields of nedb are not part of the transaction
+  const { _id, createdAt, updatedAt, ...storedTx } = tx as StoredTransaction & { _id?: string, createdAt?: Date, updatedAt?: Date }
+  return {
+    ...storedTx,
+    to: storedTx.to.toLowerCase(),
+    minedBlockNumber: receipt?.blockNumber ?? storedTx.minedBlockNumber,
+    minedTxId: receipt?.transactionHash.toLowerCase(),
+    receiptStatus: receipt?.status,
+    gasUsed: receipt?.gasUsed,
+    archivedAt
+  }
+}
+
+/**
+ * @returns whether the archived transaction matches all the criteria of the query, but its limit
+ */
+export function matchesArchiveQuery (tx: ArchivedTransaction, query: TransactionArchiveQuery): boolean {
+  return (query.signer == null || tx.nonceSigner?.signer === query.signer.toLowerCase()) &&
+    (query.destination == null || tx.to === query.destination.toLowerCase()) &&
+    (query.serverAction == null || tx.serverAction === query.serverAction) &&
+    (query.fromBlock == null || (tx.minedBlockNumber != null && tx.minedBlockNumber >= query.fromBlock)) &&
+    (query.toBlock == null || (tx.minedBlockNumber != null && tx.minedBlockNumber <= query.toBlock))
+}
+
+/**
+ * Order the transactions by mined block and nonce, and keep the latest `limit` ones.
+ */
+export function sortArchivedTransactions (transactions: ArchivedTransaction[], limit?: number): ArchivedTransaction[] {
+  transactions.sort((tx1, tx2) => tx1.minedBlockNumber !== tx2.minedBlockNumber
+    ? (tx1.minedBlockNumber ?? 0) - (tx2.minedBlockNumber ?? 0)
+    : tx1.nonce - tx2.nonce)
+  return limit != null ? transactions.slice(-limit) : transactions
+}
+
+/**
+ * The confirmed transactions the server removed from its TxStore, kept as a record of what it signed.
+ * It is kept in the backend of `txStoreBackend`: {@link NedbTransactionArchive} in a nedb file,
+ * {@link SqliteTransactionArchive} in a SQLite database and {@link MemoryTransactionArchive} in memory only.
+ */
+export interface TransactionArchive {
+  /**
+   * Add the transactions, replacing the ones archived already.
+   */
+  archiveTransactions: (transactions: ArchivedTransaction[]) => Promise<void>
+
+  /**
+   * Find a transaction by the hash of its latest attempt or of any attempt it replaced.
+   */
+  getTxByIdOrReplacedId: (txId: string) => Promise<ArchivedTransaction | null>
+
+  getTxByRelayRequestHash: (relayRequestHash: string) => Promise<ArchivedTransaction | null>
+
+  /**
+   * @returns the transactions matching all the criteria given, by mined block and nonce
+   */
+  query: (query?: TransactionArchiveQuery) => Promise<ArchivedTransaction[]>
+
+  /**
+   * Remove the transactions archived before the given time.
+   * @param before - unix time in seconds
+   * @returns the number of transactions removed
+   */
+  prune: (before: number) => Promise<number>
+}
@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events'
+import { Server } from 'http'
+import log from 'loglevel'
+import ow from 'ow'
+import WebSocket from 'ws'
+
+import TransactionLifecycleEvent, {
+  TRANSACTION_EVENTS_PATH,
+  TransactionEventsServerMessage,
+  TransactionSubscriptionMessage
+} from '../common/TransactionLifecycleEvent'
+
+// bounds the memory a single client can make the server hold
+const MAX_SUBSCRIPTIONS_PER_CONNECTION = 100
+// longest interval between the checks for expired subscriptions
+const EXPIRY_CHECK_INTERVAL_MS = 60000
+
+const SubscriptionMessageShape = ow.object.exactShape({
+  action: ow.string.oneOf(['subscribe', 'unsubscribe']),
+  txHash: ow.optional.string.matches(/^0x[0-9a-fA-F]{64}$/),
+  relayRequestSigHash: ow.optional.string.matches(/^0x[0-9a-fA-F]{64}$/)
+})
+
+/**
+ * Clients following one transaction, under all the hashes it is known by.
+ */
+interface Subscription {
+  sockets: Set<WebSocket>
+  keys: Set<string>
+  // time (ms) after which the subscription is dropped, pushed back by each event
+  expiresAt: number
+}
+
+/**
+ * WebSocket endpoint pushing the lifecycle events of relayed transactions to the clients subscribed to them.
+ * Listens to the `transactionEvent` events of the relay server. Only the transactions some client follows are tracked,
+ * and they are forgotten once confirmed, or when no event came for them during `subscriptionTimeout`.
+ */
+export class TransactionEventsServer {
+  private webSocketServer?: WebSocket.Server
+  private expiryTimer?: NodeJS.Timeout
+  private readonly subscriptions = new Map<string, Subscription>()
+  private readonly listener = (event: TransactionLifecycleEvent): void => { this.publish(event) }
+
+  /**
+   * @param subscriptionTimeout - ms a transaction is followed without any event about it
+   */
+  constructor (readonly backend: EventEmitter, readonly subscriptionTimeout: number) {}
+
+  start (httpServer: Server): void {
+    this.webSocketServer = new WebSocket.Server({ server: httpServer, path: TRANSACTION_EVENTS_PATH })
+    this.webSocketServer.on('connection', (socket: WebSocket) => {
+      socket.on('message', (data: WebSocket.Data) => this.handleMessage(socket, data as string))
+      socket.on('close', () => this.removeSocket(socket))
+    })
+    this.backend.on('transactionEvent', this.listener)
+    this.expiryTimer = setInterval(() => this.expireSubscriptions(), Math.min(this.subscriptionTimeout, EXPIRY_CHECK_INTERVAL_MS))
+    this.expiryTimer.unref()
+  }
+
+  stop (): void {
+    this.backend.off('transactionEvent', this.listener)
+    if (this.expiryTimer != null) {
+      clearInterval(this.expiryTimer)
+      this.expiryTimer = undefined
+    }
+    this.webSocketServer?.close()
+    this.webSocketServer = undefined
+    this.subscriptions.clear()
+  }
+
+  handleMessage (socket: WebSocket, data: string): void {
+    let message: TransactionSubscriptionMessage
+    try {
+      message = JSON.parse(data)
+      ow(message, SubscriptionMessageShape)
+    } catch (e) {
+      this.send(socket, { error: `Invalid message: ${(e as Error).message}` })
+      return
+    }
+    const key = message.txHash ?? message.relayRequestSigHash
+    if (key == null) {
+      this.send(socket, { error: 'Invalid message: txHash or relayRequestSigHash required' })
+      return
+    }
+    if (message.action === 'unsubscribe') {
+      const subscription = this.subscriptions.get(key.toLowerCase())
+      subscription?.sockets.delete(socket)
+      if (subscription?.sockets.size === 0) {
+        subscription.keys.forEach(it => this.subscriptions.delete(it))
+      }
+      this.send(socket, { unsubscribed: key })
+      return
+    }
+    if (this.countSubscriptions(socket) >= MAX_SUBSCRIPTIONS_PER_CONNECTION) {
+      this.send(socket, { error: `Too many subscriptions, the limit is ${MAX_SUBSCRIPTIONS_PER_CONNECTION}` })
+      return
+    }
+    this.getOrCreateSubscription(key.toLowerCase()).sockets.add(socket)
+    this.send(socket, { subscribed: key })
+  }
+
+  /**
+   * Send the event to the clients following any of its hashes, and follow all its hashes from now on.
+   */
+  publish (event: TransactionLifecycleEvent): void {
+    const keys = [event.txHash, event.previousTxHash, event.relayRequestSigHash]
+      .filter((it): it is string => it != null)
+      .map(it => it.toLowerCase())
+    const found = keys
+      .map(key => this.subscriptions.get(key))
+      .filter((it): it is Subscription => it != null)
+    if (found.length === 0) {
+      return
+    }
+    // merge the subscriptions made under different hashes of the same transaction
+    const subscription = found[0]
+    for (const other of found.slice(1)) {
+      other.sockets.forEach(socket => subscription.sockets.add(socket))
+      other.keys.forEach(key => subscription.keys.add(key))
+    }
+    keys.forEach(key => subscription.keys.add(key))
+    subscription.keys.forEach(key => this.subscriptions.set(key, subscription))
+    subscription.expiresAt = Date.now() + this.subscriptionTimeout
+
+    subscription.sockets.forEach(socket => this.send(socket, event))
+    if (event.type === 'confirmed') {
+      subscription.keys.forEach(key => this.subscriptions.delete(key))
+    }
+  }
+
+  getOrCreateSubscription (key: string): Subscription {
+    let subscription = this.subscriptions.get(key)
+    if (subscription == null) {
+      subscription = { sockets: new Set(), keys: new Set([key]), expiresAt: 0 }
+      this.subscriptions.set(key, subscription)
+    }
+    subscription.expiresAt = Date.now() + this.subscriptionTimeout
+    return subscription
+  }
+
+  /**
+   * Forget the transactions without events for `subscriptionTimeout`, e.g. never relayed or dropped from the
+   * transaction store, and tell their clients.
+   */
+  expireSubscriptions (now: number = Date.now()): void {
+    const expired = new Set(Array.from(this.subscriptions.values()).filter(it => it.expiresAt <= now))
+    for (const subscription of expired) {
+      subscription.keys.forEach(key => this.subscriptions.delete(key))
+      subscription.sockets.forEach(socket => this.send(socket, { expired: Array.from(subscription.keys) }))
+    }
+  }
+
+  countSubscriptions (socket: WebSocket): number {
+    return new Set(Array.from(this.subscriptions.values()).filter(it => it.sockets.has(socket))).size
+  }
+
+  removeSocket (socket: WebSocket): void {
+    for (const [key, subscription] of this.subscriptions) {
+      subscription.sockets.delete(socket)
+      if (subscription.sockets.size === 0) {
+        this.subscriptions.delete(key)
+      }
+    }
+  }
+
+  send (socket: WebSocket, message: TransactionEventsServerMessage): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return
+    }
+    socket.send(JSON.stringify(message), (error?: Error) => {
+      if (error != null) {
+        log.warn(`failed to push to a websocket client: ${error.message}`)
+      }
+    })
+  }
+}
@@ -4,12 +4,17 @@ import chalk from 'chalk'
 import log from 'loglevel'
 import { Mutex } from 'async-mutex'
 import { PrefixedHexString, Transaction, TransactionOptions } from 'ethereumjs-tx'
+import { bufferToHex, bufferToInt } from 'ethereumjs-util'
+import { TransactionReceipt } from 'web3-core'
 
 import { Address, IntString } from '../relayclient/types/Aliases'
 import ContractInteractor from '../common/ContractInteractor'
+import { BoostRecord } from '../common/TransactionStatusResponse'
+import { ContextLogger, getLogFormat } from '../common/Logging'
 
-import { TxStoreManager } from './TxStoreManager'
-import { KeyManager } from './KeyManager'
+import { TxStore } from './TxStore'
+import { createArchivedTransaction, TransactionArchive } from './TransactionArchive'
+import { TransactionSigner } from './TransactionSigner'
 import { ServerConfigParams, ServerDependencies } from './ServerConfigParams'
 import {
   createStoredTransaction,
@@ -32,22 +37,32 @@ export interface SendTransactionDetails {
   gasLimit: number
   gasPrice?: IntString
   creationBlockNumber: number
+  relayRequestHash?: PrefixedHexString
+  // of the client request relayed, logged along with the transaction and its boosts
+  correlationId?: string
 }
 
 export class TransactionManager {
-  nonceMutex = new Mutex()
-  managerKeyManager: KeyManager
-  workersKeyManager: KeyManager
+  nonceMutexes: Record<Address, Mutex> = {}
+  // nonces reserved by sends that failed before broadcasting, reused first so no gap is left
+  releasedNonces: Record<Address, number[]> = {}
+  managerKeyManager: TransactionSigner
+  workersKeyManager: TransactionSigner
   contractInteractor: ContractInteractor
   nonces: Record<Address, number> = {}
-  txStoreManager: TxStoreManager
+  txStoreManager: TxStore
+  // confirmed transactions are moved there, they are deleted if there is none
+  transactionArchive?: TransactionArchive
   config: ServerConfigParams
 
   rawTxOptions!: TransactionOptions
 
+  private readonly logger = new ContextLogger({ component: 'TransactionManager' })
+
   constructor (dependencies: ServerDependencies, config: ServerConfigParams) {
     this.contractInteractor = dependencies.contractInteractor
     this.txStoreManager = dependencies.txStoreManager
+    this.transactionArchive = dependencies.transactionArchive
     this.workersKeyManager = dependencies.workersKeyManager
     this.managerKeyManager = dependencies.managerKeyManager
     this.config = config
@@ -55,9 +70,25 @@ export class TransactionManager {
   }
 
   _initNonces (): void {
-    // todo: initialize nonces for all signers (currently one manager, one worker)
-    this.nonces[this.managerKeyManager.getAddress(0)] = 0
-    this.nonces[this.workersKeyManager.getAddress(0)] = 0
+    for (const signer of [...this.managerKeyManager.getAddresses(), ...this.workersKeyManager.getAddresses()]) {
+      this.nonces[signer] = 0
+      this.releasedNonces[signer] = []
+    }
+  }
+
+  /**
+   * Each signer has its own nonce sequence, so transactions from different workers
+   * do not need to wait for each other.
+   */
+  getNonceMutex (signer: Address): Mutex {
+    if (this.nonceMutexes[signer] == null) {
+      this.nonceMutexes[signer] = new Mutex()
+    }
+    return this.nonceMutexes[signer]
+  }
+
+  getSigner (signer: Address): TransactionSigner {
+    return this.managerKeyManager.isSigner(signer) ? this.managerKeyManager : this.workersKeyManager
   }
 
   async _init (): Promise<void> {
@@ -67,7 +98,12 @@ export class TransactionManager {
     }
   }
 
-  printBoostedTransactionLog (txHash: string, creationBlockNumber: number, gasPrice: number, isMaxGasPriceReached: boolean): void {
+  printBoostedTransactionLog (txHash: string, creationBlockNumber: number, gasPrice: number, isMaxGasPriceReached: boolean, correlationId?: string): void {
+    if (getLogFormat() === 'json') {
+      this.logger.info(`Boosting stale transaction created at block #${creationBlockNumber} with gasPrice ${gasPrice}${isMaxGasPriceReached ? ' (MAX GAS PRICE REACHED)' : ''}`,
+        { correlationId, txId: txHash, phase: 'boost' })
+      return
+    }
     const gasPriceHumanReadableOld: string = new EthVal(gasPrice).toGwei().toFixed(4)
     log.info(`Boosting stale transaction:
 hash         | ${txHash}
@@ -76,10 +112,15 @@ created at   | block #${creationBlockNumber}
 `)
   }
 
-  printSendTransactionLog (transaction: Transaction, from: Address): void {
+  printSendTransactionLog (transaction: Transaction, from: Address, correlationId?: string): void {
     const valueString = transaction.value.length === 0 ? '0' : parseInt('0x' + transaction.value.toString('hex')).toString()
     const nonceString = transaction.nonce.length === 0 ? '0' : parseInt('0x' + transaction.nonce.toString('hex'))
     const gasPriceString = parseInt('0x' + transaction.gasPrice.toString('hex'))
+    if (getLogFormat() === 'json') {
+      this.logger.info(`Broadcasting transaction to 0x${transaction.to.toString('hex')} value ${valueString} gasPrice ${gasPriceString} gasLimit ${parseInt('0x' + transaction.gasLimit.toString('hex'))}`,
+        { correlationId, worker: from, nonce: Number(nonceString), txId: bufferToHex(transaction.hash()), phase: 'broadcast' })
+      return
+    }
 
     const valueHumanReadable: string = new EthVal(valueString).toEth().toFixed(4)
     const gasPriceHumanReadable: string = new EthVal(gasPriceString).toGwei().toFixed(4)
@@ -92,7 +133,7 @@ nonce        | ${nonceString}
 gasPrice     | ${gasPriceString} (${gasPriceHumanReadable} gwei)
 gasLimit     | ${parseInt('0x' + transaction.gasLimit.toString('hex'))}
 data         | 0x${transaction.data.toString('hex')}
-`)
+${correlationId != null ? `correlation  | ${correlationId}\n` : ''}`)
   }
 
   async attemptEstimateGas (methodName: string, method: any, from: Address): Promise<number> {
@@ -105,14 +146,14 @@ data         | 0x${transaction.data.toString('hex')}
     return this.config.defaultGasLimit
   }
 
-  async sendTransaction ({ signer, method, destination, value = '0x', gasLimit, gasPrice, creationBlockNumber, serverAction }: SendTransactionDetails): Promise<SignedTransactionDetails> {
+  async sendTransaction ({ signer, method, destination, value = '0x', gasLimit, gasPrice, creationBlockNumber, serverAction, relayRequestHash, correlationId }: SendTransactionDetails): Promise<SignedTransactionDetails> {
     const encodedCall = method?.encodeABI() ?? '0x'
     const _gasPrice = parseInt(gasPrice ?? await this.contractInteractor.getGasPrice())
-    const releaseMutex = await this.nonceMutex.acquire()
+    // a remote signer can take long to answer, so the nonce mutex is not held while signing
+    const nonce = await this.reserveNonce(signer)
     let signedTx
     let storedTx: StoredTransaction
     try {
-      const nonce = await this.pollNonce(signer)
       const txToSign = new Transaction({
         to: destination,
         value: value,
@@ -121,21 +162,21 @@ data         | 0x${transaction.data.toString('hex')}
         data: Buffer.from(encodedCall.slice(2), 'hex'),
         nonce
       }, this.rawTxOptions)
-      // TODO omg! do not do this!
-      const keyManager = this.managerKeyManager.isSigner(signer) ? this.managerKeyManager : this.workersKeyManager
-      signedTx = keyManager.signTransaction(signer, txToSign)
+      signedTx = await this.getSigner(signer).signTransaction(signer, txToSign, serverAction)
       const metadata: StoredTransactionMetadata = {
         from: signer,
         attempts: 1,
         serverAction,
-        creationBlockNumber
+        creationBlockNumber,
+        relayRequestHash: relayRequestHash?.toLowerCase(),
+        correlationId
       }
       storedTx = createStoredTransaction(txToSign, metadata)
-      this.nonces[signer]++
       await this.txStoreManager.putTx(storedTx, false)
-      this.printSendTransactionLog(txToSign, signer)
-    } finally {
-      releaseMutex()
+      this.printSendTransactionLog(txToSign, signer, correlationId)
+    } catch (e) {
+      await this.releaseNonce(signer, nonce)
+      throw e
     }
     const transactionHash = await this.contractInteractor.broadcastTransaction(signedTx)
     if (transactionHash.toLowerCase() !== storedTx.txId.toLowerCase()) {
@@ -153,13 +194,23 @@ data         | 0x${transaction.data.toString('hex')}
   }
 
   async updateTransactionWithAttempt (txToSign: Transaction, tx: StoredTransaction, currentBlock: number): Promise<StoredTransaction> {
+    const boost: BoostRecord = {
+      oldTxId: tx.txId,
+      newTxId: bufferToHex(txToSign.hash()),
+      oldGasPrice: tx.gasPrice,
+      newGasPrice: bufferToInt(txToSign.gasPrice),
+      blockNumber: currentBlock
+    }
     const metadata: StoredTransactionMetadata = {
       attempts: tx.attempts + 1,
       boostBlockNumber: currentBlock,
       from: tx.from,
       serverAction: tx.serverAction,
       creationBlockNumber: tx.creationBlockNumber,
-      minedBlockNumber: tx.minedBlockNumber
+      minedBlockNumber: tx.minedBlockNumber,
+      relayRequestHash: tx.relayRequestHash,
+      boostHistory: [...(tx.boostHistory ?? []), boost],
+      correlationId: tx.correlationId
     }
     const storedTx = createStoredTransaction(txToSign, metadata)
     await this.txStoreManager.putTx(storedTx, true)
@@ -178,12 +229,11 @@ data         | 0x${transaction.data.toString('hex')}
       },
       this.rawTxOptions)
 
-    const keyManager = this.managerKeyManager.isSigner(tx.from) ? this.managerKeyManager : this.workersKeyManager
-    const signedTx = keyManager.signTransaction(tx.from, txToSign)
+    const signedTx = await this.getSigner(tx.from).signTransaction(tx.from, txToSign, tx.serverAction)
     const storedTx = await this.updateTransactionWithAttempt(txToSign, tx, currentBlock)
 
-    this.printBoostedTransactionLog(tx.txId, tx.creationBlockNumber, tx.gasPrice, isMaxGasPriceReached)
-    this.printSendTransactionLog(txToSign, tx.from)
+    this.printBoostedTransactionLog(tx.txId, tx.creationBlockNumber, tx.gasPrice, isMaxGasPriceReached, tx.correlationId)
+    this.printSendTransactionLog(txToSign, tx.from, tx.correlationId)
     const currentNonce = await this.contractInteractor.getTransactionCount(tx.from)
     log.debug(`Current account nonce for ${tx.from} is ${currentNonce}`)
     const transactionHash = await this.contractInteractor.broadcastTransaction(signedTx)
@@ -208,8 +258,43 @@ data         | 0x${transaction.data.toString('hex')}
     return { newGasPrice, isMaxGasPriceReached }
   }
 
+  /**
+   * Take the next nonce of the signer, to sign a transaction with it without holding the nonce mutex.
+   * Must be given back with {@link releaseNonce} if the transaction is not sent.
+   */
+  async reserveNonce (signer: Address): Promise<number> {
+    const releaseMutex = await this.getNonceMutex(signer).acquire()
+    try {
+      const nonce = await this.pollNonce(signer)
+      const released = this.releasedNonces[signer] ?? []
+      if (released.length > 0) {
+        return released.shift() as number
+      }
+      this.nonces[signer]++
+      return nonce
+    } finally {
+      releaseMutex()
+    }
+  }
+
+  async releaseNonce (signer: Address, nonce: number): Promise<void> {
+    const releaseMutex = await this.getNonceMutex(signer).acquire()
+    try {
+      if (nonce === this.nonces[signer] - 1) {
+        this.nonces[signer]--
+      } else {
+        // a later nonce is already taken, so this one is the next to use
+        this.releasedNonces[signer] = [...(this.releasedNonces[signer] ?? []), nonce].sort((a, b) => a - b)
+      }
+    } finally {
+      releaseMutex()
+    }
+  }
+
   async pollNonce (signer: Address): Promise<number> {
     const nonce = await this.contractInteractor.getTransactionCount(signer, 'pending')
+    // the released nonces the node has seen used are no longer free
+    this.releasedNonces[signer] = (this.releasedNonces[signer] ?? []).filter(it => it >= nonce)
     if (nonce > this.nonces[signer]) {
       log.warn('NONCE FIX for signer=', signer, ': nonce=', nonce, this.nonces[signer])
       this.nonces[signer] = nonce
@@ -217,11 +302,15 @@ data         | 0x${transaction.data.toString('hex')}
     return this.nonces[signer]
   }
 
-  async removeConfirmedTransactions (blockNumber: number): Promise<void> {
+  /**
+   * @returns the transactions removed from the store, with enough confirmations, and moved to the archive if any
+   */
+  async removeConfirmedTransactions (blockNumber: number): Promise<StoredTransaction[]> {
+    let confirmedTxs: StoredTransaction[] = []
     // Load unconfirmed transactions from store, and bail if there are none
     const sortedTxs = await this.txStoreManager.getAll()
     if (sortedTxs.length === 0) {
-      return
+      return confirmedTxs
     }
     log.debug(`Total of ${sortedTxs.length} transactions are not confirmed yet, checking...`)
     // Get nonce at confirmationsNeeded blocks ago
@@ -250,12 +339,62 @@ data         | 0x${transaction.data.toString('hex')}
         }
         // Clear out all confirmed transactions (ie txs with nonce less than the account nonce at confirmationsNeeded blocks ago)
         log.debug(`removing tx number ${receipt.nonce} sent by ${receipt.from} with ${confirmations} confirmations`)
+        const txsUntilNonce = await this.txStoreManager.getTxsUntilNonce(receipt.from, receipt.nonce)
+        if (this.transactionArchive != null) {
+          try {
+            await this._archiveTransactions(txsUntilNonce)
+          } catch (e) {
+            // they are not removed without a record, archiving them is tried again at the next block
+            log.error(`Failed to archive the transactions of ${receipt.from} until nonce ${receipt.nonce}:`, e.message)
+            continue
+          }
+        }
+        confirmedTxs = confirmedTxs.concat(txsUntilNonce)
         await this.txStoreManager.removeTxsUntilNonce(
           receipt.from,
           receipt.nonce
         )
       }
     }
+    return confirmedTxs
+  }
+
+  async _archiveTransactions (transactions: StoredTransaction[]): Promise<void> {
+    const archive = this.transactionArchive
+    if (archive == null) {
+      return
+    }
+    const now = Math.floor(Date.now() / 1000)
+    const archivedTxs = []
+    for (const tx of transactions) {
+      archivedTxs.push(createArchivedTransaction(tx, await this._getMinedReceipt(tx), now))
+    }
+    await archive.archiveTransactions(archivedTxs)
+  }
+
+  /**
+   * Remove the transactions archived more than `txArchiveRetentionDays` ago.
+   * @returns number of transactions removed
+   */
+  async pruneTransactionArchive (now = Math.floor(Date.now() / 1000)): Promise<number> {
+    if (this.transactionArchive == null || this.config.txArchiveRetentionDays === 0) {
+      return 0
+    }
+    return await this.transactionArchive.prune(now - this.config.txArchiveRetentionDays * 24 * 3600)
+  }
+
+  /**
+   * @returns the receipt of the attempt of the transaction that was mined: the latest one, or one it replaced
+   */
+  async _getMinedReceipt (tx: StoredTransaction): Promise<TransactionReceipt | undefined> {
+    const attempts = [tx.txId, ...(tx.boostHistory ?? []).map(boost => boost.oldTxId).reverse()]
+    for (const txId of attempts) {
+      const receipt = await this.contractInteractor.getTransactionReceiptIfMined(txId)
+      if (receipt != null) {
+        return receipt
+      }
+    }
+    return undefined
   }
 
   /**
@@ -0,0 +1,28 @@
+import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import { EIP712TypedData } from 'eth-sig-util'
+
+import { Address } from '../relayclient/types/Aliases'
+
+import { ServerAction } from './StoredTransaction'
+
+/**
+ * Holds the keys of the manager or of the workers, and signs with them. The {@link KeyManager} signs with keys kept
+ * in memory, the {@link RemoteSigner} asks an external signing service to sign.
+ */
+export interface TransactionSigner {
+  getAddress: (index: number) => PrefixedHexString
+  getAddresses: () => PrefixedHexString[]
+  isSigner: (signer: Address) => boolean
+  /**
+   * Sign the transaction in place.
+   * @param serverAction - what the transaction does, signers may refuse some actions
+   * @returns the signed transaction, serialized
+   */
+  signTransaction: (signer: Address, tx: Transaction, serverAction?: ServerAction) => PrefixedHexString | Promise<PrefixedHexString>
+  signTypedData: (signer: Address, typedData: EIP712TypedData) => PrefixedHexString | Promise<PrefixedHexString>
+  /**
+   * Derive a key after the ones held, for signers able to, e.g. to rotate a worker.
+   * @returns the address of the key
+   */
+  addKey?: () => PrefixedHexString
+}
@@ -0,0 +1,95 @@
+import { omit } from 'lodash'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address } from '../relayclient/types/Aliases'
+import { isSameAddress } from '../common/Utils'
+
+import { ServerAction, StoredTransaction } from './StoredTransaction'
+
+export const TX_STORE_BACKENDS = ['memory', 'nedb', 'sqlite'] as const
+
+export type TxStoreBackend = typeof TX_STORE_BACKENDS[number]
+
+/**
+ * Storage of the transactions the server sent and has not seen confirmed yet, one per signer and nonce.
+ * {@link TxStoreManager} keeps them in a nedb file, {@link SqliteTxStore} in a SQLite database and
+ * {@link MemoryTxStore} in memory only.
+ */
+export interface TxStore {
+  /**
+   * @param updateExisting - replace the transaction of the same signer and nonce, which fails otherwise
+   */
+  putTx: (tx: StoredTransaction, updateExisting?: boolean) => Promise<void>
+
+  getTxByNonce: (signer: PrefixedHexString, nonce: number) => Promise<StoredTransaction>
+
+  getTxById: (txId: string) => Promise<StoredTransaction>
+
+  /**
+   * Find a transaction by the hash of its latest attempt or of any attempt it replaced.
+   */
+  getTxByIdOrReplacedId: (txId: string) => Promise<StoredTransaction | null>
+
+  getTxByRelayRequestHash: (relayRequestHash: string) => Promise<StoredTransaction | null>
+
+  getTxsUntilNonce: (signer: PrefixedHexString, nonce: number) => Promise<StoredTransaction[]>
+
+  removeTxsUntilNonce: (signer: PrefixedHexString, nonce: number) => Promise<unknown>
+
+  clearAll: () => Promise<void>
+
+  /**
+   * @returns the transactions of the signer, by nonce
+   */
+  getAllBySigner: (signer: PrefixedHexString) => Promise<StoredTransaction[]>
+
+  /**
+   * @returns all the transactions, by nonce
+   */
+  getAll: () => Promise<StoredTransaction[]>
+
+  /**
+   * @returns whether a transaction of the action, to the destination if given, is not mined yet
+   */
+  isActionPending: (serverAction: ServerAction, destination?: Address) => Promise<boolean>
+}
+
+/**
+ * The transaction as stored: with its lower-cased id and its signer and nonce, which identify it.
+ * @throws if the transaction misses its id, attempts or nonce
+ */
+export function toStoredTx (tx: StoredTransaction): StoredTransaction {
+  // eslint-disable-next-line
+  if (!tx || !tx.txId || !tx.attempts || tx.nonce === undefined) {
+    throw new Error('Invalid tx:' + JSON.stringify(tx))
+  }
+  return {
+    ...tx,
+    txId: tx.txId.toLowerCase(),
+    nonceSigner: {
+      nonce: tx.nonce,
+      signer: tx.from.toLowerCase()
+    }
+  }
+}
+
+export function compareNonces (tx1: StoredTransaction, tx2: StoredTransaction): number {
+  return tx1.nonce - tx2.nonce
+}
+
+export function isPendingAction (tx: StoredTransaction, serverAction: ServerAction, destination?: Address): boolean {
+  return tx.minedBlockNumber == null && tx.serverAction === serverAction && (destination == null || isSameAddress(tx.to, destination))
+}
+
+/**
+ * Copy all the transactions of a store to another, e.g. to change the backend of a server.
+ * @returns the number of transactions copied
+ */
+export async function copyTxStore (from: TxStore, to: TxStore): Promise<number> {
+  const transactions = await from.getAll()
+  for (const tx of transactions) {
+    // the document id of nedb is not part of the transaction
+    await to.putTx(omit(tx, '_id') as StoredTransaction, true)
+  }
+  return transactions.length
+}
@@ -4,13 +4,16 @@ import ow from 'ow'
 import { PrefixedHexString } from 'ethereumjs-tx'
 
 import { Address } from '../relayclient/types/Aliases'
-import { isSameAddress } from '../common/Utils'
 
 import { ServerAction, StoredTransaction } from './StoredTransaction'
+import { compareNonces, isPendingAction, toStoredTx, TxStore } from './TxStore'
 
 export const TXSTORE_FILENAME = 'txstore.db'
 
-export class TxStoreManager {
+/**
+ * The nedb {@link TxStore}, in `txstore.db` in the workdir.
+ */
+export class TxStoreManager implements TxStore {
   private readonly txstore: AsyncNedb<any>
 
   constructor ({ workdir = '/tmp/test/', inMemory = false }) {
@@ -26,19 +29,7 @@ export class TxStoreManager {
   }
 
   async putTx (tx: StoredTransaction, updateExisting: boolean = false): Promise<void> {
-    // eslint-disable-next-line
-    if (!tx || !tx.txId || !tx.attempts || tx.nonce === undefined) {
-      throw new Error('Invalid tx:' + JSON.stringify(tx))
-    }
-    const nonceSigner = {
-      nonce: tx.nonce,
-      signer: tx.from.toLowerCase()
-    }
-    const tx1: StoredTransaction = {
-      ...tx,
-      txId: tx.txId.toLowerCase(),
-      nonceSigner
-    }
+    const tx1 = toStoredTx(tx)
     const existing = await this.txstore.asyncFindOne({ nonceSigner: tx1.nonceSigner })
     // eslint-disable-next-line
     if (existing && updateExisting) {
@@ -72,6 +63,19 @@ export class TxStoreManager {
     return await this.txstore.asyncFindOne({ txId: txId.toLowerCase() })
   }
 
+  async getTxByIdOrReplacedId (txId: string): Promise<StoredTransaction | null> {
+    ow(txId, ow.string)
+
+    const id = txId.toLowerCase()
+    return await this.txstore.asyncFindOne({ $or: [{ txId: id }, { 'boostHistory.oldTxId': id }] })
+  }
+
+  async getTxByRelayRequestHash (relayRequestHash: string): Promise<StoredTransaction | null> {
+    ow(relayRequestHash, ow.string)
+
+    return await this.txstore.asyncFindOne({ relayRequestHash: relayRequestHash.toLowerCase() })
+  }
+
   async getTxsUntilNonce (signer: PrefixedHexString, nonce: number): Promise<StoredTransaction[]> {
     return await this.txstore.asyncFind({
       $and: [
@@ -96,19 +100,15 @@ export class TxStoreManager {
   }
 
   async getAllBySigner (signer: PrefixedHexString): Promise<StoredTransaction[]> {
-    return (await this.txstore.asyncFind({ 'nonceSigner.signer': signer.toLowerCase() })).sort(function (tx1, tx2) {
-      return tx1.nonce - tx2.nonce
-    })
+    return (await this.txstore.asyncFind({ 'nonceSigner.signer': signer.toLowerCase() })).sort(compareNonces)
   }
 
   async getAll (): Promise<StoredTransaction[]> {
-    return (await this.txstore.asyncFind({})).sort(function (tx1, tx2) {
-      return tx1.nonce - tx2.nonce
-    })
+    return (await this.txstore.asyncFind({})).sort(compareNonces)
   }
 
   async isActionPending (serverAction: ServerAction, destination: Address | undefined = undefined): Promise<boolean> {
     const allTransactions = await this.getAll()
-    return allTransactions.find(it => it.minedBlockNumber == null && it.serverAction === serverAction && (destination == null || isSameAddress(it.to, destination))) != null
+    return allTransactions.find(it => isPendingAction(it, serverAction, destination)) != null
   }
 }
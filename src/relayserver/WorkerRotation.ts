@@ -0,0 +1,330 @@
+import log from 'loglevel'
+import { PrefixedHexString } from 'ethereumjs-tx'
+import { toBN, toHex } from 'web3-utils'
+import BN from 'bn.js'
+
+import ContractInteractor from '../common/ContractInteractor'
+import TokenResponse from '../common/TokenResponse'
+import { defaultEnvironment } from '../common/Environments'
+import { isSameAddress } from '../common/Utils'
+import { Address } from '../relayclient/types/Aliases'
+
+import { RelayHubContext } from './RelayHubContext'
+import { ServerConfigParams } from './ServerConfigParams'
+import { ServerAction } from './StoredTransaction'
+import { SendTransactionDetails, TransactionManager } from './TransactionManager'
+import { TxStore } from './TxStore'
+import { WorkerRotation, WorkerRotationStore } from './WorkerRotationStore'
+
+const mintxgascost = defaultEnvironment.mintxgascost
+
+/**
+ * The parts of the relay server a worker rotation works with. {@link RelayServer} implements it.
+ */
+export interface WorkerRotationContext {
+  readonly config: ServerConfigParams
+  readonly contractInteractor: ContractInteractor
+  readonly transactionManager: TransactionManager
+  readonly txStoreManager: TxStore
+  readonly managerAddress: Address
+  readonly workerAddresses: Address[]
+  readonly relayHubs: RelayHubContext[]
+  /**
+   * Derive the key of a new worker and add it to the workers of the server.
+   * @returns the index of the worker
+   */
+  addWorker: () => number
+  tokenHandler: () => Promise<TokenResponse>
+}
+
+function isFinished (rotation: WorkerRotation): boolean {
+  return rotation.state === 'completed' || rotation.state === 'failed'
+}
+
+/**
+ * Replaces workers with new ones, e.g. when their key may be compromised, and takes back what the old ones hold.
+ * A rotation goes one step further each block (see {@link WorkerRotationState}), and continues after a restart.
+ * Until the new worker is added to the hubs, requests are routed to the old one. From then on, they are routed to
+ * the new one, and the old one is retired: it only confirms its pending transactions and sends its funds back.
+ */
+export class WorkerRotator {
+  private rotations: WorkerRotation[] = []
+
+  constructor (readonly server: WorkerRotationContext, readonly store: WorkerRotationStore) {}
+
+  /**
+   * Derive again the keys of the workers added by the rotations, in order.
+   */
+  async init (): Promise<void> {
+    this.rotations = await this.store.getAll()
+    for (const rotation of this.rotations) {
+      while (this.server.workerAddresses.length <= rotation.newWorkerIndex) {
+        this.server.addWorker()
+      }
+      const workerAddress = this.server.workerAddresses[rotation.newWorkerIndex]
+      if (!isSameAddress(workerAddress, rotation.newWorker)) {
+        throw new Error(`Worker #${rotation.newWorkerIndex} is ${workerAddress}, not ${rotation.newWorker} as when it was rotated in`)
+      }
+    }
+  }
+
+  getRotations (): WorkerRotation[] {
+    return this.rotations
+  }
+
+  /**
+   * @returns whether requests are routed to the worker: it is neither retired nor waiting to be added to the hubs
+   */
+  isRouted (workerAddress: Address): boolean {
+    return !this.rotations.some(rotation => rotation.retiredBlock != null
+      ? isSameAddress(rotation.oldWorker, workerAddress)
+      : rotation.state !== 'completed' && isSameAddress(rotation.newWorker, workerAddress))
+  }
+
+  isRetired (workerAddress: Address): boolean {
+    return this.rotations.some(rotation => rotation.retiredBlock != null && isSameAddress(rotation.oldWorker, workerAddress))
+  }
+
+  /**
+   * Start replacing a worker with a new one, derived after the keys of the other workers.
+   */
+  async start (workerIndex: number, currentBlock: number): Promise<WorkerRotation> {
+    const { workerAddresses } = this.server
+    if (workerIndex < 0 || workerIndex >= workerAddresses.length) {
+      throw new Error(`No worker #${workerIndex}, the server has ${workerAddresses.length} workers`)
+    }
+    const oldWorker = workerAddresses[workerIndex]
+    if (this.rotations.some(rotation => !isFinished(rotation) && isSameAddress(rotation.oldWorker, oldWorker))) {
+      throw new Error(`Worker #${workerIndex} is already being rotated`)
+    }
+    if (!this.isRouted(oldWorker)) {
+      throw new Error(`Worker #${workerIndex} does not take requests, it cannot be rotated`)
+    }
+    const newWorkerIndex = this.server.addWorker()
+    const newWorker = workerAddresses[newWorkerIndex]
+    const rotation: WorkerRotation = {
+      id: newWorker.toLowerCase(),
+      oldWorker,
+      oldWorkerIndex: workerIndex,
+      newWorker,
+      newWorkerIndex,
+      state: 'funding',
+      startedBlock: currentBlock,
+      addedInHubs: [],
+      disabledInHubs: [],
+      sweptTokens: [],
+      transactionHashes: []
+    }
+    await this.store.putRotation(rotation)
+    this.rotations.push(rotation)
+    log.info(`Rotating worker #${workerIndex} ${oldWorker}: replaced with worker #${newWorkerIndex} ${newWorker}`)
+    return rotation
+  }
+
+  /**
+   * Take each unfinished rotation one step further. A step failing is tried again at the next block.
+   * @returns hashes of the transactions sent
+   */
+  async advance (currentBlock: number): Promise<PrefixedHexString[]> {
+    let transactionHashes: PrefixedHexString[] = []
+    for (const rotation of this.rotations.filter(it => !isFinished(it))) {
+      try {
+        transactionHashes = transactionHashes.concat(await this._advanceRotation(rotation, currentBlock))
+      } catch (e) {
+        log.error(`Rotation of worker ${rotation.oldWorker} failed at step ${rotation.state}, retrying at the next block:`, e.message)
+      }
+    }
+    return transactionHashes
+  }
+
+  async _advanceRotation (rotation: WorkerRotation, currentBlock: number): Promise<PrefixedHexString[]> {
+    switch (rotation.state) {
+      case 'funding':
+        return await this._waitForFunding(rotation)
+      case 'adding':
+        return await this._addNewWorker(rotation, currentBlock)
+      case 'draining':
+        return await this._drainOldWorker(rotation)
+      case 'sweeping':
+        return await this._sweepOldWorker(rotation, currentBlock)
+      case 'disabling':
+        return await this._disableOldWorker(rotation, currentBlock)
+      default:
+        return []
+    }
+  }
+
+  // the replenish strategy funds the new worker, as any other
+  async _waitForFunding (rotation: WorkerRotation): Promise<PrefixedHexString[]> {
+    const balance = toBN(await this.server.contractInteractor.getBalance(rotation.newWorker))
+    if (balance.gte(toBN(this.server.config.workerMinBalance))) {
+      await this._update(rotation, { state: 'adding' })
+    }
+    return []
+  }
+
+  async _addNewWorker (rotation: WorkerRotation, currentBlock: number): Promise<PrefixedHexString[]> {
+    const registeredHubs = this.server.relayHubs.filter(hub => hub.registered)
+    if (registeredHubs.length === 0) {
+      return []
+    }
+    const transactionHashes: PrefixedHexString[] = []
+    let added = true
+    for (const hub of registeredHubs) {
+      if (await hub.contractInteractor.isWorkerEnabled(this.server.managerAddress, rotation.newWorker)) {
+        continue
+      }
+      added = false
+      if (await this.server.txStoreManager.isActionPending(ServerAction.ADD_WORKER, hub.address)) {
+        continue
+      }
+      if (rotation.addedInHubs.includes(hub.address)) {
+        return await this._fail(rotation, `addRelayWorkers did not add the new worker to hub ${hub.address}`)
+      }
+      // the new worker is the one the hub is missing
+      transactionHashes.push(await hub.registrationManager.addRelayWorkers(currentBlock))
+      rotation.addedInHubs.push(hub.address)
+    }
+    if (added) {
+      log.info(`Rotating worker ${rotation.oldWorker}: retired, requests are now routed to ${rotation.newWorker}`)
+      await this._update(rotation, { state: 'draining', retiredBlock: currentBlock })
+    } else {
+      await this._recordTransactions(rotation, transactionHashes, { addedInHubs: rotation.addedInHubs })
+    }
+    return transactionHashes
+  }
+
+  async _drainOldWorker (rotation: WorkerRotation): Promise<PrefixedHexString[]> {
+    if ((await this.server.txStoreManager.getAllBySigner(rotation.oldWorker)).length === 0) {
+      await this._update(rotation, { state: 'sweeping' })
+    }
+    return []
+  }
+
+  /**
+   * Send the tokens of the old worker to the manager, then its RBTC once the token transfers are confirmed,
+   * as they are paid with it.
+   */
+  async _sweepOldWorker (rotation: WorkerRotation, currentBlock: number): Promise<PrefixedHexString[]> {
+    const { contractInteractor, transactionManager, txStoreManager, managerAddress } = this.server
+    const { oldWorker } = rotation
+    if ((await txStoreManager.getAllBySigner(oldWorker)).length > 0) {
+      return []
+    }
+    const gasPrice = await contractInteractor.getGasPrice()
+    const transactionHashes: PrefixedHexString[] = []
+    for (const tokenContract of await this._getTokens()) {
+      if (rotation.sweptTokens.some(it => isSameAddress(it, tokenContract))) {
+        continue
+      }
+      const balance = await contractInteractor.getTokenBalance(tokenContract, oldWorker)
+      if (balance.isZero()) {
+        continue
+      }
+      log.info(`Rotating worker ${oldWorker}: sending its ${balance.toString()} tokens ${tokenContract} to the manager`)
+      const method = await contractInteractor.getTokenTransferMethod(tokenContract, managerAddress, balance)
+      const details: SendTransactionDetails = {
+        signer: oldWorker,
+        serverAction: ServerAction.VALUE_TRANSFER,
+        method,
+        destination: tokenContract,
+        gasLimit: await transactionManager.attemptEstimateGas('TokenTransfer', method, oldWorker),
+        gasPrice,
+        creationBlockNumber: currentBlock
+      }
+      transactionHashes.push((await transactionManager.sendTransaction(details)).transactionHash)
+      rotation.sweptTokens.push(tokenContract)
+    }
+    if (transactionHashes.length > 0) {
+      await this._recordTransactions(rotation, transactionHashes, { sweptTokens: rotation.sweptTokens })
+      return transactionHashes
+    }
+    const balance = toBN(await contractInteractor.getBalance(oldWorker))
+    // the transfer may be boosted up to maxGasPrice, so the worker keeps enough to pay for it at that price
+    const maxGasPrice = BN.max(toBN(this.server.config.maxGasPrice), toBN(gasPrice))
+    const maxTxCost = toBN(mintxgascost).mul(maxGasPrice)
+    if (balance.lte(maxTxCost)) {
+      await this._update(rotation, { state: 'disabling' })
+      return []
+    }
+    log.info(`Rotating worker ${oldWorker}: sending its RBTC balance ${balance.toString()} to the manager`)
+    const details: SendTransactionDetails = {
+      signer: oldWorker,
+      serverAction: ServerAction.VALUE_TRANSFER,
+      destination: managerAddress,
+      value: toHex(balance.sub(maxTxCost)),
+      gasLimit: mintxgascost,
+      gasPrice,
+      creationBlockNumber: currentBlock
+    }
+    const { transactionHash } = await transactionManager.sendTransaction(details)
+    await this._recordTransactions(rotation, [transactionHash], {})
+    return [transactionHash]
+  }
+
+  async _disableOldWorker (rotation: WorkerRotation, currentBlock: number): Promise<PrefixedHexString[]> {
+    const { transactionManager, txStoreManager, managerAddress } = this.server
+    const transactionHashes: PrefixedHexString[] = []
+    let disabled = true
+    for (const hub of this.server.relayHubs) {
+      if (!await hub.contractInteractor.isWorkerEnabled(managerAddress, rotation.oldWorker)) {
+        continue
+      }
+      disabled = false
+      if (await txStoreManager.isActionPending(ServerAction.DISABLE_WORKER, hub.address)) {
+        continue
+      }
+      if (rotation.disabledInHubs.includes(hub.address)) {
+        return await this._fail(rotation, `disableRelayWorkers did not disable the old worker in hub ${hub.address}`)
+      }
+      const method = await hub.contractInteractor.getDisableRelayWorkersMethod([rotation.oldWorker])
+      const details: SendTransactionDetails = {
+        signer: managerAddress,
+        serverAction: ServerAction.DISABLE_WORKER,
+        method,
+        destination: hub.address,
+        gasLimit: await transactionManager.attemptEstimateGas('DisableRelayWorkers', method, managerAddress),
+        creationBlockNumber: currentBlock
+      }
+      transactionHashes.push((await transactionManager.sendTransaction(details)).transactionHash)
+      rotation.disabledInHubs.push(hub.address)
+    }
+    if (disabled) {
+      log.info(`Rotating worker ${rotation.oldWorker}: disabled, rotation completed`)
+      await this._update(rotation, { state: 'completed', completedBlock: currentBlock })
+    } else {
+      await this._recordTransactions(rotation, transactionHashes, { disabledInHubs: rotation.disabledInHubs })
+    }
+    return transactionHashes
+  }
+
+  /**
+   * The tokens the workers may have been paid in: the ones with an exchange rate and the ones of the trusted verifiers.
+   */
+  async _getTokens (): Promise<Address[]> {
+    const tokens = Object.keys(this.server.config.tokenExchangeRates)
+    try {
+      Object.values(await this.server.tokenHandler()).flat().forEach(token => tokens.push(token))
+    } catch (e) {
+      log.warn('Could not get the accepted tokens of the trusted verifiers:', e.message)
+    }
+    return tokens.filter((token, index) => tokens.findIndex(it => isSameAddress(it, token)) === index)
+  }
+
+  async _recordTransactions (rotation: WorkerRotation, transactionHashes: PrefixedHexString[], update: Partial<WorkerRotation>): Promise<void> {
+    if (transactionHashes.length > 0) {
+      await this._update(rotation, { ...update, transactionHashes: rotation.transactionHashes.concat(transactionHashes) })
+    }
+  }
+
+  async _fail (rotation: WorkerRotation, error: string): Promise<PrefixedHexString[]> {
+    log.error(`Rotation of worker ${rotation.oldWorker} failed: ${error}`)
+    await this._update(rotation, { state: 'failed', error })
+    return []
+  }
+
+  async _update (rotation: WorkerRotation, update: Partial<WorkerRotation>): Promise<void> {
+    Object.assign(rotation, update)
+    await this.store.updateRotation(rotation.id, update)
+  }
+}
@@ -0,0 +1,83 @@
+import AsyncNedb from 'nedb-async'
+import log from 'loglevel'
+import ow from 'ow'
+import { PrefixedHexString } from 'ethereumjs-tx'
+
+import { Address } from '../relayclient/types/Aliases'
+
+export const WORKER_ROTATIONS_FILENAME = 'worker-rotations.db'
+
+/**
+ * The steps of a worker rotation, in order:
+ * - funding: the new worker is funded by the replenish strategy, up to workerMinBalance;
+ * - adding: addRelayWorkers adds the new worker to each hub the server is registered in;
+ * - draining: the old worker is retired, no new requests are routed to it, and its pending transactions confirm;
+ * - sweeping: the tokens and RBTC of the old worker are sent to the manager;
+ * - disabling: disableRelayWorkers disables the old worker in each hub it is enabled in.
+ */
+export type WorkerRotationState = 'funding' | 'adding' | 'draining' | 'sweeping' | 'disabling' | 'completed' | 'failed'
+
+export interface WorkerRotation {
+  // lower-cased address of the new worker, which identifies the rotation
+  id: string
+  oldWorker: Address
+  oldWorkerIndex: number
+  newWorker: Address
+  // index of the key of the new worker, after the keys of the other workers
+  newWorkerIndex: number
+  state: WorkerRotationState
+  startedBlock: number
+  // set when the old worker stops taking requests, from then on the new worker takes them
+  retiredBlock?: number
+  completedBlock?: number
+  // hubs addRelayWorkers and disableRelayWorkers were sent to, not sent again if they fail
+  addedInHubs: Address[]
+  disabledInHubs: Address[]
+  // tokens swept from the old worker, not swept again if their transfer fails
+  sweptTokens: Address[]
+  transactionHashes: PrefixedHexString[]
+  // why the rotation failed
+  error?: string
+}
+
+/**
+ * Record of the worker rotations, so they continue after a restart and the keys of the new workers are derived again.
+ */
+export class WorkerRotationStore {
+  private readonly store: AsyncNedb<any>
+
+  constructor ({ workdir = '/tmp/test/', inMemory = false }) {
+    this.store = new AsyncNedb({
+      filename: inMemory ? undefined : `${workdir}/${WORKER_ROTATIONS_FILENAME}`,
+      autoload: true,
+      timestampData: true
+    })
+    this.store.ensureIndex({ fieldName: 'id', unique: true })
+
+    log.info('Worker rotations database location:', inMemory ? 'memory' : `${workdir}/${WORKER_ROTATIONS_FILENAME}`)
+  }
+
+  async putRotation (rotation: WorkerRotation): Promise<void> {
+    ow(rotation.id, ow.string.nonEmpty)
+    await this.store.asyncInsert(rotation)
+  }
+
+  async updateRotation (id: string, update: Partial<WorkerRotation>): Promise<void> {
+    await this.store.asyncUpdate({ id }, { $set: update })
+  }
+
+  async getRotation (id: string): Promise<WorkerRotation | null> {
+    ow(id, ow.string)
+
+    return await this.store.asyncFindOne({ id })
+  }
+
+  /**
+   * @returns the rotations, by index of their new worker
+   */
+  async getAll (): Promise<WorkerRotation[]> {
+    return (await this.store.asyncFind({})).sort(function (r1, r2) {
+      return r1.newWorkerIndex - r2.newWorkerIndex
+    })
+  }
+}
@@ -4,53 +4,114 @@ import Web3 from 'web3'
 import { HttpServer } from './HttpServer'
 import { RelayServer } from './RelayServer'
 import { KeyManager } from './KeyManager'
+import { KeystoreOptions, readKeystorePassphrase } from './Keystore'
+import { RemoteSigner } from './RemoteSigner'
+import { TransactionSigner } from './TransactionSigner'
+import { TxStore } from './TxStore'
 import { TxStoreManager, TXSTORE_FILENAME } from './TxStoreManager'
+import { SqliteTxStore, TXSTORE_SQLITE_FILENAME } from './SqliteTxStore'
+import { MemoryTxStore } from './MemoryTxStore'
+import { PenalizationStore } from './PenalizationStore'
+import { RevenueLedger } from './RevenueLedger'
+import { WorkerRotationStore } from './WorkerRotationStore'
+import { TransactionArchive } from './TransactionArchive'
+import { NedbTransactionArchive } from './NedbTransactionArchive'
+import { SqliteTransactionArchive } from './SqliteTransactionArchive'
+import { MemoryTransactionArchive } from './MemoryTransactionArchive'
 import ContractInteractor from '../common/ContractInteractor'
 import { configure } from '../relayclient/Configurator'
-import { parseServerConfig, resolveServerConfig, ServerConfigParams, ServerDependencies } from './ServerConfigParams'
+import { configureServer, parseServerConfig, redactServerConfig, resolveServerConfig, ServerConfigParams, ServerDependencies } from './ServerConfigParams'
+import { setLogFormat } from '../common/Logging'
 import log from 'loglevel'
 
 function error (err: string): never {
-  console.error(err)
+  log.error(err)
   process.exit(1)
 }
 
+async function initRemoteSigner (url: string, config: ServerConfigParams): Promise<RemoteSigner> {
+  const signer = RemoteSigner.fromConfig(url, config)
+  await signer.init()
+  return signer
+}
+
+function createTxStore (config: ServerConfigParams): TxStore {
+  const { workdir } = config
+  switch (config.txStoreBackend) {
+    case 'memory':
+      return new MemoryTxStore()
+    case 'sqlite':
+      return new SqliteTxStore({ workdir })
+    default:
+      return new TxStoreManager({ workdir })
+  }
+}
+
+function createTransactionArchive (config: ServerConfigParams): TransactionArchive {
+  const { workdir } = config
+  switch (config.txStoreBackend) {
+    case 'memory':
+      return new MemoryTransactionArchive()
+    case 'sqlite':
+      return new SqliteTransactionArchive({ workdir })
+    default:
+      return new NedbTransactionArchive({ workdir })
+  }
+}
+
 async function run (): Promise<void> {
   let config: ServerConfigParams
   let web3provider
-  let trustedVerifiers: string[] = []
-  console.log('Starting Enveloping Relay Server process...\n')
   try {
     const conf = await parseServerConfig(process.argv.slice(2), process.env)
-    console.log(conf)
+    const { logFormat, logLevel } = configureServer(conf)
+    setLogFormat(logFormat, 'RelayServer')
+    log.setLevel(logLevel)
+    log.info('Starting Enveloping Relay Server process...')
+    log.info('runServer() - config:', redactServerConfig(conf))
     if (conf.rskNodeUrl == null) {
       error('missing rskNodeUrl')
     }
-    if (conf.trustedVerifiers !== undefined && conf.trustedVerifiers != null && conf.trustedVerifiers !== '') {
-      trustedVerifiers = JSON.parse(conf.trustedVerifiers)
-    }
 
     web3provider = new Web3.providers.HttpProvider(conf.rskNodeUrl)
     log.debug('runServer() - web3Provider done')
     config = await resolveServerConfig(conf, web3provider) as ServerConfigParams
     log.debug('runServer() - config done')
-    if (trustedVerifiers.length > 0) {
-      config.trustedVerifiers = trustedVerifiers
-    }
   } catch (e) {
     error(e.message)
   }
-  const { devMode, workdir } = config
+  const { devMode, workdir, workerCount } = config
   if (devMode) {
-    if (fs.existsSync(`${workdir}/${TXSTORE_FILENAME}`)) {
-      fs.unlinkSync(`${workdir}/${TXSTORE_FILENAME}`)
+    for (const fileName of [TXSTORE_FILENAME, TXSTORE_SQLITE_FILENAME]) {
+      if (fs.existsSync(`${workdir}/${fileName}`)) {
+        fs.unlinkSync(`${workdir}/${fileName}`)
+      }
     }
   }
 
-  const managerKeyManager = new KeyManager(1, workdir + '/manager')
-  const workersKeyManager = new KeyManager(1, workdir + '/workers')
+  let managerKeyManager: TransactionSigner
+  let workersKeyManager: TransactionSigner
+  try {
+    const { managerSignerUrl, workersSignerUrl } = config
+    let keystore: KeystoreOptions | undefined
+    if (managerSignerUrl === '' || workersSignerUrl === '') {
+      const passphrase = await readKeystorePassphrase(config)
+      if (passphrase == null) {
+        log.warn('runServer() - the keystores are not encrypted, set a keystore passphrase to encrypt them')
+      }
+      keystore = passphrase != null ? { passphrase } : undefined
+    }
+    managerKeyManager = managerSignerUrl !== ''
+      ? await initRemoteSigner(managerSignerUrl, config)
+      : new KeyManager(1, workdir + '/manager', undefined, keystore)
+    workersKeyManager = workersSignerUrl !== ''
+      ? await initRemoteSigner(workersSignerUrl, config)
+      : new KeyManager(workerCount, workdir + '/workers', undefined, keystore)
+  } catch (e) {
+    error(e.message)
+  }
   log.debug('runServer() - manager and workers configured')
-  const txStoreManager = new TxStoreManager({ workdir })
+  const txStoreManager = createTxStore(config)
   const contractInteractor = new ContractInteractor(web3provider, configure({
     relayHubAddress: config.relayHubAddress,
     deployVerifierAddress: config.deployVerifierAddress,
@@ -63,12 +124,23 @@ async function run (): Promise<void> {
     txStoreManager,
     managerKeyManager,
     workersKeyManager,
-    contractInteractor
+    contractInteractor,
+    penalizationStore: config.penalizationWatchdogEnabled ? new PenalizationStore({ workdir }) : undefined,
+    ledger: new RevenueLedger({ workdir }),
+    workerRotationStore: new WorkerRotationStore({ workdir }),
+    transactionArchive: config.txArchiveEnabled ? createTransactionArchive(config) : undefined
   }
 
   const relayServer = new RelayServer(config, dependencies)
   await relayServer.init()
   log.debug('runServer() - Relay Server initialized')
+  process.on('SIGHUP', () => {
+    try {
+      relayServer.reloadRelayPolicy()
+    } catch (e) {
+      log.error('runServer() - relay policy not reloaded:', e.message)
+    }
+  })
   const httpServer = new HttpServer(config.port, relayServer)
   httpServer.start()
   log.debug('runServer() - Relay Server started')
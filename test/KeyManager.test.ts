@@ -1,7 +1,17 @@
 /* global */
 
 import fs from 'fs'
+import Wallet from 'ethereumjs-wallet'
 import { KeyManager, KEYSTORE_FILENAME } from '../src/relayserver/KeyManager'
+import {
+  changeKeystorePassphrase,
+  decryptKeystore,
+  encryptKeystore,
+  isEncryptedKeystore,
+  KdfParams,
+  readKeystorePassphrase,
+  KEYSTORE_PASSPHRASE_ENV
+} from '../src/relayserver/Keystore'
 
 // NOTICE: this dir is removed in 'after', do not use this in any other test
 const workdir = '/tmp/enveloping/test/key_manager'
@@ -16,6 +26,13 @@ function cleanFolder (): void {
   }
 }
 
+// cheap enough for the tests, the default takes about a second
+const kdfParams: KdfParams = { kdf: 'scrypt', n: 1024, r: 8, p: 1, dklen: 32 }
+
+function readKeystore (): any {
+  return JSON.parse(fs.readFileSync(keyStoreFilePath).toString())
+}
+
 contract('KeyManager', function (accounts) {
   describe('in-memory', () => {
     let mkm: KeyManager
@@ -38,6 +55,11 @@ contract('KeyManager', function (accounts) {
         'e52f32d373b0b38be3800ec9070af883a63c4fd2857c5b0f249180a2c303eb7e')
       assert.equal(k1, '0xe2ceef58b3e5a8816c52b00067830b8e1afd82da')
     })
+    it('should derive the key of the next index', () => {
+      const km = new KeyManager(1, undefined, Buffer.from('seed1234'))
+      assert.equal(km.addKey(), '0xe2ceef58b3e5a8816c52b00067830b8e1afd82da')
+      assert.deepEqual(km.getAddresses(), [mkm.getAddress(0), mkm.getAddress(1)])
+    })
   })
   describe('file-based KeyManager', () => {
     let fkmA: KeyManager
@@ -72,4 +94,99 @@ contract('KeyManager', function (accounts) {
 
     after('remove keystore', cleanFolder)
   })
+  describe('encrypted keystore', () => {
+    const seed = Buffer.from('98bd175008b68dfd5a6aca0584d5a040032f2469656569d5d428161b776d27ff', 'hex')
+
+    it('should decrypt what it encrypted', () => {
+      const keystore = encryptKeystore(seed, 'passphrase', kdfParams)
+      assert.equal(keystore.version, 3)
+      assert.equal(keystore.crypto.kdf, 'scrypt')
+      assert.notInclude(JSON.stringify(keystore), seed.toString('hex'))
+      assert.equal(decryptKeystore(keystore, 'passphrase').toString('hex'), seed.toString('hex'))
+    })
+
+    it('should encrypt with pbkdf2', () => {
+      const keystore = encryptKeystore(seed, 'passphrase', { kdf: 'pbkdf2', c: 1000, prf: 'hmac-sha256', dklen: 32 })
+      assert.equal(decryptKeystore(keystore, 'passphrase').toString('hex'), seed.toString('hex'))
+    })
+
+    it('should be compatible with the v3 keystores of ethereumjs-wallet', async () => {
+      const keystore = encryptKeystore(seed, 'passphrase', kdfParams)
+      const wallet = await Wallet.fromV3(JSON.stringify(keystore), 'passphrase')
+      assert.equal(wallet.getPrivateKey().toString('hex'), seed.toString('hex'))
+
+      const walletKeystore = await Wallet.fromPrivateKey(seed).toV3('passphrase', { n: 1024 })
+      assert.equal(decryptKeystore(walletKeystore as any, 'passphrase').toString('hex'), seed.toString('hex'))
+    })
+
+    it('should reject a wrong passphrase', () => {
+      const keystore = encryptKeystore(seed, 'passphrase', kdfParams)
+      assert.throws(() => decryptKeystore(keystore, 'wrong'), 'Wrong keystore passphrase')
+    })
+
+    describe('file-based KeyManager', () => {
+      beforeEach(cleanFolder)
+
+      it('should write an encrypted keystore and read it back', () => {
+        const fkmA = new KeyManager(2, workdir, undefined, { passphrase: 'passphrase', kdfParams })
+        assert.isTrue(isEncryptedKeystore(readKeystore()))
+        const fkmB = new KeyManager(2, workdir, undefined, { passphrase: 'passphrase' })
+        assert.deepEqual(fkmB.getAddresses(), fkmA.getAddresses())
+      })
+
+      it('should not read an encrypted keystore without its passphrase', () => {
+        // eslint-disable-next-line no-new
+        new KeyManager(1, workdir, undefined, { passphrase: 'passphrase', kdfParams })
+        assert.throws(() => new KeyManager(1, workdir), 'is encrypted, its passphrase is needed')
+        assert.throws(() => new KeyManager(1, workdir, undefined, { passphrase: 'wrong' }), 'Wrong keystore passphrase')
+      })
+
+      it('should encrypt a plaintext keystore in place', () => {
+        const plaintext = new KeyManager(2, workdir)
+        assert.isFalse(isEncryptedKeystore(readKeystore()))
+        const encrypted = new KeyManager(2, workdir, undefined, { passphrase: 'passphrase', kdfParams })
+        assert.isTrue(isEncryptedKeystore(readKeystore()))
+        assert.deepEqual(encrypted.getAddresses(), plaintext.getAddresses())
+      })
+
+      it('should change the passphrase of a keystore', () => {
+        const fkmA = new KeyManager(2, workdir, undefined, { passphrase: 'old', kdfParams })
+        assert.throws(() => changeKeystorePassphrase(keyStoreFilePath, 'wrong', { passphrase: 'new', kdfParams }), 'Wrong keystore passphrase')
+        changeKeystorePassphrase(keyStoreFilePath, 'old', { passphrase: 'new', kdfParams })
+        assert.throws(() => new KeyManager(2, workdir, undefined, { passphrase: 'old' }), 'Wrong keystore passphrase')
+        const fkmB = new KeyManager(2, workdir, undefined, { passphrase: 'new' })
+        assert.deepEqual(fkmB.getAddresses(), fkmA.getAddresses())
+      })
+
+      after('remove keystore', cleanFolder)
+    })
+
+    describe('#readKeystorePassphrase()', () => {
+      const passphraseFile = '/tmp/enveloping/test/keystore_passphrase'
+
+      before(() => {
+        fs.mkdirSync('/tmp/enveloping/test', { recursive: true })
+        fs.writeFileSync(passphraseFile, 'from file\n')
+      })
+
+      it('should read the passphrase from the environment first', async () => {
+        const passphrase = await readKeystorePassphrase(
+          { keystorePassphraseFile: passphraseFile, keystorePassphrasePrompt: false },
+          { [KEYSTORE_PASSPHRASE_ENV]: 'from env' })
+        assert.equal(passphrase, 'from env')
+      })
+
+      it('should read the passphrase from the file without its trailing newline', async () => {
+        const passphrase = await readKeystorePassphrase({ keystorePassphraseFile: passphraseFile, keystorePassphrasePrompt: false }, {})
+        assert.equal(passphrase, 'from file')
+      })
+
+      it('should return undefined when no passphrase is set', async () => {
+        const passphrase = await readKeystorePassphrase({ keystorePassphraseFile: '', keystorePassphrasePrompt: false }, {})
+        assert.isUndefined(passphrase)
+      })
+
+      after(() => fs.unlinkSync(passphraseFile))
+    })
+  })
 })
@@ -0,0 +1,148 @@
+import fs from 'fs'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+
+import { ServerAction, StoredTransaction } from '../src/relayserver/StoredTransaction'
+import { copyTxStore, TxStore } from '../src/relayserver/TxStore'
+import { TxStoreManager } from '../src/relayserver/TxStoreManager'
+import { MemoryTxStore } from '../src/relayserver/MemoryTxStore'
+import { SqliteTxStore, TXSTORE_SQLITE_FILENAME } from '../src/relayserver/SqliteTxStore'
+
+const { expect, assert } = chai.use(chaiAsPromised)
+
+// NOTICE: this dir is removed in 'after', do not use this in any other test
+const workdir = '/tmp/enveloping/test/txstore'
+
+const signer = '0x' + 'aA'.repeat(20)
+const otherSigner = '0x' + 'bb'.repeat(20)
+const hub = '0x' + 'cc'.repeat(20)
+
+function storedTx (nonce: number, fields: Partial<StoredTransaction> = {}): StoredTransaction {
+  return {
+    from: signer,
+    to: hub,
+    gas: 100000,
+    gasPrice: 60,
+    data: '0x1234',
+    nonce,
+    txId: `0x${nonce.toString().padStart(64, '0')}`,
+    serverAction: ServerAction.RELAY_CALL,
+    creationBlockNumber: 10,
+    attempts: 1,
+    ...fields
+  }
+}
+
+contract('TxStore', function () {
+  const backends: Record<string, () => TxStore> = {
+    memory: () => new MemoryTxStore(),
+    nedb: () => new TxStoreManager({ inMemory: true }),
+    sqlite: () => new SqliteTxStore({ inMemory: true })
+  }
+
+  Object.entries(backends).forEach(([backend, createTxStore]) => {
+    describe(backend, function () {
+      let txStore: TxStore
+
+      beforeEach(function () {
+        txStore = createTxStore()
+      })
+
+      it('should get the transactions by signer and nonce, ordered by nonce', async function () {
+        await txStore.putTx(storedTx(3))
+        await txStore.putTx(storedTx(1))
+        await txStore.putTx(storedTx(2, { from: otherSigner }))
+        assert.deepEqual((await txStore.getAll()).map(it => it.nonce), [1, 2, 3])
+        assert.deepEqual((await txStore.getAllBySigner(signer.toUpperCase().replace('0X', '0x'))).map(it => it.nonce), [1, 3])
+        assert.deepEqual((await txStore.getTxsUntilNonce(signer, 2)).map(it => it.nonce), [1])
+        assert.equal((await txStore.getTxByNonce(signer, 3)).txId, storedTx(3).txId)
+        assert.deepInclude(await txStore.getTxById(storedTx(1).txId.toUpperCase().replace('0X', '0x')), { nonceSigner: { nonce: 1, signer: signer.toLowerCase() } })
+        assert.isNull(await txStore.getTxByNonce(signer, 2))
+      })
+
+      it('should update the transaction of the same nonce only if asked to', async function () {
+        await txStore.putTx(storedTx(1, { relayRequestHash: '0xabcd' }))
+        await expect(txStore.putTx(storedTx(1, { txId: '0x01' }))).to.be.rejectedWith('violates the unique constraint')
+        await txStore.putTx(storedTx(1, { txId: '0x02', attempts: 2, minedBlockNumber: 12 }), true)
+        const tx = await txStore.getTxByNonce(signer, 1)
+        assert.deepInclude(tx, { txId: '0x02', attempts: 2, minedBlockNumber: 12, relayRequestHash: '0xabcd' })
+        assert.equal((await txStore.getAll()).length, 1)
+      })
+
+      it('should find a transaction by the ids it replaced and by relay request hash', async function () {
+        await txStore.putTx(storedTx(1, {
+          txId: '0x03',
+          attempts: 2,
+          relayRequestHash: '0xabcdef',
+          boostHistory: [{ oldTxId: '0x01', newTxId: '0x03', oldGasPrice: 1, newGasPrice: 2, blockNumber: 10 }]
+        }))
+        assert.equal((await txStore.getTxByIdOrReplacedId('0x01'))?.txId, '0x03')
+        assert.equal((await txStore.getTxByIdOrReplacedId('0x03'))?.txId, '0x03')
+        assert.isNull(await txStore.getTxByIdOrReplacedId('0x02'))
+        assert.equal((await txStore.getTxByRelayRequestHash('0xABCDEF'))?.txId, '0x03')
+        assert.isNull(await txStore.getTxByRelayRequestHash('0x1234'))
+      })
+
+      it('should remove the transactions of a signer until a nonce', async function () {
+        await txStore.putTx(storedTx(1, { boostHistory: [{ oldTxId: '0x01', newTxId: storedTx(1).txId, oldGasPrice: 1, newGasPrice: 2, blockNumber: 10 }] }))
+        await txStore.putTx(storedTx(2))
+        await txStore.putTx(storedTx(3))
+        await txStore.putTx(storedTx(1, { from: otherSigner, txId: '0x04' }))
+        await txStore.removeTxsUntilNonce(signer, 2)
+        assert.deepEqual((await txStore.getAllBySigner(signer)).map(it => it.nonce), [3])
+        assert.equal((await txStore.getAllBySigner(otherSigner)).length, 1)
+        assert.isNull(await txStore.getTxByIdOrReplacedId('0x01'))
+        await txStore.clearAll()
+        assert.deepEqual(await txStore.getAll(), [])
+      })
+
+      it('should tell whether an action is pending', async function () {
+        await txStore.putTx(storedTx(1, { serverAction: ServerAction.ADD_WORKER, minedBlockNumber: 11 }))
+        assert.isFalse(await txStore.isActionPending(ServerAction.ADD_WORKER))
+        await txStore.putTx(storedTx(2, { serverAction: ServerAction.ADD_WORKER }))
+        assert.isTrue(await txStore.isActionPending(ServerAction.ADD_WORKER))
+        assert.isTrue(await txStore.isActionPending(ServerAction.ADD_WORKER, hub.toUpperCase().replace('0X', '0x')))
+        assert.isFalse(await txStore.isActionPending(ServerAction.ADD_WORKER, otherSigner))
+        assert.isFalse(await txStore.isActionPending(ServerAction.REGISTER_SERVER))
+      })
+
+      it('should return copies of the transactions', async function () {
+        await txStore.putTx(storedTx(1))
+        const tx: any = await txStore.getTxByNonce(signer, 1)
+        tx.attempts = 5
+        assert.equal((await txStore.getTxByNonce(signer, 1)).attempts, 1)
+      })
+    })
+  })
+
+  describe('SqliteTxStore', function () {
+    after(function () {
+      fs.rmdirSync(workdir, { recursive: true })
+    })
+
+    it('should keep the transactions in the workdir', async function () {
+      let txStore = new SqliteTxStore({ workdir })
+      await txStore.putTx(storedTx(1))
+      txStore.close()
+      assert.isTrue(fs.existsSync(`${workdir}/${TXSTORE_SQLITE_FILENAME}`))
+      txStore = new SqliteTxStore({ workdir })
+      assert.equal((await txStore.getTxByNonce(signer, 1)).txId, storedTx(1).txId)
+      txStore.close()
+    })
+  })
+
+  describe('#copyTxStore()', function () {
+    it('should copy all the transactions of a nedb store', async function () {
+      const from = new TxStoreManager({ inMemory: true })
+      await from.putTx(storedTx(1, { minedBlockNumber: 12 }))
+      await from.putTx(storedTx(2, { boostHistory: [{ oldTxId: '0x01', newTxId: storedTx(2).txId, oldGasPrice: 1, newGasPrice: 2, blockNumber: 10 }] }))
+      const to = new SqliteTxStore({ inMemory: true })
+      assert.equal(await copyTxStore(from, to), 2)
+      const copied = await to.getAll()
+      assert.deepEqual(copied.map(it => it.nonce), [1, 2])
+      assert.notProperty(copied[0], '_id')
+      assert.equal(copied[0].minedBlockNumber, 12)
+      assert.equal((await to.getTxByIdOrReplacedId('0x01'))?.nonce, 2)
+    })
+  })
+})
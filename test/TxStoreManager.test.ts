@@ -127,5 +127,26 @@ contract('TxStoreManager', function (accounts) {
     assert.deepEqual(1, (await txmanager.getAll()).length)
   })
 
+  it('should find a tx by the id of an attempt it replaced', async function () {
+    await txmanager.clearAll()
+    const boostedTx: StoredTransaction = {
+      ...tx,
+      txId: '0xbbb',
+      attempts: 2,
+      boostHistory: [{ oldTxId: '0xaaa', newTxId: '0xbbb', oldGasPrice: 1, newGasPrice: 2, blockNumber: 10 }]
+    }
+    await txmanager.putTx(boostedTx)
+    assert.equal((await txmanager.getTxByIdOrReplacedId('0xAAA'))?.txId, '0xbbb')
+    assert.equal((await txmanager.getTxByIdOrReplacedId('0xbbb'))?.txId, '0xbbb')
+    assert.isNull(await txmanager.getTxByIdOrReplacedId('0xccc'))
+  })
+
+  it('should find a tx by relay request hash', async function () {
+    await txmanager.clearAll()
+    await txmanager.putTx({ ...tx, relayRequestHash: '0xabcdef' })
+    assert.equal((await txmanager.getTxByRelayRequestHash('0xABCDEF'))?.txId, tx.txId)
+    assert.isNull(await txmanager.getTxByRelayRequestHash('0x123456'))
+  })
+
   after('remove txstore', cleanFolder)
 })
@@ -0,0 +1,94 @@
+import chai from 'chai'
+import chalk from 'chalk'
+import log from 'loglevel'
+
+import {
+  ContextLogger,
+  formatJsonLine,
+  generateCorrelationId,
+  isValidCorrelationId,
+  setLogFormat
+} from '../../src/common/Logging'
+
+const { assert } = chai
+
+contract('Logging', function () {
+  describe('formatJsonLine', function () {
+    before(function () {
+      setLogFormat('json')
+    })
+
+    after(function () {
+      setLogFormat('pretty')
+    })
+
+    it('should write the message, level and context fields as one JSON object', function () {
+      const line = formatJsonLine('info', ['relay request accepted:', { gas: 5 }, new ContextLogger({ correlationId: 'abc' })._fields({ nonce: 3 })])
+      assert.notInclude(line, '\n')
+      const parsed = JSON.parse(line)
+      assert.equal(parsed.level, 'info')
+      assert.equal(parsed.message, 'relay request accepted: {"gas":5}')
+      assert.equal(parsed.correlationId, 'abc')
+      assert.equal(parsed.nonce, 3)
+      assert.isString(parsed.timestamp)
+    })
+
+    it('should remove the colors and keep the stack of errors', function () {
+      const error = new Error('boom')
+      const parsed = JSON.parse(formatJsonLine('error', [chalk.red('failed:'), error]))
+      assert.equal(parsed.message, 'failed: boom')
+      assert.equal(parsed.stack, error.stack)
+    })
+  })
+
+  describe('setLogFormat', function () {
+    let lines: string[]
+    let originalInfo: typeof console.info
+    let level: log.LogLevelNumbers
+
+    beforeEach(function () {
+      lines = []
+      originalInfo = console.info
+      level = log.getLevel()
+      console.info = (...args: any[]) => { lines.push(args.join(' ')) }
+      log.setLevel('info', false)
+    })
+
+    afterEach(function () {
+      console.info = originalInfo
+      setLogFormat('pretty')
+      log.setLevel(level, false)
+    })
+
+    it('should log JSON lines with the context of a ContextLogger', function () {
+      setLogFormat('json', 'RelayServer')
+      const logger = new ContextLogger({ component: 'TransactionManager', correlationId: 'abc' })
+      logger.child({ worker: '0x1' }).info('Broadcasting transaction', { nonce: 4, phase: 'broadcast' })
+      log.info('plain message')
+      assert.equal(lines.length, 2)
+      assert.deepInclude(JSON.parse(lines[0]), {
+        component: 'TransactionManager',
+        correlationId: 'abc',
+        worker: '0x1',
+        nonce: 4,
+        phase: 'broadcast',
+        message: 'Broadcasting transaction'
+      })
+      assert.deepInclude(JSON.parse(lines[1]), { component: 'RelayServer', message: 'plain message' })
+    })
+
+    it('should keep plain messages in the pretty format, with the fields appended', function () {
+      setLogFormat('pretty')
+      new ContextLogger({ correlationId: 'abc' }).info('relay request accepted', { nonce: 4 })
+      assert.deepEqual(lines, ['relay request accepted [correlationId=abc nonce=4]'])
+    })
+  })
+
+  it('should only take short correlation IDs of safe characters', function () {
+    assert.isTrue(isValidCorrelationId(generateCorrelationId()))
+    assert.isTrue(isValidCorrelationId('client-42_a'))
+    assert.isFalse(isValidCorrelationId('a\nb'))
+    assert.isFalse(isValidCorrelationId('a'.repeat(65)))
+    assert.isFalse(isValidCorrelationId(undefined))
+  })
+})
@@ -0,0 +1,94 @@
+import { KeyManager } from '../../src/relayserver/KeyManager'
+import TypedRelayCommitmentData, { RELAY_COMMITMENT_VERSION, RelayCommitment, SignedRelayCommitment } from '../../src/common/EIP712/RelayCommitment'
+import { getRelayRequestHash } from '../../src/common/EIP712/TypedRequestData'
+import RelayedTransactionValidator from '../../src/relayclient/RelayedTransactionValidator'
+import { configure } from '../../src/relayclient/Configurator'
+import { RelayTransactionRequest } from '../../src/relayclient/types/RelayTransactionRequest'
+import ContractInteractor from '../../src/common/ContractInteractor'
+
+contract('RelayCommitment', function () {
+  const chainId = 33
+  const relayHub = '0x' + '1'.repeat(40)
+  const relayWorker = '0x' + '2'.repeat(40)
+  const managerKeyManager = new KeyManager(1, undefined, Buffer.from('commitment'))
+  const relayManager = managerKeyManager.getAddress(0)
+  const validator = new RelayedTransactionValidator({} as any as ContractInteractor, configure({ chainId, relayHubAddress: relayHub }))
+
+  const request: RelayTransactionRequest = {
+    relayRequest: {
+      request: {
+        relayHub,
+        from: '0x' + '3'.repeat(40),
+        to: '0x' + '4'.repeat(40),
+        tokenContract: '0x' + '5'.repeat(40),
+        value: '0',
+        gas: '100000',
+        nonce: '1',
+        tokenAmount: '10',
+        tokenGas: '50000',
+        data: '0x'
+      },
+      relayData: {
+        gasPrice: '60000000',
+        domainSeparator: '0x' + '0'.repeat(64),
+        relayWorker,
+        callForwarder: '0x' + '6'.repeat(40),
+        callVerifier: '0x' + '7'.repeat(40)
+      }
+    },
+    metadata: {
+      relayHubAddress: relayHub,
+      relayMaxNonce: 5,
+      signature: '0x'
+    }
+  }
+
+  function sign (overrides: Partial<RelayCommitment> = {}): SignedRelayCommitment {
+    const commitment: RelayCommitment = {
+      relayRequestHash: getRelayRequestHash(chainId, request.relayRequest),
+      relayHub,
+      relayManager,
+      relayWorker,
+      maxGas: '200000',
+      gasPrice: request.relayRequest.relayData.gasPrice,
+      relayMaxNonce: request.metadata.relayMaxNonce,
+      deadline: Math.floor(Date.now() / 1000) + 600,
+      ...overrides
+    }
+    const signature = managerKeyManager.signTypedData(relayManager, new TypedRelayCommitmentData(chainId, commitment))
+    return { version: RELAY_COMMITMENT_VERSION, commitment, signature }
+  }
+
+  it('should accept a commitment signed by the relay manager for the request', function () {
+    assert.isUndefined(validator.validateRelayCommitment(request, sign(), relayManager))
+  })
+
+  it('should reject a commitment not signed by the relay manager', function () {
+    const otherManager = '0x' + '8'.repeat(40)
+    assert.include(validator.validateRelayCommitment(request, sign(), otherManager), 'not signed by relay manager')
+  })
+
+  it('should reject a commitment altered after signing', function () {
+    const signedCommitment = sign()
+    signedCommitment.commitment.maxGas = '1'
+    assert.include(validator.validateRelayCommitment(request, signedCommitment, relayManager), 'not signed by relay manager')
+  })
+
+  it('should reject a commitment for another request', function () {
+    const otherRequest = { ...request, relayRequest: { ...request.relayRequest, request: { ...request.relayRequest.request, nonce: '2' } } }
+    assert.include(validator.validateRelayCommitment(otherRequest, sign(), relayManager), 'commitment is for request')
+  })
+
+  it('should reject a commitment with a higher nonce ceiling than requested', function () {
+    assert.include(validator.validateRelayCommitment(request, sign({ relayMaxNonce: 6 }), relayManager), 'nonce ceiling')
+  })
+
+  it('should reject an expired commitment', function () {
+    assert.include(validator.validateRelayCommitment(request, sign({ deadline: 1 }), relayManager), 'commitment expired')
+  })
+
+  it('should reject an unknown commitment version', function () {
+    const signedCommitment = { ...sign(), version: '0' }
+    assert.include(validator.validateRelayCommitment(request, signedCommitment, relayManager), 'unsupported commitment version 0')
+  })
+})
@@ -1,5 +1,4 @@
-import { PrefixedHexString } from 'ethereumjs-tx'
-import HttpClient from '../../src/relayclient/HttpClient'
+import HttpClient, { RelayTransactionResponse } from '../../src/relayclient/HttpClient'
 import HttpWrapper from '../../src/relayclient/HttpWrapper'
 import PingResponse from '../../src/common/PingResponse'
 import { RelayTransactionRequest } from '../../src/relayclient/types/RelayTransactionRequest'
@@ -33,7 +32,7 @@ export default class BadHttpClient extends HttpClient {
     return await super.getPingResponse(relayUrl, verifier)
   }
 
-  async relayTransaction (relayUrl: string, request: RelayTransactionRequest): Promise<PrefixedHexString> {
+  async relayTransaction (relayUrl: string, request: RelayTransactionRequest): Promise<RelayTransactionResponse> {
     if (this.failRelay) {
       throw new Error(BadHttpClient.message)
     }
@@ -41,7 +40,7 @@ export default class BadHttpClient extends HttpClient {
       throw new Error('some error describing how timeout occurred somewhere')
     }
     if (this.stubRelay != null) {
-      return this.stubRelay
+      return { signedTx: this.stubRelay }
     }
     return await super.relayTransaction(relayUrl, request)
   }
@@ -27,6 +27,7 @@ export default class BadRelayClient extends RelayClient {
     if (this.returnUndefindedTransaction) {
       return {
         transaction: undefined,
+        correlationId: 'bad-relay-client',
         pingErrors: new Map<string, Error>(),
         relayingErrors: new Map<string, Error>()
       }
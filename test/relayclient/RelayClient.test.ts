@@ -34,7 +34,7 @@ import { RelayEvent } from '../../src/relayclient/RelayEvents'
 import { Web3Provider } from '../../src/common/ContractInteractor'
 import bodyParser from 'body-parser'
 import { Server } from 'http'
-import HttpClient from '../../src/relayclient/HttpClient'
+import HttpClient, { RelayTransactionResponse } from '../../src/relayclient/HttpClient'
 import HttpWrapper from '../../src/relayclient/HttpWrapper'
 import { RelayTransactionRequest } from '../../src/relayclient/types/RelayTransactionRequest'
 import { AccountKeypair } from '../../src/relayclient/AccountManager'
@@ -68,7 +68,7 @@ class MockHttpClient extends HttpClient {
     super(httpWrapper, config)
   }
 
-  async relayTransaction (relayUrl: string, request: RelayTransactionRequest): Promise<PrefixedHexString> {
+  async relayTransaction (relayUrl: string, request: RelayTransactionRequest): Promise<RelayTransactionResponse> {
     return await super.relayTransaction(this.mapUrl(relayUrl), request)
   }
 
@@ -783,6 +783,17 @@ gasOptions.forEach(gasOption => {
       })
     })
 
+    describe('#estimateWithRelay()', function () {
+      it('should get the gas and fee the relay requires for an unsigned request', async function () {
+        const estimate = await relayClient.estimateWithRelay({ ...options, tokenGas: undefined })
+        assert.equal(estimate.relayUrl, 'http://localhost:8090')
+        assert.isFalse(estimate.exact)
+        assert.isAbove(parseInt(estimate.estimatedDestinationGas), 0)
+        assert.isAbove(parseInt(estimate.estimatedTokenGas), 0)
+        assert.isAtLeast(parseInt(estimate.maxPossibleGas), parseInt(estimate.estimatedDestinationGas) + parseInt(estimate.estimatedTokenGas))
+      })
+    })
+
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     describe('#_calculateDefaultGasPrice()', function () {
       it('should use minimum gas price if calculated is to low', async function () {
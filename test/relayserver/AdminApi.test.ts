@@ -0,0 +1,241 @@
+import { EventEmitter } from 'events'
+import fs from 'fs'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import axios from 'axios'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+
+import { AdminApi, AdminAuditLog, AdminAuthenticationError, signAdminRequest } from '../../src/relayserver/AdminApi'
+import { AcceptanceState, RelayServer } from '../../src/relayserver/RelayServer'
+import { HttpServer } from '../../src/relayserver/HttpServer'
+
+const { expect, assert } = chai.use(chaiAsPromised)
+
+contract('AdminApi', function () {
+  const adminToken = 'token'
+  const adminHmacSecret = 'secret'
+  let api: AdminApi
+  let backend: any
+
+  beforeEach(function () {
+    const trustedVerifiers = new Set<string>()
+    backend = {
+      config: { adminToken, adminHmacSecret, workdir: '' },
+      acceptanceState: 'accepting',
+      gasPrice: 60,
+      isReady: () => true,
+      setAcceptanceState: (state: AcceptanceState) => { backend.acceptanceState = state },
+      txStoreManager: { getAll: async () => [{ txId: '0x1' }] },
+      transactionManager: { transactionArchive: { query: async (query: any) => [query] } },
+      replenishWorkers: async (workerIndex?: number) => workerIndex == null ? ['0x2', '0x3'] : ['0x2'],
+      rotateWorker: async (workerIndex: number) => ({ oldWorkerIndex: workerIndex, newWorkerIndex: 2, state: 'funding' }),
+      addTrustedVerifier: (verifier: string, relayHub?: string) => trustedVerifiers.add(relayHub == null ? verifier : `${relayHub}:${verifier}`),
+      removeTrustedVerifier: (verifier: string, relayHub?: string) => trustedVerifiers.delete(relayHub == null ? verifier : `${relayHub}:${verifier}`),
+      verifierHandler: async () => ({ trustedVerifiers: Array.from(trustedVerifiers) })
+    }
+    api = new AdminApi(backend as RelayServer, new AdminAuditLog())
+  })
+
+  describe('#authenticate()', function () {
+    const url = '/admin/pause'
+    const now = 1600000000000
+    const timestamp = now / 1000
+
+    it('should accept the bearer token', function () {
+      assert.equal(api.authenticate({ headers: { authorization: `Bearer ${adminToken}` }, method: 'POST', url }), 'bearer')
+    })
+
+    it('should reject a wrong bearer token', function () {
+      assert.throws(() => api.authenticate({ headers: { authorization: 'Bearer tokem' }, method: 'POST', url }), AdminAuthenticationError, 'Invalid bearer token')
+    })
+
+    it('should accept an HMAC signature of the request', function () {
+      const body = '{"workerIndex":1}'
+      const signature = signAdminRequest(adminHmacSecret, timestamp, 'n1', 'post', '/admin/replenish', body)
+      const headers = { 'x-admin-timestamp': timestamp.toString(), 'x-admin-nonce': 'n1', 'x-admin-signature': signature }
+      assert.throws(() => api.authenticate({ headers, method: 'POST', url: '/admin/replenish', rawBody: Buffer.from('{"workerIndex":0}') }, now),
+        'Invalid request signature')
+      assert.throws(() => api.authenticate({ headers: { ...headers, 'x-admin-nonce': 'n2' }, method: 'POST', url: '/admin/replenish', rawBody: Buffer.from(body) }, now),
+        'Invalid request signature')
+      assert.equal(api.authenticate({ headers, method: 'POST', url: '/admin/replenish', rawBody: Buffer.from(body) }, now), 'hmac')
+    })
+
+    it('should reject HMAC signatures with a timestamp that is not a number', function () {
+      const signature = signAdminRequest(adminHmacSecret, NaN, 'n1', 'POST', url)
+      const headers = { 'x-admin-timestamp': 'soon', 'x-admin-nonce': 'n1', 'x-admin-signature': signature }
+      assert.throws(() => api.authenticate({ headers, method: 'POST', url }, now), 'Invalid request timestamp')
+    })
+
+    it('should reject HMAC signatures with an old timestamp', function () {
+      const signature = signAdminRequest(adminHmacSecret, timestamp, 'n1', 'POST', url)
+      const headers = { 'x-admin-timestamp': timestamp.toString(), 'x-admin-nonce': 'n1', 'x-admin-signature': signature }
+      assert.throws(() => api.authenticate({ headers, method: 'POST', url }, now + 301000), 'too far from the server time')
+    })
+
+    it('should reject replayed HMAC signed requests', function () {
+      const sign = (nonce?: string): any => ({
+        'x-admin-timestamp': timestamp.toString(),
+        'x-admin-nonce': nonce,
+        'x-admin-signature': signAdminRequest(adminHmacSecret, timestamp, nonce ?? '', 'POST', url)
+      })
+      assert.throws(() => api.authenticate({ headers: sign(), method: 'POST', url }, now), 'Missing request nonce')
+      assert.equal(api.authenticate({ headers: sign('n1'), method: 'POST', url }, now), 'hmac')
+      assert.throws(() => api.authenticate({ headers: sign('n1'), method: 'POST', url }, now + 299000), 'nonce was already used')
+      assert.equal(api.authenticate({ headers: sign('n2'), method: 'POST', url }, now + 299000), 'hmac')
+    })
+
+    it('should reject requests without credentials, or with credentials not configured', function () {
+      assert.throws(() => api.authenticate({ headers: {}, method: 'GET', url: '/admin/state' }), 'Missing admin credentials')
+      backend.config.adminToken = ''
+      assert.throws(() => api.authenticate({ headers: { authorization: 'Bearer ' }, method: 'GET', url: '/admin/state' }), 'Missing admin credentials')
+    })
+  })
+
+  describe('#run()', function () {
+    it('should pause, drain and resume the acceptance of requests', async function () {
+      assert.equal((await api.run('pause', {})).acceptanceState, 'paused')
+      const drainState = await api.run('drain', {})
+      assert.deepInclude(drainState, { acceptanceState: 'draining', pendingTransactions: 1, drained: false })
+      assert.equal((await api.run('resume', {})).acceptanceState, 'accepting')
+    })
+
+    it('should add and remove trusted verifiers', async function () {
+      const verifier = '0x' + 'a'.repeat(40)
+      assert.deepEqual(await api.run('addVerifier', { address: verifier }), { trustedVerifiers: [verifier] })
+      assert.deepEqual(await api.run('removeVerifier', { address: verifier }), { trustedVerifiers: [] })
+      await expect(api.run('removeVerifier', { address: verifier })).to.be.rejectedWith('is not trusted')
+    })
+
+    it('should trust verifiers for the given relay hub', async function () {
+      const verifier = '0x' + 'a'.repeat(40)
+      const relayHub = '0x' + 'b'.repeat(40)
+      assert.deepEqual(await api.run('addVerifier', { address: verifier, relayHub }), { trustedVerifiers: [`${relayHub}:${verifier}`] })
+      await expect(api.run('removeVerifier', { address: verifier })).to.be.rejectedWith('is not trusted')
+      assert.deepEqual(await api.run('removeVerifier', { address: verifier, relayHub }), { trustedVerifiers: [] })
+    })
+
+    it('should pass the worker index to replenish', async function () {
+      assert.deepEqual(await api.run('replenish', { workerIndex: 1 }), { transactionHashes: ['0x2'] })
+      assert.deepEqual(await api.run('replenish', {}), { transactionHashes: ['0x2', '0x3'] })
+    })
+
+    it('should only withdraw the stake when asked to unstake', async function () {
+      backend.withdrawFromHub = async (relayHub?: string) => relayHub ?? '0x4'
+      await expect(api.run('withdraw', {})).to.be.rejectedWith('send {"confirm": "unstake"}')
+      await expect(api.run('withdraw', { confirm: 'yes' })).to.be.rejectedWith('send {"confirm": "unstake"}')
+      assert.deepEqual(await api.run('withdraw', { confirm: 'unstake' }), { transactionHash: '0x4' })
+      assert.deepEqual(await api.run('withdraw', { confirm: 'unstake', relayHub: '0x5' }), { transactionHash: '0x5' })
+    })
+
+    it('should pass the worker index to rotateWorker', async function () {
+      assert.deepEqual(await api.run('rotateWorker', { workerIndex: 0 }), { rotation: { oldWorkerIndex: 0, newWorkerIndex: 2, state: 'funding' } })
+      await expect(api.run('rotateWorker', {})).to.be.rejectedWith('Invalid params')
+    })
+
+    it('should convert the query of the transaction archive', async function () {
+      assert.deepEqual(await api.run('txArchive', { signer: '0x4', serverAction: 'VALUE_TRANSFER', fromBlock: '10', limit: '5' }), {
+        transactions: [{ signer: '0x4', destination: undefined, serverAction: 3, fromBlock: 10, toBlock: undefined, limit: 5 }]
+      })
+      await expect(api.run('txArchive', { serverAction: 'SELF_DESTRUCT' })).to.be.rejectedWith('Invalid params')
+      backend.transactionManager.transactionArchive = undefined
+      await expect(api.run('txArchive', {})).to.be.rejectedWith('The transaction archive is not enabled')
+    })
+
+    it('should reject invalid params and unknown actions', async function () {
+      await expect(api.run('pause', { force: true })).to.be.rejectedWith('Invalid params')
+      await expect(api.run('replenish', { workerIndex: '1' })).to.be.rejectedWith('Invalid params')
+      await expect(api.run('selfDestruct', {})).to.be.rejectedWith('Unknown admin action selfDestruct')
+    })
+
+    it('should record every action in the audit log', async function () {
+      await api.run('txStore', {}, 'bearer', '10.0.0.1')
+      await expect(api.run('removeVerifier', { address: '0x1' })).to.be.rejected
+      api.recordAuthenticationFailure('pause', 'Invalid bearer token', '10.0.0.2')
+      const entries = api.auditLog.getEntries()
+      assert.deepInclude(entries[0], { action: 'txStore', params: {}, clientIp: '10.0.0.1', authMethod: 'bearer', success: true })
+      assert.deepInclude(entries[1], { action: 'removeVerifier', success: false, error: 'Verifier 0x1 is not trusted' })
+      assert.deepInclude(entries[2], { action: 'pause', clientIp: '10.0.0.2', success: false, error: 'Invalid bearer token' })
+    })
+  })
+
+  describe('AdminAuditLog', function () {
+    it('should append the entries to the file and read them back', function () {
+      const fileName = path.join(os.tmpdir(), `admin-audit-${Date.now()}.log`)
+      try {
+        const auditLog = new AdminAuditLog(fileName, 2)
+        for (const action of ['pause', 'drain', 'resume']) {
+          auditLog.record({ timestamp: new Date().toISOString(), action, params: {}, success: true })
+        }
+        assert.deepEqual(auditLog.getEntries().map(it => it.action), ['drain', 'resume'])
+        assert.equal(fs.readFileSync(fileName, 'utf8').split('\n').length, 4)
+        assert.deepEqual(new AdminAuditLog(fileName, 2).getEntries(), auditLog.getEntries())
+      } finally {
+        fs.unlinkSync(fileName)
+      }
+    })
+
+    it('should keep the authentication failures in memory only', function () {
+      const fileName = path.join(os.tmpdir(), `admin-audit-${Date.now()}.log`)
+      try {
+        api = new AdminApi(backend as RelayServer, new AdminAuditLog(fileName))
+        api.recordAuthenticationFailure('pause', 'Invalid bearer token', '10.0.0.2')
+        assert.equal(api.auditLog.getEntries().length, 1)
+        assert.isFalse(fs.existsSync(fileName))
+      } finally {
+        if (fs.existsSync(fileName)) {
+          fs.unlinkSync(fileName)
+        }
+      }
+    })
+
+    it('should skip the malformed lines of the file', function () {
+      const fileName = path.join(os.tmpdir(), `admin-audit-${Date.now()}.log`)
+      try {
+        const entry = { timestamp: new Date().toISOString(), action: 'pause', params: {}, success: true }
+        fs.writeFileSync(fileName, `${JSON.stringify(entry)}\nnot json\n{"timestamp":`)
+        assert.deepEqual(new AdminAuditLog(fileName).getEntries(), [entry])
+      } finally {
+        fs.unlinkSync(fileName)
+      }
+    })
+  })
+
+  describe('HttpServer', function () {
+    let server: Server
+    let url: string
+
+    beforeEach(async function () {
+      backend.config.txEventsSubscriptionTimeout = 60000
+      backend.withdrawFromHub = async () => '0x4'
+      const httpServer = new HttpServer(0, Object.assign(new EventEmitter(), backend) as RelayServer)
+      server = httpServer.app.listen(0)
+      await new Promise(resolve => server.once('listening', resolve))
+      url = `http://localhost:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(async function () {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should check the HMAC signature over form-encoded bodies', async function () {
+      const body = 'confirm=unstake'
+      const timestamp = Math.floor(Date.now() / 1000)
+      const post = async (nonce: string, signedBody: string): Promise<any> => await axios.post(`${url}/admin/withdraw`, body, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Admin-Timestamp': timestamp.toString(),
+          'X-Admin-Nonce': nonce,
+          'X-Admin-Signature': signAdminRequest(adminHmacSecret, timestamp, nonce, 'POST', '/admin/withdraw', signedBody)
+        },
+        validateStatus: () => true
+      })
+      const unsigned = await post('n1', '')
+      assert.equal(unsigned.status, 401)
+      assert.equal(unsigned.data.error, 'Invalid request signature')
+      assert.deepEqual((await post('n2', body)).data, { transactionHash: '0x4' })
+    })
+  })
+})
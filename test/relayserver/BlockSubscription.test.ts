@@ -0,0 +1,120 @@
+import { AddressInfo } from 'net'
+import WebSocket from 'ws'
+
+import { NewHeadsSubscription, OrderedBlockProcessor } from '../../src/relayserver/BlockSubscription'
+
+const subscriptionId = '0x' + 'a'.repeat(32)
+
+function blockHeader (blockNumber: number): any {
+  return {
+    number: '0x' + blockNumber.toString(16),
+    hash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+    parentHash: '0x' + (blockNumber - 1).toString(16).padStart(64, '0'),
+    miner: '0x' + '1'.repeat(40),
+    gasLimit: '0x6691b7',
+    gasUsed: '0x0',
+    timestamp: '0x5f5e100'
+  }
+}
+
+async function waitFor (condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+contract('BlockSubscription', function () {
+  describe('OrderedBlockProcessor', function () {
+    let processed: number[]
+    let release: () => void
+    let blocked: Promise<void>
+    let processor: OrderedBlockProcessor
+
+    beforeEach(function () {
+      processed = []
+      blocked = Promise.resolve()
+      processor = new OrderedBlockProcessor(async blockNumber => {
+        await blocked
+        processed.push(blockNumber)
+      })
+    })
+
+    it('should start at the first notified block and catch up with the skipped ones', async function () {
+      await processor.notify(10)
+      await processor.notify(13)
+      await processor.notify(12)
+      assert.deepEqual(processed, [10, 11, 12, 13])
+      assert.equal(processor.lastProcessedBlock, 13)
+    })
+
+    it('should queue the blocks notified while a block is processed', async function () {
+      await processor.notify(5)
+      blocked = new Promise(resolve => { release = resolve })
+      const first = processor.notify(6)
+      const second = processor.notify(7)
+      const third = processor.notify(9)
+      release()
+      await Promise.all([first, second, third])
+      assert.deepEqual(processed, [5, 6, 7, 8, 9])
+    })
+  })
+
+  describe('NewHeadsSubscription', function () {
+    let server: WebSocket.Server
+    let sockets: WebSocket[]
+    let subscription: NewHeadsSubscription
+    let blocks: number[]
+    let connectionChanges: boolean[]
+
+    function push (blockNumber: number): void {
+      sockets.forEach(socket => socket.send(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'eth_subscription',
+        params: { subscription: subscriptionId, result: blockHeader(blockNumber) }
+      })))
+    }
+
+    beforeEach(async function () {
+      sockets = []
+      blocks = []
+      connectionChanges = []
+      server = new WebSocket.Server({ port: 0 })
+      server.on('connection', socket => {
+        socket.on('message', (data: WebSocket.Data) => {
+          const request = JSON.parse(data as string)
+          if (request.method === 'eth_subscribe') {
+            socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: subscriptionId }))
+            sockets.push(socket)
+          }
+        })
+      })
+      await new Promise(resolve => server.once('listening', resolve))
+      subscription = new NewHeadsSubscription(`ws://localhost:${(server.address() as AddressInfo).port}`, 10)
+      subscription.start(blockNumber => blocks.push(blockNumber), connected => connectionChanges.push(connected))
+      await waitFor(() => sockets.length === 1)
+    })
+
+    afterEach(async function () {
+      subscription.stop()
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should notify the numbers of the new blocks', async function () {
+      push(7)
+      push(8)
+      await waitFor(() => blocks.length === 2)
+      assert.deepEqual(blocks, [7, 8])
+      assert.deepEqual(connectionChanges, [true])
+    })
+
+    it('should subscribe again after the connection is lost', async function () {
+      sockets[0].terminate()
+      sockets = []
+      await waitFor(() => sockets.length === 1)
+      assert.deepEqual(connectionChanges, [true, false, true])
+      push(9)
+      await waitFor(() => blocks.length === 1)
+      assert.deepEqual(blocks, [9])
+    })
+  })
+})
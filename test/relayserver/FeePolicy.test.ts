@@ -0,0 +1,68 @@
+import { toBN } from 'web3-utils'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+
+import { FeePolicy, StaticPriceSource } from '../../src/relayserver/FeePolicy'
+import { RelayTransactionRequest } from '../../src/relayclient/types/RelayTransactionRequest'
+
+const { expect, assert } = chai.use(chaiAsPromised)
+
+contract('FeePolicy', function () {
+  const token = '0x' + 'a'.repeat(40)
+  const verifier = '0x' + 'b'.repeat(40)
+  // 2 tokens per RBTC
+  const priceSource = new StaticPriceSource({ [token.toUpperCase().replace('0X', '0x')]: (2e18).toString() })
+
+  function request (tokenAmount: string, tokenContract = token): RelayTransactionRequest {
+    return {
+      relayRequest: {
+        request: { tokenContract, tokenAmount },
+        relayData: { gasPrice: '10', callVerifier: verifier }
+      }
+    } as any as RelayTransactionRequest
+  }
+
+  describe('#computeFee()', function () {
+    it('should convert the gas cost with the exchange rate and add the margin', async function () {
+      const feePolicy = new FeePolicy(priceSource, 50, [])
+      const fee = await feePolicy.computeFee(token, toBN(1000), toBN(10))
+      assert.equal(fee.toString(), '30000')
+    })
+
+    it('should add a fractional margin', async function () {
+      const feePolicy = new FeePolicy(priceSource, 2.5, [])
+      const fee = await feePolicy.computeFee(token, toBN(1000), toBN(10))
+      assert.equal(fee.toString(), '20500')
+    })
+
+    it('should round the fee up', async function () {
+      const feePolicy = new FeePolicy(new StaticPriceSource({ [token]: '3' }), 0, [])
+      const fee = await feePolicy.computeFee(token, toBN(1), toBN(1))
+      assert.equal(fee.toString(), '1')
+    })
+
+    it('should reject tokens without exchange rate', async function () {
+      const feePolicy = new FeePolicy(priceSource, 0, [])
+      await expect(feePolicy.computeFee(verifier, toBN(1), toBN(1))).to.be.rejectedWith(`Token ${verifier} is not accepted as payment`)
+    })
+  })
+
+  describe('#validate()', function () {
+    it('should accept requests paying at least the fee', async function () {
+      const feePolicy = new FeePolicy(priceSource, 0, [])
+      await feePolicy.validate(request('20000'), toBN(1000))
+      await feePolicy.validate(request('0x5000'), toBN(100))
+    })
+
+    it('should reject requests paying less than the fee', async function () {
+      const feePolicy = new FeePolicy(priceSource, 0, [])
+      await expect(feePolicy.validate(request('19999'), toBN(1000)))
+        .to.be.rejectedWith(`Insufficient token fee: offered 19999, required 20000 of token ${token}`)
+    })
+
+    it('should not charge exempt verifiers', async function () {
+      const feePolicy = new FeePolicy(priceSource, 0, [verifier.toUpperCase().replace('0X', '0x')])
+      await feePolicy.validate(request('0'), toBN(1000))
+    })
+  })
+})
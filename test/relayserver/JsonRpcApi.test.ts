@@ -0,0 +1,110 @@
+import { JSON_RPC_SERVER_ERROR, JsonRpcApi } from '../../src/relayserver/JsonRpcApi'
+import { RelayServer } from '../../src/relayserver/RelayServer'
+import RateLimitedError, { JSON_RPC_RATE_LIMITED } from '../../src/common/RateLimitedError'
+
+contract('JsonRpcApi', function () {
+  let api: JsonRpcApi
+  let pingedVerifier: string | undefined
+
+  before(function () {
+    const backend = {
+      pingHandler: async (verifier?: string) => {
+        pingedVerifier = verifier
+        return { ready: true }
+      },
+      verifierHandler: async () => ({ trustedVerifiers: [] }),
+      estimateHandler: async (req: any) => ({ maxPossibleGas: '100000', exact: req.metadata.signature != null }),
+      txStatusHandler: async (txHash: string) => txHash === '0x1' ? { txId: '0x2', status: 'pending' } : undefined,
+      relayRequestStatusHandler: async (relayRequestHash: string) => undefined,
+      createRelayTransaction: async (req: any, clientIp?: string) => {
+        if (clientIp === '10.0.0.1') {
+          throw new RateLimitedError('Rate limit exceeded for ip, retry in 5 seconds', 5)
+        }
+        throw new Error('Wrong hub address')
+      }
+    }
+    api = new JsonRpcApi(backend as any as RelayServer)
+  })
+
+  it('should call the method in the table and return its result', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 1, method: 'relay_ping', params: { verifier: '0x1' } })
+    assert.deepEqual({ ...response }, { jsonrpc: '2.0', id: 1, result: { ready: true } })
+    assert.equal(pingedVerifier, '0x1')
+  })
+
+  it('should not dispatch to backend methods missing from the table', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 2, method: 'pingHandler' })
+    assert.equal(response.error.code, -32601)
+    assert.equal(response.id, 2)
+  })
+
+  it('should reject params not matching the method shape', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 3, method: 'relay_ping', params: { verifier: 1 } })
+    assert.equal(response.error.code, -32602)
+    const sendResponse: any = await api.handle({ jsonrpc: '2.0', id: 4, method: 'relay_send', params: { relayRequest: {} } })
+    assert.equal(sendResponse.error.code, -32602)
+  })
+
+  it('should reject malformed requests', async function () {
+    const response: any = await api.handle({ id: 5, method: 'relay_ping' })
+    assert.equal(response.error.code, -32600)
+    assert.equal(response.id, 5)
+    const emptyBatch: any = await api.handle([])
+    assert.equal(emptyBatch.error.code, -32600)
+  })
+
+  const request = {
+    relayRequest: {
+      request: { relayHub: '', from: '', to: '', value: '', gas: '', nonce: '', data: '', tokenContract: '', tokenAmount: '', tokenGas: '' },
+      relayData: { gasPrice: '', domainSeparator: '', relayWorker: '', callForwarder: '', callVerifier: '' }
+    },
+    metadata: { relayHubAddress: '', relayMaxNonce: 0, signature: '' }
+  }
+
+  it('should report backend failures with a server error code and no stack trace', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 6, method: 'relay_send', params: request })
+    assert.equal(response.error.code, JSON_RPC_SERVER_ERROR)
+    assert.equal(response.error.message, 'Wrong hub address')
+  })
+
+  it('should report rate limited calls with their own error code', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 9, method: 'relay_send', params: request }, '10.0.0.1')
+    assert.equal(response.error.code, JSON_RPC_RATE_LIMITED)
+    assert.deepEqual(response.error.data, { retryAfter: 5 })
+  })
+
+  it('should estimate signed and unsigned requests', async function () {
+    const unsigned: any = await api.handle({
+      jsonrpc: '2.0', id: 13, method: 'relay_estimate', params: { relayRequest: request.relayRequest, metadata: { relayHubAddress: '' } }
+    })
+    assert.deepEqual(unsigned.result, { maxPossibleGas: '100000', exact: false })
+    const signed: any = await api.handle({
+      jsonrpc: '2.0', id: 14, method: 'relay_estimate', params: { relayRequest: request.relayRequest, metadata: { relayHubAddress: '', signature: '0x1' } }
+    })
+    assert.isTrue(signed.result.exact)
+    const invalid: any = await api.handle({ jsonrpc: '2.0', id: 15, method: 'relay_estimate', params: request })
+    assert.equal(invalid.error.code, -32602)
+  })
+
+  it('should look up transaction status by tx hash or relay request hash', async function () {
+    const response: any = await api.handle({ jsonrpc: '2.0', id: 10, method: 'relay_txStatus', params: { txHash: '0x1' } })
+    assert.deepEqual(response.result, { txId: '0x2', status: 'pending' })
+    const unknown: any = await api.handle({ jsonrpc: '2.0', id: 11, method: 'relay_txStatus', params: { relayRequestHash: '0x3' } })
+    assert.isNull(unknown.result)
+    const invalid: any = await api.handle({ jsonrpc: '2.0', id: 12, method: 'relay_txStatus', params: { txHash: '0x1', relayRequestHash: '0x3' } })
+    assert.equal(invalid.error.code, -32602)
+  })
+
+  it('should answer batches in order and skip notifications', async function () {
+    const response: any = await api.handle([
+      { jsonrpc: '2.0', id: 7, method: 'relay_verifiers' },
+      { jsonrpc: '2.0', method: 'relay_ping' },
+      { jsonrpc: '2.0', id: 8, method: 'unknown' }
+    ])
+    assert.equal(response.length, 2)
+    assert.deepEqual(response[0].result, { trustedVerifiers: [] })
+    assert.equal(response[1].id, 8)
+    assert.equal(response[1].error.code, -32601)
+    assert.isUndefined(await api.handle({ jsonrpc: '2.0', method: 'relay_ping' }))
+  })
+})
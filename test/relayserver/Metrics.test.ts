@@ -0,0 +1,79 @@
+import { Counter, Gauge, Histogram, MetricsRegistry, RelayServerMetrics } from '../../src/relayserver/Metrics'
+
+describe('Metrics', function () {
+  context('Counter', function () {
+    it('should count separately for each label set', function () {
+      const counter = new Counter('test_total', 'help')
+      counter.inc({ reason: 'a' })
+      counter.inc({ reason: 'a' })
+      counter.inc({ reason: 'b' }, 3)
+      assert.equal(counter.get({ reason: 'a' }), 2)
+      assert.equal(counter.get({ reason: 'b' }), 3)
+      assert.equal(counter.get({ reason: 'c' }), 0)
+    })
+
+    it('should not be decreased', function () {
+      const counter = new Counter('test_total', 'help')
+      expect(() => counter.inc({}, -1)).to.throw('cannot be decreased')
+    })
+  })
+
+  context('MetricsRegistry', function () {
+    it('should render the text exposition format', function () {
+      const registry = new MetricsRegistry()
+      registry.register(new Counter('requests_total', 'Requests')).inc({ verifier: '0xabc' }, 2)
+      registry.register(new Gauge('ready', 'Readiness')).set(1)
+      const histogram = registry.register(new Histogram('round_seconds', 'Rounds', [1, 5]))
+      histogram.observe(0.5)
+      histogram.observe(3)
+      assert.equal(registry.render(), [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{verifier="0xabc"} 2',
+        '# HELP ready Readiness',
+        '# TYPE ready gauge',
+        'ready 1',
+        '# HELP round_seconds Rounds',
+        '# TYPE round_seconds histogram',
+        'round_seconds_bucket{le="1"} 1',
+        'round_seconds_bucket{le="5"} 2',
+        'round_seconds_bucket{le="+Inf"} 2',
+        'round_seconds_sum 3.5',
+        'round_seconds_count 2',
+        ''
+      ].join('\n'))
+    })
+
+    it('should escape label values', function () {
+      const registry = new MetricsRegistry()
+      registry.register(new Counter('errors_total', 'Errors')).inc({ reason: 'bad "quote"\n' })
+      assert.include(registry.render(), 'errors_total{reason="bad \\"quote\\"\\n"} 1')
+    })
+
+    it('should refuse to register a metric twice', function () {
+      const registry = new MetricsRegistry()
+      registry.register(new Gauge('dup', 'help'))
+      expect(() => registry.register(new Gauge('dup', 'help'))).to.throw('already registered')
+    })
+  })
+
+  context('RelayServerMetrics', function () {
+    it('should export all relay server metrics', function () {
+      const rendered = new RelayServerMetrics().registry.render()
+      for (const name of [
+        'enveloping_relay_requests_relayed_total',
+        'enveloping_relay_requests_rejected_total',
+        'enveloping_relay_boosted_transactions_total',
+        'enveloping_relay_pending_transactions',
+        'enveloping_relay_worker_balance_wei',
+        'enveloping_relay_manager_balance_wei',
+        'enveloping_relay_gas_price_wei',
+        'enveloping_relay_ready',
+        'enveloping_relay_alerted',
+        'enveloping_relay_interval_round_duration_seconds'
+      ]) {
+        assert.include(rendered, `# TYPE ${name} `)
+      }
+    })
+  })
+})
@@ -0,0 +1,256 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { Transaction } from 'ethereumjs-tx'
+import { bufferToHex, keccak256, privateToAddress, toBuffer } from 'ethereumjs-util'
+import { toHex } from 'web3-utils'
+
+import { getRawTxOptions } from '../../src/common/ContractInteractor'
+import { PenalizationStore } from '../../src/relayserver/PenalizationStore'
+import {
+  getPenalizableTransaction,
+  isRepeatedNonce,
+  PenalizationWatchdog,
+  SignedRpcTransaction
+} from '../../src/relayserver/PenalizationWatchdog'
+import { configureServer } from '../../src/relayserver/ServerConfigParams'
+import { SendTransactionDetails } from '../../src/relayserver/TransactionManager'
+import { ServerAction } from '../../src/relayserver/StoredTransaction'
+
+const { assert } = chai.use(chaiAsPromised)
+
+const rawTxOptions = getRawTxOptions(33, 33)
+const workerKey = Buffer.from('88fcad7d65de4bf854b88191df9bf38648545e7e5ea367dff6e025b06a28244d', 'hex')
+const managerKey = Buffer.from('0c06818f82e04c564290b32ab86b25676731fc34e9a546108bf109194c8e3aae', 'hex')
+const worker = bufferToHex(privateToAddress(workerKey))
+const manager = bufferToHex(privateToAddress(managerKey))
+const otherManager = '0x' + '4'.repeat(40)
+const ownWorker = '0x' + '5'.repeat(40)
+const beneficiary = '0x' + '6'.repeat(40)
+
+function signTransaction (fields: { nonce: number, gasPrice?: number, gasLimit?: number, data?: string, value?: number }, key = workerKey): Transaction {
+  const tx = new Transaction({
+    nonce: fields.nonce,
+    gasPrice: fields.gasPrice ?? 60,
+    gasLimit: fields.gasLimit ?? 100000,
+    to: '0x' + '7'.repeat(40),
+    value: fields.value ?? 0,
+    data: fields.data ?? '0x1234'
+  }, rawTxOptions)
+  tx.sign(key)
+  return tx
+}
+
+// the transaction as a node returns it
+function toRpcTransaction (tx: Transaction): SignedRpcTransaction {
+  const toInt = (buffer: Buffer): number => buffer.length === 0 ? 0 : parseInt(buffer.toString('hex'), 16)
+  return {
+    hash: bufferToHex(tx.hash()),
+    from: bufferToHex(tx.getSenderAddress()),
+    nonce: toInt(tx.nonce),
+    gasPrice: toInt(tx.gasPrice).toString(),
+    gas: toInt(tx.gasLimit),
+    to: bufferToHex(tx.to),
+    value: toInt(tx.value).toString(),
+    input: bufferToHex(tx.data),
+    v: bufferToHex(tx.v),
+    r: bufferToHex(tx.r),
+    s: bufferToHex(tx.s)
+  } as any
+}
+
+contract('PenalizationWatchdog', function () {
+  const txA = toRpcTransaction(signTransaction({ nonce: 3 }))
+  const txB = toRpcTransaction(signTransaction({ nonce: 3, data: '0xabcd' }))
+
+  describe('getPenalizableTransaction', function () {
+    it('should rebuild the signed payload of an EIP-155 transaction', function () {
+      const tx = signTransaction({ nonce: 0, value: 5 })
+      const { txHash, unsignedTx, signature } = getPenalizableTransaction(toRpcTransaction(tx))
+      assert.equal(txHash, bufferToHex(tx.hash()))
+      assert.equal(bufferToHex(keccak256(toBuffer(unsignedTx))), bufferToHex(tx.hash(false)))
+      assert.equal(toBuffer(signature).length, 65)
+      assert.oneOf(toBuffer(signature)[64], [27, 28])
+    })
+
+    it('should refuse a transaction its signature does not match', function () {
+      assert.throws(() => getPenalizableTransaction({ ...txA, input: '0xabcd' }), /recovers/)
+    })
+  })
+
+  describe('isRepeatedNonce', function () {
+    it('should not consider boosts as repeated nonces', function () {
+      const boosted = toRpcTransaction(signTransaction({ nonce: 3, gasPrice: 80 }))
+      assert.isFalse(isRepeatedNonce(txA, boosted))
+      assert.isFalse(isRepeatedNonce(txA, txA))
+    })
+
+    it('should detect transactions with the same nonce and different data, gas or value', function () {
+      assert.isTrue(isRepeatedNonce(txA, txB))
+      assert.isTrue(isRepeatedNonce(txA, toRpcTransaction(signTransaction({ nonce: 3, gasLimit: 200000 }))))
+      assert.isTrue(isRepeatedNonce(txA, toRpcTransaction(signTransaction({ nonce: 3, value: 1 }))))
+      assert.isFalse(isRepeatedNonce(txA, toRpcTransaction(signTransaction({ nonce: 4, data: '0xabcd' }))))
+    })
+  })
+
+  describe('scan', function () {
+    let watchdog: PenalizationWatchdog
+    let store: PenalizationStore
+    let sent: SendTransactionDetails[]
+    let blocks: Record<string, SignedRpcTransaction[]>
+    let penalizationReverts: boolean
+    let sendFailures: number
+    let penalizationPending: boolean
+    let stakePenalizedEvents: any[]
+    let stakePenalizedQueries: any[]
+    // of the relay manager, at the confirmed block
+    let confirmedNonce: number
+
+    beforeEach(function () {
+      sent = []
+      blocks = {}
+      penalizationReverts = false
+      sendFailures = 0
+      penalizationPending = false
+      stakePenalizedEvents = []
+      stakePenalizedQueries = []
+      confirmedNonce = 0
+      const contractInteractor: any = {
+        getPastEventsForHub: async () => [
+          { returnValues: { relayManager: otherManager, newRelayWorkers: [worker] } },
+          { returnValues: { relayManager: manager, newRelayWorkers: [ownWorker] } }
+        ],
+        getBlockWithTransactions: async (block: number | string) => ({ transactions: blocks[block.toString()] ?? [] }),
+        getPenalizeRepeatedNonceMethod: async (...args: string[]) => ({
+          args,
+          call: async () => {
+            if (penalizationReverts) {
+              throw new Error('Transactions already penalized')
+            }
+          }
+        }),
+        getPenalizerAddress: async () => '0x' + '8'.repeat(40),
+        getPastEventsForStakeManagement: async (names: string[], extraTopics: string[], options: any) => {
+          stakePenalizedQueries.push(options)
+          return stakePenalizedEvents
+        },
+        getTransaction: async () => ({ from: manager, nonce: 7 }),
+        getTransactionCount: async () => confirmedNonce
+      }
+      const transactionManager: any = {
+        rawTxOptions,
+        attemptEstimateGas: async () => 100000,
+        txStoreManager: { isActionPending: async () => penalizationPending },
+        sendTransaction: async (details: SendTransactionDetails) => {
+          if (sendFailures > 0) {
+            sendFailures--
+            throw new Error('node unavailable')
+          }
+          sent.push(details)
+          const signed = signTransaction({ nonce: 7 }, managerKey)
+          return { transactionHash: bufferToHex(signed.hash()), signedTx: bufferToHex(signed.serialize()) }
+        }
+      }
+      store = new PenalizationStore({ inMemory: true })
+      const config = configureServer({ penalizationWatchdogEnabled: true, penalizationBeneficiary: beneficiary })
+      watchdog = new PenalizationWatchdog(contractInteractor, transactionManager, store, config, manager, [ownWorker])
+    })
+
+    it('should report a worker reusing a nonce once', async function () {
+      blocks['10'] = [txA]
+      blocks.pending = [txB]
+      const transactionHashes = await watchdog.scan(10)
+      assert.equal(transactionHashes.length, 1)
+      assert.equal(sent.length, 1)
+      assert.equal(sent[0].serverAction, ServerAction.PENALIZATION)
+      assert.equal(sent[0].signer, manager)
+      const evidence = await store.getAll()
+      assert.equal(evidence.length, 1)
+      assert.equal(evidence[0].signer, worker.toLowerCase())
+      assert.equal(evidence[0].nonce, 3)
+      assert.equal(evidence[0].penalizationNonce, 7)
+      assert.deepEqual(evidence[0].transactions.map(it => it.txHash), [txA.hash, txB.hash])
+
+      blocks.pending = [txB]
+      assert.deepEqual(await watchdog.scan(11), [])
+      assert.equal(sent.length, 1)
+    })
+
+    it('should ignore its own workers and unregistered signers', async function () {
+      const unregistered = toRpcTransaction(signTransaction({ nonce: 3 }, managerKey))
+      const unregisteredRepeat = toRpcTransaction(signTransaction({ nonce: 3, data: '0xabcd' }, managerKey))
+      blocks['10'] = [unregistered, { ...txA, from: ownWorker }]
+      blocks.pending = [unregisteredRepeat, { ...txB, from: ownWorker }]
+      await watchdog.scan(10)
+      assert.equal(sent.length, 0)
+    })
+
+    it('should record the evidence the penalizer rejects without sending it', async function () {
+      penalizationReverts = true
+      blocks['10'] = [txA]
+      blocks.pending = [txB]
+      assert.deepEqual(await watchdog.scan(10), [])
+      assert.equal(sent.length, 0)
+      const evidence = await store.getAll()
+      assert.equal(evidence.length, 1)
+      assert.isUndefined(evidence[0].penalizationTxHash)
+      assert.match(evidence[0].error ?? '', /already penalized/)
+    })
+
+    it('should forward the reward of its penalization to the beneficiary', async function () {
+      blocks['10'] = [txA]
+      blocks.pending = [txB]
+      await watchdog.scan(10)
+      blocks.pending = []
+      stakePenalizedEvents = [{
+        transactionHash: '0x' + '9'.repeat(64),
+        blockNumber: 12,
+        returnValues: { relayManager: otherManager, beneficiary: manager, reward: '500' }
+      }]
+      await watchdog.scan(12)
+      assert.equal(sent.length, 2)
+      assert.equal(sent[1].serverAction, ServerAction.VALUE_TRANSFER)
+      assert.equal(sent[1].destination, beneficiary)
+      assert.equal(sent[1].value, toHex('500'))
+      const [evidence] = await store.getAll()
+      assert.equal(evidence.penalizedBlock, 12)
+      assert.equal(evidence.reward, '500')
+      assert.isDefined(evidence.rewardTransferTxHash)
+      assert.equal((await store.getUnconfirmedPenalizations()).length, 0)
+    })
+
+    it('should try again the penalizations that could not be sent', async function () {
+      sendFailures = 1
+      blocks['10'] = [txA]
+      blocks.pending = [txB]
+      assert.deepEqual(await watchdog.scan(10), [])
+      assert.deepInclude((await store.getAll())[0], { attempts: 1, error: 'node unavailable' })
+      blocks.pending = []
+      penalizationPending = true
+      assert.deepEqual(await watchdog.scan(11), [])
+      penalizationPending = false
+      assert.equal((await watchdog.scan(12)).length, 1)
+      assert.equal(sent.length, 1)
+      const [evidence] = await store.getAll()
+      assert.equal(evidence.attempts, 2)
+      assert.isUndefined(evidence.error)
+      assert.equal(evidence.penalizationNonce, 7)
+    })
+
+    it('should stop waiting for a penalization mined without penalizing, and scan each block once', async function () {
+      blocks['10'] = [txA]
+      blocks.pending = [txB]
+      await watchdog.scan(10)
+      blocks.pending = []
+      await watchdog.scan(11)
+      await watchdog.scan(12)
+      assert.deepEqual(stakePenalizedQueries, [{ fromBlock: 10, toBlock: 10 }, { fromBlock: 11, toBlock: 11 }, { fromBlock: 12, toBlock: 12 }])
+      // the penalization, nonce 7, is confirmed
+      confirmedNonce = 8
+      await watchdog.scan(13)
+      assert.match((await store.getAll())[0].error ?? '', /mined without penalizing/)
+      assert.equal((await store.getUnconfirmedPenalizations()).length, 0)
+      await watchdog.scan(14)
+      assert.equal(stakePenalizedQueries.length, 4)
+    })
+  })
+})
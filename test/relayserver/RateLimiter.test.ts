@@ -0,0 +1,71 @@
+import { RateLimiter, TokenBucket } from '../../src/relayserver/RateLimiter'
+import RateLimitedError from '../../src/common/RateLimitedError'
+import { configureServer, validateServerConfig } from '../../src/relayserver/ServerConfigParams'
+
+contract('RateLimiter', function () {
+  describe('TokenBucket', function () {
+    it('should refill at the configured rate up to the burst size', function () {
+      const bucket = new TokenBucket({ burst: 2, perMinute: 6 }, 0)
+      bucket.tokens = 0
+      bucket.refill(10000)
+      assert.closeTo(bucket.tokens, 1, 1e-9)
+      bucket.refill(600000)
+      assert.equal(bucket.tokens, 2)
+    })
+
+    it('should compute the seconds until the next token', function () {
+      const bucket = new TokenBucket({ burst: 1, perMinute: 2 }, 0)
+      assert.equal(bucket.secondsUntilNextToken(), 0)
+      bucket.tokens = 0
+      assert.equal(bucket.secondsUntilNextToken(), 30)
+    })
+  })
+
+  describe('#fromConfig()', function () {
+    it('should limit the scopes whose burst is set', function () {
+      const limiter = RateLimiter.fromConfig(configureServer({ senderRateLimitBurst: 2, senderRateLimitPerMinute: 30 }))
+      assert.deepEqual(limiter.limits, { ip: undefined, sender: { burst: 2, perMinute: 30 }, forwarder: undefined, destination: undefined })
+      assert.isFalse(RateLimiter.fromConfig(configureServer({})).isEnabled())
+    })
+
+    it('should only accept positive integer limits', function () {
+      assert.throws(() => validateServerConfig({ ipRateLimitBurst: 0 }), 'invalid param: ipRateLimitBurst must be at least 1')
+      assert.throws(() => validateServerConfig({ ipRateLimitPerMinute: 2.5 }), 'invalid param: ipRateLimitPerMinute must be an integer')
+    })
+  })
+
+  describe('#consume()', function () {
+    it('should reject requests after the burst is used', function () {
+      const limiter = new RateLimiter({ sender: { burst: 2, perMinute: 60 } })
+      limiter.consume({ sender: '0xA' }, 0)
+      limiter.consume({ sender: '0xa' }, 0)
+      assert.throws(() => limiter.consume({ sender: '0xA' }, 0), RateLimitedError, 'Rate limit exceeded for sender, retry in 1 seconds')
+      // other keys have their own bucket
+      limiter.consume({ sender: '0xB' }, 0)
+      // and the bucket refills over time
+      limiter.consume({ sender: '0xA' }, 1000)
+    })
+
+    it('should not limit scopes without a configured limit', function () {
+      const limiter = new RateLimiter({ ip: { burst: 1, perMinute: 1 } })
+      for (let i = 0; i < 5; i++) {
+        limiter.consume({ sender: '0xA', destination: '0xB' }, 0)
+      }
+      assert.isTrue(limiter.isEnabled())
+      assert.isFalse(new RateLimiter({}).isEnabled())
+    })
+
+    it('should take no token from any scope if one of them is exhausted', function () {
+      const limiter = new RateLimiter({ ip: { burst: 1, perMinute: 1 }, sender: { burst: 1, perMinute: 1 } })
+      limiter.consume({ ip: '127.0.0.1' }, 0)
+      try {
+        limiter.consume({ ip: '127.0.0.1', sender: '0xA' }, 0)
+        assert.fail('should be rate limited')
+      } catch (e) {
+        assert.instanceOf(e, RateLimitedError)
+        assert.equal(e.retryAfterSeconds, 60)
+      }
+      limiter.consume({ sender: '0xA' }, 0)
+    })
+  })
+})
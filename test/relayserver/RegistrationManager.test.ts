@@ -12,12 +12,13 @@ import { TxStoreManager } from '../../src/relayserver/TxStoreManager'
 import { configure } from '../../src/relayclient/Configurator'
 import { constants } from '../../src/common/Constants'
 
-import { evmMine, evmMineMany, revert, snapshot } from '../TestUtils'
+import { deployHub, evmMine, evmMineMany, revert, snapshot } from '../TestUtils'
 
 import { LocalhostOne, ServerTestEnvironment } from './ServerTestEnvironment'
 import { assertRelayAdded, getTemporaryWorkdirs, getTotalTxCosts, ServerWorkdirs } from './ServerTestUtils'
 import { ether } from '@openzeppelin/test-helpers'
 import { RelayHubConfiguration } from '../../src/relayclient/types/RelayHubConfiguration'
+import { RelayHubInstance } from '../../types/truffle-contracts'
 
 const { oneEther } = constants
 
@@ -192,14 +193,14 @@ contract('RegistrationManager', function (accounts) {
       await assertRelayAdded(receipts, relayServer)
       await relayServer._worker(latestBlock.number + 1)
 
-      let transactionHashes = await relayServer.registrationManager.handlePastEvents([], latestBlock.number, 0, false)
+      let transactionHashes = await relayServer.registrationManager.handlePastEvents([], latestBlock.number, latestBlock.number + 1, false)
       assert.equal(transactionHashes.length, 0, 'should not re-register if already registered')
 
       latestBlock = await env.web3.eth.getBlock('latest')
       await relayServer._worker(latestBlock.number)
 
       relayServer.config.url = 'fakeUrl'
-      transactionHashes = await relayServer.registrationManager.handlePastEvents([], latestBlock.number, 0, false)
+      transactionHashes = await relayServer.registrationManager.handlePastEvents([], latestBlock.number, latestBlock.number + 1, false)
       await assertRelayAdded(transactionHashes, relayServer, false)
     })
   })
@@ -261,6 +262,68 @@ contract('RegistrationManager', function (accounts) {
       })
     })
 
+    describe('with another hub', function () {
+      let newServer: RelayServer
+      let otherHub: RelayHubInstance
+      let unstakedCount: number
+
+      beforeEach(async function () {
+        id = (await snapshot()).result
+        otherHub = await deployHub(undefined, hubConfig)
+        await env.newServerInstanceNoInit({
+          refreshStateTimeoutBlocks: 1,
+          additionalRelayHubs: [{ relayHubAddress: otherHub.address }]
+        }, undefined, unstakeDelay)
+        newServer = env.relayServer
+        await otherHub.stakeForAddress(newServer.managerAddress, unstakeDelay, {
+          from: relayOwner,
+          value: ether('1')
+        })
+        const latestBlock = await env.web3.eth.getBlock('latest')
+        await newServer._worker(latestBlock.number)
+        await newServer._worker(latestBlock.number + 1)
+        assert.isTrue(newServer.relayHubs.every(hub => hub.registered))
+        unstakedCount = 0
+        newServer.on('unstaked', () => { unstakedCount++ })
+      })
+
+      afterEach(async function () {
+        await revert(id)
+      })
+
+      async function runRound (): Promise<void> {
+        const latestBlock = await env.web3.eth.getBlock('latest')
+        await newServer._worker(latestBlock.number)
+      }
+
+      it('should keep the funds and keep running while staked in the other hub', async function () {
+        const managerBalanceBefore = await newServer.getManagerBalance()
+        const workerBalanceBefore = await newServer.getWorkerBalance(workerIndex)
+        await env.relayHub.unlockStake(newServer.managerAddress, { from: relayOwner })
+        await evmMineMany(unstakeDelay)
+        await env.relayHub.withdrawStake(newServer.managerAddress, { from: relayOwner })
+        await runRound()
+
+        assert.equal(unstakedCount, 0)
+        assert.isTrue(newServer.relayHubs[1].registered)
+        assert.equal((await newServer.getManagerBalance()).toString(), managerBalanceBefore.toString())
+        assert.equal((await newServer.getWorkerBalance(workerIndex)).toString(), workerBalanceBefore.toString())
+      })
+
+      it('should send the funds to the owner and stop once unstaked from the last hub', async function () {
+        await env.relayHub.unlockStake(newServer.managerAddress, { from: relayOwner })
+        await otherHub.unlockStake(newServer.managerAddress, { from: relayOwner })
+        await evmMineMany(unstakeDelay)
+        await env.relayHub.withdrawStake(newServer.managerAddress, { from: relayOwner })
+        await otherHub.withdrawStake(newServer.managerAddress, { from: relayOwner })
+        await runRound()
+
+        assert.isAtLeast(unstakedCount, 1)
+        assert.isTrue((await newServer.getManagerBalance()).eqn(0))
+        assert.isTrue((await newServer.getWorkerBalance(workerIndex)).eqn(0))
+      })
+    })
+
     describe('HubUnauthorized event', function () {
       let newServer: RelayServer
       beforeEach(async function () {
@@ -0,0 +1,78 @@
+import chai from 'chai'
+
+import { RelayPolicy } from '../../src/relayserver/RelayPolicy'
+import { DeployRequest, RelayRequest } from '../../src/common/EIP712/RelayRequest'
+
+const { assert } = chai
+
+contract('RelayPolicy', function () {
+  const destination = '0x' + 'a'.repeat(40)
+  const otherDestination = '0x' + 'b'.repeat(40)
+  const verifier = '0x' + 'c'.repeat(40)
+  const token = '0x' + 'd'.repeat(40)
+  const selector = '0xa9059cbb'
+
+  function relayRequest (overrides: Partial<RelayRequest['request']> = {}): RelayRequest {
+    return {
+      request: { to: destination, data: selector + '00'.repeat(32), value: '0', gas: '100000', tokenContract: token, ...overrides },
+      relayData: { callVerifier: verifier }
+    } as any as RelayRequest
+  }
+
+  it('should accept every request with an empty policy', function () {
+    new RelayPolicy({}).validate(relayRequest(), false)
+  })
+
+  it('should reject malformed policies', function () {
+    assert.throws(() => new RelayPolicy({ allowedDestinations: ['0x1234'] }), 'invalid relay policy: allowedDestinations contains 0x1234')
+    assert.throws(() => new RelayPolicy({ destinations: { [destination]: { allowedSelectors: ['transfer'] } } }), 'is not a 4-byte hex string')
+    assert.throws(() => new RelayPolicy({ maxValue: '1.5' }), 'maxValue must be an integer')
+  })
+
+  describe('destinations', function () {
+    it('should only accept allowed destinations, ignoring the case', function () {
+      const policy = new RelayPolicy({ allowedDestinations: [destination.toUpperCase().replace('0X', '0x')] })
+      policy.validate(relayRequest(), false)
+      assert.throws(() => policy.validate(relayRequest({ to: otherDestination }), false), `destination ${otherDestination} is not allowed`)
+    })
+
+    it('should reject denied destinations', function () {
+      const policy = new RelayPolicy({ deniedDestinations: [destination] })
+      assert.throws(() => policy.validate(relayRequest(), false), `destination ${destination} is denied`)
+      policy.validate(relayRequest({ to: otherDestination }), false)
+    })
+
+    it('should only accept the allowed selectors of a destination', function () {
+      const policy = new RelayPolicy({ destinations: { [destination]: { allowedSelectors: [selector] } } })
+      policy.validate(relayRequest(), false)
+      assert.throws(() => policy.validate(relayRequest({ data: '0x095ea7b3' }), false), 'method 0x095ea7b3 of destination')
+      assert.throws(() => policy.validate(relayRequest({ data: '0x' }), false), 'method (none) of destination')
+      policy.validate(relayRequest({ to: otherDestination, data: '0x' }), false)
+    })
+
+    it('should reject gas over the maximum of a destination', function () {
+      const policy = new RelayPolicy({ destinations: { [destination]: { maxGas: '100000' } } })
+      policy.validate(relayRequest(), false)
+      assert.throws(() => policy.validate(relayRequest({ gas: '100001' }), false), 'gas 100001 exceeds the maximum of 100000')
+    })
+
+    it('should not apply destination rules to deploy requests', function () {
+      const policy = new RelayPolicy({ allowedDestinations: [otherDestination] })
+      policy.validate(relayRequest() as any as DeployRequest, true)
+    })
+  })
+
+  it('should reject value over the maximum', function () {
+    const policy = new RelayPolicy({ maxValue: '1000' })
+    policy.validate(relayRequest({ value: '1000' }), false)
+    assert.throws(() => policy.validate(relayRequest({ value: '1001' }), false), 'value 1001 exceeds the maximum of 1000')
+  })
+
+  it('should only accept the allowed tokens of a verifier', function () {
+    const policy = new RelayPolicy({ allowedTokensByVerifier: { [verifier]: [otherDestination] } })
+    assert.throws(() => policy.validate(relayRequest(), false), `token ${token} is not accepted for verifier ${verifier}`)
+    policy.validate(relayRequest({ tokenContract: otherDestination }), false)
+    const otherVerifier = new RelayPolicy({ allowedTokensByVerifier: { [otherDestination]: [] } })
+    otherVerifier.validate(relayRequest(), false)
+  })
+})
@@ -3,6 +3,9 @@
 import { HttpProvider } from 'web3-core'
 import { toBN, toHex } from 'web3-utils'
 import chai from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import sinon from 'sinon'
 import sinonChai from 'sinon-chai'
 import chaiAsPromised from 'chai-as-promised'
@@ -13,16 +16,22 @@ import { SendTransactionDetails, SignedTransactionDetails } from '../../src/rela
 import { ServerConfigParams } from '../../src/relayserver/ServerConfigParams'
 import { TestDeployVerifierConfigurableMisbehaviorInstance, TestRecipientInstance, TestTokenInstance, TestVerifierConfigurableMisbehaviorInstance } from '../../types/truffle-contracts'
 import { defaultEnvironment, isRsk } from '../../src/common/Environments'
-import { sleep } from '../../src/common/Utils'
+import { estimateMaxPossibleRelayCallWithLinearFit, sleep } from '../../src/common/Utils'
 
 import { evmMineMany, INCORRECT_ECDSA_SIGNATURE, revert, snapshot, getTestingEnvironment } from '../TestUtils'
 import { LocalhostOne, ServerTestEnvironment } from './ServerTestEnvironment'
 import { RelayTransactionRequest } from '../../src/relayclient/types/RelayTransactionRequest'
 import { assertRelayAdded, getTotalTxCosts } from './ServerTestUtils'
-import { PrefixedHexString } from 'ethereumjs-tx'
-import { ServerAction } from '../../src/relayserver/StoredTransaction'
+import { PrefixedHexString, Transaction } from 'ethereumjs-tx'
+import { ServerAction, StoredTransaction } from '../../src/relayserver/StoredTransaction'
 import { constants } from '../../src/common/Constants'
 import TokenResponse from '../../src/common/TokenResponse'
+import RateLimitedError from '../../src/common/RateLimitedError'
+import { FeePolicy, StaticPriceSource } from '../../src/relayserver/FeePolicy'
+import { RelayPolicy } from '../../src/relayserver/RelayPolicy'
+import RelayedTransactionValidator from '../../src/relayclient/RelayedTransactionValidator'
+import { getRelayRequestHash } from '../../src/common/EIP712/TypedRequestData'
+import TransactionLifecycleEvent from '../../src/common/TransactionLifecycleEvent'
 
 const { expect, assert } = chai.use(chaiAsPromised).use(sinonChai)
 
@@ -172,7 +181,7 @@ contract('RelayServer', function (accounts) {
           // this is a new worker account - create transaction
           const latestBlock = (await env.web3.eth.getBlock('latest')).number
           await env.relayServer._worker(latestBlock)
-          const signer = env.relayServer.workerAddress
+          const signer = env.relayServer.workerAddresses[0]
 
           console.log(`THE BALANCE OF THE WORKER ${signer} is`)
           console.log(await web3.eth.getBalance(signer))
@@ -186,12 +195,12 @@ contract('RelayServer', function (accounts) {
         })
 
         it('should not throw with relayMaxNonce above current nonce', async function () {
-          await env.relayServer.validateMaxNonce(1000)
+          await env.relayServer.validateMaxNonce(env.relayServer.workerAddresses[0], 1000)
         })
 
         it('should throw exception with relayMaxNonce below current nonce', async function () {
           try {
-            await env.relayServer.validateMaxNonce(0)
+            await env.relayServer.validateMaxNonce(env.relayServer.workerAddresses[0], 0)
             assert.fail()
           } catch (e) {
             assert.include(e.message, 'Unacceptable relayMaxNonce:')
@@ -310,7 +319,7 @@ contract('RelayServer', function (accounts) {
             }
           ]
         },
-        [env.relayServer.workerAddress, '1'])
+        [env.relayServer.workerAddresses[0], '1'])
 
         let tokenGasCost = await env.contractInteractor.estimateGas({
           from: env.forwarder.address, // token holder is the smart wallet
@@ -363,6 +372,395 @@ contract('RelayServer', function (accounts) {
       assert.equal(pendingTransactions[0].serverAction, ServerAction.RELAY_CALL)
       // TODO: add asserts here!!!
     })
+
+    it('should return a commitment signed by the relay manager', async function () {
+      const req = await env.createRelayHttpRequest()
+      const { commitment } = await env.relayServer.createRelayTransaction(req)
+      assert.equal(commitment.commitment.relayManager, env.relayServer.managerAddress)
+      assert.equal(commitment.commitment.gasPrice, req.relayRequest.relayData.gasPrice)
+      const validator = new RelayedTransactionValidator(env.contractInteractor, env.relayClient.config)
+      assert.isUndefined(validator.validateRelayCommitment(req, commitment, env.relayServer.managerAddress))
+    })
+
+    it('should count relayed and rejected requests in metrics', async function () {
+      const verifier = env.relayVerifier.address.toLowerCase()
+      const relayedBefore = env.relayServer.metrics.relayedRequests.get({ verifier })
+      await env.relayTransaction()
+      assert.equal(env.relayServer.metrics.relayedRequests.get({ verifier }), relayedBefore + 1)
+
+      const req = await env.createRelayHttpRequest()
+      req.metadata.relayHubAddress = accounts[1]
+      await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith('Wrong hub address')
+      assert.equal(env.relayServer.metrics.rejectedRequests.get({ reason: 'invalid_input', verifier }), 1)
+
+      const metrics = await env.relayServer.metricsHandler()
+      assert.include(metrics, `enveloping_relay_requests_relayed_total{verifier="${verifier}"} ${relayedBefore + 1}`)
+      assert.include(metrics, 'enveloping_relay_ready 1')
+    })
+  })
+
+  describe('#estimateHandler()', function () {
+    afterEach(function () {
+      env.relayServer.feePolicy = undefined
+    })
+
+    it('should estimate an unsigned relay request with the linear fit', async function () {
+      const { relayRequest, metadata } = await env.createRelayHttpRequest()
+      relayRequest.request.gas = '0'
+      const estimate = await env.relayServer.estimateHandler({ relayRequest, metadata: { relayHubAddress: metadata.relayHubAddress } })
+      assert.isFalse(estimate.exact)
+      assert.isAbove(parseInt(estimate.estimatedDestinationGas), 0)
+      assert.equal(estimate.estimatedTokenGas, '0')
+      assert.equal(estimate.requiredTokenAmount, '0')
+      assert.equal(estimate.gasPrice, relayRequest.relayData.gasPrice)
+      assert.equal(estimate.gasEstimation, 'linear-fit')
+      assert.equal(estimate.marginPercent, 10)
+      const expectedGas = Math.ceil(estimateMaxPossibleRelayCallWithLinearFit(parseInt(estimate.estimatedDestinationGas), 0) * 1.1)
+      assert.equal(estimate.maxPossibleGas, expectedGas.toString())
+    })
+
+    it('should estimate a signed relay request as the server would when relaying it', async function () {
+      const req = await env.createRelayHttpRequest()
+      const estimate = await env.relayServer.estimateHandler({ relayRequest: req.relayRequest, metadata: req.metadata })
+      assert.isTrue(estimate.exact)
+      assert.deepInclude(estimate, { gasEstimation: 'relay-call', marginPercent: 0 })
+      const { maxPossibleGas } = await env.relayServer.validateRequestWithVerifier(req)
+      assert.equal(estimate.maxPossibleGas, maxPossibleGas.toString())
+    })
+
+    it('should report the token fee required by the fee policy', async function () {
+      env.relayServer.feePolicy = new FeePolicy(new StaticPriceSource({ [constants.ZERO_ADDRESS]: '1' }), 10, [])
+      const { relayRequest, metadata } = await env.createRelayHttpRequest()
+      const estimate = await env.relayServer.estimateHandler({ relayRequest, metadata: { relayHubAddress: metadata.relayHubAddress } })
+      const fee = await env.relayServer.feePolicy.computeFee(constants.ZERO_ADDRESS, toBN(estimate.maxPossibleGas), toBN(estimate.gasPrice))
+      assert.equal(estimate.requiredTokenAmount, fee.toString())
+      assert.isTrue(fee.gtn(0))
+    })
+
+    it('should raise the gas price to the server minimum', async function () {
+      const { relayRequest, metadata } = await env.createRelayHttpRequest()
+      relayRequest.relayData.gasPrice = '1'
+      const estimate = await env.relayServer.estimateHandler({ relayRequest, metadata: { relayHubAddress: metadata.relayHubAddress } })
+      assert.equal(estimate.gasPrice, env.relayServer.gasPrice.toString())
+    })
+
+    it('should reject unsigned deploy requests', async function () {
+      const { relayRequest: { request: { gas, ...request }, relayData }, metadata } = await env.createRelayHttpRequest()
+      const relayRequest = {
+        request: { ...request, recoverer: constants.ZERO_ADDRESS, index: '0' },
+        relayData: { ...relayData, callVerifier: env.deployVerifier.address }
+      }
+      await expect(env.relayServer.estimateHandler({ relayRequest, metadata: { relayHubAddress: metadata.relayHubAddress } }))
+        .to.be.rejectedWith('Deploy requests can only be estimated when signed')
+    })
+  })
+
+  describe('#txStatusHandler()', function () {
+    it('should report a relayed transaction by tx hash and by relay request hash', async function () {
+      const req = await env.createRelayHttpRequest()
+      const { transactionHash } = await env.relayServer.createRelayTransaction(req)
+      const status = await env.relayServer.txStatusHandler(transactionHash)
+      assert.equal(status?.txId, transactionHash)
+      assert.equal(status?.attempts, 1)
+      const relayRequestHash = getRelayRequestHash(env.relayServer.chainId, req.relayRequest)
+      const byRequest = await env.relayServer.relayRequestStatusHandler(relayRequestHash)
+      assert.equal(byRequest?.txId, transactionHash)
+      assert.equal(byRequest?.relayRequestHash, relayRequestHash.toLowerCase())
+    })
+
+    it('should resolve the hash of a boosted transaction to its replacement', async function () {
+      const req = await env.createRelayHttpRequest()
+      const { transactionHash } = await env.relayServer.createRelayTransaction(req)
+      const storedTx = await env.relayServer.txStoreManager.getTxById(transactionHash)
+      const replacement = new Transaction({
+        to: storedTx.to,
+        gasLimit: storedTx.gas,
+        gasPrice: storedTx.gasPrice * 2,
+        data: storedTx.data,
+        nonce: storedTx.nonce
+      }, env.relayServer.transactionManager.rawTxOptions)
+      const boostedTx = await env.relayServer.transactionManager.updateTransactionWithAttempt(replacement, storedTx, 100)
+      const status = await env.relayServer.txStatusHandler(transactionHash)
+      assert.equal(status?.txId, boostedTx.txId)
+      assert.equal(status?.attempts, 2)
+      assert.deepEqual(status?.boostHistory, [{
+        oldTxId: transactionHash,
+        newTxId: boostedTx.txId,
+        oldGasPrice: storedTx.gasPrice,
+        newGasPrice: storedTx.gasPrice * 2,
+        blockNumber: 100
+      }])
+    })
+
+    it('should report the transactions whose nonce another transaction used, or that the node dropped', async function () {
+      const unknownTx = (from: string, txId: string): StoredTransaction => ({
+        from,
+        to: constants.ZERO_ADDRESS,
+        gas: 21000,
+        gasPrice: 1,
+        data: '0x',
+        nonce: 0,
+        txId,
+        serverAction: ServerAction.VALUE_TRANSFER,
+        creationBlockNumber: 0,
+        attempts: 1
+      })
+      // the nonce 0 of the first account was used by the deployments
+      const replacedTx = unknownTx(accounts[0], '0x' + '2'.repeat(64))
+      const droppedTx = unknownTx('0x' + '3'.repeat(40), '0x' + '4'.repeat(64))
+      try {
+        await env.relayServer.txStoreManager.putTx(replacedTx)
+        await env.relayServer.txStoreManager.putTx(droppedTx)
+        assert.equal((await env.relayServer.txStatusHandler(replacedTx.txId))?.status, 'replaced')
+        assert.equal((await env.relayServer.txStatusHandler(droppedTx.txId))?.status, 'dropped')
+      } finally {
+        await env.relayServer.txStoreManager.removeTxsUntilNonce(replacedTx.from, 0)
+        await env.relayServer.txStoreManager.removeTxsUntilNonce(droppedTx.from, 0)
+      }
+    })
+
+    it('should return undefined for unknown transactions', async function () {
+      assert.isUndefined(await env.relayServer.txStatusHandler('0x' + '1'.repeat(64)))
+      assert.isUndefined(await env.relayServer.relayRequestStatusHandler('0x' + '1'.repeat(64)))
+    })
+  })
+
+  describe('fee policy', function () {
+    afterEach(function () {
+      env.relayServer.feePolicy = undefined
+    })
+
+    it('should reject requests paying with a token without exchange rate', async function () {
+      env.relayServer.feePolicy = new FeePolicy(new StaticPriceSource({}), 0, [])
+      const req = await env.createRelayHttpRequest()
+      await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith(`Token ${constants.ZERO_ADDRESS} is not accepted as payment`)
+    })
+
+    it('should reject requests offering less than the fee', async function () {
+      env.relayServer.feePolicy = new FeePolicy(new StaticPriceSource({ [constants.ZERO_ADDRESS]: '1' }), 10, [])
+      const req = await env.createRelayHttpRequest()
+      await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith('Insufficient token fee: offered 0')
+      const verifier = env.relayVerifier.address.toLowerCase()
+      assert.equal(env.relayServer.metrics.rejectedRequests.get({ reason: 'fee', verifier }), 1)
+    })
+
+    it('should relay requests of exempt verifiers without fee', async function () {
+      env.relayServer.feePolicy = new FeePolicy(new StaticPriceSource({}), 0, [env.relayVerifier.address])
+      await env.relayTransaction()
+    })
+  })
+
+  describe('relay policy', function () {
+    afterEach(function () {
+      env.relayServer.relayPolicy = new RelayPolicy({})
+    })
+
+    it('should reject calls to destinations not allowed before calling the node', async function () {
+      env.relayServer.relayPolicy = new RelayPolicy({ allowedDestinations: [env.relayVerifier.address] })
+      const req = await env.createRelayHttpRequest()
+      const pollNonce = sinon.spy(env.relayServer.transactionManager, 'pollNonce')
+      try {
+        await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith(`Relay policy: destination ${env.recipient.address} is not allowed`)
+        expect(pollNonce).to.not.have.been.called
+      } finally {
+        pollNonce.restore()
+      }
+      const verifier = env.relayVerifier.address.toLowerCase()
+      assert.equal(env.relayServer.metrics.rejectedRequests.get({ reason: 'policy', verifier }), 1)
+    })
+
+    it('should relay calls to allowed methods of the destination', async function () {
+      const selector = env.encodedFunction.slice(0, 10)
+      env.relayServer.relayPolicy = new RelayPolicy({
+        allowedDestinations: [env.recipient.address],
+        destinations: { [env.recipient.address]: { allowedSelectors: [selector] } }
+      })
+      await env.relayTransaction()
+    })
+
+    it('should use the reloaded policy file', async function () {
+      const policyFile = path.join(os.tmpdir(), 'relay-policy.json')
+      fs.writeFileSync(policyFile, JSON.stringify({ deniedDestinations: [env.recipient.address] }))
+      env.relayServer.config.relayPolicyFile = policyFile
+      try {
+        env.relayServer.reloadRelayPolicy()
+        const req = await env.createRelayHttpRequest()
+        await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith('is denied')
+      } finally {
+        env.relayServer.config.relayPolicyFile = ''
+        fs.unlinkSync(policyFile)
+      }
+    })
+  })
+
+  describe('acceptance state', function () {
+    afterEach(function () {
+      env.relayServer.setAcceptanceState('accepting')
+    })
+
+    it('should reject new requests and advertise not ready while paused or draining', async function () {
+      for (const state of ['paused', 'draining'] as const) {
+        env.relayServer.setAcceptanceState(state)
+        const req = await env.createRelayHttpRequest()
+        await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith(`relay ${state}: not accepting new requests`)
+        assert.isFalse((await env.relayServer.pingHandler()).ready)
+      }
+      env.relayServer.setAcceptanceState('accepting')
+      assert.isTrue((await env.relayServer.pingHandler()).ready)
+      await env.relayTransaction()
+    })
+
+    it('should only boost the pending transactions while not paused', async function () {
+      const boost = sinon.stub(env.relayServer, '_boostStuckPendingTransactions').resolves(new Map())
+      try {
+        env.relayServer.setAcceptanceState('paused')
+        await env.relayServer._handleChanges(env.relayServer.lastScannedBlock + 1)
+        expect(boost).to.not.have.been.called
+        env.relayServer.setAcceptanceState('draining')
+        await env.relayServer._handleChanges(env.relayServer.lastScannedBlock + 1)
+        expect(boost).to.have.been.calledOnce
+      } finally {
+        boost.restore()
+      }
+    })
+  })
+
+  describe('catching up on older blocks', function () {
+    it('should handle each hub event once while the rounds replay the blocks missed', async function () {
+      const { txHash } = await env.relayTransaction()
+      const minedBlock = (await env.web3.eth.getTransactionReceipt(txHash)).blockNumber
+      const latestBlock = await env.web3.eth.getBlockNumber()
+      const minedTxHashes: string[] = []
+      const listener = (event: TransactionLifecycleEvent): void => {
+        if (event.type === 'mined' && event.txHash != null) {
+          minedTxHashes.push(event.txHash)
+        }
+      }
+      env.relayServer.on('transactionEvent', listener)
+      try {
+        // as after a reconnect, one round per block since the last scanned one
+        env.relayServer.lastScannedBlock = minedBlock - 2
+        for (let blockNumber = minedBlock - 1; blockNumber <= latestBlock; blockNumber++) {
+          await env.relayServer._handleChanges(blockNumber)
+        }
+        assert.deepEqual(minedTxHashes.filter(hash => hash === txHash), [txHash])
+        assert.equal(new Set(minedTxHashes).size, minedTxHashes.length)
+      } finally {
+        env.relayServer.off('transactionEvent', listener)
+      }
+    })
+  })
+
+  describe('rate limiting', function () {
+    afterEach(function () {
+      delete env.relayServer.rateLimiter.limits.sender
+    })
+
+    it('should reject requests over the sender rate limit before calling the node', async function () {
+      env.relayServer.rateLimiter.limits.sender = { burst: 1, perMinute: 1 }
+      await env.relayTransaction()
+      const req = await env.createRelayHttpRequest()
+      const pollNonce = sinon.spy(env.relayServer.transactionManager, 'pollNonce')
+      try {
+        await expect(env.relayServer.createRelayTransaction(req)).to.be.rejectedWith(RateLimitedError, 'Rate limit exceeded for sender')
+        expect(pollNonce).to.not.have.been.called
+      } finally {
+        pollNonce.restore()
+      }
+      const verifier = env.relayVerifier.address.toLowerCase()
+      assert.equal(env.relayServer.metrics.rejectedRequests.get({ reason: 'rate_limited', verifier }), 1)
+    })
+  })
+
+  describe('#statusHandler()', function () {
+    it('should report healthy when every component is ready', async function () {
+      const status = await env.relayServer.statusHandler()
+      assert.isTrue(status.healthy)
+      assert.deepEqual(status.failingChecks, [])
+      const names = status.checks.map(it => it.name)
+      for (const name of ['rskNode', 'registration', 'stake', 'managerBalance', 'workerBalance', 'pendingTransactions', 'successfulRounds']) {
+        assert.include(names, name)
+      }
+    })
+
+    it('should name the failing checks', async function () {
+      const maxPendingTransactions = env.relayServer.config.statusMaxPendingTransactions
+      const lastSuccessfulRounds = env.relayServer.lastSuccessfulRounds
+      try {
+        env.relayServer.config.statusMaxPendingTransactions = -1
+        env.relayServer.lastSuccessfulRounds = 0
+        const status = await env.relayServer.statusHandler()
+        assert.isFalse(status.healthy)
+        assert.deepEqual(status.failingChecks, ['pendingTransactions', 'successfulRounds'])
+      } finally {
+        env.relayServer.config.statusMaxPendingTransactions = maxPendingTransactions
+        env.relayServer.lastSuccessfulRounds = lastSuccessfulRounds
+      }
+    })
+
+    it('should report the checks that throw as failed, along with the other checks', async function () {
+      const getAll = env.relayServer.txStoreManager.getAll
+      try {
+        env.relayServer.txStoreManager.getAll = async () => { throw new Error('store unavailable') }
+        const status = await env.relayServer.statusHandler()
+        assert.isFalse(status.healthy)
+        assert.deepEqual(status.failingChecks, ['registration', 'pendingTransactions'])
+        assert.deepInclude(status.checks, { name: 'pendingTransactions', healthy: false, critical: true, details: 'check failed: store unavailable' })
+        assert.include(status.checks.map(it => it.name), 'workerBalance')
+      } finally {
+        env.relayServer.txStoreManager.getAll = getAll
+      }
+    })
+  })
+
+  describe('multiple workers', function () {
+    const workerCount = 3
+    let poolEnv: ServerTestEnvironment
+    let poolBeforeId: string
+
+    before(async function () {
+      poolBeforeId = (await snapshot()).result
+      poolEnv = new ServerTestEnvironment(web3.currentProvider as HttpProvider, accounts)
+      await poolEnv.init({ chainId: (await getTestingEnvironment()).chainId })
+      await poolEnv.newServerInstance({ workerCount, workerTargetBalance: 0.1e18 })
+    })
+
+    after(async function () {
+      await revert(poolBeforeId)
+    })
+
+    it('should add every worker of the pool to the hub', async function () {
+      assert.equal(poolEnv.relayServer.workerAddresses.length, workerCount)
+      assert.isTrue(poolEnv.relayServer.registrationManager._isWorkerValid())
+      for (const worker of poolEnv.relayServer.workerAddresses) {
+        assert.isTrue(poolEnv.relayServer.registrationManager.addedWorkers.has(worker.toLowerCase()))
+      }
+    })
+
+    it('should fund every worker of the pool', async function () {
+      for (let workerIndex = 0; workerIndex < workerCount; workerIndex++) {
+        const balance = await poolEnv.relayServer.getWorkerBalance(workerIndex)
+        assert.isTrue(balance.gte(toBN(poolEnv.relayServer.config.workerMinBalance)), `worker #${workerIndex} not funded`)
+      }
+    })
+
+    it('should advertise the workers in ping responses in round-robin order', async function () {
+      const advertised: string[] = []
+      for (let i = 0; i < workerCount + 1; i++) {
+        advertised.push((await poolEnv.relayServer.pingHandler()).relayWorkerAddress)
+      }
+      assert.sameMembers(advertised.slice(0, workerCount), poolEnv.relayServer.workerAddresses)
+      assert.equal(advertised[workerCount], advertised[0])
+    })
+
+    it('should relay requests signed for any worker of the pool', async function () {
+      for (const worker of poolEnv.relayServer.workerAddresses) {
+        const req = await poolEnv.createRelayHttpRequest({}, worker)
+        const { transactionHash } = await poolEnv.relayServer.createRelayTransaction(req)
+        const receipt = await poolEnv.contractInteractor.getTransactionReceipt(transactionHash)
+        assert.equal(receipt.from.toLowerCase(), worker.toLowerCase())
+      }
+    })
   })
 
   describe('relay workers/manager rebalancing', function () {
@@ -377,7 +775,7 @@ contract('RelayServer', function (accounts) {
       relayServer = env.relayServer
       beforeDescribeId = (await snapshot()).result
       await relayServer.transactionManager.sendTransaction({
-        signer: relayServer.workerAddress,
+        signer: relayServer.workerAddresses[workerIndex],
         serverAction: ServerAction.VALUE_TRANSFER,
         destination: accounts[0],
         gasLimit: defaultEnvironment.mintxgascost,
@@ -412,7 +810,7 @@ contract('RelayServer', function (accounts) {
         value: relayServer.config.managerTargetBalance
       })
       await env.web3.eth.sendTransaction(
-        { from: accounts[0], to: relayServer.workerAddress, value: relayServer.config.workerTargetBalance })
+        { from: accounts[0], to: relayServer.workerAddresses[workerIndex], value: relayServer.config.workerTargetBalance })
       const currentBlockNumber = await env.web3.eth.getBlockNumber()
       const receipts = await relayServer.replenishServer(workerIndex, 0)
       assert.deepEqual(receipts, [])
@@ -631,13 +1029,16 @@ contract('RelayServer', function (accounts) {
       })
       relayServer = env.relayServer
     })
-    // This test should be skipped in the case a custom replenish is implemented
-    it('should throw an errror if there is no custom replenish function', async function () {
-      try {
-        await relayServer.replenishServer(workerIndex, 0)
-      } catch (error) {
-        assert.equal(error.message, 'No custom replenish function found, to remove this error please add the custom replenish implementation here deleting this line.')
-      }
+    it('should throw an error if no replenish strategy was registered', async function () {
+      await expect(relayServer.replenishServer(workerIndex, 0))
+        .to.be.rejectedWith('customReplenish is set but no replenish strategy was registered')
+    })
+
+    it('should use the registered replenish strategy', async function () {
+      const replenish = sinon.stub().resolves(['0x123'])
+      relayServer.registerReplenishStrategy({ replenish })
+      assert.deepEqual(await relayServer.replenishServer(workerIndex, 5), ['0x123'])
+      expect(replenish).to.have.been.calledWith(relayServer, workerIndex, 5)
     })
   })
 
@@ -0,0 +1,203 @@
+import express from 'express'
+import bodyParser from 'body-parser'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import Common from 'ethereumjs-common'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import { Transaction, TransactionOptions } from 'ethereumjs-tx'
+
+import { KeyManager } from '../../src/relayserver/KeyManager'
+import { RemoteSigner, RemoteSignerOptions } from '../../src/relayserver/RemoteSigner'
+import { ServerAction } from '../../src/relayserver/StoredTransaction'
+import TypedRelayCommitmentData from '../../src/common/EIP712/RelayCommitment'
+
+const { expect, assert } = chai.use(chaiAsPromised)
+
+/**
+ * Stand-in for a signing service, signing with the keys of a KeyManager.
+ */
+class SigningService {
+  readonly app = express()
+  server!: Server
+  requests = 0
+  // the next requests fail with a 503 status
+  failures = 0
+  // delay of the answers, in milliseconds
+  delay = 0
+  // transactions and typed data are signed with this key instead of the one asked for
+  signWith?: string
+
+  constructor (readonly keyManager: KeyManager, readonly allowedActions: string[]) {
+    this.app.use(bodyParser.json())
+    this.app.use((req, res, next) => {
+      this.requests++
+      if (this.failures > 0) {
+        this.failures--
+        res.status(503).send({ error: 'unavailable' })
+        return
+      }
+      setTimeout(next, this.delay)
+    })
+    this.app.get('/addresses', (req, res) => {
+      res.send({ addresses: this.keyManager.getAddresses() })
+    })
+    this.app.post('/sign-transaction', (req, res) => {
+      const { signer, serverAction, transaction } = req.body
+      if (!this.allowedActions.includes(serverAction)) {
+        res.status(403).send({ error: `${serverAction as string} not allowed` })
+        return
+      }
+      const { chainId, ...fields } = transaction
+      const tx = new Transaction(fields, { common: Common.forCustomChain('mainnet', { chainId }, 'istanbul') })
+      res.send({ signedTx: this.keyManager.signTransaction(this.signWith ?? signer, tx) })
+    })
+    this.app.post('/sign-typed-data', (req, res) => {
+      res.send({ signature: this.keyManager.signTypedData(this.signWith ?? req.body.signer, req.body.typedData) })
+    })
+  }
+
+  async start (): Promise<string> {
+    this.server = this.app.listen(0)
+    await new Promise(resolve => this.server.once('listening', resolve))
+    return `http://localhost:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop (): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve))
+  }
+}
+
+contract('RemoteSigner', function () {
+  const rawTxOptions: TransactionOptions = { common: Common.forCustomChain('mainnet', { chainId: 33 }, 'istanbul') }
+  const keyManager = new KeyManager(2, undefined, Buffer.from('seed1234'))
+  const signer = keyManager.getAddress(1)
+  let service: SigningService
+  let remoteSigner: RemoteSigner
+  let options: RemoteSignerOptions
+
+  function newTransaction (): Transaction {
+    return new Transaction({
+      to: '0x0000000000000000000000000000000000000001',
+      gasLimit: 100000,
+      gasPrice: 60000000,
+      data: '0x1234',
+      nonce: 3
+    }, rawTxOptions)
+  }
+
+  beforeEach(async function () {
+    service = new SigningService(keyManager, ['RELAY_CALL'])
+    options = {
+      url: await service.start(),
+      timeout: 1000,
+      retries: 1,
+      allowedActions: [ServerAction.RELAY_CALL, ServerAction.VALUE_TRANSFER],
+      allowedTypedData: ['RelayCommitment']
+    }
+    remoteSigner = new RemoteSigner(options)
+    await remoteSigner.init()
+  })
+
+  afterEach(async function () {
+    await service.stop()
+  })
+
+  it('should fetch the addresses of the service', function () {
+    assert.deepEqual(remoteSigner.getAddresses(), keyManager.getAddresses())
+    assert.equal(remoteSigner.getAddress(1), signer)
+    assert.isTrue(remoteSigner.isSigner(signer.toUpperCase().replace('0X', '0x')))
+    assert.isFalse(remoteSigner.isSigner('0x0000000000000000000000000000000000000001'))
+  })
+
+  it('should sign a transaction in place as the KeyManager does', async function () {
+    const tx = newTransaction()
+    const signedTx = await remoteSigner.signTransaction(signer, tx, ServerAction.RELAY_CALL)
+    assert.equal(signedTx, keyManager.signTransaction(signer, newTransaction()))
+    assert.equal(signedTx, '0x' + tx.serialize().toString('hex'))
+  })
+
+  it('should sign typed data as the KeyManager does', async function () {
+    const typedData = new TypedRelayCommitmentData(33, {
+      relayRequestHash: '0x' + '11'.repeat(32),
+      relayHub: '0x0000000000000000000000000000000000000002',
+      relayManager: signer,
+      relayWorker: '0x0000000000000000000000000000000000000003',
+      maxGas: '200000',
+      gasPrice: '60000000',
+      relayMaxNonce: 10,
+      deadline: 1600000000
+    })
+    assert.equal(await remoteSigner.signTypedData(signer, typedData), keyManager.signTypedData(signer, typedData))
+  })
+
+  it('should not ask the service to sign the actions not allowed', async function () {
+    const requests = service.requests
+    await expect(remoteSigner.signTransaction(signer, newTransaction(), ServerAction.ADD_WORKER))
+      .to.be.rejectedWith('remote signer does not sign ADD_WORKER transactions')
+    await expect(remoteSigner.signTransaction(signer, newTransaction()))
+      .to.be.rejectedWith('remote signer does not sign unknown transactions')
+    assert.equal(service.requests, requests)
+  })
+
+  it('should not ask the service to sign the typed data not allowed', async function () {
+    const requests = service.requests
+    const typedData = new TypedRelayCommitmentData(33, {
+      relayRequestHash: '0x' + '11'.repeat(32),
+      relayHub: '0x0000000000000000000000000000000000000002',
+      relayManager: signer,
+      relayWorker: '0x0000000000000000000000000000000000000003',
+      maxGas: '200000',
+      gasPrice: '60000000',
+      relayMaxNonce: 10,
+      deadline: 1600000000
+    })
+    const otherData = { ...typedData, primaryType: 'RelayRequest' }
+    await expect(remoteSigner.signTypedData(signer, otherData))
+      .to.be.rejectedWith('remote signer does not sign RelayRequest typed data')
+    assert.equal(service.requests, requests)
+  })
+
+  it('should not retry the transactions rejected by the service', async function () {
+    const requests = service.requests
+    await expect(remoteSigner.signTransaction(signer, newTransaction(), ServerAction.VALUE_TRANSFER))
+      .to.be.rejectedWith('failed to answer /sign-transaction: VALUE_TRANSFER not allowed')
+    assert.equal(service.requests, requests + 1)
+  })
+
+  it('should retry after a server error', async function () {
+    service.failures = 1
+    await remoteSigner.signTransaction(signer, newTransaction(), ServerAction.RELAY_CALL)
+    service.failures = 2
+    await expect(remoteSigner.signTransaction(signer, newTransaction(), ServerAction.RELAY_CALL))
+      .to.be.rejectedWith('failed to answer /sign-transaction: unavailable')
+  })
+
+  it('should time out', async function () {
+    service.delay = 300
+    remoteSigner = new RemoteSigner({ ...options, timeout: 100, retries: 0 })
+    await expect(remoteSigner.init()).to.be.rejectedWith('timeout of 100ms exceeded')
+  })
+
+  it('should reject a transaction signed by another key', async function () {
+    service.signWith = keyManager.getAddress(0)
+    await expect(remoteSigner.signTransaction(signer, newTransaction(), ServerAction.RELAY_CALL))
+      .to.be.rejectedWith(`did not sign the transaction of ${signer}`)
+  })
+
+  it('should reject typed data signed by another key', async function () {
+    service.signWith = keyManager.getAddress(0)
+    const typedData = new TypedRelayCommitmentData(33, {
+      relayRequestHash: '0x' + '11'.repeat(32),
+      relayHub: '0x0000000000000000000000000000000000000002',
+      relayManager: signer,
+      relayWorker: '0x0000000000000000000000000000000000000003',
+      maxGas: '200000',
+      gasPrice: '60000000',
+      relayMaxNonce: 10,
+      deadline: 1600000000
+    })
+    await expect(remoteSigner.signTypedData(signer, typedData))
+      .to.be.rejectedWith(`did not sign the typed data of ${signer}`)
+  })
+})
@@ -0,0 +1,192 @@
+import { toBN } from 'web3-utils'
+
+import {
+  loadReplenishStrategy,
+  ManagerToWorkerStrategy,
+  ReplenishContext,
+  ScheduledBatchStrategy,
+  WithdrawFromHubStrategy
+} from '../../src/relayserver/ReplenishStrategy'
+import { configureServer, ServerConfigParams } from '../../src/relayserver/ServerConfigParams'
+import { SendTransactionDetails } from '../../src/relayserver/TransactionManager'
+import { ServerAction } from '../../src/relayserver/StoredTransaction'
+
+const manager = '0x0000000000000000000000000000000000000001'
+const workers = ['0x0000000000000000000000000000000000000002', '0x0000000000000000000000000000000000000003']
+
+interface StakeInfo {
+  stake: string
+  unstakeDelay: string
+  withdrawBlock: string
+  owner: string
+}
+
+class FakeContractInteractor {
+  balances: Record<string, number> = {}
+  stakeInfo: StakeInfo = { stake: '0', unstakeDelay: '0', withdrawBlock: '0', owner: manager }
+
+  async getBalance (address: string): Promise<string> {
+    return (this.balances[address] ?? 0).toString()
+  }
+
+  async getStakeInfo (): Promise<StakeInfo> {
+    return this.stakeInfo
+  }
+
+  async getWithdrawStakeMethod (managerAddress: string): Promise<any> {
+    return { name: 'withdrawStake', managerAddress }
+  }
+}
+
+contract('ReplenishStrategy', function () {
+  let contractInteractor: FakeContractInteractor
+  let sent: SendTransactionDetails[]
+  let pendingActions: ServerAction[]
+  let fundingNeeded: string[]
+  let server: ReplenishContext
+
+  function createContext (config: Partial<ServerConfigParams> = {}): ReplenishContext {
+    return {
+      config: configureServer({
+        workerMinBalance: 10,
+        workerTargetBalance: 30,
+        managerMinBalance: 10,
+        minHubWithdrawalBalance: 100,
+        relayHubAddress: '0x0000000000000000000000000000000000000004',
+        ...config
+      }),
+      contractInteractor: contractInteractor as any,
+      transactionManager: {
+        sendTransaction: async (details: SendTransactionDetails) => {
+          sent.push(details)
+          return { transactionHash: `0x${sent.length}`, signedTx: '0x' }
+        },
+        attemptEstimateGas: async () => 50000
+      } as any,
+      txStoreManager: {
+        isActionPending: async (action: ServerAction) => pendingActions.includes(action)
+      } as any,
+      managerAddress: manager,
+      workerAddresses: workers,
+      emit: (event: string, message: string) => {
+        fundingNeeded.push(message)
+        return true
+      }
+    }
+  }
+
+  beforeEach(function () {
+    contractInteractor = new FakeContractInteractor()
+    sent = []
+    pendingActions = []
+    fundingNeeded = []
+    server = createContext()
+  })
+
+  describe('ManagerToWorkerStrategy', function () {
+    const strategy = new ManagerToWorkerStrategy()
+
+    it('should not refill a worker above the minimum balance', async function () {
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 10 }
+      assert.deepEqual(await strategy.replenish(server, 0, 1), [])
+      assert.equal(sent.length, 0)
+    })
+
+    it('should refill a worker up to the target balance', async function () {
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 5 }
+      assert.deepEqual(await strategy.replenish(server, 0, 1), ['0x1'])
+      assert.equal(sent[0].destination, workers[0])
+      assert.equal(sent[0].serverAction, ServerAction.VALUE_TRANSFER)
+      assert.isTrue(toBN(sent[0].value as string).eqn(25))
+    })
+
+    it('should not refill while a previous transfer is pending', async function () {
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 5 }
+      pendingActions = [ServerAction.VALUE_TRANSFER]
+      assert.deepEqual(await strategy.replenish(server, 0, 1), [])
+    })
+
+    it('should ask for funding when the manager cannot pay for the refill', async function () {
+      contractInteractor.balances = { [manager]: 30, [workers[0]]: 5 }
+      assert.deepEqual(await strategy.replenish(server, 0, 1), [])
+      assert.equal(fundingNeeded.length, 1)
+      assert.include(fundingNeeded[0], 'mgr balance too low')
+    })
+  })
+
+  describe('WithdrawFromHubStrategy', function () {
+    const strategy = new WithdrawFromHubStrategy()
+
+    it('should refill from the manager when it can pay', async function () {
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 5 }
+      await strategy.replenish(server, 0, 1)
+      assert.equal(sent[0].serverAction, ServerAction.VALUE_TRANSFER)
+    })
+
+    it('should not withdraw the stake unless the operator allowed it', async function () {
+      contractInteractor.balances = { [manager]: 30, [workers[0]]: 5 }
+      contractInteractor.stakeInfo = { stake: '500', unstakeDelay: '10', withdrawBlock: '20', owner: manager }
+      assert.deepEqual(await strategy.replenish(server, 0, 20), [])
+      assert.equal(sent.length, 0)
+      assert.include(fundingNeeded[0], 'mgr balance too low')
+    })
+
+    it('should withdraw a due stake owned by the manager when it cannot pay', async function () {
+      server = createContext({ replenishUnstakeAllowed: true })
+      contractInteractor.balances = { [manager]: 30, [workers[0]]: 5 }
+      contractInteractor.stakeInfo = { stake: '500', unstakeDelay: '10', withdrawBlock: '20', owner: manager }
+      assert.deepEqual(await strategy.replenish(server, 0, 20), ['0x1'])
+      assert.equal(sent[0].serverAction, ServerAction.DEPOSIT_WITHDRAWAL)
+      assert.equal(sent[0].destination, server.config.relayHubAddress)
+      assert.deepEqual(sent[0].method, { name: 'withdrawStake', managerAddress: manager })
+    })
+
+    it('should not withdraw a stake that is not due', async function () {
+      server = createContext({ replenishUnstakeAllowed: true })
+      contractInteractor.balances = { [manager]: 30, [workers[0]]: 5 }
+      contractInteractor.stakeInfo = { stake: '500', unstakeDelay: '10', withdrawBlock: '20', owner: manager }
+      assert.deepEqual(await strategy.replenish(server, 0, 19), [])
+      assert.equal(fundingNeeded.length, 1)
+    })
+
+    it('should not withdraw a stake owned by another account', async function () {
+      server = createContext({ replenishUnstakeAllowed: true })
+      contractInteractor.balances = { [manager]: 30, [workers[0]]: 5 }
+      contractInteractor.stakeInfo = { stake: '500', unstakeDelay: '10', withdrawBlock: '20', owner: workers[1] }
+      assert.deepEqual(await strategy.replenish(server, 0, 20), [])
+    })
+  })
+
+  describe('ScheduledBatchStrategy', function () {
+    it('should top up every worker below the target on schedule', async function () {
+      const strategy = new ScheduledBatchStrategy(10)
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 20, [workers[1]]: 25 }
+      assert.deepEqual(await strategy.replenish(server, 0, 100), ['0x1', '0x2'])
+      assert.deepEqual(sent.map(it => it.destination), workers)
+      // not due yet and both workers above the minimum
+      assert.deepEqual(await strategy.replenish(server, 1, 105), [])
+    })
+
+    it('should refill a worker below the minimum between batches', async function () {
+      const strategy = new ScheduledBatchStrategy(10)
+      contractInteractor.balances = { [manager]: 1000, [workers[0]]: 30, [workers[1]]: 30 }
+      await strategy.replenish(server, 0, 100)
+      contractInteractor.balances[workers[1]] = 5
+      assert.deepEqual(await strategy.replenish(server, 1, 101), ['0x1'])
+      assert.equal(sent[0].destination, workers[1])
+    })
+  })
+
+  describe('loadReplenishStrategy', function () {
+    it('should create the built-in strategies by name', function () {
+      assert.instanceOf(loadReplenishStrategy(configureServer({})), ManagerToWorkerStrategy)
+      const batch = loadReplenishStrategy(configureServer({ replenishStrategy: 'scheduled-batch', replenishBatchIntervalBlocks: 7 }))
+      assert.equal((batch as ScheduledBatchStrategy).intervalBlocks, 7)
+    })
+
+    it('should reject modules not exporting a strategy', function () {
+      assert.throws(() => loadReplenishStrategy(configureServer({ replenishStrategy: require.resolve('../../src/common/Constants') })),
+        'does not export a replenish strategy')
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import axios from 'axios'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import ow from 'ow'
+
+import RateLimitedError from '../../src/common/RateLimitedError'
+import { CORRELATION_ID_HEADER } from '../../src/common/Logging'
+import { HttpServer } from '../../src/relayserver/HttpServer'
+import { shapePredicate, shapeToSchema } from '../../src/relayserver/OpenApi'
+import { API_SCHEMAS, RestApi } from '../../src/relayserver/RestApi'
+import { RelayServer } from '../../src/relayserver/RelayServer'
+
+const { assert } = chai.use(chaiAsPromised)
+
+const address = '0x' + '1'.repeat(40)
+const hash = '0x' + '2'.repeat(64)
+
+const relayTransactionRequest = {
+  relayRequest: {
+    request: {
+      relayHub: address,
+      from: address,
+      to: address,
+      value: '0',
+      gas: '100000',
+      nonce: '0',
+      data: '0x',
+      tokenContract: address,
+      tokenAmount: '1',
+      tokenGas: '50000'
+    },
+    relayData: {
+      gasPrice: '60000000',
+      domainSeparator: hash,
+      relayWorker: address,
+      callForwarder: address,
+      callVerifier: address
+    }
+  },
+  metadata: {
+    relayHubAddress: address,
+    relayMaxNonce: 3,
+    signature: '0x1234'
+  }
+}
+
+const pingResponse = {
+  relayWorkerAddress: address,
+  relayManagerAddress: address,
+  relayHubAddress: address,
+  minGasPrice: '60000000',
+  chainId: '33',
+  networkId: '33',
+  ready: true,
+  version: '2.0.1'
+}
+
+contract('RestApi', function () {
+  let backend: any
+  let relayError: Error | undefined
+  let restApi: RestApi
+
+  beforeEach(function () {
+    relayError = undefined
+    backend = Object.assign(new EventEmitter(), {
+      config: { workdir: '', adminToken: '', adminHmacSecret: '' },
+      pingHandler: async () => pingResponse,
+      statusHandler: async () => ({ healthy: false, failingChecks: ['node'], checks: [] }),
+      txStatusHandler: async () => undefined,
+      relayRequestStatusHandler: async () => undefined,
+      createRelayTransaction: async (req: any, clientIp?: string, correlationId?: string) => {
+        if (relayError != null) {
+          throw relayError
+        }
+        backend.lastCorrelationId = correlationId
+        return { signedTx: '0xabcd', transactionHash: hash }
+      }
+    })
+    restApi = new RestApi(backend as RelayServer)
+  })
+
+  describe('#run()', function () {
+    it('should reject bodies not matching the schemas of the route', async function () {
+      const { metadata, ...withoutMetadata } = relayTransactionRequest
+      await assert.isRejected(restApi.run('relay', { body: withoutMetadata, query: {}, params: {} }), /metadata/)
+      await restApi.run('relay', { body: { ...relayTransactionRequest, extra: 1 }, query: {}, params: {} })
+        .then(() => assert.fail(), e => assert.equal(e.code, 'invalid_request'))
+      await restApi.run('ping', { body: {}, query: { other: '1' }, params: {} })
+        .then(() => assert.fail(), e => assert.equal(e.code, 'invalid_request'))
+    })
+
+    it('should type the errors of the handlers', async function () {
+      relayError = new Error('verifier rejected')
+      await restApi.run('relay', { body: relayTransactionRequest, query: {}, params: {} })
+        .then(() => assert.fail(), e => {
+          assert.equal(e.code, 'rejected')
+          assert.equal(e.status, 400)
+        })
+      relayError = new RateLimitedError('too many requests', 7)
+      await restApi.run('relay', { body: relayTransactionRequest, query: {}, params: {} })
+        .then(() => assert.fail(), e => assert.deepEqual(e.toResponse(), { error: { code: 'rate_limited', message: 'too many requests', retryAfter: 7 } }))
+      await restApi.run('txStatus', { body: {}, query: {}, params: { hash } })
+        .then(() => assert.fail(), e => {
+          assert.equal(e.code, 'not_found')
+          assert.equal(e.status, 404)
+        })
+    })
+  })
+
+  describe('#getOpenApiDocument()', function () {
+    it('should describe the versioned routes with the request shapes', function () {
+      const document = restApi.getOpenApiDocument()
+      assert.equal(document.openapi, '3.0.3')
+      const relay = document.paths['/v1/relay'].post
+      assert.deepEqual(relay.requestBody.content['application/json'].schema.oneOf.map((it: any) => it.$ref),
+        ['#/components/schemas/RelayTransactionRequest', '#/components/schemas/DeployTransactionRequest'])
+      assert.deepEqual(document.paths['/v1/tx/{hash}'].get.parameters, [{ name: 'hash', in: 'path', required: true, schema: { type: 'string' } }])
+      assert.deepEqual(document.paths['/v1/getaddr'].get.parameters, [{ name: 'verifier', in: 'query', required: false, schema: { type: 'string' } }])
+      assert.deepEqual(Object.keys(document.paths['/v1/status'].get.responses), ['200', '503', 'default'])
+      const metadata = document.components.schemas.RelayTransactionRequest.properties.metadata
+      assert.deepEqual(metadata.required, ['relayHubAddress', 'relayMaxNonce', 'signature'])
+      assert.deepEqual(metadata.properties.relayMaxNonce, { type: 'number' })
+      assert.deepEqual(document.components.schemas.RelayEstimateRequest.properties.metadata.required, ['relayHubAddress'])
+    })
+
+    it('should describe arrays, integers and optional properties', function () {
+      assert.deepEqual(shapeToSchema({ ids: [ow.string], count: ow.optional.number.integer }), {
+        type: 'object',
+        properties: { ids: { type: 'array', items: { type: 'string' } }, count: { type: 'integer' } },
+        required: ['ids'],
+        additionalProperties: false
+      })
+    })
+
+    it('should describe the error codes and the other enums', function () {
+      const schemas = restApi.getOpenApiDocument().components.schemas
+      assert.deepEqual(schemas.ErrorResponse.properties.error, {
+        type: 'object',
+        properties: {
+          code: { type: 'string', enum: ['invalid_request', 'rejected', 'rate_limited', 'not_found', 'internal_error'] },
+          message: { type: 'string' },
+          retryAfter: { type: 'number' }
+        },
+        required: ['code', 'message'],
+        additionalProperties: false
+      })
+      assert.deepEqual(schemas.TransactionStatusResponse.properties.status, { type: 'string', enum: ['pending', 'mined', 'confirmed', 'replaced', 'dropped'] })
+      assert.deepEqual(schemas.EstimateResponse.properties.gasEstimation, { type: 'string', enum: ['relay-call', 'linear-fit'] })
+      assert.throws(() => shapeToSchema({ id: ow.string.matches(/^0x[0-9a-f]{64}$/) }), 'No OpenAPI schema for the predicate')
+    })
+
+    it('should have response schemas matching the responses of the relay server', function () {
+      ow(pingResponse, shapePredicate(API_SCHEMAS.PingResponse))
+      ow({ signedTx: '0xabcd' }, shapePredicate(API_SCHEMAS.RelayTransactionResponse))
+      ow({
+        txId: hash,
+        signer: address,
+        nonce: 1,
+        gasPrice: 60,
+        attempts: 2,
+        boostHistory: [{ oldTxId: hash, newTxId: hash, oldGasPrice: 50, newGasPrice: 60, blockNumber: 10 }],
+        status: 'mined',
+        minedBlockNumber: 11,
+        confirmations: 1
+      }, shapePredicate(API_SCHEMAS.TransactionStatusResponse))
+    })
+  })
+
+  describe('HttpServer', function () {
+    let server: Server
+    let url: string
+
+    beforeEach(async function () {
+      const httpServer = new HttpServer(0, backend as RelayServer)
+      server = httpServer.app.listen(0)
+      await new Promise(resolve => server.once('listening', resolve))
+      url = `http://localhost:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(async function () {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should serve the versioned routes and keep the unversioned ones as aliases', async function () {
+      assert.deepEqual((await axios.get(`${url}/v1/getaddr`)).data, pingResponse)
+      assert.deepEqual((await axios.get(`${url}/getaddr`)).data, pingResponse)
+      const document = (await axios.get(`${url}/v1/openapi.json`)).data
+      assert.isDefined(document.paths['/v1/estimate'])
+    })
+
+    it('should send typed errors on the versioned routes only', async function () {
+      const response = await axios.post(`${url}/v1/relay`, {}, { validateStatus: () => true })
+      assert.equal(response.status, 400)
+      assert.equal(response.data.error.code, 'invalid_request')
+      const notFound = await axios.get(`${url}/v1/tx/${hash}`, { validateStatus: () => true })
+      assert.equal(notFound.status, 404)
+      assert.equal(notFound.data.error.code, 'not_found')
+      const legacy = await axios.get(`${url}/tx/${hash}`, { validateStatus: () => true })
+      assert.deepEqual(legacy.data, { message: `transaction ${hash} not found` })
+      const unhealthy = await axios.get(`${url}/v1/status`, { validateStatus: () => true })
+      assert.equal(unhealthy.status, 503)
+    })
+
+    it('should pass and echo the correlation ID of the request', async function () {
+      const response = await axios.post(`${url}/v1/relay`, relayTransactionRequest, { headers: { [CORRELATION_ID_HEADER]: 'client-1' } })
+      assert.equal(response.data.signedTx, '0xabcd')
+      assert.equal(response.headers[CORRELATION_ID_HEADER], 'client-1')
+      assert.equal(backend.lastCorrelationId, 'client-1')
+    })
+  })
+})
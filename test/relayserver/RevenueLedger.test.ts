@@ -0,0 +1,190 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import abiCoder, { AbiCoder } from 'web3-eth-abi'
+import { toBN } from 'web3-utils'
+import { Transaction, TransactionReceipt } from 'web3-core'
+
+import relayHubAbi from '../../src/common/interfaces/IRelayHub.json'
+import { constants } from '../../src/common/Constants'
+import {
+  createLedgerEntry,
+  decodeRelayHubCall,
+  getLedgerPeriod,
+  LedgerEntry,
+  ledgerEntriesToCsv,
+  ledgerSummaryToCsv,
+  RevenueLedger,
+  summarizeLedger,
+  tokensToWei
+} from '../../src/relayserver/RevenueLedger'
+
+const abi = abiCoder as any as AbiCoder
+
+const { assert } = chai.use(chaiAsPromised)
+
+const hub = '0x' + '1'.repeat(40)
+const from = '0x' + '2'.repeat(40)
+const destination = '0x' + '3'.repeat(40)
+const token = '0x' + '4'.repeat(40)
+const worker = '0x' + '5'.repeat(40)
+const verifier = '0x' + '6'.repeat(40)
+const zero = '0x' + '0'.repeat(64)
+const txHash = '0x' + '7'.repeat(64)
+// 2021-03-01T12:00:00Z
+const timestamp = 1614600000
+
+const relayData = [10, zero, worker, from, verifier]
+
+function encodeCall (name: string, request: any[]): string {
+  const item = (relayHubAbi as any[]).find(it => it.type === 'function' && it.name === name)
+  return abi.encodeFunctionCall(item, [[request, relayData] as any, '0x1234'])
+}
+
+const relayCallInput = encodeCall('relayCall', [hub, from, destination, token, 0, 100000, 1, 500, 30000, '0x'])
+const deployCallInput = encodeCall('deployCall', [hub, from, destination, token, constants.ZERO_ADDRESS, 0, 1, 700, 30000, 0, '0x'])
+
+function transaction (input: string): Transaction {
+  return { hash: txHash, to: hub, input, gasPrice: '10' } as any as Transaction
+}
+
+function receipt (status: boolean, topics: string[] = []): TransactionReceipt {
+  return { transactionHash: txHash, blockNumber: 12, status, gasUsed: 60000, logs: topics.map(topic => ({ topics: [topic] })) } as any as TransactionReceipt
+}
+
+function entry (fields: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    txHash,
+    blockNumber: 12,
+    timestamp,
+    isDeploy: false,
+    status: 'relayed',
+    relayWorker: worker,
+    verifier,
+    destination,
+    tokenContract: token,
+    tokenCollected: '500',
+    tokenCollectedWei: '250',
+    gasUsed: 10,
+    gasPrice: '10',
+    cost: '100',
+    ...fields
+  }
+}
+
+contract('RevenueLedger', function () {
+  describe('decodeRelayHubCall', function () {
+    it('should decode relayCall and deployCall transactions', function () {
+      const relayCall = decodeRelayHubCall(relayCallInput)
+      assert.isFalse(relayCall?.isDeploy)
+      assert.equal(relayCall?.request.tokenAmount, '500')
+      assert.equal(relayCall?.relayData.callVerifier.toLowerCase(), verifier)
+      const deployCall = decodeRelayHubCall(deployCallInput)
+      assert.isTrue(deployCall?.isDeploy)
+      assert.equal(deployCall?.request.tokenAmount, '700')
+    })
+
+    it('should ignore other transactions', function () {
+      assert.isUndefined(decodeRelayHubCall('0x'))
+      assert.isUndefined(decodeRelayHubCall('0x12345678' + '0'.repeat(64)))
+    })
+  })
+
+  describe('createLedgerEntry', function () {
+    it('should record the cost of the gas used and the tokens collected', function () {
+      const ledgerEntry = createLedgerEntry(transaction(relayCallInput), receipt(true), timestamp)
+      assert.deepInclude(ledgerEntry, {
+        status: 'relayed',
+        isDeploy: false,
+        relayWorker: worker,
+        verifier,
+        destination,
+        tokenContract: token,
+        tokenCollected: '500',
+        gasUsed: 60000,
+        cost: '600000',
+        relayHub: hub
+      })
+    })
+
+    it('should detect the transactions reverted by the recipient', function () {
+      const rejectedTopic = abi.encodeEventSignature((relayHubAbi as any[])
+        .find(it => it.type === 'event' && it.name === 'TransactionRelayedButRevertedByRecipient'))
+      const ledgerEntry = createLedgerEntry(transaction(relayCallInput), receipt(true, [rejectedTopic]), timestamp)
+      assert.equal(ledgerEntry?.status, 'reverted-on-recipient')
+      assert.equal(ledgerEntry?.tokenCollected, '500')
+    })
+
+    it('should not count tokens for failed transactions', function () {
+      const ledgerEntry = createLedgerEntry(transaction(deployCallInput), receipt(false), timestamp)
+      assert.equal(ledgerEntry?.status, 'failed')
+      assert.isTrue(ledgerEntry?.isDeploy)
+      assert.equal(ledgerEntry?.tokenCollected, '0')
+      assert.equal(ledgerEntry?.cost, '600000')
+    })
+  })
+
+  describe('summarizeLedger', function () {
+    it('should aggregate per day, per token and per hub', function () {
+      const otherToken = '0x' + '8'.repeat(40)
+      const otherHub = '0x' + '9'.repeat(40)
+      const summary = summarizeLedger([
+        entry({ relayHub: hub }),
+        entry({ status: 'failed', tokenCollected: '0', tokenCollectedWei: '0', cost: '400' }),
+        entry({ timestamp: timestamp + 24 * 3600, tokenContract: otherToken, tokenCollectedWei: undefined, status: 'reverted-on-recipient', relayHub: otherHub })
+      ])
+      assert.deepEqual(summary.total, {
+        transactions: 3,
+        revertedOnRecipient: 1,
+        failed: 1,
+        gasUsed: 30,
+        cost: '600',
+        collectedWei: '250',
+        profitWei: '-350',
+        tokensCollected: { [token]: '500', [otherToken]: '500' }
+      })
+      assert.deepEqual(Object.keys(summary.byDay), ['2021-03-01', '2021-03-02'])
+      assert.equal(summary.byDay['2021-03-01'].profitWei, '-250')
+      assert.equal(summary.byToken[otherToken].transactions, 1)
+      // entries recorded without their hub are only in the total
+      assert.deepEqual(Object.keys(summary.byHub), [hub, otherHub])
+      assert.equal(summary.byHub[hub].profitWei, '150')
+    })
+
+    it('should export the entries and the aggregates as CSV', function () {
+      const entriesCsv = ledgerEntriesToCsv([entry({ tokenCollectedWei: undefined })]).split('\n')
+      assert.equal(entriesCsv.length, 3)
+      assert.match(entriesCsv[0], /^txHash,blockNumber,/)
+      assert.include(entriesCsv[1], `${token},500,,10,10,100`)
+      const summaryCsv = ledgerSummaryToCsv(summarizeLedger([entry({})])).split('\n')
+      assert.deepEqual(summaryCsv.slice(1, 4), [
+        'day,2021-03-01,1,0,0,10,100,250,150',
+        `token,${token},1,0,0,10,100,250,150`,
+        'total,,1,0,0,10,100,250,150'
+      ])
+    })
+  })
+
+  it('should value tokens in wei', function () {
+    assert.equal(tokensToWei('500', toBN((2e18).toString())), '250')
+  })
+
+  it('should parse the days of a period', function () {
+    assert.deepEqual(getLedgerPeriod('2021-03-01', '2021-03-01'), { fromTimestamp: 1614556800, toTimestamp: 1614643199 })
+    assert.deepEqual(getLedgerPeriod(), { fromTimestamp: undefined, toTimestamp: undefined })
+    assert.throws(() => getLedgerPeriod('03/01/2021'), /Invalid day/)
+  })
+
+  describe('RevenueLedger', function () {
+    it('should record each transaction once and filter by time', async function () {
+      const ledger = new RevenueLedger({ inMemory: true })
+      assert.isTrue(await ledger.record(entry({})))
+      assert.isFalse(await ledger.record(entry({ cost: '1' })))
+      assert.isTrue(await ledger.hasEntry(txHash.toUpperCase().replace('0X', '0x')))
+      await ledger.record(entry({ txHash: '0x' + '9'.repeat(64), blockNumber: 11, timestamp: timestamp - 24 * 3600 }))
+      const entries = await ledger.getEntries()
+      assert.deepEqual(entries.map(it => it.blockNumber), [11, 12])
+      assert.deepEqual(entries[1], entry({}))
+      assert.equal((await ledger.getEntries(timestamp)).length, 1)
+    })
+  })
+})
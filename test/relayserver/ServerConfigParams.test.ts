@@ -1,16 +1,23 @@
 import {
+  configureServer,
+  describeServerConfig,
   entriesToObj,
   filterMembers,
   filterType,
   parseServerConfig,
-  resolveServerConfig
+  redactServerConfig,
+  relayHubConfigs,
+  resolveServerConfig,
+  validateServerConfig
 } from '../../src/relayserver/ServerConfigParams'
+import { parseDuration, parseWei } from '../../src/relayserver/ConfigSchema'
 import * as fs from 'fs'
 import { expectRevert } from '@openzeppelin/test-helpers'
 import {
   VersionRegistryInstance
 } from '../../types/truffle-contracts'
 import { string32 } from '../../src/common/VersionRegistry'
+import { constants } from '../../src/common/Constants'
 
 require('source-map-support').install({ errorFormatterForce: true })
 const VersionRegistryContract = artifacts.require('VersionRegistry')
@@ -47,13 +54,34 @@ context('#ServerConfigParams', () => {
 
       assert.deepEqual(filterMembers(a, config), { x: 1, y: 2 })
     })
+
+    it('#parseWei', () => {
+      assert.equal(parseWei('0.001 rbtc'), 1e15.toString())
+      assert.equal(parseWei('60 GWEI'), 60e9.toString())
+      assert.equal(parseWei('1000'), '1000')
+      assert.equal(parseWei('0.50 kwei'), '500')
+      assert.equal(parseWei(1e18), '1000000000000000000')
+      expectThrow(() => parseWei('0.5 wei'), 'must be a whole amount of wei')
+      expectThrow(() => parseWei('1 btc'), 'must be in one of the units wei, kwei')
+      expectThrow(() => parseWei('-1'), 'must be an amount of wei')
+    })
+
+    it('#parseDuration', () => {
+      assert.equal(parseDuration('30s'), 30000)
+      assert.equal(parseDuration('1.5 m'), 90000)
+      assert.equal(parseDuration('250'), 250)
+      expectThrow(() => parseDuration('1d'), 'must be a number of milliseconds')
+    })
   })
 
   context('#parseServerConfig', () => {
     const tmpConfigfile = '/tmp/test.configfile.tmp'
+    const tmpYamlConfigfile = '/tmp/test.configfile.yaml'
     after(() => {
-      if (fs.existsSync(tmpConfigfile)) {
-        fs.unlinkSync(tmpConfigfile)
+      for (const file of [tmpConfigfile, tmpYamlConfigfile]) {
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file)
+        }
       }
     })
     it('should parse command line params', function () {
@@ -112,7 +140,103 @@ context('#ServerConfigParams', () => {
         parseServerConfig(['--config', tmpConfigfile, '--port', '111'], { }),
         { config: tmpConfigfile, port: 111 })
     })
+
+    it('should read YAML config files and convert the units of the values', function () {
+      fs.writeFileSync(tmpYamlConfigfile, [
+        'workerMinBalance: 0.002 rbtc',
+        'maxGasPrice: 60 gwei',
+        'checkInterval: 30s',
+        'devMode: true',
+        'trustedVerifiers:',
+        `  - '${addr(1)}'`,
+        'tokenExchangeRates:',
+        `  '${addr(2)}': '1000'`
+      ].join('\n'))
+      assert.deepEqual(parseServerConfig(['--config', tmpYamlConfigfile], {}), {
+        config: tmpYamlConfigfile,
+        workerMinBalance: 2e15,
+        maxGasPrice: 60e9.toString(),
+        checkInterval: 30000,
+        devMode: true,
+        trustedVerifiers: [addr(1)],
+        tokenExchangeRates: { [addr(2)]: '1000' }
+      })
+    })
+
+    it('should convert lists and objects given in env or cmdline', function () {
+      assert.deepEqual(
+        parseServerConfig([`--trustedVerifiers=${addr(1)},${addr(2)}`, '--gasPriceFactor=1.5'], {
+          feeExemptVerifiers: `["${addr(3)}"]`,
+          relayPolicy: '{"maxValue":"0"}'
+        }),
+        { trustedVerifiers: [addr(1), addr(2)], gasPriceFactor: 1.5, feeExemptVerifiers: [addr(3)], relayPolicy: { maxValue: '0' } })
+    })
+
+    it('should throw on values of the wrong type', function () {
+      expectThrow(() => parseServerConfig(['--port=abc'], {}), 'invalid param: port must be a number, got "abc"')
+      expectThrow(() => parseServerConfig(['--workerMinBalance=1 btc'], {}), 'invalid param: workerMinBalance must be in one of the units')
+      fs.writeFileSync(tmpYamlConfigfile, '- port')
+      expectThrow(() => parseServerConfig(['--config', tmpYamlConfigfile], {}), 'must contain an object of params')
+    })
   })
+
+  context('#validateServerConfig', () => {
+    it('should report each invalid param', function () {
+      expectThrow(() => validateServerConfig({ workerCount: 0, logFormat: 'xml' as any, trustedVerifiers: ['0x12'], penalizationBeneficiary: '' }),
+        'invalid param: workerCount must be at least 1\n' +
+        'invalid param: logFormat must be pretty or json\n' +
+        'invalid param: trustedVerifiers is not a list of valid addresses: 0x12')
+      validateServerConfig({ workerCount: 2, relayHubId: undefined, managerMinStake: '1' })
+    })
+
+    it('should validate the addresses of the additional relay hubs', function () {
+      const additionalRelayHubs = parseServerConfig([], { additionalRelayHubs: `[{"relayHubAddress":"${addr(1)}","trustedVerifiers":["0x12"]}]` }).additionalRelayHubs
+      assert.deepEqual(additionalRelayHubs, [{ relayHubAddress: addr(1), trustedVerifiers: ['0x12'] }])
+      expectThrow(() => validateServerConfig({ additionalRelayHubs }), 'invalid param: additionalRelayHubs item #0 has an invalid address: 0x12')
+      expectThrow(() => validateServerConfig({ additionalRelayHubs: [{}] as any }), 'invalid param: additionalRelayHubs item #0 has no relayHubAddress')
+      expectThrow(() => parseServerConfig(['--additionalRelayHubs', `"${addr(1)}"`], {}), 'invalid param: additionalRelayHubs must be a list of objects')
+    })
+
+    it('should validate the actions the remote signers are asked to sign', function () {
+      const { remoteSignerAllowedActions } = parseServerConfig(['--remoteSignerAllowedActions=RELAY_CALL,REPLACE_MANAGER'], {})
+      assert.deepEqual(remoteSignerAllowedActions, ['RELAY_CALL', 'REPLACE_MANAGER'])
+      expectThrow(() => validateServerConfig({ remoteSignerAllowedActions }),
+        'invalid param: remoteSignerAllowedActions must only contain REGISTER_SERVER, ADD_WORKER, RELAY_CALL, VALUE_TRANSFER, DEPOSIT_WITHDRAWAL, PENALIZATION or DISABLE_WORKER, got REPLACE_MANAGER')
+    })
+
+    it('should redact the secret params', function () {
+      const config = { adminToken: 'token', adminHmacSecret: '', remoteSignerToken: 'signer', port: 8090 }
+      assert.deepEqual(redactServerConfig(config), { adminToken: '<redacted>', adminHmacSecret: '', remoteSignerToken: '<redacted>', port: 8090 })
+      assert.equal(config.adminToken, 'token')
+    })
+
+    it('should have its params documented', function () {
+      const documentation = fs.readFileSync('docs/launching_enveloping.md', 'utf8')
+      describeServerConfig().split('\n').forEach(line => assert.isTrue(documentation.includes(line), `not documented: ${line}`))
+    })
+  })
+  context('#relayHubConfigs', () => {
+    it('should give each additional hub the server configuration with its addresses', function () {
+      const config = configureServer({
+        relayHubAddress: addr(1),
+        relayVerifierAddress: addr(2),
+        trustedVerifiers: [addr(3)],
+        workerCount: 2,
+        additionalRelayHubs: [{ relayHubAddress: addr(4), deployVerifierAddress: addr(5) }]
+      })
+      const [main, additional] = relayHubConfigs(config)
+      assert.equal(main, config)
+      assert.deepInclude(additional, {
+        relayHubAddress: addr(4),
+        relayVerifierAddress: constants.ZERO_ADDRESS,
+        deployVerifierAddress: addr(5),
+        trustedVerifiers: [],
+        additionalRelayHubs: [],
+        workerCount: 2
+      })
+    })
+  })
+
   context('#resolveServerConfig', () => {
     const provider = web3.currentProvider
     it('should fail on missing hub/oracle', async () => {
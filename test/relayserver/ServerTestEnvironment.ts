@@ -149,11 +149,11 @@ export class ServerTestEnvironment {
     await this.relayServer._worker(latestBlock.number + 1)
   }
 
-  _createKeyManager (workdir?: string): KeyManager {
+  _createKeyManager (workdir?: string, count: number = 1): KeyManager {
     if (workdir != null) {
-      return new KeyManager(1, workdir)
+      return new KeyManager(count, workdir)
     } else {
-      return new KeyManager(1, undefined, crypto.randomBytes(32))
+      return new KeyManager(count, undefined, crypto.randomBytes(32))
     }
   }
 
@@ -173,7 +173,7 @@ export class ServerTestEnvironment {
 
   newServerInstanceNoFunding (config: Partial<ServerConfigParams> = {}, serverWorkdirs?: ServerWorkdirs): void {
     const managerKeyManager = this._createKeyManager(serverWorkdirs?.managerWorkdir)
-    const workersKeyManager = this._createKeyManager(serverWorkdirs?.workersWorkdir)
+    const workersKeyManager = this._createKeyManager(serverWorkdirs?.workersWorkdir, config.workerCount)
     const txStoreManager = new TxStoreManager({ workdir: serverWorkdirs?.workdir ?? getTemporaryWorkdirs().workdir })
     const serverDependencies = {
       contractInteractor: this.contractInteractor,
@@ -199,10 +199,10 @@ export class ServerTestEnvironment {
     this.relayServer.config.trustedVerifiers.push(this.deployVerifier.address)
   }
 
-  async createRelayHttpRequest (overrideDetails: Partial<EnvelopingTransactionDetails> = {}): Promise<RelayTransactionRequest> {
+  async createRelayHttpRequest (overrideDetails: Partial<EnvelopingTransactionDetails> = {}, relayWorker: Address = this.relayServer.workerAddresses[0]): Promise<RelayTransactionRequest> {
     const pingResponse = {
       relayHubAddress: this.relayHub.address,
-      relayWorkerAddress: this.relayServer.workerAddress
+      relayWorkerAddress: relayWorker
     }
     const eventInfo: RelayRegisteredEventInfo = {
       relayManager: '',
@@ -276,7 +276,7 @@ export class ServerTestEnvironment {
         address relayWorker,
         bytes32 relayRequestSigHash);
     */
-    assert.equal(event2.args.relayWorker.toLowerCase(), this.relayServer.workerAddress.toLowerCase())
+    assert.include(this.relayServer.workerAddresses.map(it => it.toLowerCase()), event2.args.relayWorker.toLowerCase())
     assert.equal(event2.args.relayManager.toLowerCase(), this.relayServer.managerAddress.toLowerCase())
     assert.equal(event2.args.relayRequestSigHash, reqSignatureHash)
   }
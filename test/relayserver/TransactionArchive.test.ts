@@ -0,0 +1,191 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+
+import { KeyManager } from '../../src/relayserver/KeyManager'
+import { MemoryTxStore } from '../../src/relayserver/MemoryTxStore'
+import { configureServer } from '../../src/relayserver/ServerConfigParams'
+import { ServerAction, StoredTransaction } from '../../src/relayserver/StoredTransaction'
+import { createArchivedTransaction, TransactionArchive } from '../../src/relayserver/TransactionArchive'
+import { MemoryTransactionArchive } from '../../src/relayserver/MemoryTransactionArchive'
+import { NedbTransactionArchive } from '../../src/relayserver/NedbTransactionArchive'
+import { SqliteTransactionArchive } from '../../src/relayserver/SqliteTransactionArchive'
+import { TransactionManager } from '../../src/relayserver/TransactionManager'
+
+const { assert } = chai.use(chaiAsPromised)
+
+const signer = '0x' + '1a'.repeat(20)
+const otherSigner = '0x' + '2b'.repeat(20)
+const hub = '0x' + '3C'.repeat(20)
+const token = '0x' + '4d'.repeat(20)
+
+function storedTx (nonce: number, fields: Partial<StoredTransaction> = {}): StoredTransaction {
+  return {
+    from: signer,
+    to: hub,
+    gas: 100000,
+    gasPrice: 60,
+    data: '0x1234',
+    nonce,
+    txId: `0x${nonce.toString().padStart(64, '0')}`,
+    serverAction: ServerAction.RELAY_CALL,
+    creationBlockNumber: 10,
+    attempts: 1,
+    nonceSigner: { nonce, signer },
+    ...fields
+  }
+}
+
+function receipt (transactionHash: string, blockNumber: number, status = true): any {
+  return { transactionHash, blockNumber, status, gasUsed: 50000 }
+}
+
+contract('TransactionArchive', function () {
+  const backends: Record<string, () => TransactionArchive> = {
+    memory: () => new MemoryTransactionArchive(),
+    nedb: () => new NedbTransactionArchive({ inMemory: true }),
+    sqlite: () => new SqliteTransactionArchive({ inMemory: true })
+  }
+
+  describe('createArchivedTransaction', function () {
+    it('should record the outcome of the mined attempt, without the nedb fields', function () {
+      const tx = { ...storedTx(1, { relayRequestHash: '0xabcd' }), _id: 'id', createdAt: new Date(), updatedAt: new Date() }
+      const archived = createArchivedTransaction(tx, receipt('0xAA', 20, false), 1600000000)
+      assert.deepEqual(archived, {
+        ...storedTx(1, { relayRequestHash: '0xabcd' }),
+        to: hub.toLowerCase(),
+        minedBlockNumber: 20,
+        minedTxId: '0xaa',
+        receiptStatus: false,
+        gasUsed: 50000,
+        archivedAt: 1600000000
+      })
+      assert.deepInclude(createArchivedTransaction(storedTx(1, { minedBlockNumber: 19 }), undefined, 1600000000), {
+        minedBlockNumber: 19,
+        receiptStatus: undefined
+      })
+    })
+  })
+
+  Object.entries(backends).forEach(([backend, createArchive]) => {
+    describe(`${backend} #query()`, function () {
+      let archive: TransactionArchive
+
+      beforeEach(async function () {
+        archive = createArchive()
+        await archive.archiveTransactions([
+          createArchivedTransaction(storedTx(1), receipt('0x01', 20), 100),
+          createArchivedTransaction(storedTx(2, { to: token, serverAction: ServerAction.VALUE_TRANSFER }), receipt('0x02', 21), 100),
+          createArchivedTransaction(storedTx(3, { from: otherSigner, nonceSigner: { nonce: 3, signer: otherSigner } }), receipt('0x03', 21), 200),
+          createArchivedTransaction(storedTx(4), receipt('0x04', 25), 300)
+        ])
+      })
+
+      it('should filter by signer, destination, server action and mined block range', async function () {
+        const nonces = async (query: any): Promise<number[]> => (await archive.query(query)).map(it => it.nonce)
+        assert.deepEqual(await nonces({}), [1, 2, 3, 4])
+        assert.deepEqual(await nonces({ signer: signer.toUpperCase().replace('0X', '0x') }), [1, 2, 4])
+        assert.deepEqual(await nonces({ destination: hub }), [1, 3, 4])
+        assert.deepEqual(await nonces({ serverAction: ServerAction.VALUE_TRANSFER }), [2])
+        assert.deepEqual(await nonces({ fromBlock: 21, toBlock: 24 }), [2, 3])
+        assert.deepEqual(await nonces({ signer, fromBlock: 21, limit: 1 }), [4])
+        assert.notProperty((await archive.query())[0], '_id')
+      })
+
+      it('should archive a transaction once', async function () {
+        await archive.archiveTransactions([createArchivedTransaction(storedTx(1), receipt('0x01', 20), 400)])
+        assert.equal((await archive.query()).length, 4)
+      })
+
+      it('should remove the transactions archived before the retention time', async function () {
+        assert.equal(await archive.prune(200), 2)
+        assert.deepEqual((await archive.query()).map(it => it.nonce), [3, 4])
+      })
+
+      it('should find a transaction by the ids it replaced and by relay request hash', async function () {
+        await archive.archiveTransactions([createArchivedTransaction(storedTx(5, {
+          txId: '0x06',
+          relayRequestHash: '0xabcd',
+          boostHistory: [{ oldTxId: '0x05', newTxId: '0x06', oldGasPrice: 1, newGasPrice: 2, blockNumber: 10 }]
+        }), receipt('0x05', 26), 300)])
+        assert.equal((await archive.getTxByIdOrReplacedId('0x05'))?.minedTxId, '0x05')
+        assert.equal((await archive.getTxByRelayRequestHash('0xABCD'))?.txId, '0x06')
+        assert.isNull(await archive.getTxByIdOrReplacedId('0x07'))
+      })
+    })
+  })
+
+  describe('TransactionManager#removeConfirmedTransactions()', function () {
+    let archive: TransactionArchive
+    let transactionManager: TransactionManager
+    let receipts: Record<string, any>
+    let failReceipts: boolean
+
+    beforeEach(async function () {
+      receipts = {}
+      failReceipts = false
+      archive = new NedbTransactionArchive({ inMemory: true })
+      const keyManager = new KeyManager(1, undefined, Buffer.from('seed1234'))
+      const contractInteractor: any = {
+        getTransaction: async () => ({ blockNumber: 20, nonce: 2, from: signer }),
+        getTransactionReceiptIfMined: async (txId: string) => {
+          if (failReceipts) {
+            throw new Error('node unavailable')
+          }
+          return receipts[txId] ?? null
+        }
+      }
+      transactionManager = new TransactionManager({
+        managerKeyManager: keyManager,
+        workersKeyManager: keyManager,
+        contractInteractor,
+        txStoreManager: new MemoryTxStore(),
+        transactionArchive: archive
+      }, configureServer({ confirmationsNeeded: 12, txArchiveRetentionDays: 0 }))
+      await transactionManager.txStoreManager.putTx(storedTx(1, { minedBlockNumber: 20 }))
+      await transactionManager.txStoreManager.putTx(storedTx(2, {
+        txId: '0x0b',
+        minedBlockNumber: 20,
+        boostHistory: [{ oldTxId: '0x0a', newTxId: '0x0b', oldGasPrice: 60, newGasPrice: 66, blockNumber: 15 }]
+      }))
+      receipts[storedTx(1).txId] = receipt(storedTx(1).txId, 20)
+      // the attempt the boost replaced was mined
+      receipts['0x0a'] = receipt('0x0a', 20, false)
+    })
+
+    it('should move the confirmed transactions to the archive', async function () {
+      const confirmed = await transactionManager.removeConfirmedTransactions(40)
+      assert.deepEqual(confirmed.map(it => it.nonce), [1, 2])
+      assert.deepEqual(await transactionManager.txStoreManager.getAll(), [])
+      const archived = await archive.query({ signer })
+      assert.deepEqual(archived.map(it => it.nonce), [1, 2])
+      assert.deepInclude(archived[1], { txId: '0x0b', minedTxId: '0x0a', receiptStatus: false, gasUsed: 50000, minedBlockNumber: 20 })
+      assert.equal(archived[1].boostHistory?.length, 1)
+    })
+
+    it('should keep the transactions that could not be archived', async function () {
+      failReceipts = true
+      assert.deepEqual(await transactionManager.removeConfirmedTransactions(40), [])
+      assert.equal((await transactionManager.txStoreManager.getAll()).length, 2)
+      assert.deepEqual(await archive.query(), [])
+    })
+  })
+
+  describe('TransactionManager#pruneTransactionArchive()', function () {
+    it('should remove the transactions archived before the retention days', async function () {
+      const archive = new MemoryTransactionArchive()
+      const day = 24 * 3600
+      await archive.archiveTransactions([
+        createArchivedTransaction(storedTx(1), receipt('0x01', 20), 100),
+        createArchivedTransaction(storedTx(2), receipt('0x02', 21), 100 + day)
+      ])
+      const keyManager = new KeyManager(1, undefined, Buffer.from('seed1234'))
+      const dependencies = { managerKeyManager: keyManager, workersKeyManager: keyManager, contractInteractor: {} as any, txStoreManager: new MemoryTxStore(), transactionArchive: archive }
+      const keepForever = new TransactionManager(dependencies, configureServer({ txArchiveRetentionDays: 0 }))
+      assert.equal(await keepForever.pruneTransactionArchive(100 + 2 * day), 0)
+      const transactionManager = new TransactionManager(dependencies, configureServer({ txArchiveRetentionDays: 1 }))
+      assert.equal(await transactionManager.pruneTransactionArchive(100 + day), 0)
+      assert.equal(await transactionManager.pruneTransactionArchive(101 + day), 1)
+      assert.deepEqual((await archive.query()).map(it => it.nonce), [2])
+    })
+  })
+})
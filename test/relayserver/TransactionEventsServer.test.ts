@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events'
+import http from 'http'
+import { AddressInfo } from 'net'
+import WebSocket from 'ws'
+
+import TransactionLifecycleEvent, { TRANSACTION_EVENTS_PATH } from '../../src/common/TransactionLifecycleEvent'
+import { TransactionEventsServer } from '../../src/relayserver/TransactionEventsServer'
+import { TransactionEventsSubscriber } from '../../src/relayclient/TransactionEventsSubscriber'
+
+const sigHash = '0x' + '1'.repeat(64)
+const txHash = '0x' + '2'.repeat(64)
+const boostedTxHash = '0x' + '3'.repeat(64)
+
+async function nextMessage (socket: WebSocket): Promise<any> {
+  return await new Promise(resolve => socket.once('message', (data: WebSocket.Data) => resolve(JSON.parse(data as string))))
+}
+
+contract('TransactionEventsServer', function () {
+  let backend: EventEmitter
+  let httpServer: http.Server
+  let eventsServer: TransactionEventsServer
+  let relayUrl: string
+
+  beforeEach(async function () {
+    backend = new EventEmitter()
+    httpServer = http.createServer()
+    await new Promise(resolve => httpServer.listen(0, 'localhost', resolve))
+    eventsServer = new TransactionEventsServer(backend, 60000)
+    eventsServer.start(httpServer)
+    relayUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`
+  })
+
+  afterEach(async function () {
+    eventsServer.stop()
+    await new Promise(resolve => httpServer.close(resolve))
+  })
+
+  describe('with a raw websocket client', function () {
+    let socket: WebSocket
+
+    beforeEach(async function () {
+      socket = new WebSocket(TransactionEventsSubscriber.getEventsUrl(relayUrl))
+      await new Promise(resolve => socket.once('open', resolve))
+    })
+
+    afterEach(function () {
+      socket.close()
+    })
+
+    it('should reject malformed messages', async function () {
+      socket.send('not json')
+      assert.match((await nextMessage(socket)).error, /Invalid message/)
+      socket.send(JSON.stringify({ action: 'subscribe', txHash: '0x12' }))
+      assert.match((await nextMessage(socket)).error, /Invalid message/)
+      socket.send(JSON.stringify({ action: 'subscribe' }))
+      assert.match((await nextMessage(socket)).error, /txHash or relayRequestSigHash required/)
+    })
+
+    it('should push only the events of the subscribed transactions', async function () {
+      socket.send(JSON.stringify({ action: 'subscribe', relayRequestSigHash: sigHash }))
+      assert.deepEqual(await nextMessage(socket), { subscribed: sigHash })
+      backend.emit('transactionEvent', { type: 'accepted', relayRequestSigHash: '0x' + '9'.repeat(64) })
+      const accepted: TransactionLifecycleEvent = { type: 'accepted', relayRequestSigHash: sigHash }
+      backend.emit('transactionEvent', accepted)
+      assert.deepEqual(await nextMessage(socket), accepted)
+    })
+
+    it('should follow the transaction through its other hashes until confirmed', async function () {
+      socket.send(JSON.stringify({ action: 'subscribe', relayRequestSigHash: sigHash }))
+      await nextMessage(socket)
+      const events: TransactionLifecycleEvent[] = [
+        { type: 'broadcast', relayRequestSigHash: sigHash, txHash },
+        { type: 'boosted', previousTxHash: txHash, txHash: boostedTxHash },
+        { type: 'confirmed', txHash: boostedTxHash, blockNumber: 12 }
+      ]
+      for (const event of events) {
+        backend.emit('transactionEvent', event)
+        assert.deepEqual(await nextMessage(socket), event)
+      }
+      assert.equal((eventsServer as any).subscriptions.size, 0)
+    })
+
+    it('should expire the subscriptions without events', async function () {
+      socket.send(JSON.stringify({ action: 'subscribe', relayRequestSigHash: sigHash }))
+      await nextMessage(socket)
+      socket.send(JSON.stringify({ action: 'subscribe', txHash }))
+      await nextMessage(socket)
+      backend.emit('transactionEvent', { type: 'broadcast', relayRequestSigHash: sigHash, txHash: boostedTxHash })
+      await nextMessage(socket)
+      eventsServer.expireSubscriptions(Date.now() + 30000)
+      assert.equal((eventsServer as any).subscriptions.size, 3)
+      const expired: any[] = []
+      const received = new Promise(resolve => socket.on('message', (data: WebSocket.Data) => {
+        if (expired.push(JSON.parse(data as string)) === 2) {
+          resolve()
+        }
+      }))
+      eventsServer.expireSubscriptions(Date.now() + 60000)
+      await received
+      assert.deepEqual(expired, [{ expired: [sigHash, boostedTxHash] }, { expired: [txHash] }])
+      assert.equal((eventsServer as any).subscriptions.size, 0)
+    })
+
+    it('should forget the subscriptions of closed connections', async function () {
+      socket.send(JSON.stringify({ action: 'subscribe', txHash }))
+      await nextMessage(socket)
+      assert.equal((eventsServer as any).subscriptions.size, 1)
+      socket.close()
+      await new Promise(resolve => setTimeout(resolve, 100))
+      assert.equal((eventsServer as any).subscriptions.size, 0)
+    })
+  })
+
+  describe('TransactionEventsSubscriber', function () {
+    let subscriber: TransactionEventsSubscriber
+
+    beforeEach(function () {
+      subscriber = new TransactionEventsSubscriber(1000)
+    })
+
+    afterEach(function () {
+      subscriber.close()
+    })
+
+    it('should build the url of the websocket endpoint', function () {
+      assert.equal(TransactionEventsSubscriber.getEventsUrl('https://relay.example.com/'), `wss://relay.example.com${TRANSACTION_EVENTS_PATH}`)
+      assert.equal(TransactionEventsSubscriber.getEventsUrl('http://localhost:8090'), `ws://localhost:8090${TRANSACTION_EVENTS_PATH}`)
+    })
+
+    it('should emit the events of the subscribed transaction, including its boosts', async function () {
+      const received: TransactionLifecycleEvent[] = []
+      const confirmed = new Promise(resolve => subscriber.on('event', (url: string, event: TransactionLifecycleEvent) => {
+        assert.equal(url, relayUrl)
+        received.push(event)
+        if (event.type === 'confirmed') {
+          resolve()
+        }
+      }))
+      await subscriber.subscribe(relayUrl, { relayRequestSigHash: sigHash })
+      // let the server register the subscription
+      await new Promise(resolve => setTimeout(resolve, 100))
+      backend.emit('transactionEvent', { type: 'accepted', relayRequestSigHash: sigHash })
+      backend.emit('transactionEvent', { type: 'broadcast', relayRequestSigHash: sigHash, txHash })
+      backend.emit('transactionEvent', { type: 'boosted', previousTxHash: txHash, txHash: boostedTxHash })
+      backend.emit('transactionEvent', { type: 'confirmed', txHash: boostedTxHash })
+      await confirmed
+      assert.deepEqual(received.map(it => it.type), ['accepted', 'broadcast', 'boosted', 'confirmed'])
+    })
+
+    it('should fail to subscribe to a relay without the endpoint', async function () {
+      await expect(subscriber.subscribe('http://localhost:1', { txHash })).to.be.rejected
+    })
+  })
+})
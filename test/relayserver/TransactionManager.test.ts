@@ -5,6 +5,7 @@ import { evmMineMany, getTestingEnvironment } from '../TestUtils'
 import { RelayServer } from '../../src/relayserver/RelayServer'
 import { HttpProvider } from 'web3-core'
 import { ServerTestEnvironment } from './ServerTestEnvironment'
+import { TransactionSigner } from '../../src/relayserver/TransactionSigner'
 
 contract('TransactionManager', function (accounts) {
   const pendingTransactionTimeoutBlocks = 5
@@ -25,7 +26,7 @@ contract('TransactionManager', function (accounts) {
 
   describe('nonce counter asynchronous access protection', function () {
     let _pollNonceOrig: (signer: string) => Promise<number>
-    let signTransactionOrig: (signer: string, tx: Transaction) => PrefixedHexString
+    let signTransactionOrig: TransactionSigner['signTransaction']
     before(function () {
       _pollNonceOrig = relayServer.transactionManager.pollNonce
       relayServer.transactionManager.pollNonce = async function (signer) {
@@ -46,7 +47,7 @@ contract('TransactionManager', function (accounts) {
           await env.relayTransaction()
         } catch (e) {
           assert.include(e.message, 'no tx for you')
-          assert.isFalse(relayServer.transactionManager.nonceMutex.isLocked(), 'nonce mutex not released after exception')
+          assert.isFalse(relayServer.transactionManager.getNonceMutex(relayServer.workerAddresses[0]).isLocked(), 'nonce mutex not released after exception')
         }
       } finally {
         relayServer.transactionManager.workersKeyManager.signTransaction = signTransactionOrig
@@ -54,6 +55,36 @@ contract('TransactionManager', function (accounts) {
     })
   })
 
+  describe('nonce reservation', function () {
+    it('should give the nonce of a transaction that was not sent to the next one', async function () {
+      const { transactionManager } = relayServer
+      const signer = relayServer.workerAddresses[0]
+      const first = await transactionManager.reserveNonce(signer)
+      const second = await transactionManager.reserveNonce(signer)
+      assert.equal(second, first + 1)
+      await transactionManager.releaseNonce(signer, first)
+      assert.equal(await transactionManager.reserveNonce(signer), first)
+      await transactionManager.releaseNonce(signer, second)
+      await transactionManager.releaseNonce(signer, first)
+      assert.equal(await transactionManager.reserveNonce(signer), first)
+      await transactionManager.releaseNonce(signer, first)
+    })
+
+    it('should not hold the nonce mutex while signing', async function () {
+      const signer = relayServer.workerAddresses[0]
+      const signTransactionOrig = relayServer.transactionManager.workersKeyManager.signTransaction
+      try {
+        relayServer.transactionManager.workersKeyManager.signTransaction = function () {
+          assert.isFalse(relayServer.transactionManager.getNonceMutex(signer).isLocked(), 'nonce mutex held while signing')
+          throw new Error('no tx for you')
+        }
+        await env.relayTransaction().catch(e => assert.include(e.message, 'no tx for you'))
+      } finally {
+        relayServer.transactionManager.workersKeyManager.signTransaction = signTransactionOrig
+      }
+    })
+  })
+
   describe('local storage maintenance', function () {
     let parsedTxHash: PrefixedHexString
     let latestBlock: number
@@ -0,0 +1,182 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { toBN } from 'web3-utils'
+
+import { KeyManager } from '../../src/relayserver/KeyManager'
+import { configureServer } from '../../src/relayserver/ServerConfigParams'
+import { SendTransactionDetails } from '../../src/relayserver/TransactionManager'
+import { ServerAction } from '../../src/relayserver/StoredTransaction'
+import { WorkerRotationContext, WorkerRotator } from '../../src/relayserver/WorkerRotation'
+import { WorkerRotationStore } from '../../src/relayserver/WorkerRotationStore'
+
+const { expect, assert } = chai.use(chaiAsPromised)
+
+const manager = '0x' + '1'.repeat(40)
+const hubAddress = '0x' + '2'.repeat(40)
+const token = '0x' + '3'.repeat(40)
+
+contract('WorkerRotator', function () {
+  const config = configureServer({ workerMinBalance: 1000, maxGasPrice: '2', tokenExchangeRates: { [token]: '1' } })
+  let keyManager: KeyManager
+  let server: WorkerRotationContext
+  let store: WorkerRotationStore
+  let rotator: WorkerRotator
+  let balances: Record<string, number>
+  let tokenBalances: Record<string, number>
+  let enabledWorkers: Set<string>
+  let pendingSigners: Set<string>
+  let sent: SendTransactionDetails[]
+  let addRelayWorkersCalls: number
+
+  function newServer (): WorkerRotationContext {
+    const workerAddresses: string[] = []
+    keyManager = new KeyManager(0, undefined, Buffer.from('seed1234'))
+    const hub: any = {
+      address: hubAddress,
+      registered: true,
+      contractInteractor: {
+        isWorkerEnabled: async (_: string, worker: string) => enabledWorkers.has(worker),
+        getDisableRelayWorkersMethod: async (workers: string[]) => ({ name: 'disableRelayWorkers', workers })
+      },
+      registrationManager: {
+        addRelayWorkers: async () => {
+          addRelayWorkersCalls++
+          return '0xadd'
+        }
+      }
+    }
+    return {
+      config,
+      contractInteractor: {
+        getBalance: async (address: string) => (balances[address] ?? 0).toString(),
+        getGasPrice: async () => '1',
+        getTokenBalance: async (_: string, owner: string) => toBN(tokenBalances[owner] ?? 0),
+        getTokenTransferMethod: async (contract: string, recipient: string, amount: any) => ({ name: 'transfer', contract, recipient, amount })
+      } as any,
+      transactionManager: {
+        attemptEstimateGas: async () => 50000,
+        sendTransaction: async (details: SendTransactionDetails) => {
+          sent.push(details)
+          return { transactionHash: `0x${sent.length}` }
+        }
+      } as any,
+      txStoreManager: {
+        isActionPending: async () => false,
+        getAllBySigner: async (signer: string) => pendingSigners.has(signer) ? [{ signer }] : []
+      } as any,
+      managerAddress: manager,
+      workerAddresses,
+      relayHubs: [hub],
+      addWorker: () => workerAddresses.push(keyManager.addKey()) - 1,
+      tokenHandler: async () => ({})
+    }
+  }
+
+  beforeEach(async function () {
+    balances = {}
+    tokenBalances = {}
+    pendingSigners = new Set()
+    sent = []
+    addRelayWorkersCalls = 0
+    store = new WorkerRotationStore({ inMemory: true })
+    server = newServer()
+    server.addWorker()
+    enabledWorkers = new Set([server.workerAddresses[0]])
+    rotator = new WorkerRotator(server, store)
+    await rotator.init()
+  })
+
+  it('should replace the worker and take back its funds', async function () {
+    const [oldWorker] = server.workerAddresses
+    const rotation = await rotator.start(0, 10)
+    const newWorker = server.workerAddresses[1]
+    assert.equal(rotation.newWorkerIndex, 1)
+    assert.equal(rotation.newWorker, newWorker)
+    assert.isTrue(rotator.isRouted(oldWorker))
+    assert.isFalse(rotator.isRouted(newWorker))
+
+    // waits for the replenish strategy to fund the new worker
+    await rotator.advance(11)
+    assert.equal(rotation.state, 'funding')
+    balances[newWorker] = 1000
+    await rotator.advance(12)
+    assert.equal(rotation.state, 'adding')
+
+    assert.deepEqual(await rotator.advance(13), ['0xadd'])
+    assert.equal(addRelayWorkersCalls, 1)
+    enabledWorkers.add(newWorker)
+    pendingSigners.add(oldWorker)
+    await rotator.advance(14)
+    assert.equal(rotation.state, 'draining')
+    assert.equal(rotation.retiredBlock, 14)
+    assert.isFalse(rotator.isRouted(oldWorker))
+    assert.isTrue(rotator.isRetired(oldWorker))
+    assert.isTrue(rotator.isRouted(newWorker))
+
+    await rotator.advance(15)
+    assert.equal(rotation.state, 'draining')
+    pendingSigners.delete(oldWorker)
+    await rotator.advance(16)
+    assert.equal(rotation.state, 'sweeping')
+
+    tokenBalances[oldWorker] = 7
+    balances[oldWorker] = 50000
+    await rotator.advance(17)
+    assert.equal(sent.length, 1)
+    assert.deepInclude(sent[0], { signer: oldWorker, destination: token, serverAction: ServerAction.VALUE_TRANSFER })
+    assert.equal(sent[0].method.recipient, manager)
+    assert.equal(sent[0].method.amount.toString(), '7')
+
+    // the tokens are not swept again
+    await rotator.advance(18)
+    assert.equal(sent.length, 2)
+    // enough is left to boost the transfer up to maxGasPrice
+    assert.deepInclude(sent[1], { signer: oldWorker, destination: manager, value: '0x' + (50000 - 21000 * 2).toString(16) })
+    balances[oldWorker] = 0
+    await rotator.advance(19)
+    assert.equal(rotation.state, 'disabling')
+
+    await rotator.advance(20)
+    assert.equal(sent.length, 3)
+    assert.deepInclude(sent[2], { signer: manager, destination: hubAddress, serverAction: ServerAction.DISABLE_WORKER })
+    assert.deepEqual(sent[2].method.workers, [oldWorker])
+    enabledWorkers.delete(oldWorker)
+    await rotator.advance(21)
+    assert.equal(rotation.state, 'completed')
+    assert.equal(rotation.completedBlock, 21)
+    assert.deepEqual(rotation.transactionHashes, ['0xadd', '0x1', '0x2', '0x3'])
+    assert.deepInclude(await store.getRotation(newWorker.toLowerCase()), { state: 'completed', transactionHashes: rotation.transactionHashes })
+  })
+
+  it('should not rotate a worker twice, or a worker that does not take requests', async function () {
+    await expect(rotator.start(1, 10)).to.be.rejectedWith('No worker #1, the server has 1 workers')
+    await rotator.start(0, 10)
+    await expect(rotator.start(0, 10)).to.be.rejectedWith('Worker #0 is already being rotated')
+    await expect(rotator.start(1, 10)).to.be.rejectedWith('Worker #1 does not take requests, it cannot be rotated')
+  })
+
+  it('should fail if addRelayWorkers does not add the new worker', async function () {
+    const rotation = await rotator.start(0, 10)
+    balances[server.workerAddresses[1]] = 1000
+    await rotator.advance(11)
+    await rotator.advance(12)
+    await rotator.advance(13)
+    assert.equal(rotation.state, 'failed')
+    assert.match(rotation.error ?? '', /did not add the new worker/)
+    assert.equal(addRelayWorkersCalls, 1)
+    // requests are still routed to the old worker
+    assert.isTrue(rotator.isRouted(server.workerAddresses[0]))
+  })
+
+  it('should derive the new workers again after a restart', async function () {
+    const rotation = await rotator.start(0, 10)
+    server = newServer()
+    server.addWorker()
+    rotator = new WorkerRotator(server, store)
+    await rotator.init()
+    assert.equal(server.workerAddresses.length, 2)
+    assert.equal(server.workerAddresses[1], rotation.newWorker)
+    assert.equal(rotator.getRotations()[0].state, 'funding')
+    assert.isFalse(rotator.isRouted(rotation.newWorker))
+  })
+})